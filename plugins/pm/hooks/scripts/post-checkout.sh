@@ -0,0 +1,30 @@
+#!/bin/bash
+# Post-checkout hook: task timers follow the branch being worked on
+# Stops the timer of the left branch's task; resumes the branch's task timer when it is in progress.
+# Does nothing when the branch did not change (e.g. git checkout -- <file>).
+
+BRANCH=$(git rev-parse --abbrev-ref HEAD 2>/dev/null || echo "")
+
+if [ -z "$BRANCH" ] || [ "$BRANCH" = "HEAD" ]; then
+    exit 0
+fi
+
+# Last branch followed, kept in the git dir
+STATE_FILE="$(git rev-parse --git-dir 2>/dev/null)/pm-branch"
+if [ -f "$STATE_FILE" ]; then
+    LAST=$(cat "$STATE_FILE")
+else
+    LAST=$(git rev-parse --abbrev-ref @{-1} 2>/dev/null || echo "")
+fi
+
+if [ "$LAST" = "$BRANCH" ]; then
+    exit 0
+fi
+echo "$BRANCH" > "$STATE_FILE"
+
+PLUGIN_ROOT="${CLAUDE_PLUGIN_ROOT:-$(cd "$(dirname "$0")/../.." && pwd)}"
+SWITCHER="$PLUGIN_ROOT/dist/mcp/switch-branch.js"
+
+if [ -f "$SWITCHER" ]; then
+    node "$SWITCHER" "$BRANCH" ${LAST:+--from "$LAST"} 2>&1 || true
+fi
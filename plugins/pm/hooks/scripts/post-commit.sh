@@ -1,5 +1,5 @@
 #!/bin/bash
-# Post-commit hook: Link commit to task and process magic words
+# Post-commit hook: Link commit to task and apply magic words
 # LEVEL_1 Implementation - Git-First, Conventional Commits + Magic Words
 
 set -e
@@ -96,8 +96,19 @@ if [ -z "$TASK_ID" ] && [ -z "$FIXES" ] && [ -z "$REFS" ]; then
     echo "Or add 'refs #42' to commit message"
 fi
 
+# Apply magic words to tasks (link commit + status changes)
+PLUGIN_ROOT="${CLAUDE_PLUGIN_ROOT:-$(cd "$(dirname "$0")/../.." && pwd)}"
+PROCESSOR="$PLUGIN_ROOT/dist/mcp/process-commit.js"
+
+if echo "$COMMIT_MSG" | grep -qE '#[0-9]+'; then
+    echo ""
+    if [ -f "$PROCESSOR" ]; then
+        node "$PROCESSOR" "$COMMIT_SHA" --branch "$BRANCH" 2>&1 || true
+    else
+        echo "Task updates not applied: build the plugin (npm run build)"
+        echo "or run pm_git_commit_process for ${COMMIT_SHA:0:7}"
+    fi
+fi
+
 echo ""
 echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
-
-# Note: Actual task status updates are done via MCP tools
-# This script outputs information for Claude to process
@@ -21,6 +21,7 @@ export interface GitHubConfig {
 
 export interface GitHubIssue {
   number: number;
+  url?: string;
   title: string;
   body: string;
   state: "open" | "closed";
@@ -35,6 +36,13 @@ export interface GitHubIssue {
   closedAt?: string;
 }
 
+export interface GitHubLabel {
+  id: string; // node ID; stays the same across renames
+  name: string;
+  color: string; // hex without '#'
+  description: string;
+}
+
 export interface GitHubPR {
   number: number;
   title: string;
@@ -53,12 +61,36 @@ export interface GitHubPR {
 
 export interface GitHubProjectItem {
   id: string;
+  projectId?: string;
+  projectNumber?: number;
   contentId: number;
   contentType: "Issue" | "PullRequest";
   status?: string;
   fields: Record<string, unknown>;
 }
 
+export interface GitHubProjectField {
+  id: string;
+  name: string;
+  dataType: string; // SINGLE_SELECT, NUMBER, TEXT, DATE, ITERATION, ...
+  options?: { id: string; name: string }[];
+  iterations?: { id: string; title: string; startDate: string; duration: number }[];
+}
+
+export interface GitHubProject {
+  id: string;
+  number: number;
+  title: string;
+  fields: GitHubProjectField[];
+}
+
+export type ProjectFieldValue =
+  | { singleSelectOptionId: string }
+  | { iterationId: string }
+  | { number: number }
+  | { text: string }
+  | { date: string };
+
 // ============================================
 // GitHub CLI Wrapper
 // ============================================
@@ -86,6 +118,41 @@ function ghJson<T>(args: string): T {
   return JSON.parse(result) as T;
 }
 
+/**
+ * Execute a GraphQL request through gh (body passed on stdin, no shell quoting)
+ */
+function ghGraphQL<T>(query: string, variables: Record<string, unknown>): T {
+  let output: string;
+  try {
+    output = execSync("gh api graphql --input -", {
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+      input: JSON.stringify({ query, variables }),
+    }).trim();
+  } catch (error) {
+    const err = error as Error & { stderr?: string };
+    throw new Error(`GitHub CLI error: ${err.stderr || err.message}`);
+  }
+
+  const result = JSON.parse(output) as { data?: T; errors?: { message: string }[] };
+  if (result.errors?.length) {
+    throw new Error(`GitHub GraphQL error: ${result.errors.map((e) => e.message).join("; ")}`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Split owner/repo, falling back to the current repository
+ */
+function resolveRepo(repo?: string): { owner: string; name: string } | null {
+  if (repo) {
+    const [owner, name] = repo.split("/");
+    return owner && name ? { owner, name } : null;
+  }
+  const info = getRepoInfo();
+  return info ? { owner: info.owner, name: info.repo } : null;
+}
+
 // ============================================
 // Repository Info
 // ============================================
@@ -107,6 +174,17 @@ export function getRepoInfo(): GitHubConfig | null {
   }
 }
 
+/**
+ * Login of the authenticated GitHub user
+ */
+export function getCurrentUser(): string | null {
+  try {
+    return gh("api user --jq .login") || null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if gh CLI is authenticated
  */
@@ -123,38 +201,52 @@ export function isAuthenticated(): boolean {
 // Issues
 // ============================================
 
+const ISSUE_JSON_FIELDS =
+  "number,url,title,body,state,labels,assignees,milestone,createdAt,updatedAt,closedAt";
+
+interface RawIssue {
+  number: number;
+  url?: string;
+  title: string;
+  body: string;
+  state: string;
+  labels: { name: string }[];
+  assignees: { login: string }[];
+  milestone?: { number: number; title: string };
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+}
+
+/**
+ * Normalize gh JSON output (gh reports state as OPEN/CLOSED)
+ */
+function toGitHubIssue(issue: RawIssue): GitHubIssue {
+  return {
+    number: issue.number,
+    url: issue.url,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state.toLowerCase() as "open" | "closed",
+    labels: issue.labels.map((l) => l.name),
+    assignees: issue.assignees.map((a) => a.login),
+    milestone: issue.milestone,
+    createdAt: issue.createdAt,
+    updatedAt: issue.updatedAt,
+    closedAt: issue.closedAt,
+  };
+}
+
 /**
  * Get issue by number
  */
-export function getIssue(number: number): GitHubIssue | null {
+export function getIssue(number: number, repo?: string): GitHubIssue | null {
   try {
-    const issue = ghJson<{
-      number: number;
-      title: string;
-      body: string;
-      state: string;
-      labels: { name: string }[];
-      assignees: { login: string }[];
-      milestone?: { number: number; title: string };
-      createdAt: string;
-      updatedAt: string;
-      closedAt?: string;
-    }>(
-      `issue view ${number} --json number,title,body,state,labels,assignees,milestone,createdAt,updatedAt,closedAt`
+    const repoArg = repo ? ` --repo ${repo}` : "";
+    const issue = ghJson<RawIssue>(
+      `issue view ${number}${repoArg} --json ${ISSUE_JSON_FIELDS}`
     );
-
-    return {
-      number: issue.number,
-      title: issue.title,
-      body: issue.body,
-      state: issue.state as "open" | "closed",
-      labels: issue.labels.map((l) => l.name),
-      assignees: issue.assignees.map((a) => a.login),
-      milestone: issue.milestone,
-      createdAt: issue.createdAt,
-      updatedAt: issue.updatedAt,
-      closedAt: issue.closedAt,
-    };
+    return toGitHubIssue(issue);
   } catch {
     return null;
   }
@@ -162,60 +254,35 @@ export function getIssue(number: number): GitHubIssue | null {
 
 /**
  * List issues
+ * `search` accepts GitHub search qualifiers, e.g. "updated:>=2025-01-01 sort:updated-asc"
+ * Throws when gh fails, so an outage is not mistaken for no (updated) issues.
  */
 export function listIssues(options?: {
+  repo?: string;
   state?: "open" | "closed" | "all";
   labels?: string[];
   assignee?: string;
+  search?: string;
   limit?: number;
 }): GitHubIssue[] {
-  try {
-    const args = ["issue list"];
+  const args = ["issue list"];
 
-    if (options?.state) args.push(`--state ${options.state}`);
-    if (options?.labels) args.push(`--label "${options.labels.join(",")}"`);
-    if (options?.assignee) args.push(`--assignee ${options.assignee}`);
-    args.push(`--limit ${options?.limit || 50}`);
-    args.push(
-      "--json number,title,body,state,labels,assignees,milestone,createdAt,updatedAt,closedAt"
-    );
+  if (options?.repo) args.push(`--repo ${options.repo}`);
+  if (options?.state) args.push(`--state ${options.state}`);
+  if (options?.labels) args.push(`--label "${options.labels.join(",")}"`);
+  if (options?.assignee) args.push(`--assignee ${options.assignee}`);
+  if (options?.search) args.push(`--search "${options.search}"`);
+  args.push(`--limit ${options?.limit || 50}`);
+  args.push(`--json ${ISSUE_JSON_FIELDS}`);
 
-    const issues = ghJson<
-      {
-        number: number;
-        title: string;
-        body: string;
-        state: string;
-        labels: { name: string }[];
-        assignees: { login: string }[];
-        milestone?: { number: number; title: string };
-        createdAt: string;
-        updatedAt: string;
-        closedAt?: string;
-      }[]
-    >(args.join(" "));
-
-    return issues.map((issue) => ({
-      number: issue.number,
-      title: issue.title,
-      body: issue.body,
-      state: issue.state as "open" | "closed",
-      labels: issue.labels.map((l) => l.name),
-      assignees: issue.assignees.map((a) => a.login),
-      milestone: issue.milestone,
-      createdAt: issue.createdAt,
-      updatedAt: issue.updatedAt,
-      closedAt: issue.closedAt,
-    }));
-  } catch {
-    return [];
-  }
+  return ghJson<RawIssue[]>(args.join(" ")).map(toGitHubIssue);
 }
 
 /**
  * Create a new issue
  */
 export function createIssue(params: {
+  repo?: string;
   title: string;
   body?: string;
   labels?: string[];
@@ -225,6 +292,7 @@ export function createIssue(params: {
   try {
     const args = [`issue create --title "${params.title}"`];
 
+    if (params.repo) args.push(`--repo ${params.repo}`);
     if (params.body) args.push(`--body "${params.body}"`);
     if (params.labels) args.push(`--label "${params.labels.join(",")}"`);
     if (params.assignees) args.push(`--assignee "${params.assignees.join(",")}"`);
@@ -233,7 +301,7 @@ export function createIssue(params: {
     const result = gh(args.join(" "));
     const match = result.match(/\/issues\/(\d+)/);
     if (match) {
-      return getIssue(parseInt(match[1], 10));
+      return getIssue(parseInt(match[1], 10), params.repo);
     }
     return null;
   } catch {
@@ -241,18 +309,62 @@ export function createIssue(params: {
   }
 }
 
+/**
+ * Quote a value for the shell (free text such as titles and bodies)
+ */
+function shellQuote(value: string): string {
+  return `"${value.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+/**
+ * Edit issue fields (title, body, labels, assignees)
+ */
+export function updateIssue(
+  number: number,
+  changes: {
+    title?: string;
+    body?: string;
+    addLabels?: string[];
+    removeLabels?: string[];
+    addAssignees?: string[];
+    removeAssignees?: string[];
+  },
+  repo?: string
+): boolean {
+  const args = [`issue edit ${number}`];
+
+  if (repo) args.push(`--repo ${repo}`);
+  if (changes.title !== undefined) args.push(`--title ${shellQuote(changes.title)}`);
+  if (changes.body !== undefined) args.push(`--body ${shellQuote(changes.body)}`);
+  if (changes.addLabels?.length) args.push(`--add-label ${shellQuote(changes.addLabels.join(","))}`);
+  if (changes.removeLabels?.length) args.push(`--remove-label ${shellQuote(changes.removeLabels.join(","))}`);
+  if (changes.addAssignees?.length) args.push(`--add-assignee ${shellQuote(changes.addAssignees.join(","))}`);
+  if (changes.removeAssignees?.length) args.push(`--remove-assignee ${shellQuote(changes.removeAssignees.join(","))}`);
+
+  if (args.length === (repo ? 2 : 1)) return true;
+
+  try {
+    gh(args.join(" "));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Update issue state
  */
 export function updateIssueState(
   number: number,
-  state: "open" | "closed"
+  state: "open" | "closed",
+  repo?: string
 ): boolean {
   try {
+    const repoArg = repo ? ` --repo ${repo}` : "";
     if (state === "closed") {
-      gh(`issue close ${number}`);
+      gh(`issue close ${number}${repoArg}`);
     } else {
-      gh(`issue reopen ${number}`);
+      gh(`issue reopen ${number}${repoArg}`);
     }
     return true;
   } catch {
@@ -263,9 +375,79 @@ export function updateIssueState(
 /**
  * Add comment to issue
  */
-export function addIssueComment(number: number, body: string): boolean {
+export function addIssueComment(number: number, body: string, repo?: string): boolean {
+  try {
+    const repoArg = repo ? ` --repo ${repo}` : "";
+    gh(`issue comment ${number}${repoArg} --body "${body}"`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// Labels
+// ============================================
+
+/**
+ * Labels of a repository.
+ * Throws when gh fails, so an outage is not mistaken for a repo without labels.
+ */
+export function listLabels(repo?: string): GitHubLabel[] {
+  const repoArg = repo ? ` --repo ${repo}` : "";
+  return ghJson<GitHubLabel[]>(`label list${repoArg} --json id,name,color,description --limit 1000`).map(
+    (label) => ({ ...label, color: label.color.toLowerCase(), description: label.description || "" })
+  );
+}
+
+/**
+ * Create a label
+ */
+export function createLabel(
+  params: { name: string; color: string; description?: string },
+  repo?: string
+): boolean {
+  const args = [`label create ${shellQuote(params.name)}`, `--color ${params.color}`];
+  if (repo) args.push(`--repo ${repo}`);
+  if (params.description) args.push(`--description ${shellQuote(params.description)}`);
+
+  try {
+    gh(args.join(" "));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rename or restyle a label
+ */
+export function updateLabel(
+  name: string,
+  changes: { name?: string; color?: string; description?: string },
+  repo?: string
+): boolean {
+  const args = [`label edit ${shellQuote(name)}`];
+  if (repo) args.push(`--repo ${repo}`);
+  if (changes.name !== undefined) args.push(`--name ${shellQuote(changes.name)}`);
+  if (changes.color !== undefined) args.push(`--color ${changes.color}`);
+  if (changes.description !== undefined) args.push(`--description ${shellQuote(changes.description)}`);
+
+  try {
+    gh(args.join(" "));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Delete a label (also removes it from every issue)
+ */
+export function deleteLabel(name: string, repo?: string): boolean {
   try {
-    gh(`issue comment ${number} --body "${body}"`);
+    const repoArg = repo ? ` --repo ${repo}` : "";
+    gh(`label delete ${shellQuote(name)}${repoArg} --yes`);
     return true;
   } catch {
     return false;
@@ -416,35 +598,222 @@ export function listPRs(options?: {
 // Projects (v2)
 // ============================================
 
+const PROJECT_QUERY = `
+  query($owner: String!, $number: Int!) {
+    repositoryOwner(login: $owner) {
+      ... on User { projectV2(number: $number) { ...ProjectParts } }
+      ... on Organization { projectV2(number: $number) { ...ProjectParts } }
+    }
+  }
+  fragment ProjectParts on ProjectV2 {
+    id
+    number
+    title
+    fields(first: 50) {
+      nodes {
+        ... on ProjectV2FieldCommon { id name dataType }
+        ... on ProjectV2SingleSelectField { options { id name } }
+        ... on ProjectV2IterationField {
+          configuration { iterations { id title startDate duration } }
+        }
+      }
+    }
+  }
+`;
+
+interface RawProject {
+  id: string;
+  number: number;
+  title: string;
+  fields: {
+    nodes: {
+      id?: string;
+      name?: string;
+      dataType?: string;
+      options?: { id: string; name: string }[];
+      configuration?: {
+        iterations: { id: string; title: string; startDate: string; duration: number }[];
+      };
+    }[];
+  };
+}
+
+/**
+ * Resolve a Projects v2 board and its fields (user or organization owner)
+ */
+export function getProject(owner: string, number: number): GitHubProject | null {
+  try {
+    const data = ghGraphQL<{
+      repositoryOwner: { projectV2?: RawProject | null } | null;
+    }>(PROJECT_QUERY, { owner, number });
+
+    const project = data.repositoryOwner?.projectV2;
+    if (!project) return null;
+
+    return {
+      id: project.id,
+      number: project.number,
+      title: project.title,
+      fields: project.fields.nodes
+        .filter((f) => f.id && f.name)
+        .map((f) => ({
+          id: f.id!,
+          name: f.name!,
+          dataType: f.dataType ?? "TEXT",
+          options: f.options,
+          iterations: f.configuration?.iterations,
+        })),
+    };
+  } catch {
+    return null;
+  }
+}
+
 /**
- * Get project items for an issue
+ * Get the GraphQL node id of an issue (needed to add it to a project)
+ */
+export function getIssueNodeId(number: number, repo?: string): string | null {
+  try {
+    const repoArg = repo ? ` --repo ${repo}` : "";
+    return ghJson<{ id: string }>(`issue view ${number}${repoArg} --json id`).id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add an issue or PR to a project; returns the project item id.
+ * GitHub returns the existing item if the content is already on the board.
+ */
+export function addProjectItem(projectId: string, contentId: string): string | null {
+  try {
+    const data = ghGraphQL<{ addProjectV2ItemById: { item: { id: string } } }>(
+      `mutation($projectId: ID!, $contentId: ID!) {
+        addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+          item { id }
+        }
+      }`,
+      { projectId, contentId }
+    );
+    return data.addProjectV2ItemById.item.id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set a single field value on a project item
+ */
+export function updateProjectItemField(
+  projectId: string,
+  itemId: string,
+  fieldId: string,
+  value: ProjectFieldValue
+): boolean {
+  try {
+    ghGraphQL(
+      `mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+        updateProjectV2ItemFieldValue(
+          input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value }
+        ) {
+          projectV2Item { id }
+        }
+      }`,
+      { projectId, itemId, fieldId, value }
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const PROJECT_ITEMS_FRAGMENT = `
+  projectItems(first: 20) {
+    nodes {
+      id
+      project { id number }
+      fieldValues(first: 30) {
+        nodes {
+          ... on ProjectV2ItemFieldSingleSelectValue { name field { ... on ProjectV2FieldCommon { name } } }
+          ... on ProjectV2ItemFieldTextValue { text field { ... on ProjectV2FieldCommon { name } } }
+          ... on ProjectV2ItemFieldNumberValue { number field { ... on ProjectV2FieldCommon { name } } }
+          ... on ProjectV2ItemFieldDateValue { date field { ... on ProjectV2FieldCommon { name } } }
+          ... on ProjectV2ItemFieldIterationValue { title field { ... on ProjectV2FieldCommon { name } } }
+        }
+      }
+    }
+  }
+`;
+
+interface RawFieldValue {
+  field?: { name?: string };
+  name?: string;
+  text?: string;
+  number?: number;
+  date?: string;
+  title?: string;
+}
+
+/**
+ * Get project items (with all field values) for an issue or PR
  */
 export function getProjectItems(
-  issueNumber: number
+  issueNumber: number,
+  repo?: string
 ): GitHubProjectItem[] {
   try {
-    // This requires GraphQL, simplified version using gh CLI
-    const result = ghJson<{
-      projectItems: {
-        nodes: {
-          id: string;
-          project: { number: number };
-          content: { number: number; type: string };
-          fieldValues: { nodes: { field: { name: string }; text?: string }[] };
-        }[];
+    const target = resolveRepo(repo);
+    if (!target) return [];
+
+    const data = ghGraphQL<{
+      repository: {
+        issueOrPullRequest: {
+          __typename: "Issue" | "PullRequest";
+          number: number;
+          projectItems: {
+            nodes: {
+              id: string;
+              project: { id: string; number: number };
+              fieldValues: { nodes: RawFieldValue[] };
+            }[];
+          };
+        } | null;
       };
-    }>(`issue view ${issueNumber} --json projectItems`);
-
-    return result.projectItems.nodes.map((item) => ({
-      id: item.id,
-      contentId: item.content.number,
-      contentType: item.content.type as "Issue" | "PullRequest",
-      fields: Object.fromEntries(
-        item.fieldValues.nodes
-          .filter((f) => f.text)
-          .map((f) => [f.field.name, f.text])
-      ),
-    }));
+    }>(
+      `query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) {
+          issueOrPullRequest(number: $number) {
+            __typename
+            ... on Issue { number ${PROJECT_ITEMS_FRAGMENT} }
+            ... on PullRequest { number ${PROJECT_ITEMS_FRAGMENT} }
+          }
+        }
+      }`,
+      { owner: target.owner, name: target.name, number: issueNumber }
+    );
+
+    const content = data.repository.issueOrPullRequest;
+    if (!content) return [];
+
+    return content.projectItems.nodes.map((item) => {
+      const fields: Record<string, unknown> = {};
+      for (const value of item.fieldValues.nodes) {
+        const fieldName = value.field?.name;
+        if (!fieldName) continue;
+        const fieldValue = value.name ?? value.text ?? value.number ?? value.date ?? value.title;
+        if (fieldValue !== undefined) fields[fieldName] = fieldValue;
+      }
+
+      return {
+        id: item.id,
+        projectId: item.project.id,
+        projectNumber: item.project.number,
+        contentId: content.number,
+        contentType: content.__typename,
+        status: typeof fields.Status === "string" ? fields.Status : undefined,
+        fields,
+      };
+    });
   } catch {
     return [];
   }
@@ -79,6 +79,23 @@ export const DEFAULT_MAPPINGS: StatusMapping[] = [
   },
 ];
 
+/**
+ * Colors and descriptions for the status labels, created on GitHub by label sync
+ */
+export const STATUS_LABEL_STYLES: Record<string, { color: string; description: string }> = {
+  "in-progress": { color: "fbca04", description: "Work in progress" },
+  "in-review": { color: "0e8a16", description: "Waiting for review" },
+  blocked: { color: "b60205", description: "Blocked by another task or decision" },
+  wontfix: { color: "ffffff", description: "This will not be worked on" },
+};
+
+/**
+ * Whether a label only encodes a status (see DEFAULT_MAPPINGS)
+ */
+export function isStatusLabel(label: string): boolean {
+  return DEFAULT_MAPPINGS.some((m) => m.labels.includes(label.toLowerCase()));
+}
+
 // ============================================
 // PM → GitHub Mapping
 // ============================================
@@ -166,6 +183,66 @@ export function projectStatusToPM(status: string): PMStatus {
   return "todo";
 }
 
+// ============================================
+// Project Field Mappings
+// ============================================
+
+/**
+ * Which GitHub Project fields receive which task attributes (project_config.field_mappings).
+ * Field names are matched case-insensitively; set a field to null to skip it.
+ */
+export interface ProjectFieldMappings {
+  status: string | null;
+  priority: string | null;
+  estimate: string | null;
+  iteration: string | null;
+  statusValues: Partial<Record<PMStatus, string>>; // Overrides pmToProjectStatus option names
+  priorityValues: Record<string, string>;
+}
+
+export const DEFAULT_FIELD_MAPPINGS: ProjectFieldMappings = {
+  status: "Status",
+  priority: "Priority",
+  estimate: "Estimate",
+  iteration: "Iteration",
+  statusValues: {},
+  priorityValues: {
+    critical: "Critical",
+    high: "High",
+    medium: "Medium",
+    low: "Low",
+  },
+};
+
+/**
+ * Parse stored field_mappings JSON over the defaults (invalid JSON → defaults)
+ */
+export function parseFieldMappings(json?: string | null): ProjectFieldMappings {
+  if (!json) return DEFAULT_FIELD_MAPPINGS;
+
+  try {
+    const parsed = JSON.parse(json) as Partial<ProjectFieldMappings>;
+    return {
+      ...DEFAULT_FIELD_MAPPINGS,
+      ...parsed,
+      statusValues: { ...DEFAULT_FIELD_MAPPINGS.statusValues, ...parsed.statusValues },
+      priorityValues: { ...DEFAULT_FIELD_MAPPINGS.priorityValues, ...parsed.priorityValues },
+    };
+  } catch {
+    return DEFAULT_FIELD_MAPPINGS;
+  }
+}
+
+/**
+ * Get the project Status option name for a PM status, honoring overrides
+ */
+export function pmToProjectOption(
+  status: PMStatus,
+  mappings: ProjectFieldMappings = DEFAULT_FIELD_MAPPINGS
+): string {
+  return mappings.statusValues[status] ?? pmToProjectStatus(status);
+}
+
 // ============================================
 // Magic Words → Status Mapping
 // ============================================
@@ -18,8 +18,10 @@ import {
 import {
   pmToIssueState,
   issueToPMStatus,
+  DEFAULT_MAPPINGS,
   type PMStatus,
 } from "./status-mapper.js";
+import type { GitHubIssue } from "./github.js";
 
 // ============================================
 // Types
@@ -43,6 +45,16 @@ export interface SyncResult {
   errors: string[];
 }
 
+export type ConflictField = "status" | "title" | "description" | "labels" | "assignee";
+
+export type ConflictValue = string | string[] | null;
+
+export interface FieldConflict {
+  field: ConflictField;
+  local: ConflictValue;
+  remote: ConflictValue;
+}
+
 export interface SyncConflict {
   taskId: string;
   issueNumber: number;
@@ -50,6 +62,14 @@ export interface SyncConflict {
   remoteStatus: PMStatus;
   localUpdatedAt: string;
   remoteUpdatedAt: string;
+  fields: FieldConflict[];
+}
+
+/**
+ * Receives conflicts found during a manual-resolution pull
+ */
+export interface ConflictStore {
+  record(conflict: SyncConflict): void;
 }
 
 export interface LocalTask {
@@ -59,6 +79,48 @@ export interface LocalTask {
   status: PMStatus;
   issueNumber?: number;
   updatedAt: string;
+  labels?: string[]; // Compared only when provided
+  assignee?: string | null; // null = unassigned; undefined = not compared
+}
+
+// Status labels are derived from status, not compared as labels
+const STATUS_LABELS = new Set(DEFAULT_MAPPINGS.flatMap((m) => m.labels));
+
+/**
+ * Field-level differences between a local task and its GitHub issue
+ */
+export function diffTaskAndIssue(task: LocalTask, issue: GitHubIssue): FieldConflict[] {
+  const diffs: FieldConflict[] = [];
+
+  const remoteStatus = issueToPMStatus(issue.state, issue.labels);
+  if (task.status !== remoteStatus) {
+    diffs.push({ field: "status", local: task.status, remote: remoteStatus });
+  }
+
+  if (task.title !== issue.title) {
+    diffs.push({ field: "title", local: task.title, remote: issue.title });
+  }
+
+  if (task.description !== undefined && (task.description || "") !== (issue.body || "")) {
+    diffs.push({ field: "description", local: task.description || null, remote: issue.body || null });
+  }
+
+  if (task.labels !== undefined) {
+    const local = [...task.labels].sort();
+    const remote = issue.labels.filter((l) => !STATUS_LABELS.has(l)).sort();
+    if (local.join(",") !== remote.join(",")) {
+      diffs.push({ field: "labels", local, remote });
+    }
+  }
+
+  if (task.assignee !== undefined) {
+    const remote = issue.assignees[0] ?? null;
+    if ((task.assignee || null) !== remote) {
+      diffs.push({ field: "assignee", local: task.assignee || null, remote });
+    }
+  }
+
+  return diffs;
 }
 
 // ============================================
@@ -68,7 +130,7 @@ export interface LocalTask {
 export class SyncEngine {
   private config: SyncConfig;
 
-  constructor(config: Partial<SyncConfig>) {
+  constructor(config: Partial<SyncConfig>, private conflictStore?: ConflictStore) {
     const repoInfo = getRepoInfo();
 
     this.config = {
@@ -111,7 +173,11 @@ export class SyncEngine {
 
     try {
       // Get all open issues from GitHub
-      const issues = listIssues({ state: "all", limit: 100 });
+      const issues = listIssues({
+        repo: `${this.config.owner}/${this.config.repo}`,
+        state: "all",
+        limit: 100,
+      });
 
       for (const issue of issues) {
         const localTask = localTasks.find(
@@ -121,8 +187,9 @@ export class SyncEngine {
         if (localTask) {
           // Check for updates
           const remoteStatus = issueToPMStatus(issue.state, issue.labels);
+          const diffs = diffTaskAndIssue(localTask, issue);
 
-          if (localTask.status !== remoteStatus) {
+          if (diffs.length > 0) {
             // Check for conflict
             const localTime = new Date(localTask.updatedAt).getTime();
             const remoteTime = new Date(issue.updatedAt).getTime();
@@ -131,14 +198,17 @@ export class SyncEngine {
               localTime > remoteTime &&
               this.config.conflictResolution === "manual"
             ) {
-              result.conflicts.push({
+              const conflict: SyncConflict = {
                 taskId: localTask.id,
                 issueNumber: issue.number,
                 localStatus: localTask.status,
                 remoteStatus,
                 localUpdatedAt: localTask.updatedAt,
                 remoteUpdatedAt: issue.updatedAt,
-              });
+                fields: diffs,
+              };
+              result.conflicts.push(conflict);
+              this.conflictStore?.record(conflict);
             } else {
               // Update local with remote (GitHub wins or remote is newer)
               result.updated++;
@@ -355,6 +425,9 @@ export class SyncEngine {
 /**
  * Create a sync engine instance
  */
-export function createSyncEngine(config?: Partial<SyncConfig>): SyncEngine {
-  return new SyncEngine(config ?? {});
+export function createSyncEngine(
+  config?: Partial<SyncConfig>,
+  conflictStore?: ConflictStore
+): SyncEngine {
+  return new SyncEngine(config ?? {}, conflictStore);
 }
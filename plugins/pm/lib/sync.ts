@@ -20,10 +20,39 @@ import {
 import {
   getRepoInfo,
   getIssue,
+  listIssues,
+  updateIssue,
   updateIssueState,
   addIssueComment,
+  getProject,
+  getIssueNodeId,
+  addProjectItem,
+  updateProjectItemField,
   GitHubConfig,
+  GitHubIssue,
+  GitHubProject,
+  GitHubProjectField,
+  ProjectFieldValue,
 } from "./github.js";
+import {
+  issueToPMStatus,
+  parseFieldMappings,
+  pmToProjectOption,
+  DEFAULT_MAPPINGS,
+  PMStatus,
+  ProjectFieldMappings,
+} from "./status-mapper.js";
+import { EventStore, createTaskEvent } from "../storage/lib/events.js";
+import {
+  statusTimerEvents,
+  type Task,
+  type TaskRepository,
+  type TaskUpdateEvent,
+  type ProjectConfig,
+  type ProjectConfigRepository,
+  type ProjectRepository,
+  type SyncQueueRepository,
+} from "../mcp/lib/projections.js";
 
 // ============================================
 // Types
@@ -41,6 +70,8 @@ export interface SyncResult {
     issues: number;
     prs: number;
     projects: number;
+    created: number;
+    updated: number;
   };
   pushed: {
     statusUpdates: number;
@@ -49,6 +80,43 @@ export interface SyncResult {
   errors: string[];
 }
 
+export interface SyncPullStore {
+  eventStore: EventStore;
+  taskRepo: TaskRepository;
+  projectRepo: ProjectRepository;
+  configRepo: ProjectConfigRepository;
+}
+
+/**
+ * Everything needed to place one issue on a Projects v2 board.
+ * Self-contained so it can be stored as a sync queue payload.
+ */
+export interface ProjectItemSyncInput {
+  repo: string; // owner/repo
+  projectNumber: number;
+  issueNumber: number;
+  itemId?: string;
+  status: PMStatus;
+  priority?: string;
+  estimatePoints?: number;
+  iteration?: { title: string; startDate?: string }; // From the task's sprint
+  fieldMappings?: string; // project_config.field_mappings JSON
+}
+
+export interface ProjectFieldUpdate {
+  field: string;
+  fieldId: string;
+  value: ProjectFieldValue;
+  display: string;
+}
+
+export interface ProjectItemSyncResult {
+  projectId: string;
+  itemId: string;
+  updated: string[]; // "Status=In Progress"
+  skipped: string[]; // Reasons a mapped field was not set
+}
+
 export interface GitEvent {
   id: string;
   eventType: "commit" | "branch" | "merge" | "tag" | "push" | "pr";
@@ -68,13 +136,15 @@ export interface GitEvent {
 
 export interface SyncQueueItem {
   id?: number;
+  projectId?: string;
   action: string;
   entityType: string;
   entityId: string;
   payload: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "dead";
   retryCount: number;
   errorMessage?: string;
+  nextAttemptAt?: string; // When a failed item becomes due again
   createdAt: string;
   processedAt?: string;
 }
@@ -203,7 +273,8 @@ export function processMagicWords(commit: GitCommit): Map<number, string> {
 export function syncTaskToGitHub(
   taskId: number,
   status: string,
-  config: SyncConfig
+  config: SyncConfig,
+  repo?: string
 ): boolean {
   if (!config.githubEnabled || config.syncMode !== "bidirectional") {
     return false;
@@ -212,7 +283,7 @@ export function syncTaskToGitHub(
   try {
     // Map task status to GitHub issue state
     const shouldClose = status === "done";
-    const currentIssue = getIssue(taskId);
+    const currentIssue = getIssue(taskId, repo);
 
     if (!currentIssue) {
       return false;
@@ -221,9 +292,9 @@ export function syncTaskToGitHub(
     // Only update if state differs
     const currentState = currentIssue.state;
     if (shouldClose && currentState === "open") {
-      return updateIssueState(taskId, "closed");
+      return updateIssueState(taskId, "closed", repo);
     } else if (!shouldClose && currentState === "closed") {
-      return updateIssueState(taskId, "open");
+      return updateIssueState(taskId, "open", repo);
     }
 
     return true;
@@ -238,20 +309,201 @@ export function syncTaskToGitHub(
 export function addStatusComment(
   issueNumber: number,
   status: string,
-  commitSha?: string
+  commitSha?: string,
+  repo?: string
 ): boolean {
   const shortSha = commitSha?.slice(0, 7);
   const message = commitSha
     ? `📋 Task status changed to **${status}** (commit: ${shortSha})`
     : `📋 Task status changed to **${status}**`;
 
-  return addIssueComment(issueNumber, message);
+  return addIssueComment(issueNumber, message, repo);
+}
+
+// ============================================
+// Project (v2) Synchronization
+// ============================================
+
+function findField(project: GitHubProject, name: string | null): GitHubProjectField | undefined {
+  if (!name) return undefined;
+  return project.fields.find((f) => f.name.toLowerCase() === name.toLowerCase());
+}
+
+function findOption(field: GitHubProjectField, name: string): { id: string; name: string } | undefined {
+  return field.options?.find((o) => o.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Work out which field values to set for an item. Pure: no GitHub calls.
+ */
+export function resolveProjectFieldUpdates(
+  project: GitHubProject,
+  input: ProjectItemSyncInput,
+  mappings: ProjectFieldMappings = parseFieldMappings(input.fieldMappings)
+): { updates: ProjectFieldUpdate[]; skipped: string[] } {
+  const updates: ProjectFieldUpdate[] = [];
+  const skipped: string[] = [];
+
+  const statusField = findField(project, mappings.status);
+  if (statusField) {
+    const optionName = pmToProjectOption(input.status, mappings);
+    const option = findOption(statusField, optionName);
+    if (option) {
+      updates.push({
+        field: statusField.name,
+        fieldId: statusField.id,
+        value: { singleSelectOptionId: option.id },
+        display: option.name,
+      });
+    } else {
+      skipped.push(`${statusField.name}: no option "${optionName}"`);
+    }
+  } else if (mappings.status) {
+    skipped.push(`${mappings.status}: field not found`);
+  }
+
+  const priorityField = findField(project, mappings.priority);
+  if (priorityField && input.priority) {
+    const optionName = mappings.priorityValues[input.priority] ?? input.priority;
+    const option = findOption(priorityField, optionName);
+    if (option) {
+      updates.push({
+        field: priorityField.name,
+        fieldId: priorityField.id,
+        value: { singleSelectOptionId: option.id },
+        display: option.name,
+      });
+    } else {
+      skipped.push(`${priorityField.name}: no option "${optionName}"`);
+    }
+  }
+
+  const estimateField = findField(project, mappings.estimate);
+  if (estimateField && input.estimatePoints !== undefined) {
+    if (estimateField.dataType === "NUMBER") {
+      updates.push({
+        field: estimateField.name,
+        fieldId: estimateField.id,
+        value: { number: input.estimatePoints },
+        display: String(input.estimatePoints),
+      });
+    } else {
+      skipped.push(`${estimateField.name}: not a number field`);
+    }
+  }
+
+  const iterationField = findField(project, mappings.iteration);
+  if (iterationField && input.iteration) {
+    const { title, startDate } = input.iteration;
+    const iterations = iterationField.iterations ?? [];
+    const iteration =
+      iterations.find((it) => it.title.toLowerCase() === title.toLowerCase()) ??
+      (startDate
+        ? iterations.find((it) => {
+            const start = new Date(it.startDate).getTime();
+            const end = start + it.duration * 24 * 60 * 60 * 1000;
+            const date = new Date(startDate).getTime();
+            return date >= start && date < end;
+          })
+        : undefined);
+
+    if (iteration) {
+      updates.push({
+        field: iterationField.name,
+        fieldId: iterationField.id,
+        value: { iterationId: iteration.id },
+        display: iteration.title,
+      });
+    } else {
+      skipped.push(`${iterationField.name}: no iteration for "${title}"`);
+    }
+  }
+
+  return { updates, skipped };
+}
+
+/**
+ * Add an issue to its project board and set the mapped fields.
+ * Throws on GitHub failures so the sync queue can retry.
+ */
+export function syncIssueToProject(
+  input: ProjectItemSyncInput,
+  project?: GitHubProject
+): ProjectItemSyncResult {
+  const owner = input.repo.split("/")[0];
+  const board = project ?? getProject(owner, input.projectNumber);
+  if (!board) {
+    throw new Error(`GitHub project not found: ${owner}/${input.projectNumber}`);
+  }
+
+  let itemId = input.itemId;
+  if (!itemId) {
+    const contentId = getIssueNodeId(input.issueNumber, input.repo);
+    if (!contentId) {
+      throw new Error(`Issue not found: ${input.repo}#${input.issueNumber}`);
+    }
+    itemId = addProjectItem(board.id, contentId) ?? undefined;
+    if (!itemId) {
+      throw new Error(`Failed to add #${input.issueNumber} to project ${board.title}`);
+    }
+  }
+
+  const { updates, skipped } = resolveProjectFieldUpdates(board, input);
+  const updated: string[] = [];
+
+  for (const update of updates) {
+    if (!updateProjectItemField(board.id, itemId, update.fieldId, update.value)) {
+      throw new Error(`Failed to set ${update.field} on #${input.issueNumber}`);
+    }
+    updated.push(`${update.field}=${update.display}`);
+  }
+
+  return { projectId: board.id, itemId, updated, skipped };
+}
+
+/**
+ * Build project sync input for a linked task (undefined when not syncable)
+ */
+export function toProjectItemSyncInput(
+  task: Task,
+  projectConfig: ProjectConfig,
+  sprint?: { name: string; start_date?: string }
+): ProjectItemSyncInput | undefined {
+  if (!task.github_issue_number || !projectConfig.github_repo || !projectConfig.github_project_number) {
+    return undefined;
+  }
+
+  return {
+    repo: projectConfig.github_repo,
+    projectNumber: projectConfig.github_project_number,
+    issueNumber: task.github_issue_number,
+    itemId: task.github_project_item_id || undefined,
+    status: task.status as PMStatus,
+    priority: task.priority,
+    estimatePoints: task.estimate_points ?? undefined,
+    iteration: sprint ? { title: sprint.name, startDate: sprint.start_date } : undefined,
+    fieldMappings: projectConfig.field_mappings || undefined,
+  };
 }
 
 // ============================================
 // Sync Queue Management
 // ============================================
 
+export const MAX_SYNC_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, 4m... capped at 1h
+ */
+export function getRetryDelay(retryCount: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, retryCount - 1)),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
 /**
  * Create a sync queue item
  */
@@ -272,19 +524,50 @@ export function createSyncQueueItem(
   };
 }
 
+/**
+ * Whether an item should be attempted now
+ */
+export function isSyncQueueItemDue(item: SyncQueueItem, now = new Date()): boolean {
+  if (item.status === "pending") return true;
+  if (item.status !== "failed") return false;
+  return !item.nextAttemptAt || new Date(item.nextAttemptAt) <= now;
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff,
+ * or dead-letter the item once MAX_SYNC_RETRIES is reached
+ */
+function markAttemptFailed(item: SyncQueueItem, message: string, now: Date): void {
+  item.retryCount++;
+  item.errorMessage = message;
+
+  if (item.retryCount >= MAX_SYNC_RETRIES) {
+    item.status = "dead";
+    item.nextAttemptAt = undefined;
+  } else {
+    item.status = "failed";
+    item.nextAttemptAt = new Date(
+      now.getTime() + getRetryDelay(item.retryCount)
+    ).toISOString();
+  }
+}
+
 /**
  * Process sync queue items
- * Returns processed count
+ * Returns processed count. onProjectItem receives the board item of each
+ * update_project push, so the caller can remember it on the task.
  */
 export function processSyncQueue(
   items: SyncQueueItem[],
-  config: SyncConfig
+  config: SyncConfig,
+  now = new Date(),
+  onProjectItem?: (issueNumber: number, itemId: string) => void
 ): { processed: number; failed: number } {
   let processed = 0;
   let failed = 0;
 
   for (const item of items) {
-    if (item.status !== "pending") continue;
+    if (!isSyncQueueItemDue(item, now)) continue;
 
     try {
       item.status = "processing";
@@ -296,7 +579,8 @@ export function processSyncQueue(
           const success = syncTaskToGitHub(
             parseInt(item.entityId, 10),
             payload.status,
-            config
+            config,
+            payload.repo
           );
           if (success) {
             item.status = "completed";
@@ -313,7 +597,8 @@ export function processSyncQueue(
           const success = addStatusComment(
             parseInt(item.entityId, 10),
             payload.status,
-            payload.commitSha
+            payload.commitSha,
+            payload.repo
           );
           if (success) {
             item.status = "completed";
@@ -325,15 +610,48 @@ export function processSyncQueue(
           break;
         }
 
+        case "update_labels": {
+          if (!config.githubEnabled || config.syncMode !== "bidirectional") {
+            throw new Error("GitHub sync disabled");
+          }
+          const payload = JSON.parse(item.payload) as { add?: string[]; remove?: string[]; repo?: string };
+          const success = updateIssue(
+            parseInt(item.entityId, 10),
+            { addLabels: payload.add, removeLabels: payload.remove },
+            payload.repo
+          );
+          if (!success) throw new Error("Failed to update labels");
+          item.status = "completed";
+          item.processedAt = new Date().toISOString();
+          processed++;
+          break;
+        }
+
+        case "update_project": {
+          if (!config.githubEnabled || config.syncMode !== "bidirectional") {
+            throw new Error("GitHub sync disabled");
+          }
+          const input = JSON.parse(item.payload) as ProjectItemSyncInput;
+          const { itemId } = syncIssueToProject(input);
+          if (itemId !== input.itemId) onProjectItem?.(input.issueNumber, itemId);
+          item.status = "completed";
+          item.processedAt = new Date().toISOString();
+          processed++;
+          break;
+        }
+
         default:
-          item.status = "failed";
+          // Retrying cannot fix an unknown action
+          item.status = "dead";
           item.errorMessage = `Unknown action: ${item.action}`;
           failed++;
       }
     } catch (error) {
-      item.status = "failed";
-      item.retryCount++;
-      item.errorMessage = error instanceof Error ? error.message : String(error);
+      markAttemptFailed(
+        item,
+        error instanceof Error ? error.message : String(error),
+        now
+      );
       failed++;
     }
   }
@@ -341,18 +659,80 @@ export function processSyncQueue(
   return { processed, failed };
 }
 
+/**
+ * Map project_config to the sync settings used by pull/push
+ */
+export function toSyncConfig(projectConfig: ProjectConfig): SyncConfig {
+  return {
+    githubEnabled: !!projectConfig.github_enabled,
+    syncMode: projectConfig.sync_mode === "auto" ? "bidirectional" : "read_only",
+    projectId: projectConfig.project_id,
+  };
+}
+
+/**
+ * Process every due item in the persistent queue and save the outcome.
+ * Items are pushed with their own project's sync settings; board items added
+ * on the way are linked to their tasks (TaskGitHubLinked).
+ */
+export function flushSyncQueue(store: {
+  queueRepo: SyncQueueRepository;
+  configRepo: ProjectConfigRepository;
+  taskRepo: TaskRepository;
+}): { processed: number; failed: number } {
+  const totals = { processed: 0, failed: 0 };
+  const byProject = new Map<string, SyncQueueItem[]>();
+
+  for (const item of store.queueRepo.getDue()) {
+    const key = item.projectId || "";
+    byProject.set(key, [...(byProject.get(key) || []), item]);
+  }
+
+  for (const [projectId, items] of byProject) {
+    // Leave items pending while push is off instead of burning retries
+    const projectConfig = store.configRepo.getByProjectId(projectId);
+    if (!projectConfig) continue;
+    const config = toSyncConfig(projectConfig);
+    if (!config.githubEnabled || config.syncMode !== "bidirectional") continue;
+
+    const { processed, failed } = processSyncQueue(items, config, new Date(), (issueNumber, itemId) => {
+      const task = store.taskRepo.getByGitHubIssue(projectId, issueNumber);
+      if (task) store.taskRepo.update(task.id, { github_project_item_id: itemId });
+    });
+    totals.processed += processed;
+    totals.failed += failed;
+
+    for (const item of items) {
+      store.queueRepo.save(item);
+    }
+  }
+
+  return totals;
+}
+
 // ============================================
 // Full Sync Operations
 // ============================================
 
+const PULL_PAGE_SIZE = 100;
+
+// Labels that only encode status; status is tracked separately
+const STATUS_LABELS = new Set(DEFAULT_MAPPINGS.flatMap((m) => m.labels));
+
 /**
  * Pull changes from GitHub
- * Updates local SQLite cache
+ * Imports issues from project_config.github_repo into the task store.
+ * Issues updated since last_sync_at are paged oldest-first by updatedAt;
+ * every change is recorded as a task event. Archived projects are refused.
+ *
+ * last_sync_at moves to the pull's start only when every issue was read and
+ * applied. Otherwise it moves to the updatedAt of the last issue applied
+ * before the first failure, so the next pull picks up what was missed.
  */
-export function syncPull(config: SyncConfig): SyncResult {
+export function syncPull(config: SyncConfig, store: SyncPullStore): SyncResult {
   const result: SyncResult = {
     success: true,
-    pulled: { issues: 0, prs: 0, projects: 0 },
+    pulled: { issues: 0, prs: 0, projects: 0, created: 0, updated: 0 },
     pushed: { statusUpdates: 0, comments: 0 },
     errors: [],
   };
@@ -361,13 +741,171 @@ export function syncPull(config: SyncConfig): SyncResult {
     return result;
   }
 
-  // Pull operations would query GitHub API
-  // and update local SQLite tables
-  // This is a placeholder for the actual implementation
+  if (store.projectRepo.getById(config.projectId)?.status === "archived") {
+    result.success = false;
+    result.errors.push("Project is archived; restore it with pm_project_unarchive to pull issues");
+    return result;
+  }
+
+  const projectConfig = store.configRepo.getByProjectId(config.projectId);
+  if (!projectConfig?.github_repo) {
+    result.success = false;
+    result.errors.push("GitHub repo not configured for project");
+    return result;
+  }
+
+  const startedAt = new Date().toISOString();
+  const seen = new Set<number>();
+  let cursor = projectConfig.last_sync_at;
+  let pulledUntil: string | undefined;
+  let complete = false;
+
+  for (;;) {
+    const qualifiers = ["sort:updated-asc"];
+    if (cursor) qualifiers.push(`updated:>=${toSearchDate(cursor)}`);
+
+    let page: GitHubIssue[];
+    try {
+      page = listIssues({
+        repo: projectConfig.github_repo,
+        state: "all",
+        search: qualifiers.join(" "),
+        limit: PULL_PAGE_SIZE,
+      });
+    } catch (error) {
+      result.errors.push(`Listing issues failed: ${error instanceof Error ? error.message : String(error)}`);
+      break;
+    }
+
+    for (const issue of page) {
+      // Pages overlap on the boundary timestamp
+      if (seen.has(issue.number)) continue;
+      seen.add(issue.number);
+
+      try {
+        const outcome = applyIssue(store, config.projectId, issue);
+        result.pulled.issues++;
+        if (outcome === "created") result.pulled.created++;
+        if (outcome === "updated") result.pulled.updated++;
+        if (result.errors.length === 0) pulledUntil = issue.updatedAt;
+      } catch (error) {
+        result.errors.push(
+          `#${issue.number}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (page.length < PULL_PAGE_SIZE) {
+      complete = true;
+      break;
+    }
+
+    const next = page[page.length - 1].updatedAt;
+    if (next === cursor) {
+      // A full page with one timestamp cannot be paged past
+      result.errors.push(`More than ${PULL_PAGE_SIZE} issues updated at ${next}; the rest were not pulled`);
+      break;
+    }
+    cursor = next;
+  }
+
+  result.success = result.errors.length === 0;
+
+  const lastSyncAt = complete && result.success ? startedAt : pulledUntil;
+  const previous = projectConfig.last_sync_at;
+  if (lastSyncAt && (!previous || Date.parse(lastSyncAt) > Date.parse(previous))) {
+    store.configRepo.update(config.projectId, { last_sync_at: lastSyncAt });
+  }
 
   return result;
 }
 
+/**
+ * Create or update the task linked to a GitHub issue. Updates are decided
+ * from a fresh read of the task and appended with a version check.
+ */
+function applyIssue(
+  store: SyncPullStore,
+  projectId: string,
+  issue: GitHubIssue
+): "created" | "updated" | "unchanged" {
+  const { eventStore, taskRepo } = store;
+  const metadata = { source: "github-sync", correlationId: `issue#${issue.number}` };
+
+  const status = issueToPMStatus(issue.state, issue.labels);
+  const labels = issue.labels.filter((l) => !STATUS_LABELS.has(l));
+  const existing = taskRepo.getByGitHubIssue(projectId, issue.number);
+
+  if (!existing) {
+    const taskId = randomUUID();
+    const events: TaskUpdateEvent[] = [
+      {
+        type: "TaskCreated",
+        payload: {
+          title: issue.title,
+          description: issue.body || undefined,
+          projectId,
+          type: issue.labels.includes("bug") ? "bug" : "task",
+        },
+      },
+    ];
+    if (labels.length > 0) {
+      events.push({ type: "TaskUpdated", payload: { labels } });
+    }
+    if (status !== "todo") {
+      events.push({ type: "TaskStatusChanged", payload: { from: "todo", to: status } });
+    }
+    events.push({ type: "TaskGitHubLinked", payload: { issueNumber: issue.number, issueUrl: issue.url } });
+
+    eventStore.transaction(() => {
+      events.forEach((event, i) => createTaskEvent(eventStore, event.type, taskId, event.payload, metadata, i));
+    });
+    taskRepo.syncFromEvents(taskId);
+    return "created";
+  }
+
+  let outcome: "updated" | "unchanged" = "unchanged";
+  taskRepo.appendEvents(
+    existing.id,
+    (current) => {
+      const events: TaskUpdateEvent[] = [];
+      const changes: Record<string, unknown> = {};
+      if (current.title !== issue.title) changes.title = issue.title;
+      if (!sameLabels(current, labels)) changes.labels = labels;
+      if (Object.keys(changes).length > 0) {
+        events.push({ type: "TaskUpdated", payload: changes });
+      }
+      if (current.status !== status) {
+        events.push({
+          type: "TaskStatusChanged",
+          payload: { from: current.status, to: status, reason: `GitHub issue #${issue.number}` },
+        });
+        events.push(...statusTimerEvents(current, status));
+      }
+
+      outcome = events.length > 0 ? "updated" : "unchanged";
+      return events;
+    },
+    metadata
+  );
+  return outcome;
+}
+
+function sameLabels(task: Task, labels: string[]): boolean {
+  const current: string[] = task.labels ? JSON.parse(task.labels) : [];
+  return (
+    current.length === labels.length &&
+    [...current].sort().join("\n") === [...labels].sort().join("\n")
+  );
+}
+
+/**
+ * GitHub search accepts second precision ISO dates
+ */
+function toSearchDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
 /**
  * Push changes to GitHub
  * Processes sync queue
@@ -378,7 +916,7 @@ export function syncPush(
 ): SyncResult {
   const result: SyncResult = {
     success: true,
-    pulled: { issues: 0, prs: 0, projects: 0 },
+    pulled: { issues: 0, prs: 0, projects: 0, created: 0, updated: 0 },
     pushed: { statusUpdates: 0, comments: 0 },
     errors: [],
   };
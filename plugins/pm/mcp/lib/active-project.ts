@@ -0,0 +1,143 @@
+/**
+ * Active Project
+ *
+ * Resolves which project a tool call refers to when no projectId is given:
+ * the project selected for this workspace with pm_project_use, else the
+ * project whose GitHub repo matches the workspace's repository, else the
+ * only project in the database.
+ */
+
+import {
+  ProjectRepository,
+  ProjectConfigRepository,
+  WorkspaceRepository,
+  type Project,
+} from "./projections.js";
+import { getGitRoot } from "../../lib/git.js";
+import { getRepoInfo } from "../../lib/github.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface WorkspaceDetector {
+  root: () => string; // git root, or cwd outside a repository
+  repo: () => string | null; // owner/repo of the workspace's GitHub repository
+}
+
+export type ActiveProjectSource = "argument" | "workspace" | "repo" | "only";
+
+export interface ActiveProject {
+  project: Project;
+  source: ActiveProjectSource;
+}
+
+export const NO_ACTIVE_PROJECT =
+  "No active project: pass projectId or select one with pm_project_use";
+
+export const defaultWorkspaceDetector: WorkspaceDetector = {
+  root: () => getGitRoot() ?? process.cwd(),
+  repo: () => {
+    const info = getRepoInfo();
+    return info ? `${info.owner}/${info.repo}` : null;
+  },
+};
+
+// ============================================
+// Resolver
+// ============================================
+
+export class ActiveProjectResolver {
+  private root?: string;
+  private repo?: string | null;
+
+  constructor(
+    private projectRepo: ProjectRepository,
+    private configRepo: ProjectConfigRepository,
+    private workspaceRepo: WorkspaceRepository,
+    private detector: WorkspaceDetector = defaultWorkspaceDetector
+  ) {}
+
+  /** Workspace key the selection is stored under */
+  getWorkspace(): string {
+    this.root ??= this.detector.root();
+    return this.root;
+  }
+
+  /** GitHub repository of the workspace (looked up once; gh is slow) */
+  getRepo(): string | null {
+    if (this.repo === undefined) this.repo = this.detector.repo();
+    return this.repo;
+  }
+
+  /**
+   * The project a call without projectId refers to (undefined when ambiguous)
+   */
+  resolve(projectId?: string): ActiveProject | undefined {
+    if (projectId) {
+      const project = this.find(projectId);
+      return project && { project, source: "argument" };
+    }
+
+    const selected = this.workspaceRepo.getProjectId(this.getWorkspace());
+    const project = selected && this.projectRepo.getById(selected);
+    if (project) return { project, source: "workspace" };
+
+    const repo = this.getRepo();
+    const matches = repo
+      ? this.configRepo
+          .listByRepo(repo)
+          .map((config) => this.projectRepo.getById(config.project_id))
+          .filter((p): p is Project => p !== undefined)
+      : [];
+    if (matches.length === 1) return { project: matches[0], source: "repo" };
+
+    const projects = this.projectRepo.list();
+    if (matches.length === 0 && projects.length === 1) {
+      return { project: projects[0], source: "only" };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Project id for a tool call: the argument as given, else the active project
+   */
+  requireId(projectId?: string): string {
+    if (projectId) return projectId;
+    const active = this.resolve();
+    if (!active) throw new Error(NO_ACTIVE_PROJECT);
+    return active.project.id;
+  }
+
+  /**
+   * Select the active project for this workspace by id or name
+   */
+  use(projectRef: string): Project | undefined {
+    const project = this.find(projectRef);
+    if (project) this.workspaceRepo.setProjectId(this.getWorkspace(), project.id);
+    return project;
+  }
+
+  /** Forget this workspace's selection (falls back to repo matching) */
+  clear(): boolean {
+    return this.workspaceRepo.clear(this.getWorkspace());
+  }
+
+  private find(projectRef: string): Project | undefined {
+    return this.projectRepo.getById(projectRef) ?? this.projectRepo.getByName(projectRef);
+  }
+}
+
+/**
+ * Describe where the active project came from
+ */
+export function formatActiveProject(active: ActiveProject, workspace: string): string {
+  const reasons: Record<ActiveProjectSource, string> = {
+    argument: "given projectId",
+    workspace: `selected for ${workspace}`,
+    repo: "matched by GitHub repo",
+    only: "only project",
+  };
+  return `${active.project.name} (${active.project.id}) - ${reasons[active.source]}`;
+}
@@ -0,0 +1,278 @@
+/**
+ * Task Board
+ *
+ * Kanban board: a column per status, per-column WIP limits stored in
+ * project_config, and optional swimlanes by assignee or epic. WIP limits
+ * count the whole project; pm_task_status and pm_task_update check them
+ * before moving a task and warn or refuse depending on the project's WIP policy.
+ */
+
+import {
+  TaskRepository,
+  Task,
+  ProjectConfig,
+  BOARD_STATUSES,
+  BoardStatus,
+} from "./projections.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type WipLimits = Partial<Record<BoardStatus, number>>;
+export type WipPolicy = "warn" | "block";
+export type Swimlane = "assignee" | "epic";
+
+export interface BoardColumn {
+  status: BoardStatus;
+  tasks: Task[];
+  wip: number;                   // Tasks in the column across the project
+  limit?: number;
+}
+
+export interface BoardLane {
+  label: string;
+  columns: Record<BoardStatus, Task[]>;
+}
+
+export interface TaskBoard {
+  columns: BoardColumn[];
+  lanes?: BoardLane[];
+}
+
+export interface WipViolation {
+  status: BoardStatus;
+  count: number;                 // Tasks in the column after the move
+  limit: number;
+  policy: WipPolicy;
+}
+
+const COLUMN_WIDTH = 24;
+const DONE_SHOWN = 10;           // Most recently completed tasks per lane
+
+// ============================================
+// WIP Limits
+// ============================================
+
+export function isBoardStatus(status: string): status is BoardStatus {
+  return (BOARD_STATUSES as readonly string[]).includes(status);
+}
+
+export function parseWipLimits(config?: Pick<ProjectConfig, "wip_limits">): WipLimits {
+  return config?.wip_limits ? (JSON.parse(config.wip_limits) as WipLimits) : {};
+}
+
+export function wipPolicy(config?: Pick<ProjectConfig, "wip_policy">): WipPolicy {
+  return config?.wip_policy === "block" ? "block" : "warn";
+}
+
+/**
+ * Apply limit changes (0 or null removes a limit); throws on unknown columns
+ * and invalid limits
+ */
+export function mergeWipLimits(current: WipLimits, changes: Record<string, unknown>): WipLimits {
+  const merged = { ...current };
+  for (const [status, limit] of Object.entries(changes)) {
+    if (!isBoardStatus(status)) {
+      throw new Error(`Unknown board column: ${status} (use ${BOARD_STATUSES.join(", ")})`);
+    }
+    if (limit === null || limit === 0) {
+      delete merged[status];
+    } else if (typeof limit === "number" && Number.isInteger(limit) && limit > 0) {
+      merged[status] = limit;
+    } else {
+      throw new Error(`Invalid WIP limit for ${status}: ${limit} (use a whole number, or 0 to remove)`);
+    }
+  }
+  return merged;
+}
+
+/**
+ * The limit a move would break, if any (moves within a column never do)
+ */
+export function checkWipLimit(
+  taskRepo: TaskRepository,
+  config: ProjectConfig | undefined,
+  task: Pick<Task, "id" | "project_id" | "status">,
+  to: string
+): WipViolation | undefined {
+  if (to === task.status || !isBoardStatus(to)) return undefined;
+  const limit = parseWipLimits(config)[to];
+  if (!limit) return undefined;
+
+  const count = taskRepo.countByStatus(task.project_id, to, task.id) + 1;
+  return count > limit ? { status: to, count, limit, policy: wipPolicy(config) } : undefined;
+}
+
+/**
+ * Check a move against the WIP limits: throws when the block policy refuses
+ * it (unless forced), otherwise returns the violation to warn about
+ */
+export function enforceWipLimit(
+  taskRepo: TaskRepository,
+  config: ProjectConfig | undefined,
+  task: Pick<Task, "id" | "project_id" | "status">,
+  to: string,
+  force = false
+): WipViolation | undefined {
+  const violation = checkWipLimit(taskRepo, config, task, to);
+  if (violation?.policy === "block" && !force) {
+    throw new Error(`${formatWipViolation(violation)}; finish or move a task first, or pass force: true`);
+  }
+  return violation;
+}
+
+export function formatWipViolation(violation: WipViolation): string {
+  return `WIP limit exceeded in ${violation.status} (${violation.count}/${violation.limit})`;
+}
+
+// ============================================
+// Board
+// ============================================
+
+function emptyColumns(): Record<BoardStatus, Task[]> {
+  return Object.fromEntries(BOARD_STATUSES.map((s) => [s, [] as Task[]])) as Record<BoardStatus, Task[]>;
+}
+
+/** Label of each task's outermost epic (tasks without one get none) */
+function epicLabels(taskRepo: TaskRepository, projectId: string): Map<string, string> {
+  const byId = new Map(taskRepo.list({ projectId }).map((t) => [t.id, t]));
+  const labels = new Map<string, string>();
+
+  for (const task of byId.values()) {
+    let epic: Task | undefined;
+    const seen = new Set<string>();
+    for (let t: Task | undefined = task; t && !seen.has(t.id); t = t.parent_id ? byId.get(t.parent_id) : undefined) {
+      seen.add(t.id);
+      if (t.type === "epic") epic = t;
+    }
+    if (epic) labels.set(task.id, `#${epic.seq} ${epic.title}`);
+  }
+  return labels;
+}
+
+function laneKeys(
+  taskRepo: TaskRepository,
+  projectId: string,
+  swimlane: Swimlane
+): { keyOf: (task: Task) => string; none: string } {
+  if (swimlane === "assignee") {
+    return { keyOf: (task) => task.assignee || "(unassigned)", none: "(unassigned)" };
+  }
+  const epics = epicLabels(taskRepo, projectId);
+  return { keyOf: (task) => epics.get(task.id) ?? "(no epic)", none: "(no epic)" };
+}
+
+/** Cards by seq; done cards most recently completed first */
+function cardOrder(status: BoardStatus, tasks: Task[]): Task[] {
+  const bySeq = (a: Task, b: Task) => (a.seq ?? 0) - (b.seq ?? 0);
+  return [...tasks].sort((a, b) =>
+    status === "done" ? (b.completed_at ?? "").localeCompare(a.completed_at ?? "") || bySeq(b, a) : bySeq(a, b)
+  );
+}
+
+/**
+ * Board of a project (or one sprint of it), optionally split into swimlanes.
+ * Lanes are sorted by name, epics by seq, with the catch-all lane last.
+ */
+export function buildBoard(
+  taskRepo: TaskRepository,
+  projectId: string,
+  config: ProjectConfig | undefined,
+  options: { sprintId?: string; swimlane?: Swimlane } = {}
+): TaskBoard {
+  const grouped = taskRepo.getByStatus(projectId, options.sprintId);
+  for (const status of BOARD_STATUSES) grouped[status] = cardOrder(status, grouped[status]);
+  const limits = parseWipLimits(config);
+
+  const columns = BOARD_STATUSES.map((status) => ({
+    status,
+    tasks: grouped[status],
+    wip: limits[status] ? taskRepo.countByStatus(projectId, status) : grouped[status].length,
+    limit: limits[status],
+  }));
+
+  if (!options.swimlane) return { columns };
+
+  const { keyOf, none } = laneKeys(taskRepo, projectId, options.swimlane);
+  const lanes = new Map<string, BoardLane>();
+  for (const status of BOARD_STATUSES) {
+    for (const task of grouped[status]) {
+      const label = keyOf(task);
+      if (!lanes.has(label)) lanes.set(label, { label, columns: emptyColumns() });
+      lanes.get(label)!.columns[status].push(task);
+    }
+  }
+
+  const seqOf = (label: string) => Number(label.match(/^#(\d+) /)?.[1] ?? 0);
+  const sorted = [...lanes.values()].sort(
+    (a, b) =>
+      Number(a.label === none) - Number(b.label === none) ||
+      seqOf(a.label) - seqOf(b.label) ||
+      a.label.localeCompare(b.label)
+  );
+  return { columns, lanes: sorted };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function cell(text: string): string {
+  return text.length > COLUMN_WIDTH ? `${text.slice(0, COLUMN_WIDTH - 1)}…` : text.padEnd(COLUMN_WIDTH);
+}
+
+function columnHeader(column: BoardColumn): string {
+  const title = `${column.status.toUpperCase().replace("_", " ")} (${column.tasks.length})`;
+  if (!column.limit) return title;
+  return `${title} ${column.wip}/${column.limit}${column.wip > column.limit ? " ⚠️" : ""}`;
+}
+
+function cardRows(columns: Record<BoardStatus, Task[]>): string[] {
+  const cards = BOARD_STATUSES.map((status) => {
+    const tasks = columns[status];
+    const shown = status === "done" ? tasks.slice(0, DONE_SHOWN) : tasks;
+    const lines = shown.map((t) => `#${t.seq} ${t.title}`);
+    if (shown.length < tasks.length) lines.push(`… +${tasks.length - shown.length} more`);
+    return lines;
+  });
+
+  const rows: string[] = [];
+  const height = Math.max(0, ...cards.map((c) => c.length));
+  for (let i = 0; i < height; i++) {
+    const cells = cards.map((c) => c[i] ?? "");
+    while (cells.length > 1 && cells[cells.length - 1] === "") cells.pop();
+    rows.push(cells.map(cell).join(" │ ").trimEnd());
+  }
+  return rows;
+}
+
+/**
+ * Text board: a header per column (count, and WIP/limit when limited),
+ * cards as "#seq title", and a divider per swimlane
+ */
+export function formatBoard(board: TaskBoard): string {
+  const rule = BOARD_STATUSES.map(() => "─".repeat(COLUMN_WIDTH)).join("─┼─");
+  const lines = [board.columns.map((c) => cell(columnHeader(c))).join(" │ ").trimEnd(), rule];
+
+  if (!board.lanes) {
+    lines.push(...cardRows(Object.fromEntries(board.columns.map((c) => [c.status, c.tasks])) as Record<BoardStatus, Task[]>));
+  } else if (board.lanes.length === 0) {
+    lines.push("(no tasks)");
+  } else {
+    for (const lane of board.lanes) {
+      const count = BOARD_STATUSES.reduce((sum, s) => sum + lane.columns[s].length, 0);
+      lines.push(`── ${lane.label} (${count}) ──`, ...cardRows(lane.columns));
+    }
+  }
+
+  const over = board.columns.filter((c) => c.limit && c.wip > c.limit);
+  if (over.length > 0) {
+    lines.push(
+      "",
+      ...over.map((c) => `⚠️ ${formatWipViolation({ status: c.status, count: c.wip, limit: c.limit!, policy: "warn" })}`)
+    );
+  }
+
+  return lines.join("\n");
+}
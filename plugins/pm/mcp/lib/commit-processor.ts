@@ -0,0 +1,240 @@
+/**
+ * Commit Processor
+ *
+ * Applies magic words from a commit message to tasks:
+ * links the commit to every referenced task, applies status changes
+ * (fixes/closes → done, wip → in_progress, review → in_review) and records
+ * dependencies (depends #N, blocks #N) of the tasks the commit works on.
+ * Shared by the pm_git_commit_process tool and the post-commit CLI.
+ */
+
+import {
+  TaskRepository,
+  DependencyRepository,
+  Task,
+  TaskUpdateEvent,
+  statusTimerEvents,
+} from "./projections.js";
+import { parseCommitMessage, getMagicWordStatusChange } from "./server-helpers.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface CommitInput {
+  sha: string;
+  message: string;
+  branch?: string;
+  repo?: string;
+}
+
+export interface CommitTaskChange {
+  ref: number;
+  task: Task;
+  linked: boolean; // false when the commit was already linked
+  from?: string;
+  to?: string;
+}
+
+export interface CommitDependencyChange {
+  task: Task;                    // Dependent task
+  dependsOn: Task;
+  added: boolean;                // false when already recorded or rejected
+  cycle?: number[];              // Seqs of the cycle the edge would close (rejected)
+}
+
+export interface CommitProcessResult {
+  sha: string;
+  changes: CommitTaskChange[];
+  dependencies: CommitDependencyChange[];
+  unresolved: number[];
+}
+
+export interface CommitStore {
+  taskRepo: TaskRepository;
+  dependencyRepo: DependencyRepository;
+}
+
+export interface CommitProcessOptions {
+  projectId: string;
+  /** Match #N against GitHub issue numbers before task seq */
+  preferGitHubIssues?: boolean;
+}
+
+// ============================================
+// Processing
+// ============================================
+
+/**
+ * Resolve #N to a task: by GitHub issue number and/or project seq
+ */
+export function resolveTaskRef(
+  taskRepo: TaskRepository,
+  ref: number,
+  options: CommitProcessOptions
+): Task | undefined {
+  const byIssue = () => taskRepo.getByGitHubIssue(options.projectId, ref);
+  const bySeq = () => taskRepo.getBySeq(options.projectId, ref);
+
+  return options.preferGitHubIssues
+    ? byIssue() ?? bySeq()
+    : bySeq() ?? byIssue();
+}
+
+/**
+ * Link a commit to referenced tasks and apply magic-word status changes and
+ * dependencies. Idempotent: re-processing the same commit emits no new events.
+ */
+export function processCommit(
+  store: CommitStore,
+  commit: CommitInput,
+  options: CommitProcessOptions
+): CommitProcessResult {
+  const { taskRepo } = store;
+  const parsed = parseCommitMessage(commit.message);
+  const statusChanges = getMagicWordStatusChange(parsed.magicWords);
+
+  const refs = [...new Set(parsed.magicWords.flatMap((mw) => mw.issueIds))];
+  const changes: CommitTaskChange[] = [];
+  const unresolved: number[] = [];
+  const metadata = { source: "git-commit", correlationId: commit.sha };
+
+  for (const ref of refs) {
+    const task = resolveTaskRef(taskRepo, ref, options);
+    if (!task) {
+      unresolved.push(ref);
+      continue;
+    }
+
+    // Decided on a fresh read so a concurrent MCP write is not overwritten
+    let linked = false;
+    let from: string | undefined;
+    const to = statusChanges.get(ref);
+    const updated = taskRepo.appendEvents(
+      task.id,
+      (current) => {
+        const events: TaskUpdateEvent[] = [];
+        const linkedCommits: string[] = current.linked_commits
+          ? JSON.parse(current.linked_commits)
+          : [];
+        linked = !linkedCommits.includes(commit.sha);
+        if (linked) {
+          events.push({
+            type: "TaskLinkedToCommit",
+            payload: {
+              commitSha: commit.sha,
+              repo: commit.repo,
+              branch: commit.branch,
+              message: commit.message,
+            },
+          });
+        }
+
+        from = to !== undefined && to !== current.status ? current.status : undefined;
+        if (from !== undefined) {
+          events.push({
+            type: "TaskStatusChanged",
+            payload: { from, to, reason: `Commit ${commit.sha.slice(0, 7)}` },
+          });
+          events.push(...statusTimerEvents(current, to!));
+        }
+        return events;
+      },
+      metadata
+    )!;
+
+    changes.push({
+      ref,
+      task: updated,
+      linked,
+      ...(from !== undefined ? { from, to } : {}),
+    });
+  }
+
+  const dependencies = applyDependencies(store, parsed.magicWords, changes, commit, options);
+  return { sha: commit.sha, changes, dependencies, unresolved };
+}
+
+/**
+ * Record "depends #N" (subject depends on N) and "blocks #N" (N depends on
+ * subject) for each task the commit works on: the tasks referenced by other
+ * magic words, else the task recorded on the commit's branch. Edges that
+ * would close a cycle are rejected by DependencyRepository.add.
+ */
+function applyDependencies(
+  store: CommitStore,
+  magicWords: { action: string; issueIds: number[] }[],
+  changes: CommitTaskChange[],
+  commit: CommitInput,
+  options: CommitProcessOptions
+): CommitDependencyChange[] {
+  const dependencyWords = magicWords.filter((mw) => mw.action === "depends" || mw.action === "blocks");
+  if (dependencyWords.length === 0) return [];
+
+  const otherRefs = new Set(
+    magicWords.filter((mw) => !dependencyWords.includes(mw)).flatMap((mw) => mw.issueIds)
+  );
+  let subjects = changes.filter((c) => otherRefs.has(c.ref)).map((c) => c.task);
+  if (subjects.length === 0 && commit.branch) {
+    const onBranch = store.taskRepo.getByBranch(options.projectId, commit.branch);
+    subjects = onBranch ? [onBranch] : [];
+  }
+
+  const metadata = { source: "git-commit", correlationId: commit.sha };
+  const results: CommitDependencyChange[] = [];
+  for (const mw of dependencyWords) {
+    for (const ref of mw.issueIds) {
+      const other = changes.find((c) => c.ref === ref)?.task;
+      if (!other) continue;
+
+      for (const subject of subjects) {
+        if (subject.id === other.id) continue;
+        const [task, dependsOn] = mw.action === "depends" ? [subject, other] : [other, subject];
+
+        const existing = store.dependencyRepo.get(task.id, dependsOn.id);
+        const added = !existing && store.dependencyRepo.add(task.id, dependsOn.id, metadata) !== undefined;
+        const cycle =
+          existing || added
+            ? undefined
+            : store.dependencyRepo
+                .findCycle(task.id, dependsOn.id)
+                ?.map((id) => store.taskRepo.getById(id)?.seq ?? 0);
+        results.push({ task, dependsOn, added, ...(cycle ? { cycle } : {}) });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Human-readable report of a processed commit
+ */
+export function formatCommitResult(result: CommitProcessResult): string {
+  const lines = [`Commit ${result.sha.slice(0, 7)}`];
+
+  if (result.changes.length === 0 && result.dependencies.length === 0 && result.unresolved.length === 0) {
+    lines.push("No task references found");
+  }
+
+  for (const change of result.changes) {
+    const parts: string[] = [];
+    if (change.to) parts.push(`${change.from} → ${change.to}`);
+    parts.push(change.linked ? "commit linked" : "already linked");
+    lines.push(`✓ #${change.task.seq} ${change.task.title}: ${parts.join(", ")}`);
+  }
+
+  for (const dep of result.dependencies) {
+    const edge = `#${dep.task.seq} depends on #${dep.dependsOn.seq}`;
+    if (dep.cycle) {
+      lines.push(`❌ ${edge}: rejected, would create a cycle (${dep.cycle.map((seq) => `#${seq}`).join(" → ")})`);
+    } else {
+      lines.push(`✓ ${edge}${dep.added ? "" : " (already recorded)"}`);
+    }
+  }
+
+  for (const ref of result.unresolved) {
+    lines.push(`? #${ref}: no matching task`);
+  }
+
+  return lines.join("\n");
+}
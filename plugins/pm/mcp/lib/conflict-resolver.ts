@@ -0,0 +1,294 @@
+/**
+ * Sync Conflict Resolver
+ *
+ * Resolves conflicts recorded by SyncEngine in manual mode.
+ * Each field ends up with one value: fields that changed locally are applied
+ * through task events, fields that differ from GitHub are pushed to the issue.
+ */
+
+import {
+  TaskRepository,
+  Task,
+  TaskUpdateEvent,
+  SyncConflictRepository,
+  StoredSyncConflict,
+  ConflictResolution,
+  statusTimerEvents,
+} from "./projections.js";
+import { updateIssue, updateIssueState } from "../../lib/github.js";
+import { pmToIssueState, pmToLabels, type PMStatus } from "../../lib/status-mapper.js";
+import type {
+  ConflictField,
+  ConflictValue,
+  FieldConflict,
+  LocalTask,
+} from "../../lib/sync-engine.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type ConflictChoice = "local" | "remote";
+
+export interface ConflictResolveOptions {
+  resolution: ConflictResolution;
+  /** Per-field picks for "merge"; unpicked labels are unioned, other fields keep local */
+  fields?: Partial<Record<ConflictField, ConflictChoice>>;
+  repo?: string;
+}
+
+export interface ConflictResolveStore {
+  taskRepo: TaskRepository;
+  conflictRepo: SyncConflictRepository;
+}
+
+export interface ConflictResolveResult {
+  conflict: StoredSyncConflict;
+  task: Task;
+  values: Partial<Record<ConflictField, ConflictValue>>;
+  appliedLocally: ConflictField[];
+  pushed: ConflictField[];
+  errors: string[];
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * SQLite datetime('now') has no timezone; it is UTC
+ */
+function toIsoTime(value: string): string {
+  return value.includes("T") ? value : `${value.replace(" ", "T")}Z`;
+}
+
+/**
+ * Task row → SyncEngine LocalTask (all conflict fields compared)
+ */
+export function toLocalTask(task: Task): LocalTask {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description || "",
+    status: task.status as PMStatus,
+    issueNumber: task.github_issue_number ?? undefined,
+    updatedAt: toIsoTime(task.updated_at),
+    labels: task.labels ? (JSON.parse(task.labels) as string[]) : [],
+    assignee: task.assignee || null,
+  };
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Pick the resolved value for one conflicting field
+ */
+export function resolveFieldValue(
+  conflict: FieldConflict,
+  options: Pick<ConflictResolveOptions, "resolution" | "fields">
+): ConflictValue {
+  if (options.resolution === "local") return conflict.local;
+  if (options.resolution === "remote") return conflict.remote;
+
+  const choice = options.fields?.[conflict.field];
+  if (choice) return choice === "local" ? conflict.local : conflict.remote;
+
+  if (conflict.field === "labels") {
+    const union = new Set([...(conflict.local as string[]), ...(conflict.remote as string[])]);
+    return [...union].sort();
+  }
+  return conflict.local;
+}
+
+function sameValue(a: ConflictValue, b: ConflictValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return [...a].sort().join(",") === [...b].sort().join(",");
+  }
+  return (a || null) === (b || null);
+}
+
+function localValue(local: LocalTask, field: ConflictField): ConflictValue {
+  switch (field) {
+    case "status":
+      return local.status;
+    case "title":
+      return local.title;
+    case "description":
+      return local.description || null;
+    case "labels":
+      return local.labels ?? [];
+    case "assignee":
+      return local.assignee ?? null;
+  }
+}
+
+/**
+ * Apply resolved values as task events (only fields that differ from the task
+ * now), decided from a fresh read and appended with a version check
+ */
+function applyLocally(
+  taskRepo: TaskRepository,
+  taskId: string,
+  conflict: StoredSyncConflict,
+  values: Partial<Record<ConflictField, ConflictValue>>
+): { task?: Task; changed: ConflictField[] } {
+  const metadata = { source: "github-sync", correlationId: `conflict#${conflict.id}` };
+  let changed: ConflictField[] = [];
+
+  const task = taskRepo.appendEvents(
+    taskId,
+    (task) => {
+      const current = toLocalTask(task);
+      changed = (Object.keys(values) as ConflictField[]).filter(
+        (field) => !sameValue(localValue(current, field), values[field]!)
+      );
+
+      const events: TaskUpdateEvent[] = [];
+      const updates: Record<string, unknown> = {};
+      for (const field of changed) {
+        const value = values[field]!;
+        switch (field) {
+          case "status":
+            events.push({
+              type: "TaskStatusChanged",
+              payload: {
+                from: task.status,
+                to: value,
+                reason: `Resolved sync conflict with GitHub #${conflict.issueNumber}`,
+              },
+            });
+            events.push(...statusTimerEvents(task, value as string));
+            break;
+          case "assignee":
+            events.push({ type: "TaskAssigned", payload: { assignee: value ?? undefined } });
+            break;
+          default:
+            // "" rather than undefined: undefined keys are dropped from the stored payload
+            updates[field] = value ?? "";
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        events.push({ type: "TaskUpdated", payload: updates });
+      }
+      return events;
+    },
+    metadata
+  );
+
+  return { task, changed };
+}
+
+/**
+ * Push resolved values to the issue (only fields that differ from GitHub)
+ */
+function pushToGitHub(
+  conflict: StoredSyncConflict,
+  values: Partial<Record<ConflictField, ConflictValue>>,
+  repo: string | undefined,
+  errors: string[]
+): ConflictField[] {
+  const pushed: ConflictField[] = [];
+  const issue = conflict.issueNumber;
+
+  for (const fieldConflict of conflict.fields) {
+    const { field, remote } = fieldConflict;
+    const value = values[field]!;
+    if (sameValue(remote, value)) continue;
+
+    let ok: boolean;
+    switch (field) {
+      case "status": {
+        const status = value as PMStatus;
+        const labels = pmToLabels(status);
+        ok =
+          updateIssueState(issue, pmToIssueState(status), repo) &&
+          updateIssue(issue, { addLabels: labels.add, removeLabels: labels.remove }, repo);
+        break;
+      }
+      case "title":
+        ok = updateIssue(issue, { title: (value as string) || "" }, repo);
+        break;
+      case "description":
+        ok = updateIssue(issue, { body: (value as string) || "" }, repo);
+        break;
+      case "labels": {
+        const next = value as string[];
+        const prev = remote as string[];
+        ok = updateIssue(
+          issue,
+          {
+            addLabels: next.filter((l) => !prev.includes(l)),
+            removeLabels: prev.filter((l) => !next.includes(l)),
+          },
+          repo
+        );
+        break;
+      }
+      case "assignee":
+        ok = updateIssue(
+          issue,
+          {
+            addAssignees: value ? [value as string] : [],
+            removeAssignees: remote ? [remote as string] : [],
+          },
+          repo
+        );
+        break;
+    }
+
+    if (ok) {
+      pushed.push(field);
+    } else {
+      errors.push(`Failed to update ${field} on #${issue}`);
+    }
+  }
+
+  return pushed;
+}
+
+/**
+ * Resolve a stored conflict. Local events are applied first; the conflict
+ * stays open if any push to GitHub fails so it can be resolved again.
+ */
+export function resolveConflict(
+  store: ConflictResolveStore,
+  conflict: StoredSyncConflict,
+  options: ConflictResolveOptions
+): ConflictResolveResult | undefined {
+  const { taskRepo, conflictRepo } = store;
+  if (!taskRepo.getById(conflict.taskId)) return undefined;
+
+  const values: Partial<Record<ConflictField, ConflictValue>> = {};
+  for (const fieldConflict of conflict.fields) {
+    values[fieldConflict.field] = resolveFieldValue(fieldConflict, options);
+  }
+
+  const { task: updated, changed: appliedLocally } = applyLocally(taskRepo, conflict.taskId, conflict, values);
+  if (!updated) return undefined;
+
+  const errors: string[] = [];
+  const pushed = pushToGitHub(conflict, values, options.repo, errors);
+
+  const stored =
+    errors.length === 0 ? conflictRepo.resolve(conflict.id, options.resolution)! : conflict;
+
+  return { conflict: stored, task: updated, values, appliedLocally, pushed, errors };
+}
+
+/**
+ * Format a conflict for tool output
+ */
+export function formatConflict(conflict: StoredSyncConflict, task?: Task): string {
+  const ref = task ? `#${task.seq}` : conflict.taskId.slice(0, 8);
+  const show = (v: ConflictValue) =>
+    Array.isArray(v) ? `[${v.join(", ")}]` : v === null ? "(none)" : JSON.stringify(v);
+
+  const lines = [
+    `[${conflict.id}] ${ref} ↔ issue #${conflict.issueNumber} (${conflict.status}${conflict.resolution ? `: ${conflict.resolution}` : ""})`,
+    ...conflict.fields.map((f) => `  ${f.field}: local ${show(f.local)} | remote ${show(f.remote)}`),
+  ];
+  return lines.join("\n");
+}
@@ -2,18 +2,67 @@
  * PM Plugin Database Layer
  *
  * SQLite database wrapper with:
- * - Schema initialization
+ * - Schema initialization and versioned migrations
  * - WAL mode for concurrent access
  * - Connection management
+ *
+ * schema.sql is the current schema; storage/migrations/NNN_name.sql bring
+ * databases created from older versions up to it. Schema changes go in both.
  */
 
 import Database from "better-sqlite3";
-import { readFileSync, existsSync } from "fs";
+import { readFileSync, readdirSync, existsSync } from "fs";
 import { dirname, join } from "path";
 import { fileURLToPath } from "url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const SCHEMA_PATH = join(__dirname, "../../storage/schema.sql");
+const MIGRATIONS_DIR = join(__dirname, "../../storage/migrations");
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+const ADD_COLUMN = /^ALTER\s+TABLE\s+(\w+)\s+ADD\s+COLUMN\s+(\w+)/i;
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Migrations in a directory, ordered by version
+ */
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .map((file) => file.match(MIGRATION_FILE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({
+      version: Number(match[1]),
+      name: match[2],
+      sql: readFileSync(join(dir, match[0]), "utf-8"),
+    }))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Split a migration into statements (no semicolons inside statements,
+ * except between a trigger's BEGIN and END)
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+
+  for (const part of sql.replace(/--.*$/gm, "").split(";")) {
+    current = current ? `${current};${part}` : part;
+    if (/^\s*CREATE\s+TRIGGER\b/i.test(current) && !/\bEND\s*$/i.test(current)) continue;
+    statements.push(current.trim());
+    current = "";
+  }
+  if (current) statements.push(current.trim());
+
+  return statements.filter(Boolean);
+}
 
 export class DatabaseManager {
   private db: Database.Database;
@@ -26,19 +75,85 @@ export class DatabaseManager {
   }
 
   /**
-   * Initialize database schema
+   * Initialize database schema.
+   * Existing databases are migrated first: schema.sql only creates what is
+   * missing (CREATE ... IF NOT EXISTS) and would fail on indexes over columns
+   * an older database does not have yet.
    */
-  initSchema(): void {
+  initSchema(migrations: Migration[] = loadMigrations()): void {
     if (this.initialized) return;
 
-    if (existsSync(SCHEMA_PATH)) {
-      const schema = readFileSync(SCHEMA_PATH, "utf-8");
+    const schema = existsSync(SCHEMA_PATH) ? readFileSync(SCHEMA_PATH, "utf-8") : undefined;
+    if (schema && !this.hasTable("tasks")) {
+      this.db.exec(schema);
+    }
+
+    this.migrate(migrations);
+
+    if (schema) {
       this.db.exec(schema);
     }
 
     this.initialized = true;
   }
 
+  /**
+   * Apply pending migrations in order, each in its own transaction.
+   * Databases created from schema.sql before migrations were tracked already
+   * have some of the changes, so columns that exist are not added again.
+   * Returns the applied migrations.
+   */
+  migrate(migrations: Migration[] = loadMigrations()): Migration[] {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    const applied = new Set(
+      this.query<{ version: number }>("SELECT version FROM schema_migrations").map((r) => r.version)
+    );
+    const pending = migrations.filter((m) => !applied.has(m.version));
+
+    for (const migration of pending) {
+      this.transaction(() => {
+        for (const statement of splitStatements(migration.sql)) {
+          const addColumn = statement.match(ADD_COLUMN);
+          if (addColumn && !this.canAddColumn(addColumn[1], addColumn[2])) continue;
+          this.db.exec(statement);
+        }
+        this.execute("INSERT INTO schema_migrations (version, name) VALUES (?, ?)", [
+          migration.version,
+          migration.name,
+        ]);
+      });
+    }
+
+    return pending;
+  }
+
+  /**
+   * Applied migration versions, oldest first
+   */
+  getSchemaVersions(): number[] {
+    if (!this.hasTable("schema_migrations")) return [];
+    return this.query<{ version: number }>(
+      "SELECT version FROM schema_migrations ORDER BY version"
+    ).map((r) => r.version);
+  }
+
+  private hasTable(table: string): boolean {
+    return !!this.queryOne("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?", [table]);
+  }
+
+  /** False when the column exists or the table does not (schema.sql creates it) */
+  private canAddColumn(table: string, column: string): boolean {
+    const columns = this.db.pragma(`table_info(${table})`) as { name: string }[];
+    return columns.length > 0 && !columns.some((c) => c.name === column);
+  }
+
   /**
    * Get the underlying database instance
    */
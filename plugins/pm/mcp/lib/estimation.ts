@@ -0,0 +1,315 @@
+/**
+ * Estimation
+ *
+ * Estimate vs. actual of done tasks (the estimation_accuracy projection):
+ * accuracy statistics per type, assignee, point size and confidence, and
+ * point suggestions for new tasks from similar completed ones.
+ *
+ * Actual time is the logged time when there is any, else the cycle time.
+ * Point estimates are converted to hours with the project's median hours
+ * per point, so they are compared against the team's own calibration.
+ */
+
+import {
+  TaskRepository,
+  EstimationRepository,
+  EstimationRecord,
+  EstimationFilter,
+} from "./projections.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface EstimationStore {
+  taskRepo: TaskRepository;
+  estimationRepo: EstimationRepository;
+}
+
+export interface EstimateOutcome {
+  record: EstimationRecord;
+  estimatedHours: number;        // Hour estimate, else points × hours per point
+  actualHours: number;
+  ratio: number;                 // actual / estimated; > 1 = underestimated
+}
+
+export interface AccuracyStats {
+  key: string;
+  tasks: number;
+  estimatedHours: number;
+  actualHours: number;
+  ratio: number;                 // total actual / total estimated
+  medianRatio: number;
+  withinRange: number;           // Share of tasks within ±25% of the estimate
+  hoursPerPoint?: number;        // Median, tasks with points
+}
+
+export interface EstimationReport {
+  hoursPerPoint?: number;
+  overall?: AccuracyStats;
+  byType: AccuracyStats[];
+  byAssignee: AccuracyStats[];
+  byPoints: AccuracyStats[];
+  byConfidence: AccuracyStats[];
+  unmeasured: number;            // Done tasks without an estimate or an actual
+}
+
+export interface PointSuggestion {
+  points?: number;               // undefined without history
+  basis: "similar" | "type" | "none";
+  similar: EstimateOutcome[];    // Tasks the suggestion is based on
+  estimatedPoints?: number;      // Median points they were given
+  actualHours?: number;          // Median actual hours they took
+  hoursPerPoint?: number;        // Set whenever there are similar tasks
+}
+
+export const POINT_SCALE = [1, 2, 3, 5, 8, 13, 21];
+
+const WITHIN_RANGE = 0.25;
+const SIMILAR_LIMIT = 5;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function actualHoursOf(record: EstimationRecord): number | undefined {
+  if (record.logged_hours) return record.logged_hours;
+  return record.cycle_hours ?? undefined;
+}
+
+// ============================================
+// Accuracy
+// ============================================
+
+/**
+ * Median actual hours per story point, from done tasks with points
+ */
+export function calibrateHoursPerPoint(records: EstimationRecord[]): number | undefined {
+  const rates = records
+    .filter((r) => r.estimate_points && actualHoursOf(r))
+    .map((r) => actualHoursOf(r)! / r.estimate_points!);
+  return rates.length > 0 ? median(rates) : undefined;
+}
+
+/**
+ * Records with both an estimate and an actual, as hours
+ */
+export function estimateOutcomes(records: EstimationRecord[], hoursPerPoint?: number): EstimateOutcome[] {
+  const outcomes: EstimateOutcome[] = [];
+  for (const record of records) {
+    const actualHours = actualHoursOf(record);
+    const estimatedHours = record.estimate_hours
+      ? record.estimate_hours
+      : record.estimate_points && hoursPerPoint
+        ? record.estimate_points * hoursPerPoint
+        : undefined;
+    if (!actualHours || !estimatedHours) continue;
+    outcomes.push({ record, estimatedHours, actualHours, ratio: actualHours / estimatedHours });
+  }
+  return outcomes;
+}
+
+function accuracyStats(key: string, outcomes: EstimateOutcome[]): AccuracyStats {
+  const estimatedHours = outcomes.reduce((sum, o) => sum + o.estimatedHours, 0);
+  const actualHours = outcomes.reduce((sum, o) => sum + o.actualHours, 0);
+  const pointed = outcomes.filter((o) => o.record.estimate_points);
+
+  return {
+    key,
+    tasks: outcomes.length,
+    estimatedHours,
+    actualHours,
+    ratio: actualHours / estimatedHours,
+    medianRatio: median(outcomes.map((o) => o.ratio)),
+    withinRange: outcomes.filter((o) => Math.abs(o.ratio - 1) <= WITHIN_RANGE).length / outcomes.length,
+    hoursPerPoint:
+      pointed.length > 0 ? median(pointed.map((o) => o.actualHours / o.record.estimate_points!)) : undefined,
+  };
+}
+
+function groupStats(
+  outcomes: EstimateOutcome[],
+  keyOf: (o: EstimateOutcome) => string,
+  order: (a: AccuracyStats, b: AccuracyStats) => number = (a, b) => b.tasks - a.tasks || a.key.localeCompare(b.key)
+): AccuracyStats[] {
+  const groups = new Map<string, EstimateOutcome[]>();
+  for (const outcome of outcomes) {
+    const key = keyOf(outcome);
+    groups.set(key, [...(groups.get(key) ?? []), outcome]);
+  }
+  return [...groups].map(([key, group]) => accuracyStats(key, group)).sort(order);
+}
+
+export function confidenceBucket(confidence?: number): string {
+  if (confidence == null) return "unstated";
+  if (confidence >= 0.8) return "high (≥0.8)";
+  if (confidence >= 0.5) return "medium (0.5–0.8)";
+  return "low (<0.5)";
+}
+
+/**
+ * Accuracy of the project's estimates, overall and per type, assignee,
+ * point size and confidence
+ */
+export function estimationReport(
+  estimationRepo: EstimationRepository,
+  filter: EstimationFilter
+): EstimationReport {
+  // Calibrate on the whole project so filtered reports use the same scale
+  const hoursPerPoint = calibrateHoursPerPoint(estimationRepo.list({ projectId: filter.projectId }));
+  const records = estimationRepo.list(filter);
+  const outcomes = estimateOutcomes(records, hoursPerPoint);
+
+  return {
+    hoursPerPoint,
+    overall: outcomes.length > 0 ? accuracyStats("overall", outcomes) : undefined,
+    byType: groupStats(outcomes, (o) => o.record.type),
+    byAssignee: groupStats(outcomes, (o) => o.record.assignee ?? "(unassigned)"),
+    byPoints: groupStats(
+      outcomes.filter((o) => o.record.estimate_points),
+      (o) => String(o.record.estimate_points),
+      (a, b) => Number(a.key) - Number(b.key)
+    ),
+    byConfidence: groupStats(outcomes, (o) => confidenceBucket(o.record.confidence)),
+    unmeasured: records.length - outcomes.length,
+  };
+}
+
+// ============================================
+// Suggestions
+// ============================================
+
+/**
+ * Closest value on the point scale by ratio (4 → 5, 6 → 5, 7 → 8)
+ */
+export function snapToPointScale(points: number): number {
+  return POINT_SCALE.reduce((best, p) =>
+    Math.abs(Math.log(p / points)) < Math.abs(Math.log(best / points)) ? p : best
+  );
+}
+
+/** Distinct words of three letters or more, as an OR search */
+function similarityQuery(text: string): string | undefined {
+  const words = [...new Set((text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []))].slice(0, 12);
+  return words.length > 0 ? words.join(" OR ") : undefined;
+}
+
+/**
+ * Suggest points for a new task from the completed tasks most similar to it
+ * (full-text match on title and description, same type preferred); without
+ * matches, from the latest completed tasks of its type. The median time they
+ * took is converted to points with the project's hours per point.
+ */
+export function suggestPoints(
+  store: EstimationStore,
+  projectId: string,
+  input: { title: string; description?: string; type?: string }
+): PointSuggestion {
+  const records = store.estimationRepo.list({ projectId });
+  const hoursPerPoint = calibrateHoursPerPoint(records);
+  const outcomes = estimateOutcomes(records, hoursPerPoint).filter((o) => o.record.estimate_points);
+  const byTask = new Map(outcomes.map((o) => [o.record.task_id, o]));
+
+  let basis: PointSuggestion["basis"] = "similar";
+  let similar: EstimateOutcome[] = [];
+
+  const query = similarityQuery(`${input.title} ${input.description ?? ""}`);
+  if (query) {
+    similar = store.taskRepo
+      .search(query, { projectId, limit: 50 })
+      .filter((r) => byTask.has(r.task.id))
+      .map((r) => ({ outcome: byTask.get(r.task.id)!, score: r.score * (r.task.type === input.type ? 2 : 1) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, SIMILAR_LIMIT)
+      .map((r) => r.outcome);
+  }
+  if (similar.length === 0) {
+    basis = "type";
+    similar = outcomes.filter((o) => o.record.type === (input.type ?? "task")).slice(0, SIMILAR_LIMIT);
+  }
+  if (similar.length === 0) {
+    return { basis: "none", similar: [], hoursPerPoint };
+  }
+
+  const estimatedPoints = median(similar.map((o) => o.record.estimate_points!));
+  const actualHours = median(similar.map((o) => o.actualHours));
+
+  return {
+    points: snapToPointScale(actualHours / hoursPerPoint!),
+    basis,
+    similar,
+    estimatedPoints,
+    actualHours,
+    hoursPerPoint,
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function formatStats(stats: AccuracyStats, width: number): string {
+  const perPoint = stats.hoursPerPoint !== undefined ? `, ${stats.hoursPerPoint.toFixed(1)}h/pt` : "";
+  return (
+    `  ${stats.key.padEnd(width)}  ${String(stats.tasks).padStart(3)} tasks  ` +
+    `${stats.estimatedHours.toFixed(1)}h → ${stats.actualHours.toFixed(1)}h  ${stats.ratio.toFixed(2)}× ` +
+    `(median ${stats.medianRatio.toFixed(2)}×, ${Math.round(stats.withinRange * 100)}% within ±25%${perPoint})`
+  );
+}
+
+/**
+ * Text report; ratios above 1 mean tasks took longer than estimated
+ */
+export function formatEstimationReport(report: EstimationReport): string {
+  if (!report.overall) {
+    return report.unmeasured > 0
+      ? `No estimates to compare (${report.unmeasured} done tasks without an estimate or an actual)`
+      : "No done tasks yet";
+  }
+
+  const lines = [
+    `Estimation accuracy: ${report.overall.tasks} done tasks` +
+      (report.unmeasured > 0 ? ` (${report.unmeasured} without an estimate or an actual)` : ""),
+    `Actual/estimate: ${report.overall.ratio.toFixed(2)}× overall, median ${report.overall.medianRatio.toFixed(2)}×, ` +
+      `${Math.round(report.overall.withinRange * 100)}% within ±25%`,
+  ];
+  if (report.hoursPerPoint !== undefined) {
+    lines.push(`Calibration: 1 point ≈ ${report.hoursPerPoint.toFixed(1)}h`);
+  }
+
+  const sections: [string, AccuracyStats[]][] = [
+    ["By type", report.byType],
+    ["By assignee", report.byAssignee],
+    ["By points", report.byPoints],
+    ["By confidence", report.byConfidence],
+  ];
+  for (const [title, groups] of sections) {
+    if (groups.length === 0) continue;
+    const width = Math.max(...groups.map((g) => g.key.length));
+    lines.push("", `${title}:`, ...groups.map((g) => formatStats(g, width)));
+  }
+
+  return lines.join("\n");
+}
+
+export function formatPointSuggestion(suggestion: PointSuggestion): string {
+  if (suggestion.points === undefined) {
+    return "No completed tasks with points to compare with yet";
+  }
+
+  const basis = suggestion.basis === "similar" ? "similar completed tasks" : "latest completed tasks of this type";
+  const lines = [
+    `Suggested estimate: ${suggestion.points} points`,
+    `Based on ${suggestion.similar.length} ${basis}: median ${suggestion.estimatedPoints} points estimated, ` +
+      `${suggestion.actualHours!.toFixed(1)}h actual (1 point ≈ ${suggestion.hoursPerPoint!.toFixed(1)}h)`,
+    "",
+  ];
+  for (const o of suggestion.similar) {
+    lines.push(
+      `  #${o.record.seq} ${o.record.title} [${o.record.type}]: ${o.record.estimate_points}pt, ${o.actualHours.toFixed(1)}h`
+    );
+  }
+  return lines.join("\n");
+}
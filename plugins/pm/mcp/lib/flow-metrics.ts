@@ -0,0 +1,337 @@
+/**
+ * Flow Metrics
+ *
+ * Lead time, cycle time, time in status, weekly throughput and WIP, replayed
+ * from the task events' status transitions, with a text cumulative flow
+ * diagram.
+ *
+ * - Lead time: created → done; cycle time: first in_progress → done.
+ *   Reopened tasks count from their last move to done.
+ * - WIP: tasks in in_progress or in_review.
+ */
+
+import { EventStore, TaskProjection } from "../../storage/lib/events.js";
+import { applyTaskEvent, endOfDay, DAY_MS } from "./projections.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface FlowMetricsOptions {
+  from: string;                  // YYYY-MM-DD, inclusive
+  to: string;                    // YYYY-MM-DD, inclusive
+  type?: string;
+  assignee?: string;
+}
+
+export interface DurationStats {
+  count: number;
+  mean: number;                  // Days
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface StatusTime {
+  status: string;
+  days: number;                  // Mean per completed task
+  share: number;                 // Of the mean lead time
+}
+
+export interface FlowSample {
+  date: string;
+  counts: Record<FlowStatus, number>;
+  wip: number;
+}
+
+export interface FlowMetrics {
+  from: string;
+  to: string;
+  completed: number;
+  leadTime?: DurationStats;
+  cycleTime?: DurationStats;
+  timeInStatus: StatusTime[];
+  throughput: { week: string; completed: number }[]; // week: Monday
+  samples: FlowSample[];         // Daily up to four weeks, else weekly
+}
+
+/** Cumulative flow bands, last stage first */
+export const FLOW_STATUSES = ["done", "in_review", "in_progress", "blocked", "todo"] as const;
+
+export type FlowStatus = (typeof FLOW_STATUSES)[number];
+
+const WIP_STATUSES: string[] = ["in_progress", "in_review"];
+
+interface Transition {
+  at: string;
+  status: string;
+}
+
+interface TaskTimeline {
+  state: TaskProjection;
+  transitions: Transition[];     // Starting with the status it was created in
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Nearest-rank percentile of unsorted values
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return sorted[rank - 1];
+}
+
+function durationStats(days: number[]): DurationStats | undefined {
+  if (days.length === 0) return undefined;
+  return {
+    count: days.length,
+    mean: days.reduce((sum, d) => sum + d, 0) / days.length,
+    p50: percentile(days, 50),
+    p85: percentile(days, 85),
+    p95: percentile(days, 95),
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / DAY_MS;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the week of a date */
+export function weekStart(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00.000Z`).getUTCDay();
+  return addDays(date.slice(0, 10), -((day + 6) % 7));
+}
+
+/**
+ * Status history of a project's tasks, replayed up to a time
+ */
+function taskTimelines(eventStore: EventStore, projectId: string, until: string): Map<string, TaskTimeline> {
+  const states = new Map<string, TaskProjection>();
+  const timelines = new Map<string, TaskTimeline>();
+
+  for (const event of eventStore.getProjectTaskEvents(projectId, until)) {
+    const state = applyTaskEvent(states, event);
+    const timeline = timelines.get(event.aggregateId);
+    if (!state) {
+      timelines.delete(event.aggregateId);
+    } else if (!timeline) {
+      timelines.set(event.aggregateId, { state, transitions: [{ at: event.createdAt, status: state.status }] });
+    } else {
+      if (state.status !== timeline.state.status) {
+        timeline.transitions.push({ at: event.createdAt, status: state.status });
+      }
+      timeline.state = state;
+    }
+  }
+  return timelines;
+}
+
+/** Time of the last move to done, for tasks that are done */
+function completedAt(timeline: TaskTimeline): string | undefined {
+  if (timeline.state.status !== "done") return undefined;
+  return timeline.transitions[timeline.transitions.length - 1].at;
+}
+
+function statusAt(timeline: TaskTimeline, time: string): string | undefined {
+  let status: string | undefined;
+  for (const t of timeline.transitions) {
+    if (t.at > time) break;
+    status = t.status;
+  }
+  return status;
+}
+
+function flowStatus(status: string): FlowStatus | undefined {
+  return (FLOW_STATUSES as readonly string[]).includes(status) ? (status as FlowStatus) : undefined;
+}
+
+// ============================================
+// Metrics
+// ============================================
+
+/**
+ * Flow metrics of a project's tasks over a date range. Lead/cycle time and
+ * time in status cover tasks completed in the range.
+ */
+export function getFlowMetrics(
+  eventStore: EventStore,
+  projectId: string,
+  options: FlowMetricsOptions
+): FlowMetrics {
+  const start = `${options.from}T00:00:00.000Z`;
+  const end = endOfDay(options.to);
+
+  const timelines = [...taskTimelines(eventStore, projectId, end).values()].filter(
+    ({ state }) =>
+      (!options.type || state.type === options.type) &&
+      (!options.assignee || state.assignee === options.assignee)
+  );
+
+  const completed: { timeline: TaskTimeline; doneAt: string }[] = [];
+  for (const timeline of timelines) {
+    const doneAt = completedAt(timeline);
+    if (doneAt && doneAt >= start && doneAt <= end) completed.push({ timeline, doneAt });
+  }
+
+  // Lead and cycle time
+  const leadDays: number[] = [];
+  const cycleDays: number[] = [];
+  const statusDays = new Map<string, number>();
+  for (const { timeline, doneAt } of completed) {
+    leadDays.push(daysBetween(timeline.state.createdAt, doneAt));
+    const started = timeline.transitions.find((t) => t.status === "in_progress");
+    if (started) cycleDays.push(daysBetween(started.at, doneAt));
+
+    const { transitions } = timeline;
+    for (let i = 0; i < transitions.length - 1; i++) {
+      const days = daysBetween(transitions[i].at, transitions[i + 1].at);
+      statusDays.set(transitions[i].status, (statusDays.get(transitions[i].status) ?? 0) + days);
+    }
+  }
+
+  const totalDays = [...statusDays.values()].reduce((sum, d) => sum + d, 0);
+  const timeInStatus = [...statusDays]
+    .map(([status, days]) => ({
+      status,
+      days: days / completed.length,
+      share: totalDays > 0 ? days / totalDays : 0,
+    }))
+    .sort((a, b) => b.days - a.days);
+
+  // Weekly throughput
+  const throughput: FlowMetrics["throughput"] = [];
+  for (let week = weekStart(options.from); week <= options.to; week = addDays(week, 7)) {
+    throughput.push({ week, completed: 0 });
+  }
+  for (const { doneAt } of completed) {
+    const week = weekStart(doneAt);
+    const row = throughput.find((t) => t.week === week);
+    if (row) row.completed++;
+  }
+
+  // Status counts at the end of each sampled day, the last one being `to`
+  const span = Math.round(daysBetween(start, end));
+  const step = span <= 28 ? 1 : 7;
+  const samples: FlowSample[] = [];
+  for (let day = (span - 1) % step; day < span; day += step) {
+    const date = addDays(options.from, day);
+    const cutoff = endOfDay(date);
+    const counts = Object.fromEntries(FLOW_STATUSES.map((s) => [s, 0])) as Record<FlowStatus, number>;
+    for (const timeline of timelines) {
+      const status = statusAt(timeline, cutoff);
+      const band = status && flowStatus(status);
+      if (band) counts[band]++;
+    }
+    samples.push({
+      date,
+      counts,
+      wip: WIP_STATUSES.reduce((sum, s) => sum + counts[s as FlowStatus], 0),
+    });
+  }
+
+  return {
+    from: options.from,
+    to: options.to,
+    completed: completed.length,
+    leadTime: durationStats(leadDays),
+    cycleTime: durationStats(cycleDays),
+    timeInStatus,
+    throughput,
+    samples,
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+const CFD_WIDTH = 40;
+const CFD_BANDS: Record<FlowStatus, string> = {
+  done: "█",
+  in_review: "▓",
+  in_progress: "▒",
+  blocked: "▚",
+  todo: "░",
+};
+
+/**
+ * Text cumulative flow diagram: one stacked bar per sample, done first
+ */
+export function formatCumulativeFlow(samples: FlowSample[]): string {
+  const totals = samples.map((s) => FLOW_STATUSES.reduce((sum, status) => sum + s.counts[status], 0));
+  const max = Math.max(0, ...totals);
+  if (max === 0) return "No tasks";
+
+  const legend = FLOW_STATUSES.map((s) => `${CFD_BANDS[s]} ${s}`).join("  ");
+  const rows = samples.map((sample, i) => {
+    // Round the cumulative edges so bands add up to the bar length
+    let bar = "";
+    let cumulative = 0;
+    for (const status of FLOW_STATUSES) {
+      const edge = Math.round(((cumulative + sample.counts[status]) / max) * CFD_WIDTH);
+      bar += CFD_BANDS[status].repeat(edge - Math.round((cumulative / max) * CFD_WIDTH));
+      cumulative += sample.counts[status];
+    }
+    return `${sample.date.slice(5)}: ${bar.padEnd(CFD_WIDTH)} ${totals[i]} (WIP ${sample.wip})`;
+  });
+
+  return [legend, ...rows].join("\n");
+}
+
+function formatDays(days: number): string {
+  return `${days.toFixed(1)}d`;
+}
+
+function formatDurationStats(label: string, stats?: DurationStats): string {
+  if (!stats) return `${label}: n/a`;
+  return (
+    `${label}: mean ${formatDays(stats.mean)}, p50 ${formatDays(stats.p50)}, ` +
+    `p85 ${formatDays(stats.p85)}, p95 ${formatDays(stats.p95)} (${stats.count} tasks)`
+  );
+}
+
+export function formatFlowMetrics(metrics: FlowMetrics): string {
+  const lines = [
+    `Flow metrics: ${metrics.from} → ${metrics.to} (${metrics.completed} tasks completed)`,
+    formatDurationStats("Lead time (created → done)", metrics.leadTime),
+    formatDurationStats("Cycle time (in_progress → done)", metrics.cycleTime),
+  ];
+
+  if (metrics.timeInStatus.length > 0) {
+    const width = Math.max(...metrics.timeInStatus.map((s) => s.status.length));
+    lines.push("", "Time in status (mean per completed task):");
+    for (const s of metrics.timeInStatus) {
+      lines.push(`  ${s.status.padEnd(width)}  ${formatDays(s.days).padStart(6)}  ${Math.round(s.share * 100)}%`);
+    }
+  }
+
+  const weeks = metrics.throughput.length;
+  const average = weeks > 0 ? metrics.completed / weeks : 0;
+  const most = Math.max(1, ...metrics.throughput.map((t) => t.completed));
+  lines.push("", `Weekly throughput (avg ${average.toFixed(1)}):`);
+  for (const t of metrics.throughput) {
+    const bar = "█".repeat(Math.round((t.completed / most) * 20));
+    lines.push(`  ${t.week}  ${bar.padEnd(20)} ${t.completed}`);
+  }
+
+  if (metrics.samples.length > 0) {
+    const wip = metrics.samples.map((s) => s.wip);
+    lines.push(
+      "",
+      `WIP: avg ${(wip.reduce((sum, w) => sum + w, 0) / wip.length).toFixed(1)}, max ${Math.max(...wip)}`,
+      "",
+      "Cumulative flow:",
+      formatCumulativeFlow(metrics.samples)
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,294 @@
+/**
+ * Labels
+ *
+ * Project label definitions and the task labels that use them: tagging,
+ * renames and deletes that carry over to tasks, and two-way sync of the
+ * definitions with the repository's GitHub labels.
+ */
+
+import { TaskRepository, LabelRepository, Task, Label } from "./projections.js";
+import {
+  listLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+  type GitHubLabel,
+} from "../../lib/github.js";
+import { STATUS_LABEL_STYLES, isStatusLabel } from "../../lib/status-mapper.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface LabelStore {
+  labelRepo: LabelRepository;
+  taskRepo: TaskRepository;
+}
+
+export interface TaskLabelChange {
+  task: Task;
+  added: string[];
+  removed: string[];
+}
+
+export interface LabelSyncResult {
+  created: string[]; // Created on GitHub
+  updated: string[]; // Local changes pushed to GitHub
+  deleted: string[]; // Deleted on GitHub
+  imported: string[]; // GitHub labels new to the project
+  pulled: string[]; // Local labels updated from GitHub
+  removed: string[]; // Local labels deleted because they were deleted on GitHub
+  errors: string[];
+}
+
+const SYNC_METADATA = { source: "label-sync" };
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function taskLabels(task: Task): string[] {
+  return task.labels ? (JSON.parse(task.labels) as string[]) : [];
+}
+
+// ============================================
+// Task Labels
+// ============================================
+
+/**
+ * Throws when a label cannot be put on a task: status labels follow the task status
+ */
+export function checkTaskLabels(labels: string[]): void {
+  const status = labels.find(isStatusLabel);
+  if (status) {
+    throw new Error(`"${status}" is a status label; use pm_task_status to change it`);
+  }
+}
+
+/**
+ * Add and remove labels on a task. Added labels are defined for the project
+ * when missing and take the defined spelling (see checkTaskLabels).
+ */
+export function applyTaskLabels(
+  store: LabelStore,
+  task: Task,
+  changes: { add?: string[]; remove?: string[] }
+): TaskLabelChange {
+  const add = (changes.add ?? []).map((l) => l.trim()).filter(Boolean);
+  const remove = (changes.remove ?? []).map((l) => l.trim()).filter(Boolean);
+
+  checkTaskLabels(add);
+
+  const canonical = store.labelRepo.ensure(task.project_id, add).map((l) => l.name);
+  const before = taskLabels(task);
+  const updated = store.taskRepo.changeLabels(task.id, { add: canonical, remove }) ?? task;
+  const after = taskLabels(updated);
+
+  return {
+    task: updated,
+    added: after.filter((l) => !before.includes(l)),
+    removed: before.filter((l) => !after.includes(l)),
+  };
+}
+
+function retagTasks(
+  store: LabelStore,
+  projectId: string,
+  from: string,
+  to: string | undefined,
+  metadata?: typeof SYNC_METADATA
+): number {
+  const tasks = store.taskRepo.list({ projectId, label: from });
+  for (const task of tasks) {
+    store.taskRepo.changeLabels(task.id, { remove: [from], add: to ? [to] : [] }, metadata);
+  }
+  return tasks.length;
+}
+
+/**
+ * Rename or restyle a label; a rename is applied to every task carrying it
+ */
+export function updateProjectLabel(
+  store: LabelStore,
+  projectId: string,
+  name: string,
+  changes: { name?: string; color?: string; description?: string }
+): Label | undefined {
+  const label = store.labelRepo.get(projectId, name);
+  if (!label) return undefined;
+  if (changes.name && isStatusLabel(changes.name)) {
+    throw new Error(`"${changes.name}" is a status label`);
+  }
+
+  const updated = store.labelRepo.update(projectId, name, changes);
+  if (updated && updated.name !== label.name) {
+    retagTasks(store, projectId, label.name, updated.name);
+  }
+  return updated;
+}
+
+/**
+ * Delete a label and remove it from every task; returns the number of tasks
+ * untagged, or undefined when the label does not exist
+ */
+export function deleteProjectLabel(store: LabelStore, projectId: string, name: string): number | undefined {
+  const label = store.labelRepo.get(projectId, name);
+  if (!label) return undefined;
+
+  const untagged = retagTasks(store, projectId, label.name, undefined);
+  store.labelRepo.remove(projectId, label.name);
+  return untagged;
+}
+
+// ============================================
+// GitHub Sync
+// ============================================
+
+function differs(label: Label, remote: GitHubLabel): boolean {
+  return (
+    label.name !== remote.name ||
+    label.color !== remote.color ||
+    (label.description ?? "") !== remote.description
+  );
+}
+
+/**
+ * Two-way sync of the project's labels with the repository's labels.
+ *
+ * - Status labels are created on GitHub with their colors when missing.
+ * - Labels are matched by GitHub id, then by name.
+ * - Labels edited here since the last sync are pushed; otherwise GitHub's
+ *   name, color and description win (including on the first sync).
+ * - Deletions go both ways; labels only on GitHub are imported.
+ *
+ * Throws when the repository's labels cannot be listed.
+ */
+export function syncGitHubLabels(store: LabelStore, projectId: string, repo?: string): LabelSyncResult {
+  const result: LabelSyncResult = {
+    created: [],
+    updated: [],
+    deleted: [],
+    imported: [],
+    pulled: [],
+    removed: [],
+    errors: [],
+  };
+  const remote = listLabels(repo);
+  const now = new Date().toISOString();
+
+  for (const [name, style] of Object.entries(STATUS_LABEL_STYLES)) {
+    if (remote.some((r) => sameName(r.name, name))) continue;
+    if (createLabel({ name, ...style }, repo)) {
+      result.created.push(name);
+    } else {
+      result.errors.push(`Could not create status label ${name}`);
+    }
+  }
+
+  const matched = new Set<string>();
+  const pendingIds: string[] = [];
+
+  for (const label of store.labelRepo.list(projectId, { includeDeleted: true })) {
+    const match =
+      remote.find((r) => r.id === label.github_id && !matched.has(r.id)) ??
+      remote.find((r) => sameName(r.name, label.name) && !matched.has(r.id));
+    if (match) matched.add(match.id);
+
+    try {
+      if (label.deleted_at) {
+        if (match) {
+          if (!deleteLabel(match.name, repo)) {
+            result.errors.push(`Could not delete ${match.name} on GitHub`);
+            continue;
+          }
+          result.deleted.push(label.name);
+        }
+        store.labelRepo.purge(projectId, label.name);
+        continue;
+      }
+
+      if (!match) {
+        if (label.synced_at) {
+          retagTasks(store, projectId, label.name, undefined, SYNC_METADATA);
+          store.labelRepo.purge(projectId, label.name);
+          result.removed.push(label.name);
+        } else if (
+          createLabel({ name: label.name, color: label.color, description: label.description }, repo)
+        ) {
+          result.created.push(label.name);
+          pendingIds.push(label.name);
+        } else {
+          result.errors.push(`Could not create ${label.name} on GitHub`);
+        }
+        continue;
+      }
+
+      const dirty = !!label.synced_at && label.updated_at > label.synced_at;
+
+      if (!differs(label, match)) {
+        store.labelRepo.update(projectId, label.name, { github_id: match.id, synced_at: now });
+      } else if (dirty) {
+        const pushed = updateLabel(
+          match.name,
+          {
+            name: match.name !== label.name ? label.name : undefined,
+            color: label.color,
+            description: label.description ?? "",
+          },
+          repo
+        );
+        if (!pushed) {
+          result.errors.push(`Could not update ${match.name} on GitHub`);
+          continue;
+        }
+        store.labelRepo.update(projectId, label.name, { github_id: match.id, synced_at: now });
+        result.updated.push(label.name);
+      } else {
+        store.labelRepo.update(projectId, label.name, {
+          name: match.name,
+          color: match.color,
+          description: match.description,
+          github_id: match.id,
+          synced_at: now,
+        });
+        if (match.name !== label.name) {
+          retagTasks(store, projectId, label.name, match.name, SYNC_METADATA);
+        }
+        result.pulled.push(match.name);
+      }
+    } catch (error) {
+      result.errors.push(`${label.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  for (const r of remote) {
+    if (matched.has(r.id) || isStatusLabel(r.name)) continue;
+    try {
+      store.labelRepo.create(projectId, {
+        name: r.name,
+        color: r.color,
+        description: r.description,
+        github_id: r.id,
+        synced_at: now,
+      });
+      result.imported.push(r.name);
+    } catch (error) {
+      result.errors.push(`${r.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Record the ids GitHub assigned; unrecorded ones are matched by name next time
+  if (pendingIds.length > 0) {
+    try {
+      const created = listLabels(repo);
+      for (const name of pendingIds) {
+        const r = created.find((c) => sameName(c.name, name));
+        if (r) store.labelRepo.update(projectId, name, { github_id: r.id, synced_at: now });
+      }
+    } catch {
+      // Next sync matches them by name
+    }
+  }
+
+  return result;
+}
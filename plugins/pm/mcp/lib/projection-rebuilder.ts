@@ -0,0 +1,296 @@
+/**
+ * Projection Rebuilder
+ *
+ * Rebuilds the projection tables (projects, sprints, tasks, task_dependencies, task_worklog,
+ * estimation_accuracy)
+ * from the event store, or verifies them by replaying into a rolled-back
+ * transaction and diffing the result against the current rows.
+ * Task seq numbers and GitHub links made before TaskGitHubLinked existed
+ * are carried over.
+ */
+
+import { EventStore } from "../../storage/lib/events.js";
+import { DatabaseManager } from "./db.js";
+import {
+  ProjectRepository,
+  SprintRepository,
+  TaskRepository,
+  DependencyRepository,
+} from "./projections.js";
+
+// ============================================
+// Types
+// ============================================
+
+export const PROJECTION_TABLES = [
+  "projects",
+  "sprints",
+  "tasks",
+  "task_dependencies",
+  "task_worklog",
+  "estimation_accuracy",
+] as const;
+
+export type ProjectionTable = (typeof PROJECTION_TABLES)[number];
+
+export type ProjectionCounts = Record<ProjectionTable, number>;
+
+export interface ProjectionStore {
+  dbManager: DatabaseManager;
+  eventStore: EventStore;
+}
+
+export interface ProjectionRowDrift {
+  table: ProjectionTable;
+  id: string;
+  ref: string; // #seq for tasks, name for projects/sprints
+}
+
+export interface ProjectionFieldDrift extends ProjectionRowDrift {
+  field: string;
+  current: unknown;
+  replayed: unknown;
+}
+
+export interface ProjectionDriftReport {
+  checked: ProjectionCounts;
+  fields: ProjectionFieldDrift[];
+  missing: ProjectionRowDrift[]; // in the events, not in the table
+  extra: ProjectionRowDrift[]; // in the table, no events
+}
+
+export interface ProjectionRebuildResult {
+  counts: ProjectionCounts;
+  snapshotsCleared: number;
+}
+
+type Row = Record<string, unknown>;
+type TableRows = Record<ProjectionTable, Map<string, Row>>;
+
+interface CarriedTaskColumns {
+  id: string;
+  seq: number | null;
+  github_issue_number: number | null;
+  github_issue_url: string | null;
+  github_project_item_id: string | null;
+}
+
+/** Maintained by triggers/defaults, not by events */
+const IGNORED_COLUMNS = new Set(["updated_at"]);
+
+class VerifyRollback extends Error {}
+
+// ============================================
+// Replay
+// ============================================
+
+function rowKey(table: ProjectionTable, row: Row): string {
+  if (table === "task_dependencies") return `${row.task_id}→${row.depends_on_id}`;
+  if (table === "task_worklog") return `${row.task_id}@${row.version}`;
+  if (table === "estimation_accuracy") return String(row.task_id);
+  return String(row.id);
+}
+
+function rowRef(table: ProjectionTable, row: Row): string {
+  if (table === "tasks") return row.seq != null ? `#${row.seq}` : String(row.id);
+  if (table === "task_dependencies" || table === "task_worklog" || table === "estimation_accuracy") {
+    return rowKey(table, row);
+  }
+  return String(row.name);
+}
+
+function readTables(dbManager: DatabaseManager): TableRows {
+  const tables = {} as TableRows;
+  for (const table of PROJECTION_TABLES) {
+    const rows = dbManager.query<Row>(`SELECT * FROM ${table}`);
+    tables[table] = new Map(rows.map((row) => [rowKey(table, row), row]));
+  }
+  return tables;
+}
+
+function countRows(tables: TableRows): ProjectionCounts {
+  const counts = {} as ProjectionCounts;
+  for (const table of PROJECTION_TABLES) counts[table] = tables[table].size;
+  return counts;
+}
+
+/**
+ * Restore carried task columns (GitHub links from events win); tasks that
+ * had no row get the next free seq
+ */
+function restoreTaskColumns(dbManager: DatabaseManager, carried: CarriedTaskColumns[]): void {
+  // Clear first so restored seqs cannot collide with ones assigned during replay
+  dbManager.execute("UPDATE tasks SET seq = NULL");
+  for (const row of carried) {
+    dbManager.execute(
+      `UPDATE tasks SET seq = ?,
+         github_issue_number = COALESCE(github_issue_number, ?),
+         github_issue_url = COALESCE(github_issue_url, ?),
+         github_project_item_id = COALESCE(github_project_item_id, ?)
+       WHERE id = ?`,
+      [row.seq, row.github_issue_number, row.github_issue_url, row.github_project_item_id, row.id]
+    );
+  }
+
+  const unnumbered = dbManager.query<{ id: string; project_id: string }>(
+    "SELECT id, project_id FROM tasks WHERE seq IS NULL ORDER BY created_at, rowid"
+  );
+  for (const task of unnumbered) {
+    dbManager.execute(
+      `UPDATE tasks SET seq = (SELECT COALESCE(MAX(seq), 0) + 1 FROM tasks WHERE project_id = ?)
+       WHERE id = ?`,
+      [task.project_id, task.id]
+    );
+  }
+}
+
+/**
+ * Truncate the projection tables and replay every aggregate.
+ * Must run inside a transaction: foreign keys are only checked at commit.
+ */
+function replayAll(store: ProjectionStore): void {
+  const { dbManager, eventStore } = store;
+  const projectRepo = new ProjectRepository(dbManager, eventStore);
+  const sprintRepo = new SprintRepository(dbManager, eventStore);
+  const taskRepo = new TaskRepository(dbManager, eventStore);
+  const dependencyRepo = new DependencyRepository(dbManager, eventStore);
+
+  const carried = dbManager.query<CarriedTaskColumns>(
+    "SELECT id, seq, github_issue_number, github_issue_url, github_project_item_id FROM tasks"
+  );
+
+  dbManager.getDb().pragma("defer_foreign_keys = ON");
+  for (const table of [...PROJECTION_TABLES].reverse()) {
+    dbManager.execute(`DELETE FROM ${table}`);
+  }
+
+  for (const id of eventStore.getAggregateIds("project")) projectRepo.syncFromEvents(id);
+  for (const id of eventStore.getAggregateIds("sprint")) sprintRepo.syncFromEvents(id);
+
+  const taskIds = eventStore.getAggregateIds("task");
+  for (const id of taskIds) taskRepo.syncFromEvents(id);
+  for (const id of taskIds) dependencyRepo.syncFromEvents(id);
+
+  restoreTaskColumns(dbManager, carried);
+}
+
+// ============================================
+// Rebuild / Verify
+// ============================================
+
+/**
+ * Rebuild all projections from events. Snapshots are dropped first so the
+ * replay starts from the full history. Rolls back if rows that other tables
+ * reference have no events (see verifyProjections → extra).
+ */
+export function rebuildProjections(store: ProjectionStore): ProjectionRebuildResult {
+  const { dbManager, eventStore } = store;
+
+  return dbManager.transaction(() => {
+    const snapshotsCleared = eventStore.deleteSnapshots();
+    replayAll(store);
+
+    const violations = dbManager.query<{ table: string }>("PRAGMA foreign_key_check");
+    if (violations.length > 0) {
+      const tables = [...new Set(violations.map((v) => v.table))].join(", ");
+      throw new Error(`Rebuild would orphan rows in ${tables}; run verify to find rows without events`);
+    }
+
+    return { counts: countRows(readTables(dbManager)), snapshotsCleared };
+  });
+}
+
+/**
+ * Replay every aggregate without touching the tables and report how the
+ * current rows differ from the replayed ones
+ */
+export function verifyProjections(store: ProjectionStore): ProjectionDriftReport {
+  const { dbManager, eventStore } = store;
+  const current = readTables(dbManager);
+  let replayed: TableRows | undefined;
+
+  // Full replay: a stale snapshot would hide the drift we are looking for
+  const interval = eventStore.snapshotInterval;
+  eventStore.snapshotInterval = 0;
+  try {
+    dbManager.transaction(() => {
+      replayAll(store);
+      replayed = readTables(dbManager);
+      throw new VerifyRollback();
+    });
+  } catch (error) {
+    if (!(error instanceof VerifyRollback)) throw error;
+  } finally {
+    eventStore.snapshotInterval = interval;
+  }
+
+  return diffTables(current, replayed!);
+}
+
+/**
+ * Compare current rows against replayed rows, column by column
+ */
+function diffTables(current: TableRows, replayed: TableRows): ProjectionDriftReport {
+  const report: ProjectionDriftReport = {
+    checked: countRows(replayed),
+    fields: [],
+    missing: [],
+    extra: [],
+  };
+
+  for (const table of PROJECTION_TABLES) {
+    for (const [id, expected] of replayed[table]) {
+      const actual = current[table].get(id);
+      if (!actual) {
+        report.missing.push({ table, id, ref: rowRef(table, expected) });
+        continue;
+      }
+      // Dependency rows are keyed by their columns; created_at is set on insert
+      if (table === "task_dependencies") continue;
+
+      for (const field of Object.keys(expected)) {
+        if (IGNORED_COLUMNS.has(field)) continue;
+        const value = actual[field] ?? null;
+        const replayedValue = expected[field] ?? null;
+        if (value !== replayedValue) {
+          report.fields.push({
+            table,
+            id,
+            ref: rowRef(table, actual),
+            field,
+            current: value,
+            replayed: replayedValue,
+          });
+        }
+      }
+    }
+
+    for (const [id, row] of current[table]) {
+      if (!replayed[table].has(id)) report.extra.push({ table, id, ref: rowRef(table, row) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Format a drift report for tool output
+ */
+export function formatDriftReport(report: ProjectionDriftReport): string {
+  const checked = PROJECTION_TABLES.map((t) => `${report.checked[t]} ${t}`).join(", ");
+  const total = report.fields.length + report.missing.length + report.extra.length;
+  if (total === 0) return `✓ Projections match events (${checked})`;
+
+  const show = (v: unknown) => (v === null ? "(null)" : JSON.stringify(v));
+  const lines = [
+    `⚠️ Projection drift: ${report.fields.length} field(s), ${report.missing.length} missing row(s), ${report.extra.length} extra row(s)`,
+    `Checked ${checked}`,
+    "",
+    ...report.fields.map(
+      (d) => `${d.table} ${d.ref} ${d.field}: table ${show(d.current)} | events ${show(d.replayed)}`
+    ),
+    ...report.missing.map((d) => `${d.table} ${d.ref}: missing from table`),
+    ...report.extra.map((d) => `${d.table} ${d.ref}: no events`),
+  ];
+  return lines.join("\n");
+}
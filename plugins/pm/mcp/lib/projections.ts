@@ -1,12 +1,40 @@
 /**
  * PM Plugin Projection Repositories (Simplified)
  *
- * CQRS Read Models for tasks and projects.
+ * CQRS Read Models for tasks, sprints and projects.
  * Focus: Local Task → GitHub Issue → GitHub Project workflow
  */
 
 import { DatabaseManager } from "./db.js";
-import { EventStore, taskReducer, createProjectEvent } from "../../storage/lib/events.js";
+import {
+  EventStore,
+  BaseEvent,
+  TaskProjection,
+  TaskEventType,
+  WorklogEntry,
+  ProjectEventType,
+  taskReducer,
+  sprintReducer,
+  projectReducer,
+  createTaskEvent,
+  createSprintEvent,
+  createProjectEvent,
+  withConcurrencyRetry,
+} from "../../storage/lib/events.js";
+import {
+  parseTaskQuery,
+  parseTaskSort,
+  taskQueryConditions,
+  taskSortColumns,
+  taskCursorCondition,
+  encodeTaskCursor,
+  toFtsQuery,
+  DEFAULT_TASK_SORT,
+  type TaskQuery,
+  type TaskSortKey,
+} from "./task-query.js";
+import type { SyncQueueItem } from "../../lib/sync.js";
+import type { SyncConflict, FieldConflict } from "../../lib/sync-engine.js";
 import { randomUUID } from "crypto";
 
 // ============================================
@@ -23,10 +51,35 @@ export interface Project {
   updated_at: string;
 }
 
+export interface Sprint {
+  id: string;
+  project_id: string;
+  name: string;
+  goal?: string;
+  start_date: string;
+  end_date: string;
+  status: string;
+  velocity_committed: number;
+  velocity_completed: number;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface SprintStatus {
+  sprint: Sprint;
+  tasks: Task[];
+  totalPoints: number;
+  completedPoints: number;
+  progressPct: number;
+}
+
 export interface Task {
   id: string;
   seq?: number;                    // Project-scoped numeric ID (e.g., #42)
   project_id: string;
+  sprint_id?: string;
   parent_id?: string;
   title: string;
   description?: string;
@@ -35,6 +88,7 @@ export interface Task {
   type: string;
   estimate_points?: number;
   estimate_hours?: number;
+  estimate_confidence?: number;    // 0-1, given with the estimate
   actual_hours?: number;
   assignee?: string;
   labels?: string;
@@ -50,16 +104,82 @@ export interface Task {
   updated_at: string;
   started_at?: string;
   completed_at?: string;
+  timer_started_at?: string;      // Set while a timer runs
 }
 
+/** Board columns, in order (cancelled tasks are not shown) */
+export const BOARD_STATUSES = ["todo", "in_progress", "in_review", "done", "blocked"] as const;
+
+export type BoardStatus = (typeof BOARD_STATUSES)[number];
+
 export interface TaskFilter {
   projectId?: string;
+  sprintId?: string;
   status?: string;
   assignee?: string;
   type?: string;
   priority?: string;
+  label?: string;                 // Tasks carrying this label (case-insensitive)
+  query?: string | TaskQuery;     // Query language (see task-query.ts)
+  sort?: string | TaskSortKey[];  // e.g. "due,-priority"; overrides sort: in the query
+  cursor?: string;                // nextCursor of the previous page
+  me?: () => string | null;       // Resolves assignee:me
   limit?: number;
-  offset?: number;
+}
+
+export type TaskSearchField = "title" | "description" | "commits";
+
+export interface TaskSearchResult {
+  task: Task;
+  score: number;                  // Higher is more relevant (negated bm25)
+  snippet: string;                // Best matching fragment, matches in [brackets]
+  matchedIn: TaskSearchField[];
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor?: string;            // Set when more tasks follow
+}
+
+export interface TaskDependency {
+  task_id: string;
+  depends_on_id: string;
+  created_at: string;
+}
+
+export interface BlockingTask extends Task {
+  depth: number; // 1 = direct blocker
+}
+
+export interface VelocityData {
+  sprint_id: string;
+  sprint_name: string;
+  committed_points: number;
+  completed_points: number;
+  completion_rate: number;
+}
+
+export interface BurndownPoint {
+  date: string;
+  remaining_points: number;
+  ideal_points: number;
+}
+
+export interface Label {
+  id: number;
+  project_id: string;
+  name: string;
+  color: string;                  // Hex without '#'
+  description?: string;
+  github_id?: string;
+  synced_at?: string;
+  deleted_at?: string;            // Tombstone until the deletion reaches GitHub
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LabelUsage extends Label {
+  task_count: number;
 }
 
 export interface ProjectConfig {
@@ -73,6 +193,8 @@ export interface ProjectConfig {
   status_options?: string;
   sync_mode: string;
   last_sync_at?: string;
+  wip_limits?: string;            // JSON: column (status) → max tasks
+  wip_policy?: string;            // warn | block
   created_at: string;
   updated_at: string;
 }
@@ -81,49 +203,105 @@ export interface ProjectConfig {
 // Project Repository
 // ============================================
 
+export interface ProjectFilter {
+  status?: string;
+  includeArchived?: boolean; // archived projects are hidden unless filtered by status
+}
+
+export interface ProjectUpdate {
+  name?: string;
+  description?: string;
+  status?: string;
+  settings?: Record<string, unknown | null>; // merged; null removes a key
+}
+
+export interface ProjectUpdateEvent {
+  type: ProjectEventType;
+  payload: Record<string, unknown>;
+}
+
+const PROJECT_STATUSES = ["active", "completed", "archived"];
+
+/**
+ * Events that bring a project in line with the requested changes (only fields that differ)
+ */
+export function projectUpdateEvents(project: Project, updates: ProjectUpdate): ProjectUpdateEvent[] {
+  const events: ProjectUpdateEvent[] = [];
+  const status = updates.status !== project.status ? updates.status : undefined;
+
+  // Leaving archived restores "active" first; archiving comes last
+  let current = project.status;
+  if (status && current === "archived") {
+    events.push({ type: "ProjectUnarchived", payload: {} });
+    current = "active";
+  }
+
+  const fields: Record<string, unknown> = {};
+  if (updates.name !== undefined && updates.name !== project.name) fields.name = updates.name;
+  if (updates.description !== undefined && updates.description !== (project.description ?? null)) {
+    fields.description = updates.description;
+  }
+  if (status && status !== "archived" && status !== current) fields.status = status;
+  if (Object.keys(fields).length > 0) {
+    events.push({ type: "ProjectUpdated", payload: fields });
+  }
+
+  if (updates.settings !== undefined) {
+    const settings: Record<string, unknown> = { ...project.settings };
+    for (const [key, value] of Object.entries(updates.settings)) {
+      if (value === null) delete settings[key];
+      else settings[key] = value;
+    }
+    if (JSON.stringify(settings) !== JSON.stringify(project.settings ?? {})) {
+      events.push({ type: "ProjectSettingsChanged", payload: { settings } });
+    }
+  }
+
+  if (status === "archived") {
+    events.push({ type: "ProjectArchived", payload: {} });
+  }
+
+  return events;
+}
+
+interface ProjectRow extends Omit<Project, "settings"> {
+  settings: string | null;
+}
+
+function toProject(row: ProjectRow): Project {
+  return { ...row, settings: row.settings ? JSON.parse(row.settings) : undefined };
+}
+
 export class ProjectRepository {
   constructor(private db: DatabaseManager, private eventStore: EventStore) {}
 
   create(name: string, description?: string, settings?: Record<string, unknown>): Project {
     const id = randomUUID();
-    createProjectEvent(this.eventStore, "ProjectCreated", id, {
-      name,
-      description,
-      settings,
-    });
+    createProjectEvent(this.eventStore, "ProjectCreated", id, { name, description, settings }, undefined, 0);
     return this.syncFromEvents(id)!;
   }
 
   syncFromEvents(projectId: string): Project | undefined {
-    const events = this.eventStore.getEvents("project", projectId);
-    if (events.length === 0) return undefined;
-
-    const state = events.reduce(
-      (acc, event) => {
-        return {
-          ...acc,
-          ...event.payload,
-          id: projectId,
-        };
-      },
-      {} as Record<string, unknown>
-    );
+    const state = this.eventStore.replay("project", projectId, projectReducer);
+    if (!state) return undefined;
 
-    // Upsert to database
     this.db.execute(
-      `INSERT INTO projects (id, name, description, status, settings)
-       VALUES (?, ?, ?, ?, ?)
+      `INSERT INTO projects (id, name, description, status, settings, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
        ON CONFLICT(id) DO UPDATE SET
          name = excluded.name,
          description = excluded.description,
          status = excluded.status,
-         settings = excluded.settings`,
+         settings = excluded.settings,
+         updated_at = excluded.updated_at`,
       [
         projectId,
         state.name,
         state.description || null,
         state.status || "active",
         state.settings ? JSON.stringify(state.settings) : null,
+        state.createdAt,
+        state.updatedAt,
       ]
     );
 
@@ -131,47 +309,79 @@ export class ProjectRepository {
   }
 
   getById(id: string): Project | undefined {
-    return this.db.queryOne<Project>("SELECT * FROM projects WHERE id = ?", [id]);
+    const row = this.db.queryOne<ProjectRow>("SELECT * FROM projects WHERE id = ?", [id]);
+    return row && toProject(row);
   }
 
   getByName(name: string): Project | undefined {
-    return this.db.queryOne<Project>("SELECT * FROM projects WHERE name = ?", [name]);
+    const row = this.db.queryOne<ProjectRow>("SELECT * FROM projects WHERE name = ?", [name]);
+    return row && toProject(row);
   }
 
-  list(): Project[] {
-    return this.db.query<Project>("SELECT * FROM projects ORDER BY created_at DESC", []);
+  list(filter: ProjectFilter = {}): Project[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.status) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    } else if (!filter.includeArchived) {
+      conditions.push("status != 'archived'");
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    return this.db
+      .query<ProjectRow>(`SELECT * FROM projects ${where} ORDER BY created_at DESC`, params)
+      .map(toProject);
   }
 
-  update(id: string, updates: Partial<Project>): Project | undefined {
-    const project = this.getById(id);
-    if (!project) return undefined;
+  /**
+   * Record changes as project events; status "archived"/"active" archives or
+   * restores the project. Throws on unknown statuses.
+   */
+  update(id: string, updates: ProjectUpdate, metadata?: BaseEvent["metadata"]): Project | undefined {
+    if (updates.status !== undefined && !PROJECT_STATUSES.includes(updates.status)) {
+      throw new Error(`Invalid project status: ${updates.status} (expected ${PROJECT_STATUSES.join(", ")})`);
+    }
+
+    return this.appendEvents(id, (project) => projectUpdateEvents(project, updates), metadata);
+  }
 
-    const fields: string[] = [];
-    const values: unknown[] = [];
+  archive(id: string, reason?: string): Project | undefined {
+    return this.appendEvents(id, (project) =>
+      project.status === "archived" ? [] : [{ type: "ProjectArchived", payload: { reason } }]
+    );
+  }
 
-    if (updates.name !== undefined) {
-      fields.push("name = ?");
-      values.push(updates.name);
-    }
-    if (updates.description !== undefined) {
-      fields.push("description = ?");
-      values.push(updates.description);
-    }
-    if (updates.status !== undefined) {
-      fields.push("status = ?");
-      values.push(updates.status);
-    }
-    if (updates.settings !== undefined) {
-      fields.push("settings = ?");
-      values.push(JSON.stringify(updates.settings));
-    }
+  unarchive(id: string): Project | undefined {
+    return this.appendEvents(id, (project) =>
+      project.status === "archived" ? [{ type: "ProjectUnarchived", payload: {} }] : []
+    );
+  }
 
-    if (fields.length === 0) return project;
+  /**
+   * Append the events decided from a fresh read of the project, checked
+   * against the version that was read (retried like TaskRepository.appendEvents)
+   */
+  appendEvents(
+    id: string,
+    decide: (project: Project) => ProjectUpdateEvent[],
+    metadata?: BaseEvent["metadata"]
+  ): Project | undefined {
+    return withConcurrencyRetry(() => {
+      const version = this.eventStore.getVersion("project", id);
+      const project = version > 0 ? this.syncFromEvents(id) : undefined;
+      if (!project) return undefined;
 
-    values.push(id);
-    this.db.execute(`UPDATE projects SET ${fields.join(", ")} WHERE id = ?`, values);
+      const events = decide(project);
+      if (events.length === 0) return project;
 
-    return this.getById(id);
+      this.eventStore.transaction(() => {
+        events.forEach((event, i) =>
+          createProjectEvent(this.eventStore, event.type, id, event.payload, metadata, version + i)
+        );
+      });
+      return this.syncFromEvents(id);
+    });
   }
 }
 
@@ -179,40 +389,147 @@ export class ProjectRepository {
 // Task Repository
 // ============================================
 
+/** Task columns → TaskUpdated payload keys */
+const TASK_UPDATED_FIELDS = {
+  title: "title",
+  description: "description",
+  priority: "priority",
+  type: "type",
+  labels: "labels",
+  due_date: "dueDate",
+  blocked_by: "blockedBy",
+  branch_name: "branchName",
+  actual_hours: "actualHours",
+  parent_id: "parentId",
+} as const satisfies Partial<Record<keyof Task, keyof TaskProjection>>;
+
+export interface TaskUpdateEvent {
+  type: TaskEventType;
+  payload: Record<string, unknown>;
+}
+
+function parseJsonArray<T>(value: unknown): T[] {
+  if (Array.isArray(value)) return value as T[];
+  return typeof value === "string" && value ? (JSON.parse(value) as T[]) : [];
+}
+
+/**
+ * Events for a row-shaped update. Only changed fields are included; linked
+ * commits/PRs can only be added. started_at/completed_at follow status events.
+ */
+export function taskUpdateEvents(task: Task, updates: Partial<Task>): TaskUpdateEvent[] {
+  const changed = <K extends keyof Task>(key: K) =>
+    updates[key] !== undefined && (updates[key] ?? null) !== (task[key] ?? null);
+  const events: TaskUpdateEvent[] = [];
+
+  const fields: Record<string, unknown> = {};
+  for (const [column, key] of Object.entries(TASK_UPDATED_FIELDS)) {
+    const value = updates[column as keyof Task];
+    if (column === "labels") {
+      if (value === undefined) continue;
+      const labels = parseJsonArray<string>(value);
+      if (JSON.stringify(labels) !== JSON.stringify(parseJsonArray<string>(task.labels))) {
+        fields[key] = labels;
+      }
+    } else if (changed(column as keyof Task)) {
+      fields[key] = value;
+    }
+  }
+  if (Object.keys(fields).length > 0) {
+    events.push({ type: "TaskUpdated", payload: fields });
+  }
+
+  if (changed("status")) {
+    events.push({ type: "TaskStatusChanged", payload: { from: task.status, to: updates.status } });
+    events.push(...statusTimerEvents(task, updates.status!));
+  }
+
+  if (changed("assignee")) {
+    events.push({ type: "TaskAssigned", payload: { assignee: updates.assignee || undefined } });
+  }
+
+  if (changed("estimate_points") || changed("estimate_hours") || changed("estimate_confidence")) {
+    // TaskEstimated replaces all values, so carry the unchanged ones
+    const carry = <K extends "estimate_points" | "estimate_hours" | "estimate_confidence">(key: K) =>
+      (updates[key] !== undefined ? updates[key] : task[key]) ?? undefined;
+    events.push({
+      type: "TaskEstimated",
+      payload: {
+        points: carry("estimate_points"),
+        hours: carry("estimate_hours"),
+        confidence: carry("estimate_confidence"),
+      },
+    });
+  }
+
+  if (updates.linked_commits !== undefined) {
+    const current = parseJsonArray<string>(task.linked_commits);
+    for (const commitSha of parseJsonArray<string>(updates.linked_commits)) {
+      if (!current.includes(commitSha)) events.push({ type: "TaskLinkedToCommit", payload: { commitSha } });
+    }
+  }
+
+  if (updates.linked_prs !== undefined) {
+    const current = parseJsonArray<number>(task.linked_prs);
+    for (const prNumber of parseJsonArray<number>(updates.linked_prs)) {
+      if (!current.includes(prNumber)) events.push({ type: "TaskLinkedToPR", payload: { prNumber } });
+    }
+  }
+
+  const github: Record<string, unknown> = {};
+  if (changed("github_issue_number")) github.issueNumber = updates.github_issue_number;
+  if (changed("github_issue_url")) github.issueUrl = updates.github_issue_url;
+  if (changed("github_project_item_id")) github.projectItemId = updates.github_project_item_id;
+  if (Object.keys(github).length > 0) {
+    events.push({ type: "TaskGitHubLinked", payload: github });
+  }
+
+  return events;
+}
+
+/**
+ * Timer events for a status change: entering in_progress starts the timer,
+ * any other status stops a running one
+ */
+export function statusTimerEvents(
+  task: Pick<Task, "status" | "timer_started_at">,
+  to: string
+): TaskUpdateEvent[] {
+  if (to === task.status) return [];
+  if (to === "in_progress") {
+    return task.timer_started_at ? [] : [{ type: "TaskTimerStarted", payload: { source: "status" } }];
+  }
+  return task.timer_started_at
+    ? [{ type: "TaskTimerStopped", payload: { source: "status", reason: `Status changed to ${to}` } }]
+    : [];
+}
+
 export class TaskRepository {
   constructor(private db: DatabaseManager, private eventStore: EventStore) {}
 
   syncFromEvents(taskId: string): Task | undefined {
-    const events = this.eventStore.getEvents("task", taskId);
-    if (events.length === 0) return undefined;
-
-    const state = events.reduce(
-      taskReducer,
-      null
-    ) as Task & { project_id: string };
-
-    // Get next seq for project if not set
-    if (!state.seq) {
-      const maxSeq = this.db.queryOne<{ max_seq: number | null }>(
-        "SELECT MAX(seq) as max_seq FROM tasks WHERE project_id = ?",
-        [state.project_id]
-      );
-      state.seq = (maxSeq?.max_seq || 0) + 1;
-    }
+    const state = this.eventStore.replay("task", taskId, taskReducer);
+    if (!state) return undefined;
+
+    // Keep the seq once assigned; new tasks get the next one in their project
+    const existing = this.getById(taskId);
+    const seq = existing?.seq ?? this.getNextSeq(state.projectId);
 
     // Upsert to database
+    // (GitHub links made before TaskGitHubLinked existed have no event and are kept)
     this.db.execute(
       `INSERT INTO tasks (
-        id, seq, project_id, parent_id, title, description,
-        status, priority, type, estimate_points, estimate_hours, actual_hours,
+        id, seq, project_id, sprint_id, parent_id, title, description,
+        status, priority, type, estimate_points, estimate_hours, estimate_confidence, actual_hours,
         assignee, labels, due_date, blocked_by,
         branch_name, linked_commits, linked_prs,
         github_issue_number, github_issue_url, github_project_item_id,
-        started_at, completed_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        created_at, started_at, completed_at, timer_started_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
         seq = excluded.seq,
         project_id = excluded.project_id,
+        sprint_id = excluded.sprint_id,
         parent_id = excluded.parent_id,
         title = excluded.title,
         description = excluded.description,
@@ -221,6 +538,7 @@ export class TaskRepository {
         type = excluded.type,
         estimate_points = excluded.estimate_points,
         estimate_hours = excluded.estimate_hours,
+        estimate_confidence = excluded.estimate_confidence,
         actual_hours = excluded.actual_hours,
         assignee = excluded.assignee,
         labels = excluded.labels,
@@ -229,42 +547,108 @@ export class TaskRepository {
         branch_name = excluded.branch_name,
         linked_commits = excluded.linked_commits,
         linked_prs = excluded.linked_prs,
-        github_issue_number = excluded.github_issue_number,
-        github_issue_url = excluded.github_issue_url,
-        github_project_item_id = excluded.github_project_item_id,
+        github_issue_number = COALESCE(excluded.github_issue_number, tasks.github_issue_number),
+        github_issue_url = COALESCE(excluded.github_issue_url, tasks.github_issue_url),
+        github_project_item_id = COALESCE(excluded.github_project_item_id, tasks.github_project_item_id),
         started_at = excluded.started_at,
-        completed_at = excluded.completed_at`,
+        completed_at = excluded.completed_at,
+        timer_started_at = excluded.timer_started_at`,
       [
         taskId,
-        state.seq,
-        state.project_id,
-        state.parent_id || null,
+        seq,
+        state.projectId,
+        state.sprintId || null,
+        state.parentId || null,
         state.title,
         state.description || null,
         state.status,
         state.priority,
         state.type,
-        state.estimate_points || null,
-        state.estimate_hours || null,
-        state.actual_hours || null,
+        state.estimatePoints ?? null,
+        state.estimateHours ?? null,
+        state.estimateConfidence ?? null,
+        state.actualHours ?? null,
         state.assignee || null,
-        state.labels || null,
-        state.due_date || null,
-        state.blocked_by || null,
-        state.branch_name || null,
-        state.linked_commits || null,
-        state.linked_prs || null,
-        state.github_issue_number || null,
-        state.github_issue_url || null,
-        state.github_project_item_id || null,
-        state.started_at || null,
-        state.completed_at || null,
+        state.labels?.length ? JSON.stringify(state.labels) : null,
+        state.dueDate || null,
+        state.blockedBy || null,
+        state.branchName || null,
+        state.linkedCommits?.length ? JSON.stringify(state.linkedCommits) : null,
+        state.linkedPRs?.length ? JSON.stringify(state.linkedPRs) : null,
+        state.githubIssueNumber ?? null,
+        state.githubIssueUrl || null,
+        state.githubProjectItemId || null,
+        state.createdAt,
+        state.startedAt || null,
+        state.completedAt || null,
+        state.timerStartedAt || null,
       ]
     );
+    this.syncWorklog(taskId, state.worklog || []);
+    this.syncEstimationAccuracy(state);
 
     return this.getById(taskId);
   }
 
+  /** Entries are only ever appended, so existing rows are kept */
+  private syncWorklog(taskId: string, worklog: WorklogEntry[]): void {
+    for (const entry of worklog) {
+      this.db.execute(
+        `INSERT OR IGNORE INTO task_worklog
+           (task_id, version, started_at, ended_at, minutes, source, author, note)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          taskId,
+          entry.version,
+          entry.startedAt,
+          entry.endedAt,
+          entry.minutes,
+          entry.source,
+          entry.author || null,
+          entry.note || null,
+        ]
+      );
+    }
+  }
+
+  /** Done tasks have a row; reopening a task removes it */
+  private syncEstimationAccuracy(state: TaskProjection): void {
+    if (state.status !== "done" || !state.completedAt) {
+      this.db.execute("DELETE FROM estimation_accuracy WHERE task_id = ?", [state.id]);
+      return;
+    }
+
+    const cycleHours = state.startedAt
+      ? Math.max(0, Math.round((Date.parse(state.completedAt) - Date.parse(state.startedAt)) / 36_000) / 100)
+      : null;
+    this.db.execute(
+      `INSERT OR REPLACE INTO estimation_accuracy (
+        task_id, project_id, type, assignee, estimate_points, estimate_hours,
+        confidence, cycle_hours, logged_hours, completed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        state.id,
+        state.projectId,
+        state.type,
+        state.assignee || null,
+        state.estimatePoints ?? null,
+        state.estimateHours ?? null,
+        state.estimateConfidence ?? null,
+        cycleHours,
+        state.actualHours ?? null,
+        state.completedAt,
+      ]
+    );
+  }
+
+  private getNextSeq(projectId: string): number {
+    const result = this.db.queryOne<{ max_seq: number | null }>(
+      "SELECT MAX(seq) as max_seq FROM tasks WHERE project_id = ?",
+      [projectId]
+    );
+    return (result?.max_seq || 0) + 1;
+  }
+
   getById(id: string): Task | undefined {
     return this.db.queryOne<Task>("SELECT * FROM tasks WHERE id = ?", [id]);
   }
@@ -276,7 +660,84 @@ export class TaskRepository {
     );
   }
 
+  getByGitHubIssue(projectId: string, issueNumber: number): Task | undefined {
+    return this.db.queryOne<Task>(
+      "SELECT * FROM tasks WHERE project_id = ? AND github_issue_number = ?",
+      [projectId, issueNumber]
+    );
+  }
+
+  /**
+   * Most recently updated task recorded on a branch (branch_name)
+   */
+  getByBranch(projectId: string, branch: string): Task | undefined {
+    return this.db.queryOne<Task>(
+      "SELECT * FROM tasks WHERE project_id = ? AND branch_name = ? ORDER BY updated_at DESC LIMIT 1",
+      [projectId, branch]
+    );
+  }
+
+  /**
+   * Task whose UUID starts with a prefix (as in generated branch names); undefined when ambiguous
+   */
+  getByIdPrefix(projectId: string, prefix: string): Task | undefined {
+    if (!/^[0-9a-f-]+$/i.test(prefix)) return undefined;
+    const tasks = this.db.query<Task>(
+      "SELECT * FROM tasks WHERE project_id = ? AND id LIKE ? LIMIT 2",
+      [projectId, `${prefix.toLowerCase()}%`]
+    );
+    return tasks.length === 1 ? tasks[0] : undefined;
+  }
+
+  /**
+   * Tasks with a running timer, longest running first
+   */
+  listRunningTimers(projectId?: string): Task[] {
+    const project = projectId ? " AND project_id = ?" : "";
+    return this.db.query<Task>(
+      `SELECT * FROM tasks WHERE timer_started_at IS NOT NULL${project} ORDER BY timer_started_at`,
+      projectId ? [projectId] : []
+    );
+  }
+
+  /**
+   * Direct children of a task, in seq order
+   */
+  getChildren(parentId: string): Task[] {
+    return this.db.query<Task>("SELECT * FROM tasks WHERE parent_id = ? ORDER BY seq", [parentId]);
+  }
+
   list(filter: TaskFilter = {}): Task[] {
+    return this.listPage(filter).tasks;
+  }
+
+  /**
+   * Tasks grouped by board column, in list order (every column present)
+   */
+  getByStatus(projectId: string, sprintId?: string): Record<BoardStatus, Task[]> {
+    const grouped = Object.fromEntries(BOARD_STATUSES.map((s) => [s, [] as Task[]])) as Record<BoardStatus, Task[]>;
+    for (const task of this.list({ projectId, sprintId })) {
+      grouped[task.status as BoardStatus]?.push(task);
+    }
+    return grouped;
+  }
+
+  /**
+   * Number of a project's tasks in a status, optionally leaving one task out
+   */
+  countByStatus(projectId: string, status: string, excludeId?: string): number {
+    const row = this.db.queryOne<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM tasks WHERE project_id = ? AND status = ? AND id IS NOT ?",
+      [projectId, status, excludeId ?? null]
+    );
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Filtered, sorted page of tasks. Pages continue from filter.cursor
+   * (keyset pagination on the sort columns, so concurrent inserts do not shift pages).
+   */
+  listPage(filter: TaskFilter = {}): TaskPage {
     const conditions: string[] = [];
     const params: unknown[] = [];
 
@@ -284,6 +745,10 @@ export class TaskRepository {
       conditions.push("project_id = ?");
       params.push(filter.projectId);
     }
+    if (filter.sprintId) {
+      conditions.push("sprint_id = ?");
+      params.push(filter.sprintId);
+    }
     if (filter.status) {
       conditions.push("status = ?");
       params.push(filter.status);
@@ -300,122 +765,785 @@ export class TaskRepository {
       conditions.push("priority = ?");
       params.push(filter.priority);
     }
+    if (filter.label) {
+      conditions.push("EXISTS (SELECT 1 FROM json_each(tasks.labels) WHERE value = ? COLLATE NOCASE)");
+      params.push(filter.label);
+    }
+
+    const query = typeof filter.query === "string" ? parseTaskQuery(filter.query) : filter.query;
+    for (const condition of query ? taskQueryConditions(query, { me: filter.me }) : []) {
+      conditions.push(condition.sql);
+      params.push(...condition.params);
+    }
+
+    const sort = typeof filter.sort === "string" ? parseTaskSort(filter.sort) : filter.sort;
+    const sortKeys = sort?.length ? sort : query?.sort.length ? query.sort : DEFAULT_TASK_SORT;
+    const columns = taskSortColumns(sortKeys);
+
+    if (filter.cursor) {
+      const after = taskCursorCondition(filter.cursor, sortKeys);
+      conditions.push(after.sql);
+      params.push(...after.params);
+    }
 
-    let query = "SELECT * FROM tasks";
+    let sql = `SELECT tasks.*, ${columns.map((c, i) => `${c.expression} AS sort_key_${i}`).join(", ")} FROM tasks`;
     if (conditions.length > 0) {
-      query += ` WHERE ${conditions.join(" AND ")}`;
+      sql += ` WHERE ${conditions.join(" AND ")}`;
     }
-    query += " ORDER BY created_at DESC";
+    sql += ` ORDER BY ${columns.map((c) => `${c.expression}${c.descending ? " DESC" : ""}`).join(", ")}`;
 
+    // One extra row tells whether another page follows
     if (filter.limit) {
-      query += ` LIMIT ${filter.limit}`;
-      if (filter.offset) {
-        query += ` OFFSET ${filter.offset}`;
-      }
+      sql += " LIMIT ?";
+      params.push(filter.limit + 1);
     }
 
-    return this.db.query<Task>(query, params);
-  }
-
-  update(id: string, updates: Partial<Task>): Task | undefined {
-    const task = this.getById(id);
-    if (!task) return undefined;
+    const rows = this.db.query<Task & Record<string, unknown>>(sql, params);
+    const hasMore = filter.limit !== undefined && filter.limit > 0 && rows.length > filter.limit;
+    const pageRows = hasMore ? rows.slice(0, filter.limit) : rows;
 
-    const fields: string[] = [];
-    const values: unknown[] = [];
+    const tasks = pageRows.map((row) => {
+      const task = { ...row };
+      columns.forEach((_, i) => delete task[`sort_key_${i}`]);
+      return task as Task;
+    });
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore
+      ? encodeTaskCursor(sortKeys, columns.map((_, i) => last[`sort_key_${i}`]))
+      : undefined;
 
-    // Only allow specific fields to be updated directly
-    const allowedFields = [
-      "title",
-      "description",
-      "status",
-      "priority",
-      "type",
-      "estimate_points",
-      "estimate_hours",
-      "actual_hours",
-      "assignee",
-      "labels",
-      "due_date",
-      "blocked_by",
-      "branch_name",
-      "linked_commits",
-      "linked_prs",
-      "github_issue_number",
-      "github_issue_url",
-      "github_project_item_id",
-      "started_at",
-      "completed_at",
-    ];
+    return { tasks, nextCursor };
+  }
 
-    for (const key of allowedFields) {
-      if (updates[key] !== undefined) {
-        fields.push(`${key} = ?`);
-        values.push(updates[key]);
-      }
+  /**
+   * Full-text search over titles, descriptions and linked commit messages
+   * (tasks_fts), best matches first. Titles weigh most, commit messages least.
+   */
+  search(text: string, options: { projectId?: string; limit?: number } = {}): TaskSearchResult[] {
+    const params: unknown[] = [toFtsQuery(text)];
+    let sql = `
+      SELECT t.*,
+        -bm25(tasks_fts, 0, 10, 4, 2) AS search_score,
+        snippet(tasks_fts, -1, '[', ']', '…', 12) AS search_snippet,
+        instr(highlight(tasks_fts, 1, char(1), ''), char(1)) > 0 AS in_title,
+        instr(highlight(tasks_fts, 2, char(1), ''), char(1)) > 0 AS in_description,
+        instr(highlight(tasks_fts, 3, char(1), ''), char(1)) > 0 AS in_commits
+      FROM tasks_fts
+      JOIN tasks t ON t.id = tasks_fts.task_id
+      WHERE tasks_fts MATCH ?`;
+    if (options.projectId) {
+      sql += " AND t.project_id = ?";
+      params.push(options.projectId);
     }
+    sql += " ORDER BY search_score DESC, t.seq LIMIT ?";
+    params.push(options.limit ?? 20);
+
+    type Row = Task & {
+      search_score: number;
+      search_snippet: string;
+      in_title: number;
+      in_description: number;
+      in_commits: number;
+    };
+    return this.db.query<Row>(sql, params).map((row) => {
+      const { search_score, search_snippet, in_title, in_description, in_commits, ...task } = row;
+      const matched: [TaskSearchField, number][] = [
+        ["title", in_title],
+        ["description", in_description],
+        ["commits", in_commits],
+      ];
+      return {
+        task,
+        score: search_score,
+        snippet: search_snippet,
+        matchedIn: matched.filter(([, hit]) => hit).map(([field]) => field),
+      };
+    });
+  }
 
-    if (fields.length === 0) return task;
+  /**
+   * Apply field changes as events (see taskUpdateEvents); fields that
+   * already hold the given value record nothing
+   */
+  update(id: string, updates: Partial<Task>, metadata?: BaseEvent["metadata"]): Task | undefined {
+    return this.appendEvents(id, (task) => taskUpdateEvents(task, updates), metadata);
+  }
 
-    values.push(id);
-    this.db.execute(`UPDATE tasks SET ${fields.join(", ")} WHERE id = ?`, values);
+  /**
+   * Add and remove labels with TaskLabelAdded/TaskLabelRemoved (names compare
+   * case-insensitively; removals apply first, so a case change re-adds)
+   */
+  changeLabels(
+    id: string,
+    changes: { add?: string[]; remove?: string[] },
+    metadata?: BaseEvent["metadata"]
+  ): Task | undefined {
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
 
-    return this.getById(id);
+    return this.appendEvents(
+      id,
+      (task) => {
+        const current = parseJsonArray<string>(task.labels);
+        const removed = current.filter((label) => changes.remove?.some((r) => same(r, label)));
+        const kept = current.filter((label) => !removed.includes(label));
+        const added = (changes.add ?? []).filter(
+          (label, i, all) => !kept.some((k) => same(k, label)) && all.findIndex((a) => same(a, label)) === i
+        );
+        return [
+          ...removed.map((label) => ({ type: "TaskLabelRemoved" as const, payload: { label } })),
+          ...added.map((label) => ({ type: "TaskLabelAdded" as const, payload: { label } })),
+        ];
+      },
+      metadata
+    );
   }
 
-  delete(id: string): boolean {
-    const result = this.db.execute("DELETE FROM tasks WHERE id = ?", [id]);
-    return result.changes > 0;
+  /**
+   * Append the events decided from a fresh read of the task, checked against
+   * the version that was read. If another writer appended in between, the
+   * read and decision are retried (see withConcurrencyRetry).
+   */
+  appendEvents(
+    id: string,
+    decide: (task: Task) => TaskUpdateEvent[],
+    metadata?: BaseEvent["metadata"]
+  ): Task | undefined {
+    return withConcurrencyRetry(() => {
+      const version = this.eventStore.getVersion("task", id);
+      const task = version > 0 ? this.syncFromEvents(id) : undefined;
+      if (!task) return undefined;
+
+      const events = decide(task);
+      if (events.length === 0) return task;
+
+      this.eventStore.transaction(() => {
+        events.forEach((event, i) =>
+          createTaskEvent(this.eventStore, event.type, id, event.payload, metadata, version + i)
+        );
+      });
+      return this.syncFromEvents(id);
+    });
   }
 }
 
 // ============================================
-// Project Config Repository
+// Dependency Repository
 // ============================================
 
-export class ProjectConfigRepository {
-  constructor(private db: DatabaseManager) {}
+const OPEN_STATUS_SQL = "status NOT IN ('done', 'cancelled')";
 
-  create(projectId: string, config: Partial<ProjectConfig>): ProjectConfig {
-    this.db.execute(
-      `INSERT INTO project_config (
-        project_id, github_enabled, github_repo, github_project_id,
-        github_project_number, field_mappings, status_options, sync_mode
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        projectId,
-        config.github_enabled ? 1 : 0,
-        config.github_repo || null,
-        config.github_project_id || null,
-        config.github_project_number || null,
-        config.field_mappings || null,
-        config.status_options || null,
-        config.sync_mode || "manual",
-      ]
+/**
+ * Task dependency graph ("task_id depends on depends_on_id").
+ * Edges are stored on the dependent task's event stream; cycles are rejected.
+ */
+export class DependencyRepository {
+  constructor(private db: DatabaseManager, private eventStore: EventStore) {}
+
+  /**
+   * Add a dependency. Returns undefined without recording anything
+   * when the edge would close a cycle (see findCycle).
+   * The cycle check, the versioned append and the projection update share
+   * one transaction, so a concurrent add of a reverse edge is either seen by
+   * the check or makes this append fail and retry.
+   */
+  add(taskId: string, dependsOnId: string, metadata?: BaseEvent["metadata"]): TaskDependency | undefined {
+    return withConcurrencyRetry(() =>
+      this.eventStore.transaction(() => {
+        const version = this.eventStore.getVersion("task", taskId);
+        if (this.findCycle(taskId, dependsOnId)) return undefined;
+
+        const existing = this.get(taskId, dependsOnId);
+        if (existing) return existing;
+
+        createTaskEvent(this.eventStore, "TaskDependencyAdded", taskId, { dependsOnId }, metadata, version);
+        this.syncFromEvents(taskId);
+        return this.get(taskId, dependsOnId);
+      })
     );
+  }
 
-    return this.getByProjectId(projectId)!;
+  remove(taskId: string, dependsOnId: string): boolean {
+    return withConcurrencyRetry(() =>
+      this.eventStore.transaction(() => {
+        const version = this.eventStore.getVersion("task", taskId);
+        if (!this.get(taskId, dependsOnId)) return false;
+
+        createTaskEvent(this.eventStore, "TaskDependencyRemoved", taskId, { dependsOnId }, undefined, version);
+        this.syncFromEvents(taskId);
+        return true;
+      })
+    );
   }
 
-  getByProjectId(projectId: string): ProjectConfig | undefined {
-    return this.db.queryOne<ProjectConfig>(
-      "SELECT * FROM project_config WHERE project_id = ?",
-      [projectId]
+  syncFromEvents(taskId: string): void {
+    const state = this.eventStore.replay("task", taskId, taskReducer);
+    const dependsOn = state?.dependsOn || [];
+
+    this.db.transaction(() => {
+      this.db.execute(
+        `DELETE FROM task_dependencies
+         WHERE task_id = ? AND depends_on_id NOT IN (SELECT value FROM json_each(?))`,
+        [taskId, JSON.stringify(dependsOn)]
+      );
+      for (const dependsOnId of dependsOn) {
+        this.db.execute(
+          `INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id) VALUES (?, ?)`,
+          [taskId, dependsOnId]
+        );
+      }
+    });
+  }
+
+  get(taskId: string, dependsOnId: string): TaskDependency | undefined {
+    return this.db.queryOne<TaskDependency>(
+      "SELECT * FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?",
+      [taskId, dependsOnId]
     );
   }
 
-  update(projectId: string, updates: Partial<ProjectConfig>): ProjectConfig | undefined {
-    const config = this.getByProjectId(projectId);
-    if (!config) return undefined;
+  /**
+   * Tasks that taskId directly depends on
+   */
+  getDependencies(taskId: string): Task[] {
+    return this.db.query<Task>(
+      `SELECT t.* FROM task_dependencies d
+       JOIN tasks t ON t.id = d.depends_on_id
+       WHERE d.task_id = ?
+       ORDER BY t.seq`,
+      [taskId]
+    );
+  }
 
-    const fields: string[] = [];
-    const values: unknown[] = [];
+  /**
+   * Tasks that directly depend on taskId
+   */
+  getDependents(taskId: string): Task[] {
+    return this.db.query<Task>(
+      `SELECT t.* FROM task_dependencies d
+       JOIN tasks t ON t.id = d.task_id
+       WHERE d.depends_on_id = ?
+       ORDER BY t.seq`,
+      [taskId]
+    );
+  }
 
-    if (updates.github_enabled !== undefined) {
-      fields.push("github_enabled = ?");
-      values.push(updates.github_enabled ? 1 : 0);
-    }
-    if (updates.github_repo !== undefined) {
+  /**
+   * Returns the cycle (taskId → dependsOnId → ... → taskId) that adding
+   * the edge would create, or undefined if the edge is safe
+   */
+  findCycle(taskId: string, dependsOnId: string): string[] | undefined {
+    if (taskId === dependsOnId) return [taskId, taskId];
+
+    // BFS from dependsOnId along "depends on" edges looking for taskId
+    const previous = new Map<string, string>();
+    const queue = [dependsOnId];
+    const seen = new Set(queue);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const next = this.db.query<{ depends_on_id: string }>(
+        "SELECT depends_on_id FROM task_dependencies WHERE task_id = ?",
+        [current]
+      );
+
+      for (const { depends_on_id } of next) {
+        if (seen.has(depends_on_id)) continue;
+        seen.add(depends_on_id);
+        previous.set(depends_on_id, current);
+
+        if (depends_on_id === taskId) {
+          const path = [taskId];
+          let node = taskId;
+          while (node !== dependsOnId) {
+            node = previous.get(node)!;
+            path.unshift(node);
+          }
+          return [taskId, ...path];
+        }
+        queue.push(depends_on_id);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Unfinished tasks blocking taskId, directly or transitively.
+   * Finished blockers are not traversed: whatever blocked them no longer matters.
+   */
+  getBlockingChain(taskId: string): BlockingTask[] {
+    return this.db.query<BlockingTask>(
+      `WITH RECURSIVE chain(id, depth) AS (
+         SELECT d.depends_on_id, 1
+         FROM task_dependencies d
+         JOIN tasks t ON t.id = d.depends_on_id
+         WHERE d.task_id = ? AND t.${OPEN_STATUS_SQL}
+         UNION
+         SELECT d.depends_on_id, c.depth + 1
+         FROM chain c
+         JOIN task_dependencies d ON d.task_id = c.id
+         JOIN tasks t ON t.id = d.depends_on_id
+         WHERE t.${OPEN_STATUS_SQL}
+       )
+       SELECT t.*, MIN(c.depth) AS depth
+       FROM chain c JOIN tasks t ON t.id = c.id
+       GROUP BY t.id
+       ORDER BY depth, t.seq`,
+      [taskId]
+    );
+  }
+
+  /**
+   * Longest chain of unfinished blockers leading to taskId, weighted by
+   * story points (unestimated tasks count as 1). Starts with the task to
+   * pick up first and ends with taskId itself.
+   */
+  getCriticalPath(taskId: string): Task[] {
+    const memo = new Map<string, { weight: number; path: Task[] }>();
+
+    const visit = (id: string): { weight: number; path: Task[] } => {
+      const cached = memo.get(id);
+      if (cached) return cached;
+
+      const task = this.db.queryOne<Task>("SELECT * FROM tasks WHERE id = ?", [id]);
+      if (!task) return { weight: 0, path: [] };
+
+      const blockers = this.db.query<{ id: string }>(
+        `SELECT t.id FROM task_dependencies d
+         JOIN tasks t ON t.id = d.depends_on_id
+         WHERE d.task_id = ? AND t.${OPEN_STATUS_SQL}`,
+        [id]
+      );
+
+      let best = { weight: 0, path: [] as Task[] };
+      for (const blocker of blockers) {
+        const candidate = visit(blocker.id);
+        if (candidate.weight > best.weight) best = candidate;
+      }
+
+      const result = {
+        weight: best.weight + (task.estimate_points || 1),
+        path: [...best.path, task],
+      };
+      memo.set(id, result);
+      return result;
+    };
+
+    return visit(taskId).path;
+  }
+}
+
+// ============================================
+// Sprint Repository
+// ============================================
+
+export class SprintRepository {
+  private taskRepo: TaskRepository;
+
+  constructor(private db: DatabaseManager, private eventStore: EventStore) {
+    this.taskRepo = new TaskRepository(db, eventStore);
+  }
+
+  create(
+    projectId: string,
+    name: string,
+    startDate: string,
+    endDate: string,
+    goal?: string
+  ): Sprint {
+    const id = randomUUID();
+    createSprintEvent(
+      this.eventStore,
+      "SprintCreated",
+      id,
+      { projectId, name, startDate, endDate, goal },
+      undefined,
+      0
+    );
+    return this.syncFromEvents(id)!;
+  }
+
+  syncFromEvents(sprintId: string): Sprint | undefined {
+    const state = this.eventStore.replay("sprint", sprintId, sprintReducer);
+    if (!state) return undefined;
+
+    this.db.execute(
+      `INSERT INTO sprints (
+        id, project_id, name, goal, start_date, end_date, status,
+        velocity_committed, velocity_completed, created_at, started_at, completed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        goal = excluded.goal,
+        start_date = excluded.start_date,
+        end_date = excluded.end_date,
+        status = excluded.status,
+        velocity_committed = excluded.velocity_committed,
+        velocity_completed = excluded.velocity_completed,
+        started_at = excluded.started_at,
+        completed_at = excluded.completed_at`,
+      [
+        sprintId,
+        state.projectId,
+        state.name,
+        state.goal || null,
+        state.startDate,
+        state.endDate,
+        state.status,
+        state.velocityCommitted,
+        state.velocityCompleted,
+        state.createdAt,
+        state.startedAt || null,
+        state.completedAt || null,
+      ]
+    );
+
+    return this.getById(sprintId);
+  }
+
+  getById(id: string): Sprint | undefined {
+    return this.db.queryOne<Sprint>("SELECT * FROM sprints WHERE id = ?", [id]);
+  }
+
+  getActive(projectId: string): Sprint | undefined {
+    return this.db.queryOne<Sprint>(
+      "SELECT * FROM sprints WHERE project_id = ? AND status = 'active'",
+      [projectId]
+    );
+  }
+
+  list(projectId: string): Sprint[] {
+    return this.db.query<Sprint>(
+      "SELECT * FROM sprints WHERE project_id = ? ORDER BY start_date DESC",
+      [projectId]
+    );
+  }
+
+  getStatus(sprintId: string): SprintStatus | undefined {
+    const sprint = this.getById(sprintId);
+    if (!sprint) return undefined;
+
+    const tasks = this.db.query<Task>(
+      "SELECT * FROM tasks WHERE sprint_id = ? ORDER BY seq",
+      [sprintId]
+    );
+
+    const totalPoints = tasks.reduce((sum, t) => sum + (t.estimate_points || 0), 0);
+    const completedPoints = tasks
+      .filter((t) => t.status === "done")
+      .reduce((sum, t) => sum + (t.estimate_points || 0), 0);
+    const progressPct =
+      totalPoints > 0 ? Math.round((completedPoints / totalPoints) * 100) : 0;
+
+    return { sprint, tasks, totalPoints, completedPoints, progressPct };
+  }
+
+  start(sprintId: string): Sprint | undefined {
+    return withConcurrencyRetry(() => {
+      const version = this.eventStore.getVersion("sprint", sprintId);
+      if (version === 0 || !this.syncFromEvents(sprintId)) return undefined;
+
+      createSprintEvent(this.eventStore, "SprintStarted", sprintId, {}, undefined, version);
+      return this.syncFromEvents(sprintId);
+    });
+  }
+
+  /**
+   * Complete a sprint, freezing its committed/completed points and
+   * recording them in velocity_history. Decided from a fresh read of the
+   * sprint and appended with a version check (retried like task writes).
+   */
+  complete(sprintId: string): Sprint | undefined {
+    return withConcurrencyRetry(() => {
+      const version = this.eventStore.getVersion("sprint", sprintId);
+      if (version === 0 || !this.syncFromEvents(sprintId)) return undefined;
+      const status = this.getStatus(sprintId)!;
+
+      const { totalPoints, completedPoints } = status;
+      const completionRate = totalPoints > 0 ? completedPoints / totalPoints : 0;
+
+      this.eventStore.transaction(() => {
+        createSprintEvent(
+          this.eventStore,
+          "SprintCompleted",
+          sprintId,
+          { committedPoints: totalPoints, completedPoints },
+          undefined,
+          version
+        );
+        createSprintEvent(
+          this.eventStore,
+          "SprintVelocityRecorded",
+          sprintId,
+          { committedPoints: totalPoints, completedPoints, completionRate },
+          undefined,
+          version + 1
+        );
+
+        this.db.execute(
+          `INSERT INTO velocity_history
+           (project_id, sprint_id, committed_points, completed_points, completion_rate)
+           VALUES (?, ?, ?, ?, ?)`,
+          [status.sprint.project_id, sprintId, totalPoints, completedPoints, completionRate]
+        );
+      });
+
+      return this.syncFromEvents(sprintId);
+    });
+  }
+
+  /**
+   * Add tasks to a sprint (TaskAddedToSprint on each task aggregate).
+   * Tasks already in the sprint are skipped; throws before recording anything
+   * when the sprint or a task is missing or a task is from another project.
+   * Returns the ids of the tasks added.
+   */
+  addTasks(sprintId: string, taskIds: string[]): string[] {
+    const sprint = this.getById(sprintId);
+    if (!sprint) throw new Error(`Sprint not found: ${sprintId}`);
+
+    const added: string[] = [];
+    for (const taskId of taskIds) {
+      const task = this.taskRepo.getById(taskId);
+      if (!task) throw new Error(`Task not found: ${taskId}`);
+      if (task.project_id !== sprint.project_id) {
+        throw new Error(`Task #${task.seq} belongs to another project than sprint ${sprint.name}`);
+      }
+      if (task.sprint_id !== sprintId && !added.includes(taskId)) added.push(taskId);
+    }
+
+    this.eventStore.transaction(() => {
+      for (const taskId of added) {
+        this.taskRepo.appendEvents(taskId, (task) =>
+          task.sprint_id === sprintId ? [] : [{ type: "TaskAddedToSprint", payload: { sprintId } }]
+        );
+      }
+    });
+    return added;
+  }
+}
+
+// ============================================
+// Analytics Repository
+// ============================================
+
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Sprint analytics derived by replaying task events, so a sprint's
+ * velocity and burndown come out the same no matter when they are asked for.
+ */
+export class AnalyticsRepository {
+  constructor(private db: DatabaseManager, private eventStore: EventStore) {}
+
+  /**
+   * Calculate velocity over the last completed sprints of a project
+   */
+  calculateVelocity(projectId: string, sprintCount = 3): {
+    average: number;
+    trend: VelocityData[];
+    stdDev: number;
+  } {
+    const sprints = this.db.query<Sprint>(
+      `SELECT * FROM sprints
+       WHERE project_id = ? AND status = 'completed'
+       ORDER BY end_date DESC, completed_at DESC
+       LIMIT ?`,
+      [projectId, sprintCount]
+    );
+
+    if (sprints.length === 0) {
+      return { average: 0, trend: [], stdDev: 0 };
+    }
+
+    // One pass over the project's task events, each sprint read at its cutoff
+    const cutoffs = sprints.map((sprint) => sprint.completed_at || endOfDay(sprint.end_date));
+    const order = sprints.map((_, i) => i).sort((a, b) => cutoffs[a].localeCompare(cutoffs[b]));
+    const events = this.eventStore.getProjectTaskEvents(projectId, cutoffs[order[order.length - 1]]);
+    const tasks = new Map<string, TaskProjection>();
+    let eventIndex = 0;
+
+    const trend: VelocityData[] = new Array(sprints.length);
+    for (const i of order) {
+      while (eventIndex < events.length && events[eventIndex].createdAt <= cutoffs[i]) {
+        applyTaskEvent(tasks, events[eventIndex]);
+        eventIndex++;
+      }
+
+      const inSprint = sprintTasks(tasks, sprints[i].id);
+      const committed = sumPoints(inSprint);
+      const completed = sumPoints(inSprint.filter((t) => t.status === "done"));
+      trend[i] = {
+        sprint_id: sprints[i].id,
+        sprint_name: sprints[i].name,
+        committed_points: committed,
+        completed_points: completed,
+        completion_rate: committed > 0 ? completed / committed : 0,
+      };
+    }
+
+    const completedPoints = trend.map((v) => v.completed_points);
+    const average = completedPoints.reduce((a, b) => a + b, 0) / completedPoints.length;
+
+    const variance = completedPoints.reduce((sum, val) => {
+      return sum + Math.pow(val - average, 2);
+    }, 0) / completedPoints.length;
+    const stdDev = Math.sqrt(variance);
+
+    return {
+      average: Math.round(average * 10) / 10,
+      trend,
+      stdDev: Math.round(stdDev * 10) / 10,
+    };
+  }
+
+  /**
+   * Get daily remaining points for a sprint (one point per day, end of day)
+   */
+  getBurndownData(sprintId: string): BurndownPoint[] {
+    const sprint = this.db.queryOne<Sprint>(
+      `SELECT * FROM sprints WHERE id = ?`,
+      [sprintId]
+    );
+    if (!sprint) return [];
+
+    const startDate = new Date(`${sprint.start_date.slice(0, 10)}T00:00:00.000Z`);
+    const endDate = new Date(`${sprint.end_date.slice(0, 10)}T00:00:00.000Z`);
+    const totalDays = Math.max(
+      0,
+      Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS)
+    );
+
+    const events = this.eventStore.getProjectTaskEvents(sprint.project_id, endOfDay(sprint.end_date));
+    const tasks = new Map<string, TaskProjection>();
+    let eventIndex = 0;
+    let scope = 0;
+
+    const burndown: BurndownPoint[] = [];
+    for (let day = 0; day <= totalDays; day++) {
+      const dateStr = new Date(startDate.getTime() + day * DAY_MS)
+        .toISOString()
+        .split("T")[0];
+      const cutoff = endOfDay(dateStr);
+
+      while (eventIndex < events.length && events[eventIndex].createdAt <= cutoff) {
+        applyTaskEvent(tasks, events[eventIndex]);
+        eventIndex++;
+      }
+
+      const inSprint = sprintTasks(tasks, sprintId);
+      const remaining = sumPoints(inSprint.filter((t) => !isClosed(t.status)));
+
+      // The ideal line starts from the scope committed by the end of day one
+      if (day === 0) scope = sumPoints(inSprint);
+
+      burndown.push({
+        date: dateStr,
+        remaining_points: remaining,
+        ideal_points:
+          totalDays > 0 ? Math.round(scope * (1 - day / totalDays)) : 0,
+      });
+    }
+
+    return burndown;
+  }
+}
+
+/**
+ * Fold one event into replayed task states (see EventStore.getProjectTaskEvents).
+ * Returns the task's new state, or undefined once it is deleted or when it
+ * was created before the store existed (nothing to fold into).
+ */
+export function applyTaskEvent(tasks: Map<string, TaskProjection>, event: BaseEvent): TaskProjection | undefined {
+  const state = tasks.get(event.aggregateId) ?? null;
+  if (!state && event.eventType !== "TaskCreated") return undefined;
+
+  if (event.eventType === "TaskDeleted") {
+    tasks.delete(event.aggregateId);
+    return undefined;
+  }
+  const next = taskReducer(state, event);
+  tasks.set(event.aggregateId, next);
+  return next;
+}
+
+function sprintTasks(tasks: Map<string, TaskProjection>, sprintId: string): TaskProjection[] {
+  return [...tasks.values()].filter((t) => t.sprintId === sprintId);
+}
+
+function sumPoints(tasks: TaskProjection[]): number {
+  return tasks.reduce((sum, t) => sum + (t.estimatePoints || 0), 0);
+}
+
+function isClosed(status: string): boolean {
+  return status === "done" || status === "cancelled";
+}
+
+/** Last millisecond of a date (UTC), the cutoff for "as of" a day */
+export function endOfDay(date: string): string {
+  return `${date.slice(0, 10)}T23:59:59.999Z`;
+}
+
+// ============================================
+// Project Config Repository
+// ============================================
+
+export class ProjectConfigRepository {
+  constructor(private db: DatabaseManager) {}
+
+  create(projectId: string, config: Partial<ProjectConfig>): ProjectConfig {
+    this.db.execute(
+      `INSERT INTO project_config (
+        project_id, github_enabled, github_repo, github_project_id,
+        github_project_number, field_mappings, status_options, sync_mode,
+        wip_limits, wip_policy
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        projectId,
+        config.github_enabled ? 1 : 0,
+        config.github_repo || null,
+        config.github_project_id || null,
+        config.github_project_number || null,
+        config.field_mappings || null,
+        config.status_options || null,
+        config.sync_mode || "manual",
+        config.wip_limits || null,
+        config.wip_policy || "warn",
+      ]
+    );
+
+    return this.getByProjectId(projectId)!;
+  }
+
+  getByProjectId(projectId: string): ProjectConfig | undefined {
+    return this.db.queryOne<ProjectConfig>(
+      "SELECT * FROM project_config WHERE project_id = ?",
+      [projectId]
+    );
+  }
+
+  /**
+   * Configs connected to a GitHub repository (owner/repo, case-insensitive)
+   */
+  listByRepo(githubRepo: string): ProjectConfig[] {
+    return this.db.query<ProjectConfig>(
+      "SELECT * FROM project_config WHERE github_repo = ? COLLATE NOCASE ORDER BY id",
+      [githubRepo]
+    );
+  }
+
+  update(projectId: string, updates: Partial<ProjectConfig>): ProjectConfig | undefined {
+    const config = this.getByProjectId(projectId);
+    if (!config) return undefined;
+
+    const fields: string[] = [];
+    const values: unknown[] = [];
+
+    if (updates.github_enabled !== undefined) {
+      fields.push("github_enabled = ?");
+      values.push(updates.github_enabled ? 1 : 0);
+    }
+    if (updates.github_repo !== undefined) {
       fields.push("github_repo = ?");
       values.push(updates.github_repo);
     }
@@ -443,6 +1571,14 @@ export class ProjectConfigRepository {
       fields.push("last_sync_at = ?");
       values.push(updates.last_sync_at);
     }
+    if (updates.wip_limits !== undefined) {
+      fields.push("wip_limits = ?");
+      values.push(updates.wip_limits);
+    }
+    if (updates.wip_policy !== undefined) {
+      fields.push("wip_policy = ?");
+      values.push(updates.wip_policy);
+    }
 
     if (fields.length === 0) return config;
 
@@ -455,3 +1591,651 @@ export class ProjectConfigRepository {
     return this.getByProjectId(projectId);
   }
 }
+
+// ============================================
+// Worklog Repository
+// ============================================
+
+export interface Worklog {
+  task_id: string;
+  version: number;
+  started_at: string;
+  ended_at: string;
+  minutes: number;
+  source: string;
+  author?: string;
+  note?: string;
+}
+
+export type TimeReportGroup = "task" | "assignee" | "week";
+
+export interface TimeReportFilter {
+  projectId: string;
+  groupBy?: TimeReportGroup;      // default: task
+  sprintId?: string;
+  author?: string;
+  from?: string;                  // YYYY-MM-DD, inclusive (by entry start)
+  to?: string;                    // YYYY-MM-DD, inclusive
+}
+
+export interface TimeReportRow {
+  key: string;                    // task id, author or week start (Monday)
+  label: string;
+  minutes: number;
+  entries: number;
+  tasks: number;
+}
+
+const TIME_REPORT_GROUPS: Record<TimeReportGroup, { key: string; label: string; order: string }> = {
+  task: { key: "t.id", label: "'#' || t.seq || ' ' || t.title", order: "minutes DESC, t.seq" },
+  assignee: {
+    key: "COALESCE(w.author, '')",
+    label: "COALESCE(w.author, '(unassigned)')",
+    order: "minutes DESC, key",
+  },
+  week: {
+    key: "date(w.started_at, 'weekday 0', '-6 days')",
+    label: "'Week of ' || date(w.started_at, 'weekday 0', '-6 days')",
+    order: "key",
+  },
+};
+
+/**
+ * Worklog entries (written by TaskRepository.syncFromEvents) and time reports
+ */
+export class WorklogRepository {
+  constructor(private db: DatabaseManager) {}
+
+  getByTask(taskId: string): Worklog[] {
+    return this.db.query<Worklog>(
+      "SELECT * FROM task_worklog WHERE task_id = ? ORDER BY started_at, version",
+      [taskId]
+    );
+  }
+
+  /**
+   * Logged minutes grouped by task, author or week
+   */
+  report(filter: TimeReportFilter): TimeReportRow[] {
+    const group = TIME_REPORT_GROUPS[filter.groupBy ?? "task"];
+    const conditions = ["t.project_id = ?"];
+    const params: unknown[] = [filter.projectId];
+
+    if (filter.sprintId) {
+      conditions.push("t.sprint_id = ?");
+      params.push(filter.sprintId);
+    }
+    if (filter.author) {
+      conditions.push("w.author = ?");
+      params.push(filter.author);
+    }
+    if (filter.from) {
+      conditions.push("w.started_at >= date(?)");
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push("w.started_at < date(?, '+1 day')");
+      params.push(filter.to);
+    }
+
+    return this.db.query<TimeReportRow>(
+      `SELECT ${group.key} AS key, ${group.label} AS label,
+         SUM(w.minutes) AS minutes, COUNT(*) AS entries, COUNT(DISTINCT w.task_id) AS tasks
+       FROM task_worklog w
+       JOIN tasks t ON t.id = w.task_id
+       WHERE ${conditions.join(" AND ")}
+       GROUP BY key
+       ORDER BY ${group.order}`,
+      params
+    );
+  }
+}
+
+// ============================================
+// Estimation Repository
+// ============================================
+
+export interface EstimationRecord {
+  task_id: string;
+  seq?: number;
+  title: string;
+  project_id: string;
+  type: string;
+  assignee?: string;
+  estimate_points?: number;
+  estimate_hours?: number;
+  confidence?: number;
+  cycle_hours?: number;           // first in_progress → done
+  logged_hours?: number;          // worklog total
+  completed_at: string;
+}
+
+export interface EstimationFilter {
+  projectId: string;
+  type?: string;
+  assignee?: string;
+  from?: string;                  // YYYY-MM-DD, inclusive (by completion)
+}
+
+/**
+ * Estimate vs. actual of done tasks (written by TaskRepository.syncFromEvents)
+ */
+export class EstimationRepository {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Records in completion order, most recent first
+   */
+  list(filter: EstimationFilter): EstimationRecord[] {
+    const conditions = ["e.project_id = ?"];
+    const params: unknown[] = [filter.projectId];
+
+    if (filter.type) {
+      conditions.push("e.type = ?");
+      params.push(filter.type);
+    }
+    if (filter.assignee) {
+      conditions.push("e.assignee = ?");
+      params.push(filter.assignee);
+    }
+    if (filter.from) {
+      conditions.push("e.completed_at >= date(?)");
+      params.push(filter.from);
+    }
+
+    return this.db.query<EstimationRecord>(
+      `SELECT e.*, t.seq, t.title
+       FROM estimation_accuracy e
+       JOIN tasks t ON t.id = e.task_id
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY e.completed_at DESC, t.seq DESC`,
+      params
+    );
+  }
+}
+
+// ============================================
+// Label Repository
+// ============================================
+
+export const DEFAULT_LABEL_COLOR = "ededed";
+
+/**
+ * Hex color without '#', lowercase; throws on anything else
+ */
+export function normalizeLabelColor(color: string): string {
+  const hex = color.trim().replace(/^#/, "").toLowerCase();
+  if (!/^[0-9a-f]{6}$/.test(hex)) {
+    throw new Error(`Invalid label color: ${color} (use a hex color such as d73a4a)`);
+  }
+  return hex;
+}
+
+export interface LabelChanges {
+  name?: string;
+  color?: string;
+  description?: string;
+  github_id?: string;
+  synced_at?: string; // also stamps updated_at, so the change is not pushed back
+}
+
+/**
+ * Project label definitions. Labels synced to GitHub are tombstoned on delete
+ * until label sync removes them there too.
+ */
+export class LabelRepository {
+  constructor(private db: DatabaseManager) {}
+
+  list(projectId: string, options: { includeDeleted?: boolean } = {}): Label[] {
+    const deleted = options.includeDeleted ? "" : " AND deleted_at IS NULL";
+    return this.db.query<Label>(
+      `SELECT * FROM labels WHERE project_id = ?${deleted} ORDER BY name`,
+      [projectId]
+    );
+  }
+
+  /**
+   * Labels with the number of tasks carrying each
+   */
+  listUsage(projectId: string): LabelUsage[] {
+    return this.db.query<LabelUsage>(
+      `SELECT l.*, (
+         SELECT COUNT(*) FROM tasks t, json_each(t.labels) j
+         WHERE t.project_id = l.project_id AND j.value = l.name COLLATE NOCASE
+       ) AS task_count
+       FROM labels l
+       WHERE l.project_id = ? AND l.deleted_at IS NULL
+       ORDER BY l.name`,
+      [projectId]
+    );
+  }
+
+  get(projectId: string, name: string, options: { includeDeleted?: boolean } = {}): Label | undefined {
+    const deleted = options.includeDeleted ? "" : " AND deleted_at IS NULL";
+    return this.db.queryOne<Label>(
+      `SELECT * FROM labels WHERE project_id = ? AND name = ?${deleted}`,
+      [projectId, name]
+    );
+  }
+
+  /**
+   * Create a label (reviving a tombstone of the same name). Throws when it exists.
+   */
+  create(
+    projectId: string,
+    label: { name: string; color?: string; description?: string; github_id?: string; synced_at?: string }
+  ): Label {
+    const name = label.name.trim();
+    if (!name) throw new Error("Label name is required");
+    if (this.get(projectId, name)) throw new Error(`Label already exists: ${name}`);
+
+    const now = label.synced_at ?? new Date().toISOString();
+    const color = normalizeLabelColor(label.color ?? DEFAULT_LABEL_COLOR);
+    const tombstone = this.get(projectId, name, { includeDeleted: true });
+
+    if (tombstone) {
+      this.db.execute(
+        `UPDATE labels SET name = ?, color = ?, description = ?, deleted_at = NULL,
+           github_id = COALESCE(?, github_id), synced_at = COALESCE(?, synced_at), updated_at = ?
+         WHERE id = ?`,
+        [name, color, label.description || null, label.github_id ?? null, label.synced_at ?? null, now, tombstone.id]
+      );
+    } else {
+      this.db.execute(
+        `INSERT INTO labels (project_id, name, color, description, github_id, synced_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [projectId, name, color, label.description || null, label.github_id ?? null, label.synced_at ?? null, now, now]
+      );
+    }
+
+    return this.get(projectId, name)!;
+  }
+
+  /**
+   * Existing labels by name, creating the missing ones with the default color
+   */
+  ensure(projectId: string, names: string[]): Label[] {
+    return names.map((name) => this.get(projectId, name) ?? this.create(projectId, { name }));
+  }
+
+  update(projectId: string, name: string, changes: LabelChanges): Label | undefined {
+    const label = this.get(projectId, name);
+    if (!label) return undefined;
+
+    const fields: string[] = [];
+    const values: unknown[] = [];
+
+    if (changes.name !== undefined && changes.name.trim() !== label.name) {
+      const newName = changes.name.trim();
+      if (!newName) throw new Error("Label name is required");
+      const existing = this.get(projectId, newName, { includeDeleted: true });
+      if (existing && existing.id !== label.id) {
+        if (!existing.deleted_at) throw new Error(`Label already exists: ${newName}`);
+        this.purge(projectId, newName); // the tombstone would block the rename
+      }
+      fields.push("name = ?");
+      values.push(newName);
+    }
+    if (changes.color !== undefined) {
+      fields.push("color = ?");
+      values.push(normalizeLabelColor(changes.color));
+    }
+    if (changes.description !== undefined) {
+      fields.push("description = ?");
+      values.push(changes.description || null);
+    }
+    if (changes.github_id !== undefined) {
+      fields.push("github_id = ?");
+      values.push(changes.github_id);
+    }
+    if (changes.synced_at !== undefined) {
+      fields.push("synced_at = ?");
+      values.push(changes.synced_at);
+    }
+    if (fields.length === 0) return label;
+
+    fields.push("updated_at = ?");
+    values.push(changes.synced_at ?? new Date().toISOString());
+    values.push(label.id);
+    this.db.execute(`UPDATE labels SET ${fields.join(", ")} WHERE id = ?`, values);
+
+    return this.get(projectId, changes.name?.trim() || label.name);
+  }
+
+  /**
+   * Delete a label; ones known to GitHub stay as tombstones until synced
+   */
+  remove(projectId: string, name: string): boolean {
+    const label = this.get(projectId, name);
+    if (!label) return false;
+
+    if (label.github_id) {
+      const now = new Date().toISOString();
+      this.db.execute("UPDATE labels SET deleted_at = ?, updated_at = ? WHERE id = ?", [now, now, label.id]);
+    } else {
+      this.purge(projectId, name);
+    }
+    return true;
+  }
+
+  /**
+   * Remove the row, tombstone or not
+   */
+  purge(projectId: string, name: string): boolean {
+    return this.db.execute("DELETE FROM labels WHERE project_id = ? AND name = ?", [projectId, name]).changes > 0;
+  }
+}
+
+// ============================================
+// Workspace Repository
+// ============================================
+
+/**
+ * Active project per workspace (git root), chosen with pm_project_use
+ */
+export class WorkspaceRepository {
+  constructor(private db: DatabaseManager) {}
+
+  getProjectId(workspace: string): string | undefined {
+    return this.db.queryOne<{ project_id: string }>(
+      "SELECT project_id FROM workspace_projects WHERE workspace = ?",
+      [workspace]
+    )?.project_id;
+  }
+
+  setProjectId(workspace: string, projectId: string): void {
+    this.db.execute(
+      `INSERT INTO workspace_projects (workspace, project_id) VALUES (?, ?)
+       ON CONFLICT(workspace) DO UPDATE SET
+         project_id = excluded.project_id,
+         updated_at = datetime('now')`,
+      [workspace, projectId]
+    );
+  }
+
+  clear(workspace: string): boolean {
+    return this.db.execute("DELETE FROM workspace_projects WHERE workspace = ?", [workspace]).changes > 0;
+  }
+}
+
+// ============================================
+// Sync Queue Repository
+// ============================================
+
+interface SyncQueueRow {
+  id: number;
+  project_id: string;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+  payload: string;
+  status: SyncQueueItem["status"];
+  retry_count: number;
+  next_attempt_at: string | null;
+  error_message: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
+function toSyncQueueItem(row: SyncQueueRow): SyncQueueItem {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    payload: row.payload,
+    status: row.status,
+    retryCount: row.retry_count,
+    nextAttemptAt: row.next_attempt_at ?? undefined,
+    errorMessage: row.error_message ?? undefined,
+    createdAt: row.created_at,
+    processedAt: row.processed_at ?? undefined,
+  };
+}
+
+export class SyncQueueRepository {
+  constructor(private db: DatabaseManager) {}
+
+  enqueue(
+    projectId: string,
+    action: string,
+    entityType: string,
+    entityId: string,
+    payload: unknown
+  ): SyncQueueItem {
+    const result = this.db.execute(
+      `INSERT INTO sync_queue (project_id, action, entity_type, entity_id, payload, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [projectId, action, entityType, entityId, JSON.stringify(payload), new Date().toISOString()]
+    );
+
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  getById(id: number): SyncQueueItem | undefined {
+    const row = this.db.queryOne<SyncQueueRow>(
+      "SELECT * FROM sync_queue WHERE id = ?",
+      [id]
+    );
+    return row ? toSyncQueueItem(row) : undefined;
+  }
+
+  list(filter: { projectId?: string; status?: SyncQueueItem["status"]; limit?: number } = {}): SyncQueueItem[] {
+    let sql = "SELECT * FROM sync_queue WHERE 1=1";
+    const params: unknown[] = [];
+
+    if (filter.projectId) {
+      sql += " AND project_id = ?";
+      params.push(filter.projectId);
+    }
+    if (filter.status) {
+      sql += " AND status = ?";
+      params.push(filter.status);
+    }
+
+    sql += " ORDER BY id DESC LIMIT ?";
+    params.push(filter.limit || 50);
+
+    return this.db.query<SyncQueueRow>(sql, params).map(toSyncQueueItem);
+  }
+
+  /**
+   * Pending items plus failed items whose backoff has elapsed, oldest first
+   */
+  getDue(now = new Date(), limit = 50): SyncQueueItem[] {
+    return this.db
+      .query<SyncQueueRow>(
+        `SELECT * FROM sync_queue
+         WHERE status = 'pending'
+            OR (status = 'failed' AND (next_attempt_at IS NULL OR next_attempt_at <= ?))
+         ORDER BY id ASC
+         LIMIT ?`,
+        [now.toISOString(), limit]
+      )
+      .map(toSyncQueueItem);
+  }
+
+  save(item: SyncQueueItem): void {
+    if (item.id === undefined) return;
+
+    this.db.execute(
+      `UPDATE sync_queue
+       SET status = ?, retry_count = ?, next_attempt_at = ?, error_message = ?, processed_at = ?
+       WHERE id = ?`,
+      [
+        item.status,
+        item.retryCount,
+        item.nextAttemptAt ?? null,
+        item.errorMessage ?? null,
+        item.processedAt ?? null,
+        item.id,
+      ]
+    );
+  }
+
+  /**
+   * Reset a failed or dead item so it is picked up on the next flush
+   */
+  retry(id: number): SyncQueueItem | undefined {
+    const item = this.getById(id);
+    if (!item) return undefined;
+    if (item.status !== "failed" && item.status !== "dead") return item;
+
+    this.db.execute(
+      `UPDATE sync_queue
+       SET status = 'pending', retry_count = 0, next_attempt_at = NULL, error_message = NULL
+       WHERE id = ?`,
+      [id]
+    );
+
+    return this.getById(id);
+  }
+
+  /**
+   * Reset every dead-lettered item; returns how many were reset
+   */
+  retryDead(projectId?: string): number {
+    const result = this.db.execute(
+      `UPDATE sync_queue
+       SET status = 'pending', retry_count = 0, next_attempt_at = NULL, error_message = NULL
+       WHERE status = 'dead'${projectId ? " AND project_id = ?" : ""}`,
+      projectId ? [projectId] : []
+    );
+    return result.changes;
+  }
+
+  countByStatus(projectId?: string): Record<string, number> {
+    const rows = this.db.query<{ status: string; count: number }>(
+      `SELECT status, COUNT(*) as count FROM sync_queue
+       ${projectId ? "WHERE project_id = ?" : ""}
+       GROUP BY status`,
+      projectId ? [projectId] : []
+    );
+    return Object.fromEntries(rows.map((r) => [r.status, r.count]));
+  }
+}
+
+// ============================================
+// Sync Conflict Repository
+// ============================================
+
+export type ConflictResolution = "local" | "remote" | "merge";
+
+export interface StoredSyncConflict extends SyncConflict {
+  id: number;
+  projectId: string;
+  status: "open" | "resolved";
+  resolution?: ConflictResolution;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+interface SyncConflictRow {
+  id: number;
+  project_id: string;
+  task_id: string;
+  issue_number: number;
+  fields: string;
+  local_status: string;
+  remote_status: string;
+  local_updated_at: string;
+  remote_updated_at: string;
+  status: "open" | "resolved";
+  resolution: ConflictResolution | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+function toStoredSyncConflict(row: SyncConflictRow): StoredSyncConflict {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    taskId: row.task_id,
+    issueNumber: row.issue_number,
+    fields: JSON.parse(row.fields) as FieldConflict[],
+    localStatus: row.local_status as SyncConflict["localStatus"],
+    remoteStatus: row.remote_status as SyncConflict["remoteStatus"],
+    localUpdatedAt: row.local_updated_at,
+    remoteUpdatedAt: row.remote_updated_at,
+    status: row.status,
+    resolution: row.resolution ?? undefined,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at ?? undefined,
+  };
+}
+
+export class SyncConflictRepository {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Store a conflict; replaces the open conflict for the same task if any
+   */
+  record(projectId: string, conflict: SyncConflict): StoredSyncConflict {
+    const existing = this.db.queryOne<{ id: number }>(
+      "SELECT id FROM sync_conflicts WHERE task_id = ? AND status = 'open'",
+      [conflict.taskId]
+    );
+
+    const values = [
+      conflict.issueNumber,
+      JSON.stringify(conflict.fields),
+      conflict.localStatus,
+      conflict.remoteStatus,
+      conflict.localUpdatedAt,
+      conflict.remoteUpdatedAt,
+    ];
+
+    if (existing) {
+      this.db.execute(
+        `UPDATE sync_conflicts
+         SET issue_number = ?, fields = ?, local_status = ?, remote_status = ?,
+             local_updated_at = ?, remote_updated_at = ?
+         WHERE id = ?`,
+        [...values, existing.id]
+      );
+      return this.getById(existing.id)!;
+    }
+
+    const result = this.db.execute(
+      `INSERT INTO sync_conflicts (
+        project_id, task_id, issue_number, fields, local_status, remote_status,
+        local_updated_at, remote_updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [projectId, conflict.taskId, ...values]
+    );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  getById(id: number): StoredSyncConflict | undefined {
+    const row = this.db.queryOne<SyncConflictRow>(
+      "SELECT * FROM sync_conflicts WHERE id = ?",
+      [id]
+    );
+    return row ? toStoredSyncConflict(row) : undefined;
+  }
+
+  list(projectId: string, status?: StoredSyncConflict["status"]): StoredSyncConflict[] {
+    let sql = "SELECT * FROM sync_conflicts WHERE project_id = ?";
+    const params: unknown[] = [projectId];
+
+    if (status) {
+      sql += " AND status = ?";
+      params.push(status);
+    }
+
+    return this.db
+      .query<SyncConflictRow>(`${sql} ORDER BY id ASC`, params)
+      .map(toStoredSyncConflict);
+  }
+
+  resolve(id: number, resolution: ConflictResolution): StoredSyncConflict | undefined {
+    this.db.execute(
+      `UPDATE sync_conflicts
+       SET status = 'resolved', resolution = ?, resolved_at = ?
+       WHERE id = ? AND status = 'open'`,
+      [resolution, new Date().toISOString(), id]
+    );
+    return this.getById(id);
+  }
+}
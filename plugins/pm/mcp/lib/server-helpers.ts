@@ -331,6 +331,24 @@ export function getGitRoot(): string | null {
   }
 }
 
+/**
+ * Get the full SHA and message of a commit
+ */
+export function getCommitMessage(
+  ref: string
+): { sha: string; message: string } | null {
+  try {
+    const output = execFileSync("git", ["show", "-s", "--format=%H%n%B", ref], {
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    const [sha, ...body] = output.split("\n");
+    return { sha: sha.trim(), message: body.join("\n").trim() };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get the status change implied by magic words
  */
@@ -508,7 +526,7 @@ export const TOOL_SCHEMAS = {
         type: { type: "string" },
         priority: { type: "string" },
         limit: { type: "integer", default: 50 },
-        offset: { type: "integer", default: 0 },
+        cursor: { type: "string", description: "Cursor from the previous page" },
       },
     },
   },
@@ -735,6 +753,75 @@ export const TOOL_SCHEMAS = {
   },
 };
 
+// ============================================
+// Tool Arguments
+// ============================================
+
+/**
+ * Typed readers over a tool call's arguments. A present value of the wrong
+ * type is rejected, so unchecked input never reaches the repositories.
+ */
+export class ToolArgs {
+  constructor(private readonly raw: Record<string, unknown> = {}) {}
+
+  string(name: string): string | undefined {
+    return this.read(name, "a string", (v): v is string => typeof v === "string");
+  }
+
+  requireString(name: string): string {
+    const value = this.string(name);
+    if (value === undefined) throw new Error(`Missing argument: ${name}`);
+    return value;
+  }
+
+  number(name: string): number | undefined {
+    return this.read(name, "a number", (v): v is number => typeof v === "number" && Number.isFinite(v));
+  }
+
+  requireNumber(name: string): number {
+    const value = this.number(name);
+    if (value === undefined) throw new Error(`Missing argument: ${name}`);
+    return value;
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[]): T | undefined {
+    return this.read(name, `one of ${values.join(", ")}`, (v): v is T => values.includes(v as T));
+  }
+
+  requireOneOf<T extends string>(name: string, values: readonly T[]): T {
+    const value = this.oneOf(name, values);
+    if (value === undefined) throw new Error(`Missing argument: ${name}`);
+    return value;
+  }
+
+  boolean(name: string): boolean | undefined {
+    return this.read(name, "a boolean", (v): v is boolean => typeof v === "boolean");
+  }
+
+  strings(name: string): string[] | undefined {
+    return this.read(
+      name,
+      "an array of strings",
+      (v): v is string[] => Array.isArray(v) && v.every((item) => typeof item === "string")
+    );
+  }
+
+  record(name: string): Record<string, unknown> | undefined {
+    return this.read(
+      name,
+      "an object",
+      (v): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v)
+    );
+  }
+
+  private read<T>(name: string, expected: string, guard: (value: unknown) => value is T): T | undefined {
+    const value = this.raw[name];
+    if (value === undefined || value === null) return undefined;
+    if (!guard(value)) throw new Error(`Invalid argument ${name}: expected ${expected}`);
+    return value;
+  }
+}
+
 // ============================================
 // Prompt Templates
 // ============================================
@@ -0,0 +1,159 @@
+/**
+ * Task History
+ *
+ * Change log and point-in-time state of a task, replayed from its events.
+ * Each history entry lists the fields that differ between the reducer state
+ * before and after the event.
+ */
+
+import {
+  EventStore,
+  BaseEvent,
+  TaskProjection,
+  taskReducer,
+} from "../../storage/lib/events.js";
+import { endOfDay } from "./projections.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface TaskFieldChange {
+  field: keyof TaskProjection;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TaskHistoryEntry {
+  version: number;
+  eventType: BaseEvent["eventType"];
+  createdAt: string;
+  metadata?: BaseEvent["metadata"];
+  changes: TaskFieldChange[];
+}
+
+export interface TaskPointInTime {
+  state: TaskProjection;
+  version: number;
+  createdAt: string; // time of the last applied event
+}
+
+export interface TaskAtOptions {
+  version?: number;
+  at?: string; // ISO timestamp, or YYYY-MM-DD for the end of that day (UTC)
+}
+
+/** Bookkeeping fields that change with every event */
+const IGNORED_FIELDS = new Set<keyof TaskProjection>(["id", "updatedAt"]);
+
+// ============================================
+// History
+// ============================================
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields that differ between two reducer states (all set fields for a new task)
+ */
+export function diffTaskStates(
+  before: TaskProjection | null,
+  after: TaskProjection
+): TaskFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]) as Set<keyof TaskProjection>;
+  const changes: TaskFieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = before?.[field];
+    const to = after[field];
+    if (!sameValue(from, to)) {
+      changes.push({ field, from: from ?? null, to: to ?? null });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Chronological change log of a task (empty when it has no events)
+ */
+export function getTaskHistory(eventStore: EventStore, taskId: string): TaskHistoryEntry[] {
+  const entries: TaskHistoryEntry[] = [];
+  let state: TaskProjection | null = null;
+
+  for (const event of eventStore.getEvents("task", taskId)) {
+    const next = taskReducer(state, event);
+    entries.push({
+      version: event.version,
+      eventType: event.eventType,
+      createdAt: event.createdAt,
+      metadata: event.metadata,
+      changes: diffTaskStates(state, next),
+    });
+    state = next;
+  }
+
+  return entries;
+}
+
+/**
+ * The task as it looked at a version or timestamp; undefined before it existed.
+ * A bare date reads as the end of that day (UTC), like burndown and flow metrics.
+ */
+export function getTaskAt(
+  eventStore: EventStore,
+  taskId: string,
+  options: TaskAtOptions
+): TaskPointInTime | undefined {
+  const at = options.at && /^\d{4}-\d{2}-\d{2}$/.test(options.at) ? endOfDay(options.at) : options.at;
+  const until = at !== undefined ? new Date(at).getTime() : undefined;
+  if (until !== undefined && Number.isNaN(until)) {
+    throw new Error(`Invalid timestamp: ${options.at}`);
+  }
+
+  let result: TaskPointInTime | undefined;
+  for (const event of eventStore.getEvents("task", taskId)) {
+    if (options.version !== undefined && event.version > options.version) break;
+    if (until !== undefined && new Date(event.createdAt).getTime() > until) break;
+
+    result = {
+      state: taskReducer(result?.state ?? null, event),
+      version: event.version,
+      createdAt: event.createdAt,
+    };
+  }
+
+  return result;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(none)";
+  return JSON.stringify(value);
+}
+
+/**
+ * Format a change log for tool output
+ */
+export function formatTaskHistory(entries: TaskHistoryEntry[], title: string): string {
+  const lines = [`${title} (${entries.length} events)`];
+
+  for (const entry of entries) {
+    const by = [entry.metadata?.userId, entry.metadata?.source].filter(Boolean).join(", ");
+    lines.push("");
+    lines.push(`v${entry.version} ${entry.createdAt} ${entry.eventType}${by ? ` [${by}]` : ""}`);
+    if (entry.changes.length === 0) {
+      lines.push("  (no field changes)");
+    }
+    for (const change of entry.changes) {
+      lines.push(`  ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
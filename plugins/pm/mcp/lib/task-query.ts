@@ -0,0 +1,406 @@
+/**
+ * Task Query Language
+ *
+ * Parses filter strings for pm_task_list such as
+ *   status:in_progress,in_review priority:>=high label:backend due:<2026-11-01 -assignee:me text:"login"
+ * into parameterized SQL conditions, sort keys and keyset pagination cursors.
+ *
+ * Terms are AND-ed; comma-separated values are OR-ed; a leading "-" negates a
+ * term; words without a field search title and description.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type TaskQueryField =
+  | "status"
+  | "priority"
+  | "type"
+  | "assignee"
+  | "label"
+  | "sprint"
+  | "due"
+  | "created"
+  | "updated"
+  | "points"
+  | "text";
+
+export type TaskQueryOperator = "=" | ">" | ">=" | "<" | "<=";
+
+export interface TaskQueryTerm {
+  field: TaskQueryField;
+  operator: TaskQueryOperator;
+  values: string[];
+  negated: boolean;
+}
+
+export type TaskSortField = "priority" | "status" | "due" | "created" | "updated" | "points" | "seq" | "title";
+
+export interface TaskSortKey {
+  field: TaskSortField;
+  descending: boolean;
+}
+
+export interface TaskQuery {
+  terms: TaskQueryTerm[];
+  sort: TaskSortKey[];
+}
+
+export interface TaskQueryContext {
+  me?: () => string | null; // login that assignee:me stands for
+  now?: Date; // reference for today / relative dates
+}
+
+export interface SqlFragment {
+  sql: string;
+  params: unknown[];
+}
+
+export class TaskQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskQueryError";
+  }
+}
+
+// ============================================
+// Vocabulary
+// ============================================
+
+export const TASK_STATUSES = ["todo", "in_progress", "in_review", "blocked", "done", "cancelled"];
+export const TASK_PRIORITIES = ["low", "medium", "high", "critical"];
+export const TASK_TYPES = ["epic", "story", "task", "bug", "subtask"];
+
+/** Rank expressions; unknown values sort below known ones */
+const rankSql = (column: string, values: string[]) =>
+  `CASE ${column} ${values.map((v, i) => `WHEN '${v}' THEN ${i + 1}`).join(" ")} ELSE 0 END`;
+
+const PRIORITY_RANK_SQL = rankSql("priority", TASK_PRIORITIES);
+const STATUS_RANK_SQL = rankSql("status", TASK_STATUSES);
+
+const FIELDS: Record<TaskQueryField, { ordered: boolean }> = {
+  status: { ordered: false },
+  priority: { ordered: true },
+  type: { ordered: false },
+  assignee: { ordered: false },
+  label: { ordered: false },
+  sprint: { ordered: false },
+  due: { ordered: true },
+  created: { ordered: true },
+  updated: { ordered: true },
+  points: { ordered: true },
+  text: { ordered: false },
+};
+
+/** Sort expressions never yield NULL so cursors can compare them */
+const SORT_SQL: Record<TaskSortField, string> = {
+  priority: PRIORITY_RANK_SQL,
+  status: STATUS_RANK_SQL,
+  due: "COALESCE(due_date, '9999-12-31')",
+  created: "created_at",
+  updated: "updated_at",
+  points: "COALESCE(estimate_points, -1)",
+  seq: "COALESCE(seq, 0)",
+  title: "title",
+};
+
+export const DEFAULT_TASK_SORT: TaskSortKey[] = [{ field: "created", descending: true }];
+
+const NONE = "none";
+
+// ============================================
+// Parsing
+// ============================================
+
+const TOKEN_PATTERN = /(-)?(?:([a-z_]+):)?(?:"([^"]*)"|(\S+))/gi;
+const OPERATOR_PATTERN = /^(>=|<=|>|<|=)?(.*)$/s;
+
+/**
+ * Parse a query string (sort:... terms included)
+ */
+export function parseTaskQuery(input: string): TaskQuery {
+  const query: TaskQuery = { terms: [], sort: [] };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, name, quoted, bare] = match;
+    if (quoted === undefined && bare.includes('"')) {
+      throw new TaskQueryError(`Unterminated quote in ${raw}`);
+    }
+    const value = quoted ?? bare;
+    const field = name?.toLowerCase();
+
+    if (field === "sort") {
+      query.sort.push(...parseTaskSort(value));
+      continue;
+    }
+    if (field === undefined) {
+      query.terms.push({ field: "text", operator: "=", values: [value], negated: !!minus });
+      continue;
+    }
+    if (!(field in FIELDS)) {
+      throw new TaskQueryError(`Unknown field ${field}: use ${Object.keys(FIELDS).join(", ")}, sort`);
+    }
+
+    const [, operator = "=", rest] = OPERATOR_PATTERN.exec(value)!;
+    const taskField = field as TaskQueryField;
+    if (operator !== "=" && !FIELDS[taskField].ordered) {
+      throw new TaskQueryError(`${field} does not support ${operator}`);
+    }
+    // Quoted values are taken whole; others may list alternatives
+    const values = (quoted !== undefined ? [rest] : rest.split(",")).map((v) => v.trim()).filter(Boolean);
+    if (values.length === 0) throw new TaskQueryError(`Missing value for ${field}`);
+    if (operator !== "=" && values.length > 1) {
+      throw new TaskQueryError(`${field}:${operator} takes a single value`);
+    }
+
+    query.terms.push({ field: taskField, operator: operator as TaskQueryOperator, values, negated: !!minus });
+  }
+
+  return query;
+}
+
+/**
+ * Parse sort keys: "due,-priority" (leading "-" = descending)
+ */
+export function parseTaskSort(input: string): TaskSortKey[] {
+  return input
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key) => {
+      const descending = key.startsWith("-");
+      const field = descending ? key.slice(1) : key;
+      if (!(field in SORT_SQL)) {
+        throw new TaskQueryError(`Cannot sort by ${field}: use ${Object.keys(SORT_SQL).join(", ")}`);
+      }
+      return { field: field as TaskSortField, descending };
+    });
+}
+
+// ============================================
+// SQL
+// ============================================
+
+function checkValues(field: string, values: string[], allowed: string[]): string[] {
+  const normalized = values.map((v) => v.toLowerCase());
+  const unknown = normalized.find((v) => !allowed.includes(v));
+  if (unknown) throw new TaskQueryError(`Unknown ${field} ${unknown}: use ${allowed.join(", ")}`);
+  return normalized;
+}
+
+/** YYYY-MM-DD for an ISO date, today, or a day offset such as -7d / +14d */
+function toDate(field: string, value: string, now: Date): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const offset = value.toLowerCase() === "today" ? 0 : /^([+-]\d+)d$/i.exec(value)?.[1];
+  if (offset === undefined) {
+    throw new TaskQueryError(`Invalid date for ${field}: ${value} (use YYYY-MM-DD, today or ±Nd)`);
+  }
+  const date = new Date(now.getTime() + Number(offset) * 24 * 60 * 60 * 1000);
+  return date.toISOString().slice(0, 10);
+}
+
+function inList(column: string, values: unknown[]): SqlFragment {
+  const sql = values.length === 1 ? `${column} = ?` : `${column} IN (${values.map(() => "?").join(", ")})`;
+  return { sql, params: values };
+}
+
+/** Split off "none", which stands for an empty field */
+function withoutNone(values: string[]): { none: boolean; values: string[] } {
+  const rest = values.filter((v) => v.toLowerCase() !== NONE);
+  return { none: rest.length < values.length, values: rest };
+}
+
+/**
+ * Nullable columns: NULL only matches "none", so negated terms keep empty fields
+ */
+function nullableInList(column: string, values: unknown[], none: boolean): SqlFragment {
+  const parts: SqlFragment[] = [];
+  if (none) parts.push({ sql: `${column} IS NULL`, params: [] });
+  if (values.length > 0) {
+    const list = inList(column, values);
+    parts.push({ sql: `(${column} IS NOT NULL AND ${list.sql})`, params: list.params });
+  }
+  return or(parts);
+}
+
+function compare(expression: string, operator: TaskQueryOperator, value: unknown, nullable: string | null): SqlFragment {
+  const sql = `${expression} ${operator} ?`;
+  return { sql: nullable ? `(${nullable} IS NOT NULL AND ${sql})` : sql, params: [value] };
+}
+
+function or(parts: SqlFragment[]): SqlFragment {
+  if (parts.length === 1) return parts[0];
+  return { sql: `(${parts.map((p) => p.sql).join(" OR ")})`, params: parts.flatMap((p) => p.params) };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function termSql(term: TaskQueryTerm, context: TaskQueryContext): SqlFragment {
+  const { field, operator, values } = term;
+  const now = context.now ?? new Date();
+
+  switch (field) {
+    case "status":
+      return inList("status", checkValues(field, values, TASK_STATUSES));
+
+    case "type":
+      return inList("type", checkValues(field, values, TASK_TYPES));
+
+    case "priority": {
+      const priorities = checkValues(field, values, TASK_PRIORITIES);
+      if (operator === "=") return inList("priority", priorities);
+      return compare(PRIORITY_RANK_SQL, operator, TASK_PRIORITIES.indexOf(priorities[0]) + 1, null);
+    }
+
+    case "assignee": {
+      const { none, values: assignees } = withoutNone(values);
+      const resolved = assignees.map((v) => {
+        if (v.toLowerCase() !== "me") return v;
+        const me = context.me?.();
+        if (!me) throw new TaskQueryError("Cannot resolve assignee:me (is gh authenticated?)");
+        return me;
+      });
+      return nullableInList("assignee", resolved, none);
+    }
+
+    case "sprint": {
+      const { none, values: sprints } = withoutNone(values);
+      return nullableInList("sprint_id", sprints, none);
+    }
+
+    case "label":
+      return or(
+        values.map((label) =>
+          label.toLowerCase() === NONE
+            ? { sql: "COALESCE(json_array_length(labels), 0) = 0", params: [] }
+            : {
+                sql: "EXISTS (SELECT 1 FROM json_each(tasks.labels) WHERE value = ? COLLATE NOCASE)",
+                params: [label],
+              }
+        )
+      );
+
+    case "text":
+      return or(
+        values.map((text) => ({
+          sql: "(title LIKE ? ESCAPE '\\' OR COALESCE(description, '') LIKE ? ESCAPE '\\')",
+          params: [`%${escapeLike(text)}%`, `%${escapeLike(text)}%`],
+        }))
+      );
+
+    case "points": {
+      const { none, values: listed } = withoutNone(values);
+      const numbers = listed.map(Number);
+      if (numbers.some((n) => Number.isNaN(n))) {
+        throw new TaskQueryError(`Invalid number for points: ${values.join(",")}`);
+      }
+      if (operator === "=") return nullableInList("estimate_points", numbers, none);
+      return compare("estimate_points", operator, numbers[0], "estimate_points");
+    }
+
+    case "due":
+    case "created":
+    case "updated": {
+      const column = { due: "due_date", created: "created_at", updated: "updated_at" }[field];
+      const { none, values: listed } = withoutNone(values);
+      const dates = listed.map((v) => toDate(field, v, now));
+      if (operator === "=") return nullableInList(`date(${column})`, dates, none);
+      return compare(`date(${column})`, operator, dates[0], column);
+    }
+  }
+}
+
+/**
+ * SQL conditions (to be AND-ed) for the query's terms
+ */
+export function taskQueryConditions(query: TaskQuery, context: TaskQueryContext = {}): SqlFragment[] {
+  return query.terms.map((term) => {
+    const fragment = termSql(term, context);
+    return term.negated ? { sql: `NOT (${fragment.sql})`, params: fragment.params } : fragment;
+  });
+}
+
+/**
+ * Sort expressions with the id as final tie-breaker, so every row has a unique position
+ */
+export function taskSortColumns(sort: TaskSortKey[]): { expression: string; descending: boolean }[] {
+  return [
+    ...sort.map((key) => ({ expression: SORT_SQL[key.field], descending: key.descending })),
+    { expression: "id", descending: false },
+  ];
+}
+
+export function formatTaskSort(sort: TaskSortKey[]): string {
+  return sort.map((key) => `${key.descending ? "-" : ""}${key.field}`).join(",");
+}
+
+// ============================================
+// Cursors
+// ============================================
+
+interface CursorData {
+  sort: string;
+  values: unknown[]; // sort column values of the last row, id last
+}
+
+export function encodeTaskCursor(sort: TaskSortKey[], values: unknown[]): string {
+  const data: CursorData = { sort: formatTaskSort(sort), values };
+  return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+/**
+ * Condition selecting the rows after the cursor's position
+ */
+export function taskCursorCondition(cursor: string, sort: TaskSortKey[]): SqlFragment {
+  let data: CursorData;
+  try {
+    data = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as CursorData;
+  } catch {
+    throw new TaskQueryError("Invalid cursor");
+  }
+
+  const columns = taskSortColumns(sort);
+  if (data.sort !== formatTaskSort(sort) || !Array.isArray(data.values) || data.values.length !== columns.length) {
+    throw new TaskQueryError("Cursor belongs to a different sort order");
+  }
+
+  // (a, b, id) after (va, vb, vid): a past va, or a = va and b past vb, ...
+  const parts = columns.map((column, i) => {
+    const equal = columns.slice(0, i).map((c) => `${c.expression} = ?`);
+    const after = `${column.expression} ${column.descending ? "<" : ">"} ?`;
+    return { sql: `(${[...equal, after].join(" AND ")})`, params: data.values.slice(0, i + 1) };
+  });
+  return or(parts);
+}
+
+// ============================================
+// Full-Text Search
+// ============================================
+
+/**
+ * FTS5 MATCH expression for a search string: words are prefix-matched and
+ * AND-ed, "quoted phrases" match as written, OR between terms is kept.
+ * Everything else is quoted, so user input cannot break the FTS syntax.
+ */
+export function toFtsQuery(input: string): string {
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const [, phrase, word] = match;
+    if (word === "OR") {
+      if (terms.length > 0 && terms[terms.length - 1] !== "OR") terms.push("OR");
+      continue;
+    }
+    const text = (phrase ?? word).replace(/"/g, "").trim();
+    if (!text) continue;
+    terms.push(phrase !== undefined ? `"${text}"` : `"${text}"*`);
+  }
+
+  if (terms[terms.length - 1] === "OR") terms.pop();
+  if (terms.length === 0) throw new TaskQueryError("Search query is empty");
+  return terms.join(" ");
+}
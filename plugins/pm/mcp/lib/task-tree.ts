@@ -0,0 +1,193 @@
+/**
+ * Task Hierarchy
+ *
+ * Parent/child structure of tasks (epic → story → task/bug → subtask):
+ * validation of parent assignments and type changes, and trees with
+ * points and percent-complete rolled up from the leaves.
+ */
+
+import { TaskRepository, Task } from "./projections.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface TaskRollup {
+  points: number;
+  completedPoints: number;
+  tasks: number; // leaves counted (cancelled ones are left out)
+  doneTasks: number;
+  percentComplete: number; // by points, or by task count when nothing is estimated
+}
+
+export interface TaskTreeNode {
+  task: Task;
+  children: TaskTreeNode[];
+  rollup: TaskRollup;
+}
+
+/** Lower levels may only be parented by higher ones */
+export const TASK_TYPE_LEVELS: Record<string, number> = {
+  epic: 0,
+  story: 1,
+  task: 2,
+  bug: 2,
+  subtask: 3,
+};
+
+const DONE_STATUS = "done";
+const EXCLUDED_STATUS = "cancelled";
+
+// ============================================
+// Validation
+// ============================================
+
+function ref(task: Pick<Task, "seq" | "type">): string {
+  return `#${task.seq} (${task.type})`;
+}
+
+function canParent(parentType: string, childType: string): boolean {
+  const parentLevel = TASK_TYPE_LEVELS[parentType] ?? TASK_TYPE_LEVELS.task;
+  const childLevel = TASK_TYPE_LEVELS[childType] ?? TASK_TYPE_LEVELS.task;
+  return parentLevel < childLevel;
+}
+
+/**
+ * Why the parent cannot be assigned, or undefined when it can.
+ * child.id is omitted for tasks that do not exist yet.
+ */
+export function checkParent(
+  taskRepo: TaskRepository,
+  child: { id?: string; seq?: number; type: string; project_id: string },
+  parent: Task
+): string | undefined {
+  if (parent.id === child.id) return "A task cannot be its own parent";
+  if (parent.project_id !== child.project_id) {
+    return `Parent #${parent.seq} belongs to another project`;
+  }
+  if (!canParent(parent.type, child.type)) {
+    return `${ref(parent)} cannot parent type ${child.type}: parents must be higher in epic → story → task → subtask`;
+  }
+
+  // Walk up from the new parent; reaching the child means it would be its own ancestor
+  const path = [parent];
+  for (let current = parent; child.id && current.parent_id; ) {
+    const next = taskRepo.getById(current.parent_id);
+    if (!next || path.some((t) => t.id === next.id)) break;
+    path.push(next);
+    if (next.id === child.id) {
+      const cycle = [`#${child.seq}`, ...path.map((t) => `#${t.seq}`)].join(" → ");
+      return `Parent would create a cycle: ${cycle}`;
+    }
+    current = next;
+  }
+
+  return undefined;
+}
+
+/**
+ * Why the task cannot change to a type given its parent and children, or undefined
+ */
+export function checkTypeChange(taskRepo: TaskRepository, task: Task, type: string): string | undefined {
+  const parent = task.parent_id ? taskRepo.getById(task.parent_id) : undefined;
+  if (parent && !canParent(parent.type, type)) {
+    return `#${task.seq} cannot become type ${type} under ${ref(parent)}`;
+  }
+
+  const child = taskRepo.getChildren(task.id).find((c) => !canParent(type, c.type));
+  if (child) {
+    return `#${task.seq} cannot become type ${type} while it parents ${ref(child)}`;
+  }
+
+  return undefined;
+}
+
+// ============================================
+// Trees
+// ============================================
+
+function rollupOf(task: Task, children: TaskTreeNode[]): TaskRollup {
+  let totals: Omit<TaskRollup, "percentComplete">;
+
+  if (children.length === 0) {
+    const excluded = task.status === EXCLUDED_STATUS;
+    const done = task.status === DONE_STATUS;
+    const points = excluded ? 0 : task.estimate_points ?? 0;
+    totals = {
+      points,
+      completedPoints: done ? points : 0,
+      tasks: excluded ? 0 : 1,
+      doneTasks: done ? 1 : 0,
+    };
+  } else {
+    // A parent's own estimate is not added to its children's
+    totals = children.reduce(
+      (acc, { rollup }) => ({
+        points: acc.points + rollup.points,
+        completedPoints: acc.completedPoints + rollup.completedPoints,
+        tasks: acc.tasks + rollup.tasks,
+        doneTasks: acc.doneTasks + rollup.doneTasks,
+      }),
+      { points: 0, completedPoints: 0, tasks: 0, doneTasks: 0 }
+    );
+  }
+
+  const ratio = totals.points > 0
+    ? totals.completedPoints / totals.points
+    : totals.tasks > 0
+      ? totals.doneTasks / totals.tasks
+      : 0;
+  return { ...totals, percentComplete: Math.round(ratio * 100) };
+}
+
+/**
+ * Subtree rooted at a task
+ */
+export function buildTaskTree(taskRepo: TaskRepository, root: Task): TaskTreeNode {
+  const build = (task: Task, seen: Set<string>): TaskTreeNode => {
+    seen.add(task.id);
+    const children = taskRepo
+      .getChildren(task.id)
+      .filter((child) => !seen.has(child.id))
+      .map((child) => build(child, seen));
+    return { task, children, rollup: rollupOf(task, children) };
+  };
+  return build(root, new Set());
+}
+
+/**
+ * Trees for every top-level task of a project (including tasks whose parent is gone)
+ */
+export function buildProjectTree(taskRepo: TaskRepository, projectId: string): TaskTreeNode[] {
+  const tasks = taskRepo.list({ projectId }).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  const ids = new Set(tasks.map((t) => t.id));
+  return tasks
+    .filter((t) => !t.parent_id || !ids.has(t.parent_id))
+    .map((t) => buildTaskTree(taskRepo, t));
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+export function formatRollup(rollup: TaskRollup): string {
+  return rollup.points > 0
+    ? `${rollup.completedPoints}/${rollup.points}pt, ${rollup.percentComplete}%`
+    : `${rollup.doneTasks}/${rollup.tasks} done, ${rollup.percentComplete}%`;
+}
+
+/**
+ * Indented tree for tool output
+ */
+export function formatTaskTree(nodes: TaskTreeNode[]): string {
+  const lines: string[] = [];
+  const render = (node: TaskTreeNode, depth: number) => {
+    const { task } = node;
+    lines.push(
+      `${"  ".repeat(depth)}#${task.seq} [${task.type}] ${task.title} (${task.status}) - ${formatRollup(node.rollup)}`
+    );
+    node.children.forEach((child) => render(child, depth + 1));
+  };
+  nodes.forEach((node) => render(node, 0));
+  return lines.join("\n");
+}
@@ -0,0 +1,259 @@
+/**
+ * Time Tracking
+ *
+ * Task timers and worklog: timers start when a task enters in_progress and
+ * stop on any other status (see statusTimerEvents), follow branch switches,
+ * and can be started/stopped by hand; time can also be logged directly.
+ * Each stopped timer or logged entry adds to the task's actual_hours.
+ * Shared by the MCP tools and the branch-switch CLI.
+ */
+
+import { TaskRepository, Task, TimeReportRow } from "./projections.js";
+import { resolveTaskRef } from "./commit-processor.js";
+import { parseBranchName } from "./server-helpers.js";
+import type { TimerSource } from "../../storage/lib/events.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface TimerChange {
+  task: Task;
+  changed: boolean; // false when the timer was already running/stopped
+}
+
+export interface BranchSwitchResult {
+  branch: string;
+  task?: Task; // Task worked on in the branch
+  started?: Task;
+  stopped: Task[];
+}
+
+export interface TimeLogInput {
+  minutes: number;
+  startedAt?: string;
+  note?: string;
+  author?: string;
+}
+
+export interface EstimateComparison {
+  task: Task;
+  estimateHours: number;
+  actualHours: number;
+  variance: number; // (actual - estimate) / estimate
+}
+
+export interface EstimateSummary {
+  tasks: EstimateComparison[];
+  estimateHours: number;
+  actualHours: number;
+  variance: number;
+}
+
+// ============================================
+// Timers
+// ============================================
+
+/**
+ * Start a task's timer (no-op when it is running)
+ */
+export function startTimer(
+  taskRepo: TaskRepository,
+  taskId: string,
+  source: TimerSource,
+  branch?: string
+): TimerChange | undefined {
+  let changed = false;
+  const task = taskRepo.appendEvents(taskId, (current) => {
+    changed = !current.timer_started_at;
+    return changed ? [{ type: "TaskTimerStarted", payload: { source, branch } }] : [];
+  });
+  return task && { task, changed };
+}
+
+/**
+ * Stop a task's timer, closing a worklog entry (no-op when it is not running)
+ */
+export function stopTimer(
+  taskRepo: TaskRepository,
+  taskId: string,
+  source: TimerSource,
+  reason?: string
+): TimerChange | undefined {
+  let changed = false;
+  const task = taskRepo.appendEvents(taskId, (current) => {
+    changed = !!current.timer_started_at;
+    return changed ? [{ type: "TaskTimerStopped", payload: { source, reason } }] : [];
+  });
+  return task && { task, changed };
+}
+
+/**
+ * Record time spent without a timer. Throws on a non-positive duration
+ * or an unreadable start time.
+ */
+export function logTime(taskRepo: TaskRepository, taskId: string, input: TimeLogInput): Task | undefined {
+  if (!(input.minutes > 0)) {
+    throw new Error("Logged time must be positive");
+  }
+  if (input.startedAt !== undefined && Number.isNaN(Date.parse(input.startedAt))) {
+    throw new Error(`Invalid start time: ${input.startedAt} (use YYYY-MM-DD or an ISO time)`);
+  }
+
+  return taskRepo.appendEvents(taskId, () => [
+    {
+      type: "TaskTimeLogged",
+      payload: {
+        minutes: input.minutes,
+        startedAt: input.startedAt,
+        note: input.note,
+        author: input.author,
+      },
+    },
+  ]);
+}
+
+// ============================================
+// Branch Switches
+// ============================================
+
+/**
+ * Task worked on in a branch: the task recorded on it, else the task named by
+ * the branch (42-feat-..., by GitHub issue or seq; or a UUID prefix)
+ */
+export function findTaskForBranch(
+  taskRepo: TaskRepository,
+  projectId: string,
+  branch: string,
+  options: { preferGitHubIssues?: boolean } = {}
+): Task | undefined {
+  const recorded = taskRepo.getByBranch(projectId, branch);
+  if (recorded) return recorded;
+
+  const { taskId } = parseBranchName(branch);
+  if (!taskId) return undefined;
+  if (/^\d+$/.test(taskId)) {
+    return resolveTaskRef(taskRepo, parseInt(taskId, 10), { projectId, ...options });
+  }
+  return taskRepo.getByIdPrefix(projectId, taskId);
+}
+
+/**
+ * Follow a branch switch: stop the timer of the task of the branch being left
+ * (options.from) and resume the branch's task timer when it is in progress.
+ * Timers of other tasks, such as teammates' work, keep running.
+ */
+export function switchBranch(
+  taskRepo: TaskRepository,
+  projectId: string,
+  branch: string,
+  options: { preferGitHubIssues?: boolean; from?: string } = {}
+): BranchSwitchResult {
+  const task = findTaskForBranch(taskRepo, projectId, branch, options);
+  const result: BranchSwitchResult = { branch, task, stopped: [] };
+
+  const left =
+    options.from && options.from !== branch
+      ? findTaskForBranch(taskRepo, projectId, options.from, options)
+      : undefined;
+  if (left && left.id !== task?.id) {
+    const stopped = stopTimer(taskRepo, left.id, "branch", `Switched to ${branch}`);
+    if (stopped?.changed) result.stopped.push(stopped.task);
+  }
+
+  if (task?.status === "in_progress") {
+    const started = startTimer(taskRepo, task.id, "branch", branch);
+    if (started?.changed) result.started = started.task;
+  }
+
+  return result;
+}
+
+// ============================================
+// Reports
+// ============================================
+
+/**
+ * Estimated vs. actual hours for tasks that have both
+ */
+export function compareEstimates(tasks: Task[]): EstimateSummary {
+  const compared = tasks
+    .filter((t) => t.estimate_hours != null && t.estimate_hours > 0 && t.actual_hours != null)
+    .map((task) => ({
+      task,
+      estimateHours: task.estimate_hours!,
+      actualHours: task.actual_hours!,
+      variance: (task.actual_hours! - task.estimate_hours!) / task.estimate_hours!,
+    }));
+
+  const estimateHours = compared.reduce((sum, c) => sum + c.estimateHours, 0);
+  const actualHours = compared.reduce((sum, c) => sum + c.actualHours, 0);
+
+  return {
+    tasks: compared,
+    estimateHours,
+    actualHours,
+    variance: estimateHours > 0 ? (actualHours - estimateHours) / estimateHours : 0,
+  };
+}
+
+/**
+ * 95 → "1h 35m"
+ */
+export function formatMinutes(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${String(rest).padStart(2, "0")}m`;
+}
+
+function formatVariance(variance: number): string {
+  const percent = Math.round(variance * 100);
+  return `${percent > 0 ? "+" : ""}${percent}%`;
+}
+
+/**
+ * Text report: grouped totals, estimate vs. actual, and running timers
+ */
+export function formatTimeReport(
+  rows: TimeReportRow[],
+  estimates: EstimateSummary,
+  running: Task[],
+  now = new Date()
+): string {
+  const lines: string[] = [];
+
+  if (rows.length === 0) {
+    lines.push("No time logged");
+  } else {
+    const total = rows.reduce((sum, r) => sum + r.minutes, 0);
+    const width = Math.max(...rows.map((r) => r.label.length));
+    lines.push(`Time logged: ${formatMinutes(total)}`);
+    for (const row of rows) {
+      lines.push(`  ${row.label.padEnd(width)}  ${formatMinutes(row.minutes).padStart(8)}  (${row.entries} entries)`);
+    }
+  }
+
+  if (estimates.tasks.length > 0) {
+    lines.push(
+      "",
+      `Estimate vs actual: ${estimates.estimateHours.toFixed(1)}h → ${estimates.actualHours.toFixed(1)}h (${formatVariance(estimates.variance)})`
+    );
+    for (const c of estimates.tasks) {
+      lines.push(
+        `  #${c.task.seq} ${c.task.title}: ${c.estimateHours.toFixed(1)}h → ${c.actualHours.toFixed(1)}h (${formatVariance(c.variance)})`
+      );
+    }
+  }
+
+  if (running.length > 0) {
+    lines.push("", "Running timers:");
+    for (const task of running) {
+      const elapsed = (now.getTime() - Date.parse(task.timer_started_at!)) / 60_000;
+      lines.push(`  #${task.seq} ${task.title}: ${formatMinutes(elapsed)} since ${task.timer_started_at}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,36 @@
+/**
+ * PM Plugin: apply pending schema migrations from the command line
+ *
+ * Usage: migrate
+ *
+ * The MCP server and commit hook migrate on startup; this is for upgrading
+ * a database (PM_DB_PATH, default .claude/pm.db) ahead of time.
+ */
+
+import { DatabaseManager } from "./lib/db.js";
+
+const DB_PATH = process.env.PM_DB_PATH || ".claude/pm.db";
+
+function main(): number {
+  const dbManager = new DatabaseManager(DB_PATH);
+  const before = new Set(dbManager.getSchemaVersions());
+  dbManager.initSchema();
+  const applied = dbManager.getSchemaVersions().filter((v) => !before.has(v));
+  const current = dbManager.getSchemaVersions().pop();
+
+  console.log(
+    applied.length > 0
+      ? `Applied ${applied.length} migration(s) to ${DB_PATH}: ${applied.join(", ")}`
+      : `${DB_PATH} is up to date`
+  );
+  if (current !== undefined) console.log(`Schema version: ${current}`);
+  dbManager.close();
+  return 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,83 @@
+/**
+ * PM Plugin: process a commit from the command line
+ *
+ * Usage: process-commit [sha] [--project <projectId>] [--branch <name>]
+ *
+ * Called by hooks/scripts/post-commit.sh so magic words are applied
+ * deterministically. Defaults to HEAD; the project comes from --project,
+ * PM_PROJECT_ID, or the workspace's active project (see pm_project_use).
+ */
+
+import { EventStore } from "../storage/lib/events.js";
+import { getDatabase } from "./lib/db.js";
+import {
+  ProjectRepository,
+  TaskRepository,
+  DependencyRepository,
+  ProjectConfigRepository,
+  WorkspaceRepository,
+} from "./lib/projections.js";
+import { ActiveProjectResolver } from "./lib/active-project.js";
+import { getCommitMessage } from "./lib/server-helpers.js";
+import { processCommit, formatCommitResult } from "./lib/commit-processor.js";
+
+const DB_PATH = process.env.PM_DB_PATH || ".claude/pm.db";
+
+function parseArgs(argv: string[]): { ref: string; projectId?: string; branch?: string } {
+  const result: { ref: string; projectId?: string; branch?: string } = { ref: "HEAD" };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--project") result.projectId = argv[++i];
+    else if (argv[i] === "--branch") result.branch = argv[++i];
+    else result.ref = argv[i];
+  }
+  return result;
+}
+
+function main(): number {
+  const args = parseArgs(process.argv.slice(2));
+
+  const commit = getCommitMessage(args.ref);
+  if (!commit) {
+    console.error(`Unknown commit: ${args.ref}`);
+    return 1;
+  }
+
+  const dbManager = getDatabase(DB_PATH);
+  try {
+    dbManager.initSchema();
+    const eventStore = new EventStore(dbManager.getDb());
+    const projectRepo = new ProjectRepository(dbManager, eventStore);
+    const taskRepo = new TaskRepository(dbManager, eventStore);
+    const dependencyRepo = new DependencyRepository(dbManager, eventStore);
+    const configRepo = new ProjectConfigRepository(dbManager);
+
+    const projectId =
+      args.projectId ||
+      process.env.PM_PROJECT_ID ||
+      new ActiveProjectResolver(projectRepo, configRepo, new WorkspaceRepository(dbManager)).resolve()
+        ?.project.id;
+    if (!projectId) {
+      console.error("No active project found. Pass --project <projectId> or run pm_project_use.");
+      return 1;
+    }
+
+    const config = configRepo.getByProjectId(projectId);
+    const result = processCommit(
+      { taskRepo, dependencyRepo },
+      { ...commit, branch: args.branch, repo: config?.github_repo },
+      { projectId, preferGitHubIssues: !!config?.github_repo }
+    );
+
+    console.log(formatCommitResult(result));
+    return 0;
+  } finally {
+    dbManager.close();
+  }
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
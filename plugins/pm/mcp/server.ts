@@ -5,6 +5,7 @@
  *
  * Core Features:
  * - Task CRUD operations
+ * - Sprint planning and tracking
  * - GitHub Issue integration
  * - GitHub Projects integration
  * - Event sourcing for audit trail
@@ -23,15 +24,100 @@ import { EventStore, createTaskEvent } from "../storage/lib/events.js";
 import { getDatabase, DatabaseManager } from "./lib/db.js";
 import {
   ProjectRepository,
+  SprintRepository,
   TaskRepository,
+  DependencyRepository,
+  AnalyticsRepository,
   ProjectConfigRepository,
+  SyncQueueRepository,
+  SyncConflictRepository,
+  WorkspaceRepository,
+  LabelRepository,
+  WorklogRepository,
+  EstimationRepository,
+  statusTimerEvents,
+  taskUpdateEvents,
+  BOARD_STATUSES,
+  type Task,
+  type ProjectConfig,
 } from "./lib/projections.js";
+import { formatBurndownChart, getCommitMessage, ToolArgs } from "./lib/server-helpers.js";
+import { processCommit, formatCommitResult } from "./lib/commit-processor.js";
+import { resolveConflict, formatConflict, toLocalTask } from "./lib/conflict-resolver.js";
+import {
+  rebuildProjections,
+  verifyProjections,
+  formatDriftReport,
+  PROJECTION_TABLES,
+} from "./lib/projection-rebuilder.js";
+import { getTaskHistory, getTaskAt, formatTaskHistory } from "./lib/task-history.js";
+import {
+  checkParent,
+  checkTypeChange,
+  buildTaskTree,
+  buildProjectTree,
+  formatTaskTree,
+  type TaskTreeNode,
+} from "./lib/task-tree.js";
+import {
+  checkTaskLabels,
+  applyTaskLabels,
+  updateProjectLabel,
+  deleteProjectLabel,
+  syncGitHubLabels,
+} from "./lib/labels.js";
+import {
+  startTimer,
+  stopTimer,
+  logTime,
+  compareEstimates,
+  formatMinutes,
+  formatTimeReport,
+} from "./lib/time-tracking.js";
+import {
+  estimationReport,
+  suggestPoints,
+  formatEstimationReport,
+  formatPointSuggestion,
+} from "./lib/estimation.js";
+import { getFlowMetrics, formatFlowMetrics } from "./lib/flow-metrics.js";
+import {
+  buildBoard,
+  formatBoard,
+  enforceWipLimit,
+  formatWipViolation,
+  mergeWipLimits,
+  parseWipLimits,
+  wipPolicy,
+} from "./lib/board.js";
+import {
+  ActiveProjectResolver,
+  formatActiveProject,
+  NO_ACTIVE_PROJECT,
+} from "./lib/active-project.js";
 import {
-  getRepoInfo,
   isAuthenticated,
+  getCurrentUser,
   getIssue,
+  getProject,
   createIssue as createGitHubIssue,
 } from "../lib/github.js";
+import {
+  syncPull,
+  flushSyncQueue,
+  syncIssueToProject,
+  toProjectItemSyncInput,
+  type ProjectItemSyncInput,
+  type SyncQueueItem,
+} from "../lib/sync.js";
+import { SyncEngine } from "../lib/sync-engine.js";
+import {
+  DEFAULT_MAPPINGS,
+  parseFieldMappings,
+  pmToLabels,
+  pmToProjectOption,
+  type PMStatus,
+} from "../lib/status-mapper.js";
 import { randomUUID } from "crypto";
 
 // ============================================
@@ -56,8 +142,24 @@ const server = new Server(
 let eventStore: EventStore;
 let dbManager: DatabaseManager;
 let projectRepo: ProjectRepository;
+let sprintRepo: SprintRepository;
 let taskRepo: TaskRepository;
+let dependencyRepo: DependencyRepository;
+let analyticsRepo: AnalyticsRepository;
 let configRepo: ProjectConfigRepository;
+let queueRepo: SyncQueueRepository;
+let conflictRepo: SyncConflictRepository;
+let labelRepo: LabelRepository;
+let worklogRepo: WorklogRepository;
+let estimationRepo: EstimationRepository;
+let activeProject: ActiveProjectResolver;
+let currentUser: string | null | undefined;
+
+/** GitHub login for assignee:me (looked up once; gh is slow) */
+function getMe(): string | null {
+  if (currentUser === undefined) currentUser = getCurrentUser();
+  return currentUser;
+}
 
 // ============================================
 // Resources
@@ -185,10 +287,71 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "pm_project_list",
-        description: "List all projects",
+        description: "List projects (archived ones are hidden unless requested)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              enum: ["active", "completed", "archived"],
+              description: "Only projects with this status",
+            },
+            includeArchived: { type: "boolean", description: "Include archived projects" },
+          },
+        },
+      },
+      {
+        name: "pm_project_update",
+        description: "Update project name, description, status or settings (creates events)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            name: { type: "string" },
+            description: { type: "string" },
+            status: {
+              type: "string",
+              enum: ["active", "completed"],
+              description: "Mark the project completed or reopen it",
+            },
+            settings: {
+              type: "object",
+              description: "Settings to merge into the project's settings (null removes a key)",
+            },
+          },
+        },
+      },
+      {
+        name: "pm_project_archive",
+        description: "Archive a project: hidden from listings, no new tasks",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            reason: { type: "string", description: "Why the project is archived" },
+          },
+        },
+      },
+      {
+        name: "pm_project_unarchive",
+        description: "Restore an archived project to active",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_project_use",
+        description:
+          "Select the active project for this workspace, used when projectId is omitted (no arguments: show the active project)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project: { type: "string", description: "Project UUID or name" },
+            clear: { type: "boolean", description: "Forget the selection (fall back to the GitHub repo match)" },
+          },
         },
       },
 
@@ -200,7 +363,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: "object",
           properties: {
             title: { type: "string", description: "Task title" },
-            projectId: { type: "string", description: "Project UUID" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
             description: { type: "string", description: "Task description" },
             type: {
               type: "string",
@@ -213,22 +376,60 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Task priority",
             },
             estimatePoints: { type: "number", description: "Story points estimate" },
+            sprintId: { type: "string", description: "Sprint UUID to add the task to" },
+            parentId: { type: "string", description: "Parent task UUID or #seq (epic → story → task → subtask)" },
+            labels: {
+              type: "array",
+              items: { type: "string" },
+              description: "Labels (created for the project when missing)",
+            },
           },
-          required: ["title", "projectId"],
+          required: ["title"],
         },
       },
       {
         name: "pm_task_list",
-        description: "List tasks with optional filters",
+        description: "List tasks with optional filters, a query, sorting and cursor pagination",
         inputSchema: {
           type: "object",
           properties: {
-            projectId: { type: "string", description: "Filter by project" },
+            projectId: { type: "string", description: "Filter by project (default: active project)" },
+            sprintId: { type: "string", description: "Filter by sprint" },
             status: { type: "string", description: "Filter by status" },
             type: { type: "string", description: "Filter by type" },
             priority: { type: "string", description: "Filter by priority" },
-            limit: { type: "number", description: "Max results" },
+            label: { type: "string", description: "Filter by label" },
+            query: {
+              type: "string",
+              description:
+                'Query, e.g. status:in_progress,in_review priority:>=high label:backend due:<2026-11-01 -assignee:me text:"login". ' +
+                "Fields: status, priority, type, assignee (me, none), label, sprint, due, created, updated, points, text; " +
+                "comparisons (>, >=, <, <=) on priority, dates and points; dates as YYYY-MM-DD, today or ±Nd; " +
+                "-field:value negates; bare words search title and description",
+            },
+            sort: {
+              type: "string",
+              description: "Sort keys, e.g. due,-priority (priority, status, due, created, updated, points, seq, title; - = descending)",
+            },
+            cursor: { type: "string", description: "Cursor from the previous page" },
+            limit: { type: "number", description: "Max results (default: 50)" },
+          },
+        },
+      },
+      {
+        name: "pm_task_search",
+        description: "Full-text search over task titles, descriptions and linked commit messages, best matches first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: 'Words (prefix-matched, all required), "quoted phrases", OR between terms',
+            },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            limit: { type: "number", description: "Max results (default: 20)" },
           },
+          required: ["query"],
         },
       },
       {
@@ -238,7 +439,45 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: "object",
           properties: {
             taskId: { type: "string", description: "Task UUID or #seq" },
-            projectId: { type: "string", description: "Required if using #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_task_tree",
+        description: "Epic → story → task → subtask hierarchy with points and percent complete rolled up",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Root task UUID or #seq (default: every top-level task)" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_task_history",
+        description: "Chronological change log of a task (field diffs per event)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+            limit: { type: "number", description: "Only the last N events" },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_task_at",
+        description: "Task as it looked at a timestamp or event version",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+            at: { type: "string", description: "ISO timestamp, or YYYY-MM-DD for the end of that day (UTC)" },
+            version: { type: "number", description: "Event version (see pm_task_history)" },
           },
           required: ["taskId"],
         },
@@ -256,7 +495,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             priority: { type: "string" },
             type: { type: "string" },
             estimatePoints: { type: "number" },
+            estimateHours: { type: "number" },
+            estimateConfidence: { type: "number", description: "Confidence in the estimate, 0-1" },
             assignee: { type: "string" },
+            parentId: { type: "string", description: "Parent task UUID or #seq (empty string detaches)" },
+            force: {
+              type: "boolean",
+              description: "Change status even when the target column is at its WIP limit (block policy)",
+            },
           },
           required: ["taskId"],
         },
@@ -273,244 +519,1933 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               enum: ["todo", "in_progress", "in_review", "done", "blocked"],
             },
             reason: { type: "string", description: "Reason for status change" },
+            force: {
+              type: "boolean",
+              description: "Move even when the target column is at its WIP limit (block policy)",
+            },
           },
           required: ["taskId", "status"],
         },
       },
-
-      // GitHub Integration Tools
       {
-        name: "pm_github_issue_create",
-        description: "Create GitHub Issue from task and link them",
+        name: "pm_task_board",
+        description: "Kanban board: a column per status with WIP limits, optionally in swimlanes",
         inputSchema: {
           type: "object",
           properties: {
-            taskId: { type: "string", description: "Task UUID" },
-            labels: {
-              type: "array",
-              items: { type: "string" },
-              description: "GitHub labels",
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            sprintId: { type: "string", description: "Only tasks of this sprint" },
+            swimlane: {
+              type: "string",
+              enum: ["assignee", "epic"],
+              description: "Split the board into a row per assignee or epic",
             },
           },
-          required: ["taskId"],
         },
       },
       {
-        name: "pm_github_issue_link",
-        description: "Link existing GitHub Issue to task",
+        name: "pm_board_config",
+        description: "Set per-column WIP limits and whether moves into a full column warn or are refused",
         inputSchema: {
           type: "object",
           properties: {
-            taskId: { type: "string", description: "Task UUID" },
-            issueNumber: { type: "number", description: "GitHub Issue #" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            wipLimits: {
+              type: "object",
+              description: 'Max tasks per column, e.g. {"in_progress": 3}; 0 or null removes a limit',
+              additionalProperties: { type: ["number", "null"] },
+            },
+            wipPolicy: {
+              type: "string",
+              enum: ["warn", "block"],
+              description: "warn: move and warn; block: refuse pm_task_status unless force is set",
+            },
           },
-          required: ["taskId", "issueNumber"],
         },
       },
+
+      // Dependency Tools
       {
-        name: "pm_github_config",
-        description: "Configure GitHub integration for project",
+        name: "pm_task_dependency_add",
+        description: "Record that a task depends on (is blocked by) another task",
         inputSchema: {
           type: "object",
           properties: {
-            projectId: { type: "string", description: "Project UUID" },
-            githubRepo: { type: "string", description: "owner/repo format" },
-            githubProjectNumber: { type: "number", description: "GitHub Projects V2 number" },
-            syncMode: {
-              type: "string",
-              enum: ["manual", "auto"],
-              description: "Sync mode",
-            },
+            taskId: { type: "string", description: "Dependent task UUID or #seq" },
+            dependsOnId: { type: "string", description: "Blocking task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
           },
-          required: ["projectId"],
+          required: ["taskId", "dependsOnId"],
+        },
+      },
+      {
+        name: "pm_task_dependency_remove",
+        description: "Remove a dependency between two tasks",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Dependent task UUID or #seq" },
+            dependsOnId: { type: "string", description: "Blocking task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId", "dependsOnId"],
+        },
+      },
+      {
+        name: "pm_task_dependency_list",
+        description: "List direct dependencies and dependents of a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_task_blockers",
+        description: "Show everything blocking a task transitively, plus its critical path",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
         },
       },
-    ],
-  };
-});
-
-// ============================================
-// Tool Handlers
-// ============================================
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+      // Label Tools
+      {
+        name: "pm_label_create",
+        description: "Define a project label",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Label name" },
+            color: { type: "string", description: "Hex color, e.g. d73a4a (default: ededed)" },
+            description: { type: "string", description: "Label description" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "pm_label_list",
+        description: "List project labels with the number of tasks using each",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_label_update",
+        description: "Rename or restyle a label (a rename carries over to tasks)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Current label name" },
+            newName: { type: "string", description: "New name" },
+            color: { type: "string", description: "Hex color" },
+            description: { type: "string", description: "Label description" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "pm_label_delete",
+        description: "Delete a label and remove it from every task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Label name" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "pm_task_label",
+        description: "Add or remove task labels (pushed to the linked issue when auto sync is on)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            add: { type: "array", items: { type: "string" }, description: "Labels to add" },
+            remove: { type: "array", items: { type: "string" }, description: "Labels to remove" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
+        },
+      },
 
-  try {
-    switch (name) {
-      // ========== Project Tools ==========
-      case "pm_project_create": {
-        const project = projectRepo.create(args.name, args.description);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `✓ Project created: ${project.name} (${project.id})`,
+      // Sprint Tools
+      {
+        name: "pm_sprint_create",
+        description: "Create a new sprint (starts in planning)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            name: { type: "string", description: "Sprint name" },
+            startDate: { type: "string", description: "Start date (YYYY-MM-DD)" },
+            endDate: { type: "string", description: "End date (YYYY-MM-DD)" },
+            goal: { type: "string", description: "Sprint goal" },
+          },
+          required: ["name", "startDate", "endDate"],
+        },
+      },
+      {
+        name: "pm_sprint_list",
+        description: "List sprints for a project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_sprint_status",
+        description: "Get sprint progress (defaults to the project's active sprint)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sprintId: { type: "string", description: "Sprint UUID" },
+            projectId: { type: "string", description: "Project whose active sprint to show (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_sprint_start",
+        description: "Start a planned sprint",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sprintId: { type: "string", description: "Sprint UUID" },
+          },
+          required: ["sprintId"],
+        },
+      },
+      {
+        name: "pm_sprint_complete",
+        description: "Complete the active sprint and record its velocity",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sprintId: { type: "string", description: "Sprint UUID" },
+          },
+          required: ["sprintId"],
+        },
+      },
+      {
+        name: "pm_sprint_add_tasks",
+        description: "Add tasks to a sprint",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sprintId: { type: "string", description: "Sprint UUID" },
+            taskIds: {
+              type: "array",
+              items: { type: "string" },
+              description: "Task UUIDs or #seq",
             },
-          ],
-        };
-      }
+          },
+          required: ["sprintId", "taskIds"],
+        },
+      },
 
-      case "pm_project_list": {
-        const projects = projectRepo.list();
-        return {
-          content: [
-            {
-              type: "text",
-              text: projects.length === 0
+      // Analytics Tools
+      {
+        name: "pm_velocity_calculate",
+        description: "Calculate velocity for a project (replayed from task events)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            sprintCount: {
+              type: "number",
+              description: "Number of recent completed sprints (default 3)",
+            },
+          },
+        },
+      },
+      {
+        name: "pm_burndown_data",
+        description: "Get burndown chart data for a sprint (replayed from task events)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            sprintId: { type: "string", description: "Sprint UUID" },
+          },
+          required: ["sprintId"],
+        },
+      },
+      {
+        name: "pm_flow_metrics",
+        description:
+          "Lead time, cycle time, time in status, weekly throughput and WIP from task events, with a cumulative flow diagram",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            from: { type: "string", description: "First day, YYYY-MM-DD (default: 8 weeks before to)" },
+            to: { type: "string", description: "Last day, YYYY-MM-DD (default: today)" },
+            type: { type: "string", description: "Only tasks of this type" },
+            assignee: { type: "string", description: "Only tasks of this assignee" },
+          },
+        },
+      },
+      {
+        name: "pm_estimation_report",
+        description:
+          "Estimate vs actual of done tasks: accuracy overall and by type, assignee, point size and confidence",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            type: { type: "string", description: "Only tasks of this type" },
+            assignee: { type: "string", description: "Only tasks of this assignee" },
+            from: { type: "string", description: "Completed on or after, YYYY-MM-DD" },
+          },
+        },
+      },
+      {
+        name: "pm_estimate_suggest",
+        description: "Suggest story points for a new task from similar completed tasks",
+        inputSchema: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "Task title" },
+            description: { type: "string", description: "Task description" },
+            type: {
+              type: "string",
+              enum: ["epic", "story", "task", "bug", "subtask"],
+              description: "Task type (similar tasks of the type are preferred)",
+            },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+          required: ["title"],
+        },
+      },
+
+      // Time Tracking Tools
+      {
+        name: "pm_timer_start",
+        description: "Start a task timer (timers also start when a task enters in_progress)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_timer_stop",
+        description: "Stop a task timer and add the elapsed time to its worklog",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq (default: every running timer in the project)" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_time_log",
+        description: "Log time spent on a task without a timer",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            minutes: { type: "number", description: "Minutes spent" },
+            hours: { type: "number", description: "Hours spent (added to minutes)" },
+            startedAt: { type: "string", description: "When the work started: YYYY-MM-DD or ISO time (default: now minus the duration)" },
+            note: { type: "string", description: "What was done" },
+            author: { type: "string", description: "Who did the work (default: assignee)" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_task_worklog",
+        description: "List a task's worklog entries with estimate vs actual",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID or #seq" },
+            projectId: { type: "string", description: "Project for #seq (default: active project)" },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_time_report",
+        description: "Summarize logged hours by task, assignee or week, with estimate vs actual and running timers",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            groupBy: { type: "string", enum: ["task", "assignee", "week"], description: "Grouping (default: task)" },
+            sprintId: { type: "string", description: "Only tasks in this sprint" },
+            assignee: { type: "string", description: "Only entries by this person" },
+            from: { type: "string", description: "First day, YYYY-MM-DD" },
+            to: { type: "string", description: "Last day, YYYY-MM-DD" },
+          },
+        },
+      },
+
+      // Git Integration Tools
+      {
+        name: "pm_git_commit_process",
+        description:
+          "Apply a commit's magic words to tasks: link the commit and change status (fixes/closes → done, wip → in_progress, review → in_review)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            commitSha: { type: "string", description: "Commit SHA (default HEAD)" },
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            branch: { type: "string", description: "Branch the commit was made on" },
+          },
+        },
+      },
+
+      // GitHub Integration Tools
+      {
+        name: "pm_github_issue_create",
+        description: "Create GitHub Issue from task and link them",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID" },
+            labels: {
+              type: "array",
+              items: { type: "string" },
+              description: "Extra GitHub labels (the task's labels and status label are always added)",
+            },
+          },
+          required: ["taskId"],
+        },
+      },
+      {
+        name: "pm_github_issue_link",
+        description: "Link existing GitHub Issue to task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task UUID" },
+            issueNumber: { type: "number", description: "GitHub Issue #" },
+          },
+          required: ["taskId", "issueNumber"],
+        },
+      },
+      {
+        name: "pm_github_sync_pull",
+        description: "Import GitHub issues into the local task store (creates and updates tasks)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_sync_queue_list",
+        description: "List queued GitHub sync operations (pending, failed, dead-lettered)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Filter by project (default: all)" },
+            status: {
+              type: "string",
+              enum: ["pending", "processing", "completed", "failed", "dead"],
+            },
+            limit: { type: "number", description: "Max items (default 50)" },
+          },
+        },
+      },
+      {
+        name: "pm_sync_queue_retry",
+        description: "Re-queue a failed or dead-lettered sync item (all dead items if no id) and flush the queue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            id: { type: "number", description: "Sync queue item id" },
+            projectId: { type: "string", description: "Limit bulk retry to a project" },
+          },
+        },
+      },
+      {
+        name: "pm_sync_conflicts",
+        description: "List sync conflicts between local tasks and GitHub issues (refresh: detect new ones)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            refresh: { type: "boolean", description: "Compare linked tasks with GitHub first" },
+            status: { type: "string", enum: ["open", "resolved"], description: "Default: open" },
+          },
+        },
+      },
+      {
+        name: "pm_sync_conflict_resolve",
+        description: "Resolve a sync conflict: take local, take remote, or merge (labels unioned, per-field picks)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            conflictId: { type: "number", description: "Conflict id from pm_sync_conflicts" },
+            resolution: { type: "string", enum: ["local", "remote", "merge"] },
+            fields: {
+              type: "object",
+              description: 'Merge picks per field, e.g. {"title": "remote", "status": "local"}',
+            },
+          },
+          required: ["conflictId", "resolution"],
+        },
+      },
+      {
+        name: "pm_github_config",
+        description: "Configure GitHub integration for project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            githubRepo: { type: "string", description: "owner/repo format" },
+            githubProjectNumber: { type: "number", description: "GitHub Projects V2 number" },
+            syncMode: {
+              type: "string",
+              enum: ["manual", "auto"],
+              description: "Sync mode",
+            },
+            fieldMappings: {
+              type: "object",
+              description:
+                "Project field names/values, e.g. {\"status\": \"Status\", \"estimate\": \"Points\", \"statusValues\": {\"in_review\": \"Review\"}}",
+            },
+          },
+        },
+      },
+      {
+        name: "pm_github_labels_sync",
+        description: "Two-way sync of project labels (names, colors, descriptions) with the repository's labels, including the status labels",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+          },
+        },
+      },
+      {
+        name: "pm_github_project_sync",
+        description: "Add linked issues to the GitHub Project board and set Status/Priority/Estimate/Iteration",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectId: { type: "string", description: "Project UUID (default: active project)" },
+            taskId: { type: "string", description: "Task UUID or #seq (default: all linked tasks)" },
+          },
+        },
+      },
+      {
+        name: "pm_admin_rebuild_projections",
+        description:
+          "Truncate projects/sprints/tasks/dependencies and replay them from events (verify: only report drift, change nothing)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            verify: { type: "boolean", description: "Diff replayed state against the tables without rebuilding" },
+          },
+        },
+      },
+    ],
+  };
+});
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Resolve a task by UUID or project-scoped #seq (in the active project by default)
+ */
+function resolveTask(taskRef: string, projectId?: string): Task | undefined {
+  if (taskRef.startsWith("#")) {
+    return taskRepo.getBySeq(activeProject.requireId(projectId), parseInt(taskRef.substring(1)));
+  }
+  return taskRepo.getById(taskRef);
+}
+
+/**
+ * Project board sync input for a task, including its sprint as the iteration
+ */
+function projectSyncInput(task: Task, config: ProjectConfig): ProjectItemSyncInput | undefined {
+  const sprint = task.sprint_id ? sprintRepo.getById(task.sprint_id) : undefined;
+  return toProjectItemSyncInput(task, config, sprint);
+}
+
+function formatSyncQueueItem(item: SyncQueueItem): string {
+  const retries = item.retryCount > 0 ? ` (retries: ${item.retryCount})` : "";
+  const next = item.status === "failed" && item.nextAttemptAt ? ` next: ${item.nextAttemptAt}` : "";
+  const error = item.errorMessage ? ` - ${item.errorMessage}` : "";
+  return `[${item.id}] ${item.status} ${item.action} ${item.entityType} #${item.entityId}${retries}${next}${error}`;
+}
+
+function formatTaskRef(task: Task): string {
+  return `#${task.seq} [${task.status}] ${task.title}`;
+}
+
+// ============================================
+// Tool Handlers
+// ============================================
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: rawArgs } = request.params;
+  const args = new ToolArgs(rawArgs);
+
+  try {
+    switch (name) {
+      // ========== Project Tools ==========
+      case "pm_project_create": {
+        const project = projectRepo.create(args.requireString("name"), args.string("description"));
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Project created: ${project.name} (${project.id})`,
+            },
+          ],
+        };
+      }
+
+      case "pm_project_list": {
+        const projects = projectRepo.list({
+          status: args.string("status"),
+          includeArchived: args.boolean("includeArchived"),
+        });
+        const activeId = projects.length > 0 ? activeProject.resolve()?.project.id : undefined;
+        return {
+          content: [
+            {
+              type: "text",
+              text: projects.length === 0
                 ? "No projects found. Create one with pm_project_create."
-                : projects.map((p) => `- ${p.name} (${p.status})`).join("\n"),
+                : projects
+                    .map((p) => `- ${p.name} (${p.status})${p.id === activeId ? " ← active" : ""}`)
+                    .join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "pm_project_update": {
+        const status = args.string("status");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        if (status === "archived") {
+          return {
+            content: [{ type: "text", text: "Use pm_project_archive to archive a project" }],
+            isError: true,
+          };
+        }
+
+        const project = projectRepo.update(projectId, {
+          name: args.string("name"),
+          description: args.string("description"),
+          status,
+          settings: args.record("settings"),
+        });
+        if (!project) {
+          return {
+            content: [{ type: "text", text: `Project not found: ${projectId}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: `✓ Project updated: ${project.name} (${project.status})` }],
+        };
+      }
+
+      case "pm_project_archive":
+      case "pm_project_unarchive": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const project =
+          name === "pm_project_archive"
+            ? projectRepo.archive(projectId, args.string("reason"))
+            : projectRepo.unarchive(projectId);
+        if (!project) {
+          return {
+            content: [{ type: "text", text: `Project not found: ${projectId}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: name === "pm_project_archive"
+                ? `✓ Project archived: ${project.name}`
+                : `✓ Project restored: ${project.name} (${project.status})`,
+            },
+          ],
+        };
+      }
+
+      case "pm_project_use": {
+        const workspace = activeProject.getWorkspace();
+        if (args.boolean("clear")) {
+          activeProject.clear();
+        } else if (args.string("project")) {
+          const ref = args.requireString("project");
+          const project = activeProject.use(ref);
+          if (!project) {
+            return {
+              content: [{ type: "text", text: `Project not found: ${ref}` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: "text", text: `✓ Active project for ${workspace}: ${project.name} (${project.id})` }],
+          };
+        }
+
+        const active = activeProject.resolve();
+        return {
+          content: [
+            {
+              type: "text",
+              text: active ? `Active project: ${formatActiveProject(active, workspace)}` : NO_ACTIVE_PROJECT,
+            },
+          ],
+        };
+      }
+
+      // ========== Task Tools ==========
+      case "pm_task_create": {
+        const parentId = args.string("parentId");
+        const sprintId = args.string("sprintId");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const project = projectRepo.getById(projectId);
+        if (!project) {
+          return {
+            content: [{ type: "text", text: `Project not found: ${projectId}` }],
+            isError: true,
+          };
+        }
+        if (project.status === "archived") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Project ${project.name} is archived. Restore it with pm_project_unarchive to add tasks.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const type = args.string("type") || "task";
+        let parent: Task | undefined;
+        if (parentId) {
+          parent = resolveTask(parentId, projectId);
+          if (!parent) {
+            return {
+              content: [{ type: "text", text: `Parent task not found: ${parentId}` }],
+              isError: true,
+            };
+          }
+          const problem = checkParent(taskRepo, { type, project_id: projectId }, parent);
+          if (problem) throw new Error(problem);
+        }
+
+        const labels = args.strings("labels");
+        if (labels) checkTaskLabels(labels);
+
+        if (sprintId) {
+          const sprint = sprintRepo.getById(sprintId);
+          if (!sprint || sprint.project_id !== projectId) {
+            throw new Error(`Sprint not found in project ${project.name}: ${sprintId}`);
+          }
+          if (sprint.status === "completed") {
+            throw new Error(`Sprint ${sprint.name} is completed; add the task to an open sprint`);
+          }
+        }
+
+        const taskId = randomUUID();
+        // Expected version 0: the aggregate must not exist yet
+        createTaskEvent(
+          eventStore,
+          "TaskCreated",
+          taskId,
+          {
+            title: args.string("title"),
+            projectId,
+            description: args.string("description"),
+            type,
+            priority: args.string("priority") || "medium",
+            estimatePoints: args.number("estimatePoints"),
+            parentId: parent?.id,
+          },
+          undefined,
+          0
+        );
+
+        if (labels?.length) {
+          const created = taskRepo.syncFromEvents(taskId);
+          if (created) applyTaskLabels({ labelRepo, taskRepo }, created, { add: labels });
+        }
+
+        if (sprintId) {
+          taskRepo.appendEvents(taskId, () => [
+            { type: "TaskAddedToSprint", payload: { sprintId } },
+          ]);
+        }
+
+        const task = taskRepo.syncFromEvents(taskId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: task
+                ? `✓ Task created: #${task.seq} - ${task.title}`
+                : "Failed to create task",
+            },
+          ],
+        };
+      }
+
+      case "pm_task_list": {
+        const query = args.string("query");
+        const sort = args.string("sort");
+        const { tasks, nextCursor } = taskRepo.listPage({
+          projectId: args.string("projectId") ?? activeProject.resolve()?.project.id,
+          sprintId: args.string("sprintId"),
+          status: args.string("status"),
+          type: args.string("type"),
+          priority: args.string("priority"),
+          label: args.string("label"),
+          query,
+          sort,
+          cursor: args.string("cursor"),
+          me: getMe,
+          limit: args.number("limit") || 50,
+        });
+
+        if (tasks.length === 0) {
+          return {
+            content: [{ type: "text", text: "No tasks found" }],
+          };
+        }
+
+        const line = (t: Task, withStatus = false) =>
+          `#${t.seq} ${withStatus ? `[${t.status}] ` : ""}[${t.priority}] ${t.title}${
+            t.github_issue_number ? ` (GH #${t.github_issue_number})` : ""
+          }`;
+
+        let output: string;
+        if (sort || query) {
+          // A requested order only shows in a flat list
+          output = tasks.map((t) => line(t, true)).join("\n");
+        } else {
+          const grouped = tasks.reduce((acc, t) => {
+            if (!acc[t.status]) acc[t.status] = [];
+            acc[t.status].push(t);
+            return acc;
+          }, {} as Record<string, typeof tasks>);
+
+          output = Object.entries(grouped)
+            .map(([status, statusTasks]) => {
+              const header = `\n${status.toUpperCase()} (${statusTasks.length})`;
+              return `${header}\n${statusTasks.map((t) => `  ${line(t)}`).join("\n")}`;
+            })
+            .join("\n");
+        }
+        const more = nextCursor ? `\n\nMore tasks: pass cursor "${nextCursor}"` : "";
+
+        return {
+          content: [{ type: "text", text: output + more }],
+        };
+      }
+
+      case "pm_task_search": {
+        const query = args.requireString("query");
+        const results = taskRepo.search(query, {
+          projectId: args.string("projectId") ?? activeProject.resolve()?.project.id,
+          limit: args.number("limit"),
+        });
+
+        if (results.length === 0) {
+          return {
+            content: [{ type: "text", text: `No tasks match "${query}"` }],
+          };
+        }
+
+        const output = results
+          .map(({ task, score, snippet, matchedIn }) => {
+            const where = matchedIn.filter((field) => field !== "title").join(", ");
+            return (
+              `#${task.seq} [${task.status}] ${task.title} (score ${score.toFixed(2)}${where ? `; in ${where}` : ""})` +
+              (where ? `\n    ${snippet.replace(/\s+/g, " ")}` : "")
+            );
+          })
+          .join("\n");
+
+        return {
+          content: [{ type: "text", text: `${results.length} task(s) match "${query}":\n\n${output}` }],
+        };
+      }
+
+      case "pm_task_get": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(task, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "pm_task_tree": {
+        const taskId = args.string("taskId");
+        const projectId = args.string("projectId");
+        let tree: TaskTreeNode[];
+        if (taskId) {
+          const root = resolveTask(taskId, projectId);
+          if (!root) {
+            return {
+              content: [{ type: "text", text: `Task not found: ${taskId}` }],
+              isError: true,
+            };
+          }
+          tree = [buildTaskTree(taskRepo, root)];
+        } else {
+          tree = buildProjectTree(taskRepo, activeProject.requireId(projectId));
+        }
+
+        return {
+          content: [{ type: "text", text: tree.length === 0 ? "No tasks found" : formatTaskTree(tree) }],
+        };
+      }
+
+      case "pm_task_history": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        const history = getTaskHistory(eventStore, task.id);
+        const limit = args.number("limit");
+        const entries = limit ? history.slice(-limit) : history;
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatTaskHistory(entries, `History of #${task.seq} - ${task.title}`),
+            },
+          ],
+        };
+      }
+
+      case "pm_task_at": {
+        const taskId = args.requireString("taskId");
+        const at = args.string("at");
+        const version = args.number("version");
+        const task = resolveTask(taskId, args.string("projectId"));
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+        if (at === undefined && version === undefined) {
+          return {
+            content: [{ type: "text", text: "Either at or version is required" }],
+            isError: true,
+          };
+        }
+
+        const snapshot = getTaskAt(eventStore, task.id, { at, version });
+        if (!snapshot) {
+          return {
+            content: [{ type: "text", text: `Task #${task.seq} did not exist yet` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `#${task.seq} at v${snapshot.version} (${snapshot.createdAt})\n${JSON.stringify(snapshot.state, null, 2)}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_task_update": {
+        const taskId = args.requireString("taskId");
+        const estimateConfidence = args.number("estimateConfidence");
+        const status = args.string("status");
+        const current = taskRepo.getById(taskId);
+        if (!current) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        const newType = args.string("type");
+        const type = newType ?? current.type;
+        const parentRef = args.string("parentId");
+        let parentId: string | undefined;
+        if (parentRef) {
+          const parent = resolveTask(parentRef, current.project_id);
+          if (!parent) {
+            return {
+              content: [{ type: "text", text: `Parent task not found: ${parentRef}` }],
+              isError: true,
+            };
+          }
+          const problem = checkParent(taskRepo, { ...current, type }, parent);
+          if (problem) throw new Error(problem);
+          parentId = parent.id;
+        } else if (parentRef === "" && current.parent_id) {
+          parentId = ""; // detach
+        }
+        if (newType && newType !== current.type) {
+          const moved = { ...current, parent_id: parentId ?? current.parent_id };
+          const problem = checkTypeChange(taskRepo, moved, newType);
+          if (problem) throw new Error(problem);
+        }
+
+        if (estimateConfidence !== undefined && !(estimateConfidence >= 0 && estimateConfidence <= 1)) {
+          throw new Error(`Invalid confidence: ${estimateConfidence} (use 0-1)`);
+        }
+
+        // Status changes here respect WIP limits like pm_task_status
+        const config = configRepo.getByProjectId(current.project_id);
+        let wipNote = "";
+        const task = taskRepo.appendEvents(taskId, (fresh) => {
+          if (status !== undefined) {
+            const wip = enforceWipLimit(taskRepo, config, fresh, status, args.boolean("force"));
+            wipNote = wip ? `\n⚠️ ${formatWipViolation(wip)}` : "";
+          }
+          return taskUpdateEvents(fresh, {
+            title: args.string("title"),
+            description: args.string("description"),
+            status,
+            priority: args.string("priority"),
+            type: newType,
+            estimate_points: args.number("estimatePoints"),
+            estimate_hours: args.number("estimateHours"),
+            estimate_confidence: estimateConfidence,
+            assignee: args.string("assignee"),
+            parent_id: parentId,
+          });
+        });
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Task updated: #${task.seq} - ${task.title}${wipNote}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_task_status": {
+        const taskId = args.requireString("taskId");
+        const status = args.requireString("status");
+        const task = taskRepo.getById(taskId);
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        const config = configRepo.getByProjectId(task.project_id);
+
+        // from and the WIP count are taken from the fresh read inside the
+        // (retried) append, so a concurrent move is counted
+        let from = task.status;
+        let wipNote = "";
+        const updated = taskRepo.appendEvents(taskId, (current) => {
+          from = current.status;
+          const wip = enforceWipLimit(taskRepo, config, current, status, args.boolean("force"));
+          wipNote = wip ? `\n⚠️ ${formatWipViolation(wip)}` : "";
+          return [
+            { type: "TaskStatusChanged", payload: { from, to: status, reason: args.string("reason") } },
+            ...statusTimerEvents(current, status),
+          ];
+        });
+
+        // Push to the linked issue when auto sync is on; failures stay queued
+        let syncNote = "";
+        if (
+          task.github_issue_number &&
+          config?.github_enabled &&
+          config.github_repo &&
+          config.sync_mode === "auto"
+        ) {
+          const item = queueRepo.enqueue(
+            task.project_id,
+            "update_status",
+            "issue",
+            String(task.github_issue_number),
+            { status, repo: config.github_repo }
+          );
+          const queued = [item];
+
+          const projectInput = updated && projectSyncInput(updated, config);
+          if (projectInput) {
+            queued.push(
+              queueRepo.enqueue(
+                task.project_id,
+                "update_project",
+                "issue",
+                String(task.github_issue_number),
+                projectInput
+              )
+            );
+          }
+
+          flushSyncQueue({ queueRepo, configRepo, taskRepo });
+          for (const { id } of queued) {
+            const synced = queueRepo.getById(id!);
+            if (synced && synced.status !== "completed") {
+              syncNote += `\n⚠️ GitHub sync queued (item ${synced.id}): ${synced.errorMessage}`;
+            }
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Task #${updated?.seq}: ${from} → ${status}${wipNote}${syncNote}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_task_board": {
+        const sprintId = args.string("sprintId");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const project = projectRepo.getById(projectId);
+        if (!project) {
+          return {
+            content: [{ type: "text", text: "Project not found" }],
+            isError: true,
+          };
+        }
+        const swimlane = args.string("swimlane");
+        if (swimlane !== undefined && swimlane !== "assignee" && swimlane !== "epic") {
+          throw new Error(`Invalid swimlane: ${swimlane} (use assignee or epic)`);
+        }
+
+        const board = buildBoard(taskRepo, projectId, configRepo.getByProjectId(projectId), {
+          sprintId,
+          swimlane,
+        });
+        const sprint = sprintId ? sprintRepo.getById(sprintId) : undefined;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Board: ${project.name}${sprint ? ` / ${sprint.name}` : ""}\n\n${formatBoard(board)}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_board_config": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const wipLimits = args.record("wipLimits");
+        const policy = args.string("wipPolicy");
+        if (policy !== undefined && policy !== "warn" && policy !== "block") {
+          throw new Error(`Invalid WIP policy: ${policy} (use warn or block)`);
+        }
+
+        let config = configRepo.getByProjectId(projectId) ?? configRepo.create(projectId, {});
+        if (wipLimits !== undefined || policy !== undefined) {
+          const limits = wipLimits ? mergeWipLimits(parseWipLimits(config), wipLimits) : parseWipLimits(config);
+          config = configRepo.update(projectId, {
+            wip_limits: JSON.stringify(limits),
+            wip_policy: policy,
+          })!;
+        }
+
+        const limits = parseWipLimits(config);
+        const summary = BOARD_STATUSES.filter((s) => limits[s]).map((s) => `${s} ${limits[s]}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: [
+                `✓ Board config`,
+                `WIP limits: ${summary.join(", ") || "(none)"}`,
+                `Policy: ${wipPolicy(config)}`,
+              ].join("\n"),
+            },
+          ],
+        };
+      }
+
+      // ========== Dependency Tools ==========
+      case "pm_task_dependency_add":
+      case "pm_task_dependency_remove": {
+        const taskId = args.requireString("taskId");
+        const projectId = args.string("projectId");
+        const dependsOnId = args.requireString("dependsOnId");
+        const task = resolveTask(taskId, projectId);
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+        const blocker = resolveTask(dependsOnId, projectId || task.project_id);
+        if (!blocker) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${dependsOnId}` }],
+            isError: true,
+          };
+        }
+
+        if (name === "pm_task_dependency_remove") {
+          const removed = dependencyRepo.remove(task.id, blocker.id);
+          return {
+            content: [
+              {
+                type: "text",
+                text: removed
+                  ? `✓ #${task.seq} no longer depends on #${blocker.seq}`
+                  : `#${task.seq} does not depend on #${blocker.seq}`,
+              },
+            ],
+          };
+        }
+
+        const cycle = dependencyRepo.findCycle(task.id, blocker.id);
+        if (cycle) {
+          const path = cycle
+            .map((id) => `#${taskRepo.getById(id)?.seq ?? id}`)
+            .join(" → ");
+          throw new Error(`Dependency would create a cycle: ${path}`);
+        }
+
+        dependencyRepo.add(task.id, blocker.id);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ #${task.seq} now depends on #${blocker.seq} - ${blocker.title}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_task_dependency_list": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        const dependencies = dependencyRepo.getDependencies(task.id);
+        const dependents = dependencyRepo.getDependents(task.id);
+        const section = (title: string, tasks: Task[]) =>
+          `${title} (${tasks.length})` +
+          (tasks.length > 0 ? `\n${tasks.map((t) => `  ${formatTaskRef(t)}`).join("\n")}` : "");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: [
+                formatTaskRef(task),
+                "",
+                section("Depends on", dependencies),
+                section("Blocks", dependents),
+              ].join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "pm_task_blockers": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        const chain = dependencyRepo.getBlockingChain(task.id);
+        if (chain.length === 0) {
+          return {
+            content: [{ type: "text", text: `#${task.seq} is not blocked by any open task` }],
+          };
+        }
+
+        const criticalPath = dependencyRepo.getCriticalPath(task.id);
+        const blockers = chain
+          .map((t) => `  ${"  ".repeat(t.depth - 1)}${formatTaskRef(t)}`)
+          .join("\n");
+        const path = criticalPath.map((t) => `#${t.seq}`).join(" → ");
+        const points = criticalPath.reduce((sum, t) => sum + (t.estimate_points || 0), 0);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `#${task.seq} is blocked by ${chain.length} open task(s):\n${blockers}\n\nCritical path: ${path} (${points} points)`,
+            },
+          ],
+        };
+      }
+
+      // ========== Label Tools ==========
+      case "pm_label_create": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const label = labelRepo.create(projectId, {
+          name: args.requireString("name"),
+          color: args.string("color"),
+          description: args.string("description"),
+        });
+
+        return {
+          content: [{ type: "text", text: `✓ Label created: ${label.name} (#${label.color})` }],
+        };
+      }
+
+      case "pm_label_list": {
+        const projectId = args.string("projectId") ?? activeProject.resolve()?.project.id;
+        if (!projectId) {
+          return { content: [{ type: "text", text: NO_ACTIVE_PROJECT }], isError: true };
+        }
+
+        const labels = labelRepo.listUsage(projectId);
+        if (labels.length === 0) {
+          return { content: [{ type: "text", text: "No labels defined" }] };
+        }
+
+        const output = labels
+          .map((l) => {
+            const synced = l.github_id ? "" : " (not on GitHub)";
+            const description = l.description ? ` - ${l.description}` : "";
+            return `  ${l.name} #${l.color} · ${l.task_count} task(s)${synced}${description}`;
+          })
+          .join("\n");
+
+        return {
+          content: [{ type: "text", text: `Labels (${labels.length}):\n${output}` }],
+        };
+      }
+
+      case "pm_label_update": {
+        const name = args.requireString("name");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const label = updateProjectLabel({ labelRepo, taskRepo }, projectId, name, {
+          name: args.string("newName"),
+          color: args.string("color"),
+          description: args.string("description"),
+        });
+        if (!label) {
+          return {
+            content: [{ type: "text", text: `Label not found: ${name}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: `✓ Label updated: ${label.name} (#${label.color})` }],
+        };
+      }
+
+      case "pm_label_delete": {
+        const name = args.requireString("name");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const untagged = deleteProjectLabel({ labelRepo, taskRepo }, projectId, name);
+        if (untagged === undefined) {
+          return {
+            content: [{ type: "text", text: `Label not found: ${name}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            { type: "text", text: `✓ Label deleted: ${name} (removed from ${untagged} task(s))` },
+          ],
+        };
+      }
+
+      case "pm_task_label": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
+        if (!task) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+
+        const { task: updated, added, removed } = applyTaskLabels({ labelRepo, taskRepo }, task, {
+          add: args.strings("add"),
+          remove: args.strings("remove"),
+        });
+        if (added.length === 0 && removed.length === 0) {
+          return { content: [{ type: "text", text: `#${task.seq}: labels unchanged` }] };
+        }
+
+        const config = configRepo.getByProjectId(task.project_id);
+        let syncNote = "";
+        if (
+          task.github_issue_number &&
+          config?.github_enabled &&
+          config.github_repo &&
+          config.sync_mode === "auto"
+        ) {
+          const item = queueRepo.enqueue(
+            task.project_id,
+            "update_labels",
+            "issue",
+            String(task.github_issue_number),
+            { add: added, remove: removed, repo: config.github_repo }
+          );
+
+          flushSyncQueue({ queueRepo, configRepo, taskRepo });
+          const synced = queueRepo.getById(item.id!);
+          if (synced && synced.status !== "completed") {
+            syncNote = `\n⚠️ GitHub sync queued (item ${synced.id}): ${synced.errorMessage}`;
+          }
+        }
+
+        const labels: string[] = updated.labels ? JSON.parse(updated.labels) : [];
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Task #${updated.seq} labels: ${labels.length > 0 ? labels.join(", ") : "(none)"}${syncNote}`,
+            },
+          ],
+        };
+      }
+
+      // ========== Sprint Tools ==========
+      case "pm_sprint_create": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const project = projectRepo.getById(projectId);
+        if (!project) {
+          return {
+            content: [{ type: "text", text: `Project not found: ${projectId}` }],
+            isError: true,
+          };
+        }
+
+        const sprint = sprintRepo.create(
+          projectId,
+          args.requireString("name"),
+          args.requireString("startDate"),
+          args.requireString("endDate"),
+          args.string("goal")
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Sprint created: ${sprint.name} (${sprint.start_date} → ${sprint.end_date})\nID: ${sprint.id}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_sprint_list": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const sprints = sprintRepo.list(projectId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: sprints.length === 0
+                ? "No sprints found. Create one with pm_sprint_create."
+                : sprints
+                    .map(
+                      (s) =>
+                        `- ${s.name} [${s.status}] ${s.start_date} → ${s.end_date} (${s.id})`
+                    )
+                    .join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "pm_sprint_status": {
+        const sprintId = args.string("sprintId");
+        const sprint = sprintId
+          ? sprintRepo.getById(sprintId)
+          : sprintRepo.getActive(activeProject.requireId(args.string("projectId")));
+        if (!sprint) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: sprintId
+                  ? `Sprint not found: ${sprintId}`
+                  : "No active sprint. Provide sprintId or a project with an active sprint.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const status = sprintRepo.getStatus(sprint.id)!;
+        const taskList = status.tasks
+          .map((t) => `  #${t.seq} [${t.status}] ${t.title} (${t.estimate_points ?? 0}pt)`)
+          .join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: [
+                `${sprint.name} [${sprint.status}] ${sprint.start_date} → ${sprint.end_date}`,
+                sprint.goal ? `Goal: ${sprint.goal}` : undefined,
+                `Progress: ${status.completedPoints}/${status.totalPoints} points (${status.progressPct}%)`,
+                "",
+                status.tasks.length === 0 ? "No tasks in sprint" : `Tasks (${status.tasks.length}):\n${taskList}`,
+              ]
+                .filter((line) => line !== undefined)
+                .join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "pm_sprint_start": {
+        const sprintId = args.requireString("sprintId");
+        const sprint = sprintRepo.getById(sprintId);
+        if (!sprint) {
+          return {
+            content: [{ type: "text", text: `Sprint not found: ${sprintId}` }],
+            isError: true,
+          };
+        }
+        if (sprint.status !== "planning") {
+          throw new Error(`Sprint is ${sprint.status}, only planning sprints can be started`);
+        }
+
+        const active = sprintRepo.getActive(sprint.project_id);
+        if (active) {
+          throw new Error(`Sprint "${active.name}" is already active. Complete it first.`);
+        }
+
+        const started = sprintRepo.start(sprintId)!;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Sprint started: ${started.name} (ends ${started.end_date})`,
+            },
+          ],
+        };
+      }
+
+      case "pm_sprint_complete": {
+        const sprintId = args.requireString("sprintId");
+        const sprint = sprintRepo.getById(sprintId);
+        if (!sprint) {
+          return {
+            content: [{ type: "text", text: `Sprint not found: ${sprintId}` }],
+            isError: true,
+          };
+        }
+        if (sprint.status !== "active") {
+          throw new Error(`Sprint is ${sprint.status}, only active sprints can be completed`);
+        }
+
+        const incomplete = sprintRepo
+          .getStatus(sprintId)!
+          .tasks.filter((t) => t.status !== "done" && t.status !== "cancelled");
+        const completed = sprintRepo.complete(sprintId)!;
+
+        const lines = [
+          `✓ Sprint completed: ${completed.name}`,
+          `Velocity: ${completed.velocity_completed}/${completed.velocity_committed} points`,
+        ];
+        if (incomplete.length > 0) {
+          lines.push(
+            "",
+            `Incomplete tasks (${incomplete.length}):`,
+            ...incomplete.map((t) => `  #${t.seq} [${t.status}] ${t.title}`)
+          );
+        }
+
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+        };
+      }
+
+      case "pm_sprint_add_tasks": {
+        const sprintId = args.requireString("sprintId");
+        const sprint = sprintRepo.getById(sprintId);
+        if (!sprint) {
+          return {
+            content: [{ type: "text", text: `Sprint not found: ${sprintId}` }],
+            isError: true,
+          };
+        }
+
+        const refs: string[] = args.strings("taskIds") || [];
+        const tasks = refs.map((ref) => resolveTask(ref, sprint.project_id));
+        const missing = refs.filter((_, i) => !tasks[i]);
+        if (missing.length > 0) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${missing.join(", ")}` }],
+            isError: true,
+          };
+        }
+
+        const added = sprintRepo.addTasks(sprintId, tasks.map((t) => t!.id));
+        const skipped = refs.length - added.length;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Added ${added.length} task(s) to ${sprint.name}${
+                skipped > 0 ? ` (${skipped} already in the sprint)` : ""
+              }`,
+            },
+          ],
+        };
+      }
+
+      // ========== Analytics Tools ==========
+      case "pm_velocity_calculate": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const velocity = analyticsRepo.calculateVelocity(
+          projectId,
+          args.number("sprintCount") || 3
+        );
+
+        if (velocity.trend.length === 0) {
+          return {
+            content: [{ type: "text", text: "No completed sprints to calculate velocity from" }],
+          };
+        }
+
+        const trend = velocity.trend
+          .map(
+            (v) =>
+              `  ${v.sprint_name}: ${v.completed_points}/${v.committed_points} points (${Math.round(v.completion_rate * 100)}%)`
+          )
+          .join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Velocity: ${velocity.average} points/sprint (±${velocity.stdDev})\n\nRecent sprints:\n${trend}`,
             },
           ],
         };
       }
 
-      // ========== Task Tools ==========
-      case "pm_task_create": {
-        const taskId = randomUUID();
-        createTaskEvent(eventStore, "TaskCreated", taskId, {
-          title: args.title,
-          projectId: args.projectId,
-          description: args.description,
-          type: args.type || "task",
-          priority: args.priority || "medium",
-          estimatePoints: args.estimatePoints,
-        });
+      case "pm_burndown_data": {
+        const sprintId = args.requireString("sprintId");
+        const sprint = sprintRepo.getById(sprintId);
+        if (!sprint) {
+          return {
+            content: [{ type: "text", text: `Sprint not found: ${sprintId}` }],
+            isError: true,
+          };
+        }
 
-        const task = taskRepo.syncFromEvents(taskId);
+        const burndown = analyticsRepo.getBurndownData(sprintId);
         return {
           content: [
             {
               type: "text",
-              text: task
-                ? `✓ Task created: #${task.seq} - ${task.title}`
-                : "Failed to create task",
+              text: `Burndown: ${sprint.name} (remaining/ideal)\n\n${formatBurndownChart(burndown)}`,
+            },
+            {
+              type: "text",
+              text: JSON.stringify(burndown, null, 2),
             },
           ],
         };
       }
 
-      case "pm_task_list": {
-        const tasks = taskRepo.list({
-          projectId: args.projectId,
-          status: args.status,
-          type: args.type,
-          priority: args.priority,
-          limit: args.limit || 50,
-        });
-
-        if (tasks.length === 0) {
-          return {
-            content: [{ type: "text", text: "No tasks found" }],
-          };
+      case "pm_flow_metrics": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        for (const date of [args.string("from"), args.string("to")]) {
+          if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            throw new Error(`Invalid date: ${date} (use YYYY-MM-DD)`);
+          }
+        }
+        const to: string = args.string("to") ?? new Date().toISOString().slice(0, 10);
+        const from: string =
+          args.string("from") ?? new Date(Date.parse(to) - 55 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        if (from > to) {
+          throw new Error(`from (${from}) is after to (${to})`);
         }
 
-        const grouped = tasks.reduce((acc, t) => {
-          if (!acc[t.status]) acc[t.status] = [];
-          acc[t.status].push(t);
-          return acc;
-        }, {} as Record<string, typeof tasks>);
+        const metrics = getFlowMetrics(eventStore, projectId, {
+          from,
+          to,
+          type: args.string("type"),
+          assignee: args.string("assignee"),
+        });
+        return {
+          content: [{ type: "text", text: formatFlowMetrics(metrics) }],
+        };
+      }
 
-        const output = Object.entries(grouped)
-          .map(([status, statusTasks]) => {
-            const header = `\n${status.toUpperCase()} (${statusTasks.length})`;
-            const taskList = statusTasks
-              .map(
-                (t) =>
-                  `  #${t.seq} [${t.priority}] ${t.title}${
-                    t.github_issue_number ? ` (GH #${t.github_issue_number})` : ""
-                  }`
-              )
-              .join("\n");
-            return `${header}\n${taskList}`;
-          })
-          .join("\n");
+      case "pm_estimation_report": {
+        const from = args.string("from");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        if (from !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+          throw new Error(`Invalid date: ${from} (use YYYY-MM-DD)`);
+        }
 
+        const report = estimationReport(estimationRepo, {
+          projectId,
+          type: args.string("type"),
+          assignee: args.string("assignee"),
+          from,
+        });
         return {
-          content: [{ type: "text", text: output }],
+          content: [{ type: "text", text: formatEstimationReport(report) }],
         };
       }
 
-      case "pm_task_get": {
-        let task;
-        if (args.taskId.startsWith("#")) {
-          const seq = parseInt(args.taskId.substring(1));
-          if (!args.projectId) {
-            throw new Error("projectId required when using #seq");
-          }
-          task = taskRepo.getBySeq(args.projectId, seq);
-        } else {
-          task = taskRepo.getById(args.taskId);
-        }
+      case "pm_estimate_suggest": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const suggestion = suggestPoints({ taskRepo, estimationRepo }, projectId, {
+          title: args.requireString("title"),
+          description: args.string("description"),
+          type: args.string("type"),
+        });
+        return {
+          content: [{ type: "text", text: formatPointSuggestion(suggestion) }],
+        };
+      }
 
+      // ========== Time Tracking Tools ==========
+      case "pm_timer_start": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
         if (!task) {
           return {
-            content: [{ type: "text", text: `Task not found: ${args.taskId}` }],
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
             isError: true,
           };
         }
 
+        const { task: updated, changed } = startTimer(taskRepo, task.id, "manual")!;
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(task, null, 2),
+              text: changed
+                ? `✓ Timer started for #${updated.seq}`
+                : `Timer already running for #${updated.seq} since ${updated.timer_started_at}`,
             },
           ],
         };
       }
 
-      case "pm_task_update": {
-        const task = taskRepo.update(args.taskId, args);
+      case "pm_timer_stop": {
+        const taskId = args.string("taskId");
+        const projectId = args.string("projectId");
+        let tasks: Task[];
+        if (taskId) {
+          const task = resolveTask(taskId, projectId);
+          if (!task) {
+            return {
+              content: [{ type: "text", text: `Task not found: ${taskId}` }],
+              isError: true,
+            };
+          }
+          tasks = [task];
+        } else {
+          tasks = taskRepo.listRunningTimers(activeProject.requireId(projectId));
+        }
+
+        const lines: string[] = [];
+        for (const task of tasks) {
+          const { task: updated, changed } = stopTimer(taskRepo, task.id, "manual")!;
+          if (!changed) continue;
+          const minutes = ((updated.actual_hours ?? 0) - (task.actual_hours ?? 0)) * 60;
+          lines.push(`✓ Timer stopped for #${task.seq}: ${formatMinutes(minutes)}`);
+        }
+
+        return {
+          content: [{ type: "text", text: lines.length > 0 ? lines.join("\n") : "No running timer" }],
+        };
+      }
+
+      case "pm_time_log": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
         if (!task) {
           return {
-            content: [{ type: "text", text: `Task not found: ${args.taskId}` }],
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
             isError: true,
           };
         }
 
+        const minutes = (args.number("minutes") ?? 0) + (args.number("hours") ?? 0) * 60;
+        const updated = logTime(taskRepo, task.id, {
+          minutes,
+          startedAt: args.string("startedAt"),
+          note: args.string("note"),
+          author: args.string("author"),
+        })!;
+
         return {
           content: [
             {
               type: "text",
-              text: `✓ Task updated: #${task.seq} - ${task.title}`,
+              text: `✓ Logged ${formatMinutes(minutes)} on #${updated.seq} (total ${formatMinutes((updated.actual_hours ?? 0) * 60)})`,
             },
           ],
         };
       }
 
-      case "pm_task_status": {
-        const task = taskRepo.getById(args.taskId);
+      case "pm_task_worklog": {
+        const taskId = args.requireString("taskId");
+        const task = resolveTask(taskId, args.string("projectId"));
         if (!task) {
           return {
-            content: [{ type: "text", text: `Task not found: ${args.taskId}` }],
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
             isError: true,
           };
         }
 
-        createTaskEvent(eventStore, "TaskStatusChanged", args.taskId, {
-          status: args.status,
-          reason: args.reason,
-          previousStatus: task.status,
+        const entries = worklogRepo.getByTask(task.id);
+        const lines = entries.map((e) => {
+          const author = e.author ? ` ${e.author}` : "";
+          const note = e.note ? ` - ${e.note}` : "";
+          return `  ${e.started_at} ${formatMinutes(e.minutes).padStart(8)} [${e.source}]${author}${note}`;
         });
+        const total = `Total: ${formatMinutes((task.actual_hours ?? 0) * 60)}`;
+        const estimate = task.estimate_hours
+          ? ` of ${task.estimate_hours}h estimated`
+          : "";
+        const running = task.timer_started_at ? `\nTimer running since ${task.timer_started_at}` : "";
 
-        const updated = taskRepo.syncFromEvents(args.taskId);
         return {
           content: [
             {
               type: "text",
-              text: `✓ Task #${updated?.seq}: ${task.status} → ${args.status}`,
+              text: `Worklog #${task.seq} ${task.title}\n${lines.length > 0 ? lines.join("\n") : "  (no entries)"}\n${total}${estimate}${running}`,
             },
           ],
         };
       }
 
+      case "pm_time_report": {
+        const from = args.string("from");
+        const to = args.string("to");
+        const sprintId = args.string("sprintId");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        for (const date of [from, to]) {
+          if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            throw new Error(`Invalid date: ${date} (use YYYY-MM-DD)`);
+          }
+        }
+
+        const rows = worklogRepo.report({
+          projectId,
+          groupBy: args.oneOf("groupBy", ["task", "assignee", "week"]),
+          sprintId,
+          author: args.string("assignee"),
+          from,
+          to,
+        });
+        const estimates = compareEstimates(taskRepo.list({ projectId, sprintId }));
+        const running = taskRepo.listRunningTimers(projectId);
+
+        return {
+          content: [{ type: "text", text: formatTimeReport(rows, estimates, running) }],
+        };
+      }
+
+      // ========== Git Tools ==========
+      case "pm_git_commit_process": {
+        const commitSha = args.string("commitSha");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const project = projectRepo.getById(projectId);
+        if (!project) {
+          return {
+            content: [{ type: "text", text: `Project not found: ${projectId}` }],
+            isError: true,
+          };
+        }
+
+        const commit = getCommitMessage(commitSha || "HEAD");
+        if (!commit) {
+          return {
+            content: [{ type: "text", text: `Commit not found: ${commitSha || "HEAD"}` }],
+            isError: true,
+          };
+        }
+
+        const config = configRepo.getByProjectId(project.id);
+        const result = processCommit(
+          { taskRepo, dependencyRepo },
+          { ...commit, branch: args.string("branch"), repo: config?.github_repo },
+          { projectId: project.id, preferGitHubIssues: !!config?.github_repo }
+        );
+
+        return {
+          content: [{ type: "text", text: formatCommitResult(result) }],
+        };
+      }
+
       // ========== GitHub Tools ==========
       case "pm_github_issue_create": {
-        const task = taskRepo.getById(args.taskId);
+        const taskId = args.requireString("taskId");
+        const task = taskRepo.getById(taskId);
         if (!task) {
           return {
-            content: [{ type: "text", text: `Task not found: ${args.taskId}` }],
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
             isError: true,
           };
         }
@@ -542,35 +2477,51 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        // Create GitHub Issue
+        // Create GitHub Issue with the task's labels and status label
+        const taskLabels: string[] = task.labels ? JSON.parse(task.labels) : [];
+        const labels = [
+          ...new Set([
+            ...taskLabels,
+            ...pmToLabels(task.status as PMStatus).add,
+            ...(args.strings("labels") || []),
+          ]),
+        ];
         const issue = await createGitHubIssue({
           repo: config.github_repo,
           title: task.title,
           body: task.description || "",
-          labels: args.labels || [],
+          labels,
         });
+        if (!issue) {
+          return {
+            content: [{ type: "text", text: "❌ Failed to create GitHub Issue" }],
+            isError: true,
+          };
+        }
 
         // Link issue to task
-        taskRepo.update(args.taskId, {
+        taskRepo.update(taskId, {
           github_issue_number: issue.number,
-          github_issue_url: issue.html_url,
+          github_issue_url: issue.url,
         });
 
         return {
           content: [
             {
               type: "text",
-              text: `✓ Created GitHub Issue #${issue.number}\n${issue.html_url}\n\nLinked to task #${task.seq}`,
+              text: `✓ Created GitHub Issue #${issue.number}\n${issue.url}\n\nLinked to task #${task.seq}`,
             },
           ],
         };
       }
 
       case "pm_github_issue_link": {
-        const task = taskRepo.getById(args.taskId);
+        const taskId = args.requireString("taskId");
+        const issueNumber = args.requireNumber("issueNumber");
+        const task = taskRepo.getById(taskId);
         if (!task) {
           return {
-            content: [{ type: "text", text: `Task not found: ${args.taskId}` }],
+            content: [{ type: "text", text: `Task not found: ${taskId}` }],
             isError: true,
           };
         }
@@ -590,22 +2541,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         // Fetch issue to get URL
-        const issue = await getIssue(config.github_repo, args.issueNumber);
+        const issue = await getIssue(issueNumber, config.github_repo);
         if (!issue) {
           return {
             content: [
               {
                 type: "text",
-                text: `❌ GitHub Issue #${args.issueNumber} not found`,
+                text: `❌ GitHub Issue #${issueNumber} not found`,
               },
             ],
             isError: true,
           };
         }
 
-        taskRepo.update(args.taskId, {
+        taskRepo.update(taskId, {
           github_issue_number: issue.number,
-          github_issue_url: issue.html_url,
+          github_issue_url: issue.url,
         });
 
         return {
@@ -618,8 +2569,340 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "pm_github_sync_pull": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const config = configRepo.getByProjectId(projectId);
+        if (!config || !config.github_repo) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "❌ GitHub not configured for this project. Use pm_github_config first.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (!isAuthenticated()) {
+          return {
+            content: [{ type: "text", text: "❌ GitHub not authenticated. Run: gh auth login" }],
+            isError: true,
+          };
+        }
+
+        const result = syncPull(
+          {
+            githubEnabled: !!config.github_enabled,
+            syncMode: "read_only",
+            projectId,
+          },
+          { eventStore, taskRepo, projectRepo, configRepo }
+        );
+
+        const lines = [
+          `✓ Pulled ${result.pulled.issues} issue(s) from ${config.github_repo}`,
+          `Created: ${result.pulled.created}, Updated: ${result.pulled.updated}`,
+          ...result.errors.map((e) => `❌ ${e}`),
+        ];
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          isError: !result.success,
+        };
+      }
+
+      case "pm_sync_queue_list": {
+        const projectId = args.string("projectId");
+        const items = queueRepo.list({
+          projectId,
+          status: args.oneOf("status", ["pending", "processing", "completed", "failed", "dead"]),
+          limit: args.number("limit"),
+        });
+        const counts = queueRepo.countByStatus(projectId);
+        const summary = Object.entries(counts)
+          .map(([status, count]) => `${status}: ${count}`)
+          .join(", ");
+
+        if (items.length === 0) {
+          return {
+            content: [{ type: "text", text: `Sync queue is empty${summary ? ` (${summary})` : ""}` }],
+          };
+        }
+
+        const lines = [
+          `Sync queue (${summary})`,
+          "",
+          ...items.map(formatSyncQueueItem),
+        ];
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+        };
+      }
+
+      case "pm_sync_queue_retry": {
+        let reset: number;
+        const id = args.number("id");
+        if (id !== undefined) {
+          const item = queueRepo.retry(id);
+          if (!item) {
+            return {
+              content: [{ type: "text", text: `Sync queue item not found: ${id}` }],
+              isError: true,
+            };
+          }
+          if (item.status !== "pending") {
+            return {
+              content: [
+                { type: "text", text: `Sync queue item ${item.id} is ${item.status}; only failed or dead items can be retried` },
+              ],
+              isError: true,
+            };
+          }
+          reset = 1;
+        } else {
+          reset = queueRepo.retryDead(args.string("projectId"));
+        }
+
+        const result = flushSyncQueue({ queueRepo, configRepo, taskRepo });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✓ Re-queued ${reset} item(s)\nProcessed: ${result.processed}, Failed: ${result.failed}`,
+            },
+          ],
+        };
+      }
+
+      case "pm_github_labels_sync": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const config = configRepo.getByProjectId(projectId);
+        if (!config || !config.github_repo) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "❌ GitHub not configured for this project. Use pm_github_config first.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = syncGitHubLabels({ labelRepo, taskRepo }, projectId, config.github_repo);
+        const lines = [
+          ["Created on GitHub", result.created],
+          ["Updated on GitHub", result.updated],
+          ["Deleted on GitHub", result.deleted],
+          ["Imported", result.imported],
+          ["Updated from GitHub", result.pulled],
+          ["Deleted (gone from GitHub)", result.removed],
+        ]
+          .filter(([, names]) => names.length > 0)
+          .map(([heading, names]) => `${heading}: ${(names as string[]).join(", ")}`);
+        const errors = result.errors.map((e) => `⚠️ ${e}`);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: [`✓ Labels synced with ${config.github_repo}`, ...lines, ...errors].join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "pm_github_project_sync": {
+        const taskId = args.string("taskId");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const config = configRepo.getByProjectId(projectId);
+        if (!config || !config.github_repo || !config.github_project_number) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "❌ GitHub project not configured. Use pm_github_config with githubProjectNumber first.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (!isAuthenticated()) {
+          return {
+            content: [{ type: "text", text: "❌ GitHub not authenticated. Run: gh auth login" }],
+            isError: true,
+          };
+        }
+
+        let tasks: Task[];
+        if (taskId) {
+          const task = resolveTask(taskId, projectId);
+          if (!task) {
+            return {
+              content: [{ type: "text", text: `Task not found: ${taskId}` }],
+              isError: true,
+            };
+          }
+          if (!task.github_issue_number) {
+            return {
+              content: [{ type: "text", text: `#${task.seq} is not linked to a GitHub issue` }],
+              isError: true,
+            };
+          }
+          tasks = [task];
+        } else {
+          tasks = taskRepo
+            .list({ projectId })
+            .filter((t) => t.github_issue_number);
+        }
+
+        const board = getProject(config.github_repo.split("/")[0], config.github_project_number);
+        if (!board) {
+          return {
+            content: [
+              { type: "text", text: `❌ GitHub project #${config.github_project_number} not found` },
+            ],
+            isError: true,
+          };
+        }
+        if (config.github_project_id !== board.id) {
+          configRepo.update(projectId, { github_project_id: board.id });
+        }
+
+        const lines: string[] = [];
+        let failed = 0;
+        for (const task of tasks) {
+          const input = projectSyncInput(task, config)!;
+          try {
+            const result = syncIssueToProject(input, board);
+            if (task.github_project_item_id !== result.itemId) {
+              taskRepo.update(task.id, { github_project_item_id: result.itemId });
+            }
+            const skipped = result.skipped.length > 0 ? ` (skipped ${result.skipped.join("; ")})` : "";
+            lines.push(`✓ #${task.seq} → issue #${task.github_issue_number}: ${result.updated.join(", ") || "no fields"}${skipped}`);
+          } catch (error) {
+            failed++;
+            lines.push(`❌ #${task.seq}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: [`Synced ${tasks.length - failed}/${tasks.length} task(s) to ${board.title}`, ...lines].join("\n"),
+            },
+          ],
+          isError: failed > 0,
+        };
+      }
+
+      case "pm_sync_conflicts": {
+        const projectId = activeProject.requireId(args.string("projectId"));
+        if (args.boolean("refresh")) {
+          const config = configRepo.getByProjectId(projectId);
+          if (!config || !config.github_repo) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "❌ GitHub not configured for this project. Use pm_github_config first.",
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const [owner, repo] = config.github_repo.split("/");
+          const engine = new SyncEngine(
+            { enabled: true, owner, repo, conflictResolution: "manual" },
+            { record: (conflict) => conflictRepo.record(projectId, conflict) }
+          );
+          const linked = taskRepo
+            .list({ projectId })
+            .filter((t) => t.github_issue_number)
+            .map(toLocalTask);
+          const result = await engine.pullFromGitHub(linked);
+          if (!result.success) {
+            return {
+              content: [{ type: "text", text: result.errors.map((e) => `❌ ${e}`).join("\n") }],
+              isError: true,
+            };
+          }
+        }
+
+        const status = args.oneOf("status", ["open", "resolved"]) || "open";
+        const conflicts = conflictRepo.list(projectId, status);
+        if (conflicts.length === 0) {
+          return {
+            content: [{ type: "text", text: `No ${status} sync conflicts` }],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: conflicts
+                .map((c) => formatConflict(c, taskRepo.getById(c.taskId)))
+                .join("\n\n"),
+            },
+          ],
+        };
+      }
+
+      case "pm_sync_conflict_resolve": {
+        const conflictId = args.requireNumber("conflictId");
+        const conflict = conflictRepo.getById(conflictId);
+        if (!conflict) {
+          return {
+            content: [{ type: "text", text: `Sync conflict not found: ${conflictId}` }],
+            isError: true,
+          };
+        }
+        if (conflict.status === "resolved") {
+          return {
+            content: [
+              { type: "text", text: `Sync conflict ${conflict.id} already resolved (${conflict.resolution})` },
+            ],
+            isError: true,
+          };
+        }
+
+        const config = configRepo.getByProjectId(conflict.projectId);
+        const result = resolveConflict({ taskRepo, conflictRepo }, conflict, {
+          resolution: args.requireOneOf("resolution", ["local", "remote", "merge"]),
+          fields: args.record("fields"),
+          repo: config?.github_repo,
+        });
+        if (!result) {
+          return {
+            content: [{ type: "text", text: `Task not found: ${conflict.taskId}` }],
+            isError: true,
+          };
+        }
+
+        const lines = [
+          result.errors.length === 0
+            ? `✓ Resolved conflict ${conflict.id} (${result.conflict.resolution}) for #${result.task.seq}`
+            : `⚠️ Conflict ${conflict.id} left open`,
+          `Local: ${result.appliedLocally.join(", ") || "unchanged"}`,
+          `GitHub: ${result.pushed.join(", ") || "unchanged"}`,
+          ...result.errors.map((e) => `❌ ${e}`),
+        ];
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          isError: result.errors.length > 0,
+        };
+      }
+
       case "pm_github_config": {
-        const project = projectRepo.getById(args.projectId);
+        const githubRepo = args.string("githubRepo");
+        const githubProjectNumber = args.number("githubProjectNumber");
+        const syncMode = args.string("syncMode");
+        const projectId = activeProject.requireId(args.string("projectId"));
+        const project = projectRepo.getById(projectId);
         if (!project) {
           return {
             content: [{ type: "text", text: "Project not found" }],
@@ -627,28 +2910,84 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        let config = configRepo.getByProjectId(args.projectId);
+        const mappingChanges = args.record("fieldMappings");
+        const fieldMappings = mappingChanges ? JSON.stringify(mappingChanges) : undefined;
+
+        let config = configRepo.getByProjectId(projectId);
         if (!config) {
-          config = configRepo.create(args.projectId, {
+          config = configRepo.create(projectId, {
             github_enabled: true,
-            github_repo: args.githubRepo,
-            github_project_number: args.githubProjectNumber,
-            sync_mode: args.syncMode || "manual",
+            github_repo: githubRepo,
+            github_project_number: githubProjectNumber,
+            field_mappings: fieldMappings,
+            sync_mode: syncMode || "manual",
           });
         } else {
-          config = configRepo.update(args.projectId, {
+          config = configRepo.update(projectId, {
             github_enabled: true,
-            github_repo: args.githubRepo,
-            github_project_number: args.githubProjectNumber,
-            sync_mode: args.syncMode,
+            github_repo: githubRepo,
+            github_project_number: githubProjectNumber,
+            field_mappings: fieldMappings,
+            sync_mode: syncMode,
           })!;
         }
 
+        const lines = [
+          `✓ GitHub configured for ${project.name}`,
+          `Repo: ${config.github_repo}`,
+          `Sync: ${config.sync_mode}`,
+        ];
+
+        // Resolve the board and its Status options so mismatches surface now
+        if (config.github_repo && config.github_project_number && isAuthenticated()) {
+          const board = getProject(config.github_repo.split("/")[0], config.github_project_number);
+          if (board) {
+            const mappings = parseFieldMappings(config.field_mappings);
+            const statusField = board.fields.find(
+              (f) => f.name.toLowerCase() === (mappings.status ?? "").toLowerCase()
+            );
+            const options = statusField?.options?.map((o) => o.name) ?? [];
+            configRepo.update(projectId, {
+              github_project_id: board.id,
+              status_options: JSON.stringify(options),
+            });
+
+            lines.push(`Project: ${board.title} (#${board.number})`);
+            lines.push(`Status options: ${options.join(", ") || "(none)"}`);
+
+            const missing = DEFAULT_MAPPINGS.map((m) => pmToProjectOption(m.pm, mappings)).filter(
+              (name, i, all) =>
+                all.indexOf(name) === i && !options.some((o) => o.toLowerCase() === name.toLowerCase())
+            );
+            if (missing.length > 0) {
+              lines.push(`⚠️ No Status option for: ${missing.join(", ")} (set fieldMappings.statusValues)`);
+            }
+          } else {
+            lines.push(`⚠️ GitHub project #${config.github_project_number} not found`);
+          }
+        }
+
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+        };
+      }
+
+      case "pm_admin_rebuild_projections": {
+        const store = { dbManager, eventStore };
+
+        if (args.boolean("verify")) {
+          return {
+            content: [{ type: "text", text: formatDriftReport(verifyProjections(store)) }],
+          };
+        }
+
+        const result = rebuildProjections(store);
+        const counts = PROJECTION_TABLES.map((t) => `${result.counts[t]} ${t}`).join(", ");
         return {
           content: [
             {
               type: "text",
-              text: `✓ GitHub configured for ${project.name}\nRepo: ${config.github_repo}\nSync: ${config.sync_mode}`,
+              text: `✓ Rebuilt projections from events: ${counts} (${result.snapshotsCleared} snapshots cleared)`,
             },
           ],
         };
@@ -684,12 +3023,21 @@ async function main() {
   dbManager.initSchema();
 
   // Initialize event store
-  eventStore = new EventStore(dbManager);
+  eventStore = new EventStore(dbManager.getDb());
 
   // Initialize repositories
   projectRepo = new ProjectRepository(dbManager, eventStore);
+  sprintRepo = new SprintRepository(dbManager, eventStore);
   taskRepo = new TaskRepository(dbManager, eventStore);
+  dependencyRepo = new DependencyRepository(dbManager, eventStore);
+  analyticsRepo = new AnalyticsRepository(dbManager, eventStore);
   configRepo = new ProjectConfigRepository(dbManager);
+  queueRepo = new SyncQueueRepository(dbManager);
+  conflictRepo = new SyncConflictRepository(dbManager);
+  labelRepo = new LabelRepository(dbManager);
+  worklogRepo = new WorklogRepository(dbManager);
+  estimationRepo = new EstimationRepository(dbManager);
+  activeProject = new ActiveProjectResolver(projectRepo, configRepo, new WorkspaceRepository(dbManager));
 
   // Start server
   const transport = new StdioServerTransport();
@@ -0,0 +1,89 @@
+/**
+ * PM Plugin: follow a branch switch from the command line
+ *
+ * Usage: switch-branch [branch] [--from <branch>] [--project <projectId>]
+ *
+ * Called by hooks/scripts/post-checkout.sh so task timers follow the branch
+ * being worked on: the timer of the --from branch's task stops, and the
+ * branch's task timer resumes when it is in progress. Defaults to the current branch; the project
+ * comes from --project, PM_PROJECT_ID, or the workspace's active project.
+ */
+
+import { EventStore } from "../storage/lib/events.js";
+import { getDatabase } from "./lib/db.js";
+import {
+  ProjectRepository,
+  TaskRepository,
+  ProjectConfigRepository,
+  WorkspaceRepository,
+} from "./lib/projections.js";
+import { ActiveProjectResolver } from "./lib/active-project.js";
+import { getCurrentBranch } from "./lib/server-helpers.js";
+import { switchBranch, type BranchSwitchResult } from "./lib/time-tracking.js";
+
+const DB_PATH = process.env.PM_DB_PATH || ".claude/pm.db";
+
+function parseArgs(argv: string[]): { branch?: string; from?: string; projectId?: string } {
+  const result: { branch?: string; from?: string; projectId?: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--project") result.projectId = argv[++i];
+    else if (argv[i] === "--from") result.from = argv[++i];
+    else result.branch = argv[i];
+  }
+  return result;
+}
+
+function formatResult(result: BranchSwitchResult): string {
+  const lines = result.stopped.map((t) => `Timer stopped: #${t.seq} ${t.title}`);
+  if (result.started) lines.push(`Timer started: #${result.started.seq} ${result.started.title}`);
+  if (!result.task) lines.push(`No task for branch ${result.branch}`);
+  return lines.join("\n");
+}
+
+function main(): number {
+  const args = parseArgs(process.argv.slice(2));
+
+  const branch = args.branch || getCurrentBranch();
+  if (!branch || branch === "HEAD") {
+    console.error("Not on a branch");
+    return 1;
+  }
+
+  const dbManager = getDatabase(DB_PATH);
+  try {
+    dbManager.initSchema();
+    const eventStore = new EventStore(dbManager.getDb());
+    const projectRepo = new ProjectRepository(dbManager, eventStore);
+    const taskRepo = new TaskRepository(dbManager, eventStore);
+    const configRepo = new ProjectConfigRepository(dbManager);
+
+    const projectId =
+      args.projectId ||
+      process.env.PM_PROJECT_ID ||
+      new ActiveProjectResolver(projectRepo, configRepo, new WorkspaceRepository(dbManager)).resolve()
+        ?.project.id;
+    if (!projectId) {
+      console.error("No active project found. Pass --project <projectId> or run pm_project_use.");
+      return 1;
+    }
+
+    const config = configRepo.getByProjectId(projectId);
+    const result = switchBranch(taskRepo, projectId, branch, {
+      preferGitHubIssues: !!config?.github_repo,
+      from: args.from,
+    });
+
+    const output = formatResult(result);
+    if (output) console.log(output);
+    return 0;
+  } finally {
+    dbManager.close();
+  }
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,237 @@
+/**
+ * Event Payload Schemas
+ *
+ * Versioned payload shape per event type. EventStore.append validates new
+ * payloads against the current version and records it with the event;
+ * upcasters migrate payloads stored under older versions when they are read,
+ * so reducers only ever see the current shape.
+ */
+
+import type { BaseEvent, EventType } from "./events.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type PayloadFieldType = "string" | "number" | "boolean" | "string[]" | "number[]" | "object";
+
+export interface PayloadSchema {
+  version: number;
+  required?: Record<string, PayloadFieldType>;
+  optional?: Record<string, PayloadFieldType>; // null is accepted to clear a field
+}
+
+export type Upcaster = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Thrown by append when a payload does not match its event type's schema
+ */
+export class EventValidationError extends Error {
+  constructor(readonly eventType: EventType, readonly problems: string[]) {
+    super(`Invalid ${eventType} payload: ${problems.join("; ")}`);
+    this.name = "EventValidationError";
+  }
+}
+
+// ============================================
+// Schemas
+// ============================================
+
+const TASK_FIELDS: Record<string, PayloadFieldType> = {
+  title: "string",
+  description: "string",
+  priority: "string",
+  type: "string",
+  labels: "string[]",
+  dueDate: "string",
+  blockedBy: "string",
+  branchName: "string",
+  actualHours: "number",
+  parentId: "string",
+};
+
+export const EVENT_SCHEMAS: Record<EventType, PayloadSchema> = {
+  // Task
+  TaskCreated: {
+    version: 1,
+    required: { projectId: "string", title: "string" },
+    optional: {
+      description: "string",
+      type: "string",
+      priority: "string",
+      parentId: "string",
+      estimatePoints: "number",
+    },
+  },
+  TaskUpdated: { version: 1, optional: TASK_FIELDS },
+  // v1: { status, previousStatus, reason? }
+  TaskStatusChanged: {
+    version: 2,
+    required: { from: "string", to: "string" },
+    optional: { reason: "string" },
+  },
+  TaskEstimated: {
+    version: 1,
+    optional: { points: "number", hours: "number", confidence: "number" },
+  },
+  TaskAssigned: { version: 1, optional: { assignee: "string" } },
+  TaskAddedToSprint: { version: 1, required: { sprintId: "string" } },
+  TaskRemovedFromSprint: { version: 1, optional: { sprintId: "string" } },
+  TaskLinkedToCommit: {
+    version: 1,
+    required: { commitSha: "string" },
+    optional: { repo: "string", branch: "string", message: "string" },
+  },
+  TaskLinkedToPR: { version: 1, required: { prNumber: "number" } },
+  TaskGitHubLinked: {
+    version: 1,
+    optional: { issueNumber: "number", issueUrl: "string", projectItemId: "string" },
+  },
+  TaskBlocked: { version: 1, optional: { reason: "string" } },
+  TaskUnblocked: { version: 1, optional: { previousStatus: "string" } },
+  TaskCompleted: { version: 1, optional: { actualHours: "number" } },
+  TaskDeleted: { version: 1, optional: { reason: "string" } },
+  TaskDependencyAdded: { version: 1, required: { dependsOnId: "string" } },
+  TaskDependencyRemoved: { version: 1, required: { dependsOnId: "string" } },
+  TaskLabelAdded: { version: 1, required: { label: "string" } },
+  TaskLabelRemoved: { version: 1, required: { label: "string" } },
+  TaskTimerStarted: { version: 1, required: { source: "string" }, optional: { branch: "string" } },
+  TaskTimerStopped: { version: 1, required: { source: "string" }, optional: { reason: "string" } },
+  TaskTimeLogged: {
+    version: 1,
+    required: { minutes: "number" },
+    optional: { startedAt: "string", note: "string", author: "string" },
+  },
+
+  // Sprint
+  SprintCreated: {
+    version: 1,
+    required: { projectId: "string", name: "string", startDate: "string", endDate: "string" },
+    optional: { goal: "string" },
+  },
+  SprintStarted: { version: 1 },
+  SprintCompleted: {
+    version: 1,
+    required: { committedPoints: "number", completedPoints: "number" },
+  },
+  SprintCancelled: { version: 1, optional: { reason: "string" } },
+  SprintGoalSet: { version: 1, optional: { goal: "string" } },
+  SprintVelocityRecorded: {
+    version: 1,
+    required: { committedPoints: "number", completedPoints: "number", completionRate: "number" },
+  },
+
+  // Project
+  ProjectCreated: {
+    version: 1,
+    required: { name: "string" },
+    optional: { description: "string", settings: "object" },
+  },
+  ProjectUpdated: {
+    version: 1,
+    optional: { name: "string", description: "string", status: "string", settings: "object" },
+  },
+  ProjectArchived: { version: 1, optional: { reason: "string" } },
+  ProjectUnarchived: { version: 1 },
+  ProjectSettingsChanged: { version: 1, required: { settings: "object" } },
+};
+
+// ============================================
+// Validation
+// ============================================
+
+function matchesType(value: unknown, type: PayloadFieldType): boolean {
+  switch (type) {
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+    case "number[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "number");
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Problems with a payload under the current schema (empty when valid).
+ * Keys holding undefined are ignored: they are dropped when stored.
+ */
+export function validateEventPayload(eventType: EventType, payload: Record<string, unknown>): string[] {
+  const schema = EVENT_SCHEMAS[eventType];
+  if (!schema) return [`unknown event type ${eventType}`];
+
+  const problems: string[] = [];
+  const required = schema.required ?? {};
+  const optional = schema.optional ?? {};
+
+  for (const [field, type] of Object.entries(required)) {
+    if (payload[field] === undefined || payload[field] === null) {
+      problems.push(`${field} is required`);
+    } else if (!matchesType(payload[field], type)) {
+      problems.push(`${field} must be ${type}`);
+    }
+  }
+
+  for (const [field, value] of Object.entries(payload)) {
+    if (field in required || value === undefined) continue;
+    const type = optional[field];
+    if (!type) {
+      problems.push(`unknown field ${field}`);
+    } else if (value !== null && !matchesType(value, type)) {
+      problems.push(`${field} must be ${type}`);
+    }
+  }
+
+  return problems;
+}
+
+export function assertValidEventPayload(eventType: EventType, payload: Record<string, unknown>): void {
+  const problems = validateEventPayload(eventType, payload);
+  if (problems.length > 0) throw new EventValidationError(eventType, problems);
+}
+
+export function currentSchemaVersion(eventType: EventType): number {
+  return EVENT_SCHEMAS[eventType]?.version ?? 1;
+}
+
+// ============================================
+// Upcasters
+// ============================================
+
+/** eventType → schema version → migration to the next version */
+const upcasters = new Map<EventType, Map<number, Upcaster>>();
+
+/**
+ * Register the migration of an event type's payload from one schema version to the next
+ */
+export function registerUpcaster(eventType: EventType, fromVersion: number, upcaster: Upcaster): void {
+  if (!upcasters.has(eventType)) upcasters.set(eventType, new Map());
+  upcasters.get(eventType)!.set(fromVersion, upcaster);
+}
+
+/**
+ * Bring a stored event's payload up to the current schema version
+ */
+export function upcastEvent(event: BaseEvent): BaseEvent {
+  const target = currentSchemaVersion(event.eventType);
+  let version = event.schemaVersion ?? 1;
+  if (version >= target) return event;
+
+  let payload = event.payload;
+  const steps = upcasters.get(event.eventType);
+  for (; version < target; version++) {
+    const upcaster = steps?.get(version);
+    if (upcaster) payload = upcaster(payload);
+  }
+
+  return { ...event, payload, schemaVersion: target };
+}
+
+// Events written before schema versions were recorded are stored as v1,
+// so v1 TaskStatusChanged may already carry from/to
+registerUpcaster("TaskStatusChanged", 1, (payload) => {
+  if ("to" in payload) return payload;
+  const { status, previousStatus, ...rest } = payload;
+  return { ...rest, from: previousStatus, to: status };
+});
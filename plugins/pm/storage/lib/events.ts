@@ -9,6 +9,11 @@
 
 import Database from "better-sqlite3";
 import { randomUUID } from "crypto";
+import {
+  assertValidEventPayload,
+  currentSchemaVersion,
+  upcastEvent,
+} from "./event-schemas.js";
 
 // ============================================
 // Event Types
@@ -24,10 +29,18 @@ export type TaskEventType =
   | "TaskRemovedFromSprint"
   | "TaskLinkedToCommit"
   | "TaskLinkedToPR"
+  | "TaskGitHubLinked"
   | "TaskBlocked"
   | "TaskUnblocked"
   | "TaskCompleted"
-  | "TaskDeleted";
+  | "TaskDeleted"
+  | "TaskDependencyAdded"
+  | "TaskDependencyRemoved"
+  | "TaskLabelAdded"
+  | "TaskLabelRemoved"
+  | "TaskTimerStarted"
+  | "TaskTimerStopped"
+  | "TaskTimeLogged";
 
 export type SprintEventType =
   | "SprintCreated"
@@ -41,6 +54,7 @@ export type ProjectEventType =
   | "ProjectCreated"
   | "ProjectUpdated"
   | "ProjectArchived"
+  | "ProjectUnarchived"
   | "ProjectSettingsChanged";
 
 export type EventType = TaskEventType | SprintEventType | ProjectEventType;
@@ -59,6 +73,7 @@ export interface BaseEvent {
   };
   createdAt: string;
   version: number;
+  schemaVersion?: number; // payload schema (see event-schemas.ts); 1 when omitted
 }
 
 // ============================================
@@ -72,6 +87,7 @@ export interface TaskCreatedPayload {
   type?: "epic" | "story" | "task" | "bug" | "subtask";
   priority?: "critical" | "high" | "medium" | "low";
   parentId?: string;
+  estimatePoints?: number;
 }
 
 export interface TaskStatusChangedPayload {
@@ -93,13 +109,129 @@ export interface TaskLinkedToCommitPayload {
   message?: string;
 }
 
+export interface TaskLinkedToPRPayload {
+  prNumber: number;
+}
+
+export interface TaskLabelPayload {
+  label: string;
+}
+
+export type TimerSource = "status" | "branch" | "manual";
+
+export interface TaskTimerStartedPayload {
+  source: TimerSource;
+  branch?: string;
+}
+
+export interface TaskTimerStoppedPayload {
+  source: TimerSource;
+  reason?: string;
+}
+
+export interface TaskTimeLoggedPayload {
+  minutes: number;
+  startedAt?: string; // ISO time or YYYY-MM-DD; default: minutes before the event
+  note?: string;
+  author?: string; // default: the assignee
+}
+
+export interface TaskGitHubLinkedPayload {
+  issueNumber?: number;
+  issueUrl?: string;
+  projectItemId?: string; // GitHub Projects v2 item
+}
+
+export interface TaskDependencyPayload {
+  dependsOnId: string; // The task that must finish first
+}
+
+// ============================================
+// Sprint Event Payloads
+// ============================================
+
+export interface SprintCreatedPayload {
+  projectId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  goal?: string;
+}
+
+export interface SprintCompletedPayload {
+  committedPoints: number;
+  completedPoints: number;
+}
+
+export interface SprintVelocityRecordedPayload {
+  committedPoints: number;
+  completedPoints: number;
+  completionRate: number;
+}
+
 // ============================================
 // Event Store
 // ============================================
 
+/**
+ * Thrown by append when the aggregate moved past the expected version
+ * (another writer appended first)
+ */
+export class ConcurrencyError extends Error {
+  constructor(
+    readonly aggregateType: string,
+    readonly aggregateId: string,
+    readonly expectedVersion: number,
+    readonly actualVersion: number
+  ) {
+    super(
+      `Concurrent write to ${aggregateType} ${aggregateId}: expected version ${expectedVersion}, found ${actualVersion}`
+    );
+    this.name = "ConcurrencyError";
+  }
+}
+
+/**
+ * Attempts made by withConcurrencyRetry before the ConcurrencyError is rethrown
+ */
+export const MAX_CONCURRENCY_RETRIES = 3;
+
+/**
+ * Run a read-decide-append step, re-running it from a fresh read when
+ * another writer got in first
+ */
+export function withConcurrencyRetry<T>(fn: () => T, attempts = MAX_CONCURRENCY_RETRIES): T {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return fn();
+    } catch (error) {
+      if (!(error instanceof ConcurrencyError) || attempt >= attempts) throw error;
+    }
+  }
+}
+
+/**
+ * Aggregate state at a given version (latest snapshot per aggregate)
+ */
+export interface AggregateSnapshot<T> {
+  aggregateType: string;
+  aggregateId: string;
+  version: number;
+  state: T;
+  createdAt: string;
+}
+
+/**
+ * Events replayed past the last snapshot before a new one is taken
+ */
+export const DEFAULT_SNAPSHOT_INTERVAL = 50;
+
 export class EventStore {
   private db: Database.Database;
 
+  /** 0 disables snapshots */
+  snapshotInterval = DEFAULT_SNAPSHOT_INTERVAL;
+
   /**
    * Create EventStore with a path or existing Database instance
    * @param dbPathOrInstance - Path to database file or existing Database instance
@@ -131,24 +263,47 @@ export class EventStore {
         payload TEXT NOT NULL,
         metadata TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        version INTEGER NOT NULL DEFAULT 1
+        version INTEGER NOT NULL DEFAULT 1,
+        schema_version INTEGER NOT NULL DEFAULT 1
       );
       CREATE INDEX IF NOT EXISTS idx_events_aggregate ON events(aggregate_type, aggregate_id);
       CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type);
       CREATE INDEX IF NOT EXISTS idx_events_created ON events(created_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_events_aggregate_version
+        ON events(aggregate_type, aggregate_id, version);
+      CREATE TABLE IF NOT EXISTS snapshots (
+        aggregate_type TEXT NOT NULL,
+        aggregate_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (aggregate_type, aggregate_id)
+      );
     `);
   }
 
   /**
-   * Append a new event to the store
+   * Append a new event to the store.
+   * The payload is validated against the event type's current schema
+   * (EventValidationError). With expectedVersion (the version the caller read,
+   * 0 for a new aggregate) the append fails with ConcurrencyError if another
+   * event got there first.
    */
   append(
     eventType: EventType,
     aggregateType: BaseEvent["aggregateType"],
     aggregateId: string,
     payload: Record<string, unknown>,
-    metadata?: BaseEvent["metadata"]
+    metadata?: BaseEvent["metadata"],
+    expectedVersion?: number
   ): BaseEvent {
+    assertValidEventPayload(eventType, payload);
+
+    const version = this.getNextVersion(aggregateType, aggregateId);
+    if (expectedVersion !== undefined && expectedVersion !== version - 1) {
+      throw new ConcurrencyError(aggregateType, aggregateId, expectedVersion, version - 1);
+    }
+
     const event: BaseEvent = {
       eventId: randomUUID(),
       eventType,
@@ -157,28 +312,59 @@ export class EventStore {
       payload,
       metadata,
       createdAt: new Date().toISOString(),
-      version: this.getNextVersion(aggregateType, aggregateId),
+      version,
+      schemaVersion: currentSchemaVersion(eventType),
     };
 
     const stmt = this.db.prepare(`
-      INSERT INTO events (event_id, event_type, aggregate_type, aggregate_id, payload, metadata, created_at, version)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO events (
+        event_id, event_type, aggregate_type, aggregate_id, payload, metadata, created_at, version, schema_version
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(
-      event.eventId,
-      event.eventType,
-      event.aggregateType,
-      event.aggregateId,
-      JSON.stringify(event.payload),
-      event.metadata ? JSON.stringify(event.metadata) : null,
-      event.createdAt,
-      event.version
-    );
+    try {
+      stmt.run(
+        event.eventId,
+        event.eventType,
+        event.aggregateType,
+        event.aggregateId,
+        JSON.stringify(event.payload),
+        event.metadata ? JSON.stringify(event.metadata) : null,
+        event.createdAt,
+        event.version,
+        event.schemaVersion
+      );
+    } catch (error) {
+      // Another connection took this version between the read and the insert
+      if ((error as { code?: string }).code === "SQLITE_CONSTRAINT_UNIQUE") {
+        throw new ConcurrencyError(
+          aggregateType,
+          aggregateId,
+          expectedVersion ?? version - 1,
+          this.getVersion(aggregateType, aggregateId)
+        );
+      }
+      throw error;
+    }
 
     return event;
   }
 
+  /**
+   * Run several appends atomically (e.g. all events of one update)
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  /**
+   * Current version of an aggregate (0 when it has no events)
+   */
+  getVersion(aggregateType: string, aggregateId: string): number {
+    return this.getNextVersion(aggregateType, aggregateId) - 1;
+  }
+
   /**
    * Get all events for an aggregate
    */
@@ -229,7 +415,43 @@ export class EventStore {
   }
 
   /**
-   * Replay events to rebuild projection
+   * Events of one project's tasks up to a time, oldest first. A task belongs
+   * to the project named in its TaskCreated event.
+   */
+  getProjectTaskEvents(projectId: string, until: string): BaseEvent[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM events
+      WHERE aggregate_type = 'task' AND created_at <= ?
+        AND aggregate_id IN (
+          SELECT aggregate_id FROM events
+          WHERE aggregate_type = 'task' AND event_type = 'TaskCreated'
+            AND json_extract(payload, '$.projectId') = ?
+        )
+      ORDER BY created_at ASC, id ASC
+    `);
+
+    return (stmt.all(until, projectId) as any[]).map(this.rowToEvent);
+  }
+
+  /**
+   * Ids of every aggregate of a type, in order of their first event
+   */
+  getAggregateIds(aggregateType: string): string[] {
+    const stmt = this.db.prepare(`
+      SELECT aggregate_id FROM events
+      WHERE aggregate_type = ?
+      GROUP BY aggregate_id
+      ORDER BY MIN(id) ASC
+    `);
+
+    return (stmt.all(aggregateType) as { aggregate_id: string }[]).map((r) => r.aggregate_id);
+  }
+
+  /**
+   * Replay events to rebuild projection.
+   * Starts from the latest snapshot and replays only the tail; a new snapshot
+   * is saved once the tail reaches snapshotInterval. Snapshots assume one
+   * reducer per aggregate type, so they are skipped when initialState is given.
    */
   replay<T>(
     aggregateType: string,
@@ -237,8 +459,66 @@ export class EventStore {
     reducer: (state: T | null, event: BaseEvent) => T,
     initialState: T | null = null
   ): T | null {
-    const events = this.getEvents(aggregateType, aggregateId);
-    return events.reduce(reducer, initialState);
+    const useSnapshots = this.snapshotInterval > 0 && initialState === null;
+    const snapshot = useSnapshots
+      ? this.getSnapshot<T>(aggregateType, aggregateId)
+      : undefined;
+
+    const events = this.getEvents(aggregateType, aggregateId, snapshot?.version);
+    const state = events.reduce(reducer, snapshot ? snapshot.state : initialState);
+
+    if (useSnapshots && state !== null && events.length >= this.snapshotInterval) {
+      this.saveSnapshot(aggregateType, aggregateId, events[events.length - 1].version, state);
+    }
+
+    return state;
+  }
+
+  // ============================================
+  // Snapshots
+  // ============================================
+
+  getSnapshot<T>(aggregateType: string, aggregateId: string): AggregateSnapshot<T> | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM snapshots WHERE aggregate_type = ? AND aggregate_id = ?")
+      .get(aggregateType, aggregateId) as any;
+
+    if (!row) return undefined;
+    return {
+      aggregateType: row.aggregate_type,
+      aggregateId: row.aggregate_id,
+      version: row.version,
+      state: JSON.parse(row.state) as T,
+      createdAt: row.created_at,
+    };
+  }
+
+  saveSnapshot<T>(aggregateType: string, aggregateId: string, version: number, state: T): void {
+    this.db
+      .prepare(`
+        INSERT INTO snapshots (aggregate_type, aggregate_id, version, state, created_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(aggregate_type, aggregate_id) DO UPDATE SET
+          version = excluded.version,
+          state = excluded.state,
+          created_at = excluded.created_at
+      `)
+      .run(aggregateType, aggregateId, version, JSON.stringify(state), new Date().toISOString());
+  }
+
+  /**
+   * Drop snapshots (e.g. after a reducer change); returns the number removed
+   */
+  deleteSnapshots(aggregateType?: string, aggregateId?: string): number {
+    if (aggregateType && aggregateId) {
+      return this.db
+        .prepare("DELETE FROM snapshots WHERE aggregate_type = ? AND aggregate_id = ?")
+        .run(aggregateType, aggregateId).changes;
+    }
+    if (aggregateType) {
+      return this.db.prepare("DELETE FROM snapshots WHERE aggregate_type = ?").run(aggregateType).changes;
+    }
+    return this.db.prepare("DELETE FROM snapshots").run().changes;
   }
 
   /**
@@ -256,8 +536,11 @@ export class EventStore {
     return (result.maxVersion || 0) + 1;
   }
 
+  /**
+   * Stored row → event, upcast to the current payload schema
+   */
   private rowToEvent(row: any): BaseEvent {
-    return {
+    return upcastEvent({
       eventId: row.event_id,
       eventType: row.event_type as EventType,
       aggregateType: row.aggregate_type,
@@ -266,7 +549,8 @@ export class EventStore {
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
       createdAt: row.created_at,
       version: row.version,
-    };
+      schemaVersion: row.schema_version ?? 1,
+    });
   }
 
   close(): void {
@@ -278,6 +562,17 @@ export class EventStore {
 // Projection Builders
 // ============================================
 
+/** A closed timer or logged time; version is the closing event's */
+export interface WorklogEntry {
+  version: number;
+  startedAt: string;
+  endedAt: string;
+  minutes: number;
+  source: TimerSource | "log";
+  author?: string;
+  note?: string;
+}
+
 export interface TaskProjection {
   id: string;
   projectId: string;
@@ -290,6 +585,7 @@ export interface TaskProjection {
   type: string;
   estimatePoints?: number;
   estimateHours?: number;
+  estimateConfidence?: number;
   actualHours?: number;
   assignee?: string;
   labels?: string[];
@@ -298,10 +594,29 @@ export interface TaskProjection {
   branchName?: string;
   linkedCommits?: string[];
   linkedPRs?: number[];
+  dependsOn?: string[];
+  githubIssueNumber?: number;
+  githubIssueUrl?: string;
+  githubProjectItemId?: string;
   createdAt: string;
   updatedAt: string;
   startedAt?: string;
   completedAt?: string;
+  timerStartedAt?: string;
+  timerSource?: TimerSource;
+  worklog?: WorklogEntry[];
+}
+
+function addWorklogEntry(state: TaskProjection, entry: WorklogEntry): TaskProjection {
+  return {
+    ...state,
+    worklog: [...(state.worklog || []), entry],
+    actualHours: (state.actualHours ?? 0) + entry.minutes / 60,
+  };
+}
+
+function elapsedMinutes(from: string, to: string): number {
+  return Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 600) / 100);
 }
 
 export function taskReducer(
@@ -321,6 +636,7 @@ export function taskReducer(
         priority: (payload.priority as string) || "medium",
         type: (payload.type as string) || "task",
         parentId: payload.parentId as string | undefined,
+        estimatePoints: payload.estimatePoints as number | undefined,
         linkedCommits: [],
         linkedPRs: [],
         createdAt: event.createdAt,
@@ -353,6 +669,7 @@ export function taskReducer(
         ...state!,
         estimatePoints: payload.points as number | undefined,
         estimateHours: payload.hours as number | undefined,
+        estimateConfidence: payload.confidence as number | undefined,
         updatedAt: event.createdAt,
       };
 
@@ -388,6 +705,27 @@ export function taskReducer(
         updatedAt: event.createdAt,
       };
 
+    case "TaskLinkedToPR": {
+      const linkedPRs = state!.linkedPRs || [];
+      const prNumber = payload.prNumber as number;
+      return {
+        ...state!,
+        linkedPRs: linkedPRs.includes(prNumber) ? linkedPRs : [...linkedPRs, prNumber],
+        updatedAt: event.createdAt,
+      };
+    }
+
+    case "TaskGitHubLinked":
+      return {
+        ...state!,
+        githubIssueNumber:
+          "issueNumber" in payload ? (payload.issueNumber as number) : state!.githubIssueNumber,
+        githubIssueUrl: "issueUrl" in payload ? (payload.issueUrl as string) : state!.githubIssueUrl,
+        githubProjectItemId:
+          "projectItemId" in payload ? (payload.projectItemId as string) : state!.githubProjectItemId,
+        updatedAt: event.createdAt,
+      };
+
     case "TaskBlocked":
       return {
         ...state!,
@@ -413,6 +751,227 @@ export function taskReducer(
         updatedAt: event.createdAt,
       };
 
+    case "TaskDependencyAdded": {
+      const dependsOn = state!.dependsOn || [];
+      const dependsOnId = payload.dependsOnId as string;
+      return {
+        ...state!,
+        dependsOn: dependsOn.includes(dependsOnId)
+          ? dependsOn
+          : [...dependsOn, dependsOnId],
+        updatedAt: event.createdAt,
+      };
+    }
+
+    case "TaskDependencyRemoved":
+      return {
+        ...state!,
+        dependsOn: (state!.dependsOn || []).filter(
+          (id) => id !== payload.dependsOnId
+        ),
+        updatedAt: event.createdAt,
+      };
+
+    // Label names are case-insensitive, as on GitHub
+    case "TaskLabelAdded": {
+      const labels = state!.labels || [];
+      const label = payload.label as string;
+      return {
+        ...state!,
+        labels: labels.some((l) => l.toLowerCase() === label.toLowerCase())
+          ? labels
+          : [...labels, label],
+        updatedAt: event.createdAt,
+      };
+    }
+
+    case "TaskLabelRemoved":
+      return {
+        ...state!,
+        labels: (state!.labels || []).filter(
+          (l) => l.toLowerCase() !== (payload.label as string).toLowerCase()
+        ),
+        updatedAt: event.createdAt,
+      };
+
+    // Timers add a worklog entry when they stop; starting a running timer is a no-op
+    case "TaskTimerStarted":
+      if (state!.timerStartedAt) return state!;
+      return {
+        ...state!,
+        timerStartedAt: event.createdAt,
+        timerSource: payload.source as TimerSource,
+        updatedAt: event.createdAt,
+      };
+
+    case "TaskTimerStopped": {
+      if (!state!.timerStartedAt) return state!;
+      const stopped = addWorklogEntry(state!, {
+        version: event.version,
+        startedAt: state!.timerStartedAt,
+        endedAt: event.createdAt,
+        minutes: elapsedMinutes(state!.timerStartedAt, event.createdAt),
+        source: state!.timerSource ?? "manual",
+        author: state!.assignee,
+      });
+      return { ...stopped, timerStartedAt: undefined, timerSource: undefined, updatedAt: event.createdAt };
+    }
+
+    case "TaskTimeLogged": {
+      const minutes = payload.minutes as number;
+      const startedAt = payload.startedAt
+        ? new Date(payload.startedAt as string).toISOString()
+        : new Date(Date.parse(event.createdAt) - minutes * 60_000).toISOString();
+      return {
+        ...addWorklogEntry(state!, {
+          version: event.version,
+          startedAt,
+          endedAt: new Date(Date.parse(startedAt) + minutes * 60_000).toISOString(),
+          minutes,
+          source: "log",
+          author: (payload.author as string | undefined) ?? state!.assignee,
+          note: payload.note as string | undefined,
+        }),
+        updatedAt: event.createdAt,
+      };
+    }
+
+    default:
+      return state!;
+  }
+}
+
+export interface SprintProjection {
+  id: string;
+  projectId: string;
+  name: string;
+  goal?: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+  velocityCommitted: number;
+  velocityCompleted: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export function sprintReducer(
+  state: SprintProjection | null,
+  event: BaseEvent
+): SprintProjection {
+  const payload = event.payload;
+
+  switch (event.eventType) {
+    case "SprintCreated":
+      return {
+        id: event.aggregateId,
+        projectId: payload.projectId as string,
+        name: payload.name as string,
+        goal: payload.goal as string | undefined,
+        startDate: payload.startDate as string,
+        endDate: payload.endDate as string,
+        status: "planning",
+        velocityCommitted: 0,
+        velocityCompleted: 0,
+        createdAt: event.createdAt,
+        updatedAt: event.createdAt,
+      };
+
+    case "SprintStarted":
+      return {
+        ...state!,
+        status: "active",
+        startedAt: event.createdAt,
+        updatedAt: event.createdAt,
+      };
+
+    case "SprintGoalSet":
+      return {
+        ...state!,
+        goal: payload.goal as string | undefined,
+        updatedAt: event.createdAt,
+      };
+
+    case "SprintCompleted":
+      return {
+        ...state!,
+        status: "completed",
+        velocityCommitted: (payload.committedPoints as number) || 0,
+        velocityCompleted: (payload.completedPoints as number) || 0,
+        completedAt: event.createdAt,
+        updatedAt: event.createdAt,
+      };
+
+    case "SprintCancelled":
+      return {
+        ...state!,
+        status: "cancelled",
+        updatedAt: event.createdAt,
+      };
+
+    default:
+      return state!;
+  }
+}
+
+export interface ProjectProjection {
+  id: string;
+  name: string;
+  description?: string;
+  status: string; // active, completed, archived
+  settings?: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function projectReducer(
+  state: ProjectProjection | null,
+  event: BaseEvent
+): ProjectProjection {
+  const payload = event.payload;
+
+  switch (event.eventType) {
+    case "ProjectCreated":
+      return {
+        id: event.aggregateId,
+        name: payload.name as string,
+        description: payload.description as string | undefined,
+        status: "active",
+        settings: payload.settings as Record<string, unknown> | undefined,
+        createdAt: event.createdAt,
+        updatedAt: event.createdAt,
+      };
+
+    case "ProjectUpdated":
+      return {
+        ...state!,
+        ...payload,
+        updatedAt: event.createdAt,
+      };
+
+    case "ProjectSettingsChanged":
+      return {
+        ...state!,
+        settings: payload.settings as Record<string, unknown>,
+        updatedAt: event.createdAt,
+      };
+
+    case "ProjectArchived":
+      return {
+        ...state!,
+        status: "archived",
+        updatedAt: event.createdAt,
+      };
+
+    case "ProjectUnarchived":
+      return {
+        ...state!,
+        status: "active",
+        updatedAt: event.createdAt,
+      };
+
     default:
       return state!;
   }
@@ -427,9 +986,10 @@ export function createTaskEvent(
   eventType: TaskEventType,
   taskId: string,
   payload: Record<string, unknown>,
-  metadata?: BaseEvent["metadata"]
+  metadata?: BaseEvent["metadata"],
+  expectedVersion?: number
 ): BaseEvent {
-  return eventStore.append(eventType, "task", taskId, payload, metadata);
+  return eventStore.append(eventType, "task", taskId, payload, metadata, expectedVersion);
 }
 
 export function createSprintEvent(
@@ -437,9 +997,10 @@ export function createSprintEvent(
   eventType: SprintEventType,
   sprintId: string,
   payload: Record<string, unknown>,
-  metadata?: BaseEvent["metadata"]
+  metadata?: BaseEvent["metadata"],
+  expectedVersion?: number
 ): BaseEvent {
-  return eventStore.append(eventType, "sprint", sprintId, payload, metadata);
+  return eventStore.append(eventType, "sprint", sprintId, payload, metadata, expectedVersion);
 }
 
 export function createProjectEvent(
@@ -447,7 +1008,8 @@ export function createProjectEvent(
   eventType: ProjectEventType,
   projectId: string,
   payload: Record<string, unknown>,
-  metadata?: BaseEvent["metadata"]
+  metadata?: BaseEvent["metadata"],
+  expectedVersion?: number
 ): BaseEvent {
-  return eventStore.append(eventType, "project", projectId, payload, metadata);
+  return eventStore.append(eventType, "project", projectId, payload, metadata, expectedVersion);
 }
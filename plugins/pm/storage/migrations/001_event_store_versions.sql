@@ -0,0 +1,32 @@
+-- Event payload schema versions, one event per aggregate version, snapshots
+ALTER TABLE events ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS snapshots (
+    aggregate_type TEXT NOT NULL,
+    aggregate_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (aggregate_type, aggregate_id)
+);
+
+-- Unguarded appends could give two events the same version. Renumber those
+-- aggregates in id order (their snapshots point at the old numbers) so the
+-- unique index below can be created.
+DELETE FROM snapshots WHERE (aggregate_type, aggregate_id) IN (
+    SELECT aggregate_type, aggregate_id FROM events
+    GROUP BY aggregate_type, aggregate_id, version HAVING COUNT(*) > 1
+);
+
+UPDATE events SET version = (
+    SELECT COUNT(*) FROM events AS earlier
+    WHERE earlier.aggregate_type = events.aggregate_type
+      AND earlier.aggregate_id = events.aggregate_id
+      AND earlier.id <= events.id
+)
+WHERE (aggregate_type, aggregate_id) IN (
+    SELECT aggregate_type, aggregate_id FROM events
+    GROUP BY aggregate_type, aggregate_id, version HAVING COUNT(*) > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_aggregate_version ON events(aggregate_type, aggregate_id, version);
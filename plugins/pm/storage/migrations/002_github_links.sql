@@ -0,0 +1,11 @@
+-- GitHub issue links on tasks and the repository on project config
+ALTER TABLE tasks ADD COLUMN github_issue_number INTEGER;
+ALTER TABLE tasks ADD COLUMN github_issue_url TEXT;
+ALTER TABLE tasks ADD COLUMN github_project_item_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_github_issue ON tasks(github_issue_number);
+
+ALTER TABLE project_config ADD COLUMN github_repo TEXT;
+
+-- v_task_board gained seq and github_issue_number; schema.sql recreates it
+DROP VIEW IF EXISTS v_task_board;
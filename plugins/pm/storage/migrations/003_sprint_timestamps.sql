@@ -0,0 +1,3 @@
+-- Sprint start/completion times (SprintStarted, SprintCompleted)
+ALTER TABLE sprints ADD COLUMN started_at TEXT;
+ALTER TABLE sprints ADD COLUMN completed_at TEXT;
@@ -0,0 +1,16 @@
+-- Key dependencies by (task_id, depends_on_id) and delete them with their tasks.
+-- SQLite cannot alter constraints, so the table is rebuilt.
+CREATE TABLE task_dependencies_new (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    depends_on_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (task_id, depends_on_id)
+);
+
+INSERT OR IGNORE INTO task_dependencies_new (task_id, depends_on_id, created_at)
+SELECT task_id, depends_on_id, created_at FROM task_dependencies;
+
+DROP TABLE task_dependencies;
+ALTER TABLE task_dependencies_new RENAME TO task_dependencies;
+
+CREATE INDEX IF NOT EXISTS idx_task_deps_depends_on ON task_dependencies(depends_on_id);
@@ -0,0 +1,7 @@
+-- Per-project outbound queue with retry backoff.
+-- project_id stays nullable here: ADD COLUMN cannot add NOT NULL without a default.
+ALTER TABLE sync_queue ADD COLUMN project_id TEXT REFERENCES projects(id);
+ALTER TABLE sync_queue ADD COLUMN next_attempt_at TEXT;
+
+DROP INDEX IF EXISTS idx_sync_queue_status;
+CREATE INDEX idx_sync_queue_status ON sync_queue(status, next_attempt_at);
@@ -0,0 +1,6 @@
+-- Active project per workspace, set by pm_project_use
+CREATE TABLE IF NOT EXISTS workspace_projects (
+    workspace TEXT PRIMARY KEY,                  -- git root (cwd outside a repo)
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
@@ -0,0 +1,49 @@
+-- Task titles, descriptions and linked commit messages for pm_task_search.
+-- Kept in sync with tasks by triggers; commit messages are read from the
+-- TaskLinkedToCommit events (linked_commits changes whenever one is added).
+CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+    task_id UNINDEXED,
+    title,
+    description,
+    commits,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_insert
+AFTER INSERT ON tasks
+BEGIN
+    INSERT INTO tasks_fts (task_id, title, description, commits)
+    VALUES (NEW.id, NEW.title, NEW.description, (
+        SELECT group_concat(json_extract(payload, '$.message'), char(10))
+        FROM events
+        WHERE aggregate_type = 'task' AND aggregate_id = NEW.id AND event_type = 'TaskLinkedToCommit'
+    ));
+END;
+
+CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_update
+AFTER UPDATE OF title, description, linked_commits ON tasks
+BEGIN
+    DELETE FROM tasks_fts WHERE task_id = OLD.id;
+    INSERT INTO tasks_fts (task_id, title, description, commits)
+    VALUES (NEW.id, NEW.title, NEW.description, (
+        SELECT group_concat(json_extract(payload, '$.message'), char(10))
+        FROM events
+        WHERE aggregate_type = 'task' AND aggregate_id = NEW.id AND event_type = 'TaskLinkedToCommit'
+    ));
+END;
+
+CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_delete
+AFTER DELETE ON tasks
+BEGIN
+    DELETE FROM tasks_fts WHERE task_id = OLD.id;
+END;
+
+-- Index the tasks that already exist
+DELETE FROM tasks_fts;
+INSERT INTO tasks_fts (task_id, title, description, commits)
+SELECT t.id, t.title, t.description, (
+    SELECT group_concat(json_extract(e.payload, '$.message'), char(10))
+    FROM events e
+    WHERE e.aggregate_type = 'task' AND e.aggregate_id = t.id AND e.event_type = 'TaskLinkedToCommit'
+)
+FROM tasks t;
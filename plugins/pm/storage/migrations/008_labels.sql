@@ -0,0 +1,14 @@
+-- Labels (project label definitions; tasks.labels holds the names, set by TaskLabelAdded/Removed)
+CREATE TABLE IF NOT EXISTS labels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    name TEXT NOT NULL COLLATE NOCASE,           -- case-insensitive, as on GitHub
+    color TEXT NOT NULL DEFAULT 'ededed',        -- hex without '#'
+    description TEXT,
+    github_id TEXT,                              -- GitHub label node ID once synced
+    synced_at TEXT,                              -- last sync with the GitHub label
+    deleted_at TEXT,                             -- tombstone until the deletion reaches GitHub
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,                    -- local changes after synced_at are pushed
+    UNIQUE(project_id, name)
+);
@@ -0,0 +1,16 @@
+-- Running task timers and the worklog projection (TaskTimerStarted/Stopped, TaskTimeLogged)
+ALTER TABLE tasks ADD COLUMN timer_started_at TEXT;
+
+CREATE TABLE IF NOT EXISTS task_worklog (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT NOT NULL,
+    minutes REAL NOT NULL,
+    source TEXT NOT NULL,
+    author TEXT,
+    note TEXT,
+    PRIMARY KEY (task_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_worklog_started ON task_worklog(started_at);
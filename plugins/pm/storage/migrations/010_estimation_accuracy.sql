@@ -0,0 +1,20 @@
+-- Estimate confidence (TaskEstimated.confidence) and the estimation_accuracy projection.
+-- The old estimation_accuracy table was never written to, so it is replaced.
+ALTER TABLE tasks ADD COLUMN estimate_confidence REAL;
+
+DROP TABLE IF EXISTS estimation_accuracy;
+
+CREATE TABLE IF NOT EXISTS estimation_accuracy (
+    task_id TEXT PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    type TEXT NOT NULL,
+    assignee TEXT,
+    estimate_points INTEGER,
+    estimate_hours REAL,
+    confidence REAL,
+    cycle_hours REAL,
+    logged_hours REAL,
+    completed_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimation_accuracy_project ON estimation_accuracy(project_id, completed_at);
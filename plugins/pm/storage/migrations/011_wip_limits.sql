@@ -0,0 +1,3 @@
+-- Kanban board WIP limits per column, checked by pm_task_status
+ALTER TABLE project_config ADD COLUMN wip_limits TEXT;
+ALTER TABLE project_config ADD COLUMN wip_policy TEXT DEFAULT 'warn';
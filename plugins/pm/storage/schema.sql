@@ -12,17 +12,31 @@ CREATE TABLE IF NOT EXISTS events (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     event_id TEXT UNIQUE NOT NULL,           -- UUID
     event_type TEXT NOT NULL,                -- TaskCreated, TaskStatusChanged, etc.
-    aggregate_type TEXT NOT NULL,            -- task, project
+    aggregate_type TEXT NOT NULL,            -- task, sprint, project
     aggregate_id TEXT NOT NULL,              -- Entity ID
     payload TEXT NOT NULL,                   -- JSON payload
     metadata TEXT,                           -- JSON metadata (user, source, etc.)
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
-    version INTEGER NOT NULL DEFAULT 1       -- Optimistic concurrency
+    version INTEGER NOT NULL DEFAULT 1,      -- Optimistic concurrency
+    schema_version INTEGER NOT NULL DEFAULT 1 -- Payload schema (storage/lib/event-schemas.ts)
 );
 
 CREATE INDEX IF NOT EXISTS idx_events_aggregate ON events(aggregate_type, aggregate_id);
 CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type);
 CREATE INDEX IF NOT EXISTS idx_events_created ON events(created_at);
+-- One event per aggregate version: concurrent appends cannot both succeed
+-- (migration 001 renumbers duplicates in older databases before this runs)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_aggregate_version ON events(aggregate_type, aggregate_id, version);
+
+-- Snapshots (latest aggregate state; replay resumes after `version`)
+CREATE TABLE IF NOT EXISTS snapshots (
+    aggregate_type TEXT NOT NULL,
+    aggregate_id TEXT NOT NULL,
+    version INTEGER NOT NULL,                -- Last event version folded into state
+    state TEXT NOT NULL,                     -- JSON reducer state
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (aggregate_type, aggregate_id)
+);
 
 -- ============================================
 -- Read Models (Projections)
@@ -39,11 +53,32 @@ CREATE TABLE IF NOT EXISTS projects (
     updated_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
+-- Sprints
+CREATE TABLE IF NOT EXISTS sprints (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    name TEXT NOT NULL,
+    goal TEXT,
+    start_date TEXT NOT NULL,                -- YYYY-MM-DD
+    end_date TEXT NOT NULL,                  -- YYYY-MM-DD
+    status TEXT DEFAULT 'planning',          -- planning, active, completed, cancelled
+    velocity_committed INTEGER DEFAULT 0,    -- Points in sprint at completion
+    velocity_completed INTEGER DEFAULT 0,    -- Points done at completion
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    started_at TEXT,
+    completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprints_project ON sprints(project_id);
+CREATE INDEX IF NOT EXISTS idx_sprints_status ON sprints(status);
+
 -- Tasks
 CREATE TABLE IF NOT EXISTS tasks (
     id TEXT PRIMARY KEY,
     seq INTEGER,                             -- Project-scoped numeric ID (e.g., #42)
     project_id TEXT NOT NULL REFERENCES projects(id),
+    sprint_id TEXT REFERENCES sprints(id),   -- Current sprint (TaskAddedToSprint)
     parent_id TEXT REFERENCES tasks(id),     -- Subtask support
     title TEXT NOT NULL,
     description TEXT,
@@ -54,6 +89,7 @@ CREATE TABLE IF NOT EXISTS tasks (
     -- Estimation
     estimate_points INTEGER,                 -- Story points
     estimate_hours REAL,                     -- Time estimate
+    estimate_confidence REAL,                -- 0-1, given with the estimate
     actual_hours REAL,                       -- Time spent
 
     -- Metadata
@@ -76,16 +112,92 @@ CREATE TABLE IF NOT EXISTS tasks (
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     started_at TEXT,
-    completed_at TEXT
+    completed_at TEXT,
+    timer_started_at TEXT                    -- Running timer (TaskTimerStarted until TaskTimerStopped)
 );
 
 CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_sprint ON tasks(sprint_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
 CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_type ON tasks(type);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_project_seq ON tasks(project_id, seq);
 CREATE INDEX IF NOT EXISTS idx_tasks_github_issue ON tasks(github_issue_number);
 
+-- Task Dependencies (projection of TaskDependencyAdded/Removed events)
+-- task_id cannot start until depends_on_id is done ("depends_on_id blocks task_id")
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    depends_on_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (task_id, depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_deps_depends_on ON task_dependencies(depends_on_id);
+
+-- Task Worklog (projection of TaskTimerStopped/TaskTimeLogged events; each adds to actual_hours)
+CREATE TABLE IF NOT EXISTS task_worklog (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,                    -- version of the event that closed the entry
+    started_at TEXT NOT NULL,
+    ended_at TEXT NOT NULL,
+    minutes REAL NOT NULL,
+    source TEXT NOT NULL,                        -- status, branch, manual (timers) or log
+    author TEXT,                                 -- assignee when the entry was closed
+    note TEXT,
+    PRIMARY KEY (task_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_worklog_started ON task_worklog(started_at);
+
+-- Labels (project label definitions; tasks.labels holds the names, set by TaskLabelAdded/Removed)
+CREATE TABLE IF NOT EXISTS labels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    name TEXT NOT NULL COLLATE NOCASE,           -- case-insensitive, as on GitHub
+    color TEXT NOT NULL DEFAULT 'ededed',        -- hex without '#'
+    description TEXT,
+    github_id TEXT,                              -- GitHub label node ID once synced
+    synced_at TEXT,                              -- last sync with the GitHub label
+    deleted_at TEXT,                             -- tombstone until the deletion reaches GitHub
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,                    -- local changes after synced_at are pushed
+    UNIQUE(project_id, name)
+);
+
+-- ============================================
+-- Analytics
+-- ============================================
+
+-- Velocity History (projection of SprintVelocityRecorded events)
+CREATE TABLE IF NOT EXISTS velocity_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    sprint_id TEXT NOT NULL REFERENCES sprints(id),
+    committed_points INTEGER NOT NULL,
+    completed_points INTEGER NOT NULL,
+    completion_rate REAL,                    -- completed / committed
+    recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_velocity_project ON velocity_history(project_id);
+
+-- Estimation Accuracy (projection: one row per done task, estimate vs. actual)
+CREATE TABLE IF NOT EXISTS estimation_accuracy (
+    task_id TEXT PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    type TEXT NOT NULL,
+    assignee TEXT,
+    estimate_points INTEGER,
+    estimate_hours REAL,
+    confidence REAL,
+    cycle_hours REAL,                        -- first in_progress → done (NULL if never started)
+    logged_hours REAL,                       -- worklog total (actual_hours)
+    completed_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimation_accuracy_project ON estimation_accuracy(project_id, completed_at);
+
 -- ============================================
 -- GitHub Integration
 -- ============================================
@@ -102,11 +214,57 @@ CREATE TABLE IF NOT EXISTS project_config (
     status_options TEXT,                         -- JSON: allowed statuses
     sync_mode TEXT DEFAULT 'manual',             -- manual, auto
     last_sync_at TEXT,
+    wip_limits TEXT,                             -- JSON: board column (status) → max tasks
+    wip_policy TEXT DEFAULT 'warn',              -- warn, block (pm_task_status into a full column)
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     UNIQUE(project_id)
 );
 
+-- Workspace Projects (active project per workspace, set by pm_project_use)
+CREATE TABLE IF NOT EXISTS workspace_projects (
+    workspace TEXT PRIMARY KEY,                  -- git root (cwd outside a repo)
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Sync Queue (outbound GitHub operations, retried with backoff)
+CREATE TABLE IF NOT EXISTS sync_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    action TEXT NOT NULL,                        -- update_status, add_comment
+    entity_type TEXT NOT NULL,                   -- issue
+    entity_id TEXT NOT NULL,                     -- issue number
+    payload TEXT NOT NULL,                       -- JSON
+    status TEXT NOT NULL DEFAULT 'pending',      -- pending, processing, completed, failed, dead
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,                        -- set while failed, cleared when dead
+    error_message TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    processed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_queue_status ON sync_queue(status, next_attempt_at);
+
+-- Sync Conflicts (manual resolution; one open conflict per task)
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id),
+    task_id TEXT NOT NULL REFERENCES tasks(id),
+    issue_number INTEGER NOT NULL,
+    fields TEXT NOT NULL,                        -- JSON: [{field, local, remote}]
+    local_status TEXT NOT NULL,
+    remote_status TEXT NOT NULL,
+    local_updated_at TEXT NOT NULL,
+    remote_updated_at TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',         -- open, resolved
+    resolution TEXT,                             -- local, remote, merge
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    resolved_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_project ON sync_conflicts(project_id, status);
+
 -- ============================================
 -- Views for Common Queries
 -- ============================================
@@ -137,6 +295,50 @@ ORDER BY
     END,
     t.created_at DESC;
 
+-- ============================================
+-- Full-Text Search
+-- ============================================
+
+-- Task titles, descriptions and linked commit messages for pm_task_search.
+-- Kept in sync with tasks by triggers; commit messages are read from the
+-- TaskLinkedToCommit events (linked_commits changes whenever one is added).
+CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+    task_id UNINDEXED,
+    title,
+    description,
+    commits,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_insert
+AFTER INSERT ON tasks
+BEGIN
+    INSERT INTO tasks_fts (task_id, title, description, commits)
+    VALUES (NEW.id, NEW.title, NEW.description, (
+        SELECT group_concat(json_extract(payload, '$.message'), char(10))
+        FROM events
+        WHERE aggregate_type = 'task' AND aggregate_id = NEW.id AND event_type = 'TaskLinkedToCommit'
+    ));
+END;
+
+CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_update
+AFTER UPDATE OF title, description, linked_commits ON tasks
+BEGIN
+    DELETE FROM tasks_fts WHERE task_id = OLD.id;
+    INSERT INTO tasks_fts (task_id, title, description, commits)
+    VALUES (NEW.id, NEW.title, NEW.description, (
+        SELECT group_concat(json_extract(payload, '$.message'), char(10))
+        FROM events
+        WHERE aggregate_type = 'task' AND aggregate_id = NEW.id AND event_type = 'TaskLinkedToCommit'
+    ));
+END;
+
+CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_delete
+AFTER DELETE ON tasks
+BEGIN
+    DELETE FROM tasks_fts WHERE task_id = OLD.id;
+END;
+
 -- ============================================
 -- Triggers for Auto-Update
 -- ============================================
@@ -148,6 +350,13 @@ BEGIN
     UPDATE tasks SET updated_at = datetime('now') WHERE id = NEW.id;
 END;
 
+-- Update sprint updated_at on change
+CREATE TRIGGER IF NOT EXISTS tr_sprints_updated
+AFTER UPDATE ON sprints
+BEGIN
+    UPDATE sprints SET updated_at = datetime('now') WHERE id = NEW.id;
+END;
+
 -- Update project updated_at on change
 CREATE TRIGGER IF NOT EXISTS tr_projects_updated
 AFTER UPDATE ON projects
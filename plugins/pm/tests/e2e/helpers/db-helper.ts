@@ -134,7 +134,8 @@ export class DBE2EHelper {
         payload TEXT NOT NULL,
         metadata TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        version INTEGER NOT NULL DEFAULT 1
+        version INTEGER NOT NULL DEFAULT 1,
+        schema_version INTEGER NOT NULL DEFAULT 1
       );
 
       -- Indexes
@@ -4,13 +4,19 @@
  * Provides utilities for testing MCP server handlers directly.
  */
 
-import { EventStore } from "../../storage/lib/events.js";
+import { randomUUID } from "crypto";
+import { EventStore, createTaskEvent } from "../../storage/lib/events.js";
 import { DatabaseManager } from "../../mcp/lib/db.js";
 import {
   ProjectRepository,
   SprintRepository,
   TaskRepository,
   AnalyticsRepository,
+  ProjectConfigRepository,
+  SyncQueueRepository,
+  SyncConflictRepository,
+  LabelRepository,
+  type Task,
 } from "../../mcp/lib/projections.js";
 
 export interface TestContext {
@@ -20,6 +26,10 @@ export interface TestContext {
   sprintRepo: SprintRepository;
   taskRepo: TaskRepository;
   analyticsRepo: AnalyticsRepository;
+  configRepo: ProjectConfigRepository;
+  queueRepo: SyncQueueRepository;
+  conflictRepo: SyncConflictRepository;
+  labelRepo: LabelRepository;
 }
 
 /**
@@ -41,7 +51,11 @@ export function createTestContext(): TestContext {
   const projectRepo = new ProjectRepository(dbManager, eventStore);
   const sprintRepo = new SprintRepository(dbManager, eventStore);
   const taskRepo = new TaskRepository(dbManager, eventStore);
-  const analyticsRepo = new AnalyticsRepository(dbManager);
+  const analyticsRepo = new AnalyticsRepository(dbManager, eventStore);
+  const configRepo = new ProjectConfigRepository(dbManager);
+  const queueRepo = new SyncQueueRepository(dbManager);
+  const conflictRepo = new SyncConflictRepository(dbManager);
+  const labelRepo = new LabelRepository(dbManager);
 
   return {
     eventStore,
@@ -50,6 +64,10 @@ export function createTestContext(): TestContext {
     sprintRepo,
     taskRepo,
     analyticsRepo,
+    configRepo,
+    queueRepo,
+    conflictRepo,
+    labelRepo,
   };
 }
 
@@ -66,6 +84,39 @@ export function cleanupTestContext(ctx: TestContext): void {
   }
 }
 
+export interface TestTaskOptions {
+  type?: string;
+  description?: string;
+  parentId?: string;
+  estimatePoints?: number;
+  assignee?: string;
+  status?: string; // Moved to through TaskRepository.update, so timers follow
+}
+
+/**
+ * Create a task from its events (TaskCreated, then TaskAssigned and the
+ * status move when given) and return its projection
+ */
+export function createTestTask(
+  ctx: TestContext,
+  projectId: string,
+  title: string,
+  options: TestTaskOptions = {}
+): Task {
+  const id = randomUUID();
+  createTaskEvent(ctx.eventStore, "TaskCreated", id, {
+    projectId,
+    title,
+    description: options.description,
+    type: options.type,
+    parentId: options.parentId,
+    estimatePoints: options.estimatePoints,
+  });
+  if (options.assignee) createTaskEvent(ctx.eventStore, "TaskAssigned", id, { assignee: options.assignee });
+  const task = ctx.taskRepo.syncFromEvents(id)!;
+  return options.status ? ctx.taskRepo.update(id, { status: options.status })! : task;
+}
+
 /**
  * Initialize projections schema for testing
  * (Matches storage/schema.sql and projections.ts interfaces)
@@ -96,6 +147,7 @@ function initializeProjectionsSchema(db: DatabaseManager): void {
       velocity_completed INTEGER DEFAULT 0,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now')),
+      started_at TEXT,
       completed_at TEXT
     );
 
@@ -113,6 +165,7 @@ function initializeProjectionsSchema(db: DatabaseManager): void {
       priority TEXT DEFAULT 'medium',
       estimate_points INTEGER,
       estimate_hours REAL,
+      estimate_confidence REAL,
       actual_hours REAL,
       assignee TEXT,
       labels TEXT,
@@ -121,10 +174,14 @@ function initializeProjectionsSchema(db: DatabaseManager): void {
       branch_name TEXT,
       linked_commits TEXT,
       linked_prs TEXT,
+      github_issue_number INTEGER,
+      github_issue_url TEXT,
+      github_project_item_id TEXT,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now')),
       started_at TEXT,
-      completed_at TEXT
+      completed_at TEXT,
+      timer_started_at TEXT
     );
 
     -- Sprint tasks junction (for backlog management)
@@ -135,6 +192,56 @@ function initializeProjectionsSchema(db: DatabaseManager): void {
       PRIMARY KEY (sprint_id, task_id)
     );
 
+    -- Task dependencies (task_id depends on depends_on_id)
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      depends_on_id TEXT NOT NULL REFERENCES tasks(id),
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (task_id, depends_on_id)
+    );
+
+    -- Worklog entries (closed timers and logged time)
+    CREATE TABLE IF NOT EXISTS task_worklog (
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT NOT NULL,
+      minutes REAL NOT NULL,
+      source TEXT NOT NULL,
+      author TEXT,
+      note TEXT,
+      PRIMARY KEY (task_id, version)
+    );
+
+    -- Estimate vs. actual of done tasks
+    CREATE TABLE IF NOT EXISTS estimation_accuracy (
+      task_id TEXT PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      type TEXT NOT NULL,
+      assignee TEXT,
+      estimate_points INTEGER,
+      estimate_hours REAL,
+      confidence REAL,
+      cycle_hours REAL,
+      logged_hours REAL,
+      completed_at TEXT NOT NULL
+    );
+
+    -- Label definitions
+    CREATE TABLE IF NOT EXISTS labels (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      name TEXT NOT NULL COLLATE NOCASE,
+      color TEXT NOT NULL DEFAULT 'ededed',
+      description TEXT,
+      github_id TEXT,
+      synced_at TEXT,
+      deleted_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(project_id, name)
+    );
+
     -- Velocity history (used by SprintRepository.complete and AnalyticsRepository)
     CREATE TABLE IF NOT EXISTS velocity_history (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -146,6 +253,95 @@ function initializeProjectionsSchema(db: DatabaseManager): void {
       recorded_at TEXT DEFAULT (datetime('now'))
     );
 
+    -- Project config (GitHub integration)
+    CREATE TABLE IF NOT EXISTS project_config (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      github_enabled BOOLEAN DEFAULT 0,
+      github_repo TEXT,
+      github_project_id TEXT,
+      github_project_number INTEGER,
+      field_mappings TEXT,
+      status_options TEXT,
+      sync_mode TEXT DEFAULT 'manual',
+      last_sync_at TEXT,
+      wip_limits TEXT,
+      wip_policy TEXT DEFAULT 'warn',
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(project_id)
+    );
+
+    -- Active project per workspace
+    CREATE TABLE IF NOT EXISTS workspace_projects (
+      workspace TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      updated_at TEXT DEFAULT (datetime('now'))
+    );
+
+    -- Sync queue (outbound GitHub operations)
+    CREATE TABLE IF NOT EXISTS sync_queue (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      action TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      retry_count INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT,
+      error_message TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      processed_at TEXT
+    );
+
+    -- Sync conflicts (manual resolution)
+    CREATE TABLE IF NOT EXISTS sync_conflicts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      issue_number INTEGER NOT NULL,
+      fields TEXT NOT NULL,
+      local_status TEXT NOT NULL,
+      remote_status TEXT NOT NULL,
+      local_updated_at TEXT NOT NULL,
+      remote_updated_at TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      resolution TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      resolved_at TEXT
+    );
+
+    -- Full-text search over tasks and linked commit messages
+    CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+      task_id UNINDEXED, title, description, commits,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_insert AFTER INSERT ON tasks
+    BEGIN
+      INSERT INTO tasks_fts (task_id, title, description, commits)
+      VALUES (NEW.id, NEW.title, NEW.description, (
+        SELECT group_concat(json_extract(payload, '$.message'), char(10)) FROM events
+        WHERE aggregate_type = 'task' AND aggregate_id = NEW.id AND event_type = 'TaskLinkedToCommit'
+      ));
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_update AFTER UPDATE OF title, description, linked_commits ON tasks
+    BEGIN
+      DELETE FROM tasks_fts WHERE task_id = OLD.id;
+      INSERT INTO tasks_fts (task_id, title, description, commits)
+      VALUES (NEW.id, NEW.title, NEW.description, (
+        SELECT group_concat(json_extract(payload, '$.message'), char(10)) FROM events
+        WHERE aggregate_type = 'task' AND aggregate_id = NEW.id AND event_type = 'TaskLinkedToCommit'
+      ));
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tr_tasks_fts_delete AFTER DELETE ON tasks
+    BEGIN
+      DELETE FROM tasks_fts WHERE task_id = OLD.id;
+    END;
+
     -- Indexes
     CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_id);
     CREATE INDEX IF NOT EXISTS idx_tasks_sprint ON tasks(sprint_id);
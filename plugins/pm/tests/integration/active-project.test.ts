@@ -0,0 +1,124 @@
+/**
+ * Active Project Integration Tests
+ *
+ * Resolving the project for calls without projectId: workspace selection,
+ * GitHub repo match, and the single-project fallback.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { WorkspaceRepository } from "../../mcp/lib/projections.js";
+import {
+  ActiveProjectResolver,
+  NO_ACTIVE_PROJECT,
+  formatActiveProject,
+  type WorkspaceDetector,
+} from "../../mcp/lib/active-project.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+describe("ActiveProjectResolver", () => {
+  let ctx: TestContext;
+  let workspaceRepo: WorkspaceRepository;
+  let detector: WorkspaceDetector;
+  let resolver: ActiveProjectResolver;
+
+  const createResolver = (root = "/work/app", repo: string | null = "acme/app") => {
+    detector = { root: vi.fn(() => root), repo: vi.fn(() => repo) };
+    return new ActiveProjectResolver(ctx.projectRepo, ctx.configRepo, workspaceRepo, detector);
+  };
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    workspaceRepo = new WorkspaceRepository(ctx.dbManager);
+    resolver = createResolver();
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  it("should use the only project when nothing else matches", () => {
+    const project = ctx.projectRepo.create("Solo");
+
+    expect(resolver.resolve()).toEqual({ project, source: "only" });
+  });
+
+  it("should be undefined with several unmatched projects", () => {
+    ctx.projectRepo.create("One");
+    ctx.projectRepo.create("Two");
+
+    expect(resolver.resolve()).toBeUndefined();
+    expect(() => resolver.requireId()).toThrow(NO_ACTIVE_PROJECT);
+  });
+
+  it("should match the workspace's GitHub repo", () => {
+    ctx.projectRepo.create("Other");
+    const app = ctx.projectRepo.create("App");
+    ctx.configRepo.create(app.id, { github_enabled: true, github_repo: "Acme/App" });
+
+    expect(resolver.resolve()).toEqual({ project: app, source: "repo" });
+    expect(resolver.requireId()).toBe(app.id);
+  });
+
+  it("should prefer the workspace selection over the repo match", () => {
+    const app = ctx.projectRepo.create("App");
+    const docs = ctx.projectRepo.create("Docs");
+    ctx.configRepo.create(app.id, { github_repo: "acme/app" });
+
+    expect(resolver.use("Docs")).toEqual(docs);
+    expect(resolver.resolve()).toEqual({ project: docs, source: "workspace" });
+    expect(detector.repo).not.toHaveBeenCalled();
+  });
+
+  it("should store the selection per workspace", () => {
+    const app = ctx.projectRepo.create("App");
+    ctx.projectRepo.create("Docs");
+    resolver.use(app.id);
+
+    expect(workspaceRepo.getProjectId("/work/app")).toBe(app.id);
+    expect(createResolver("/work/docs", null).resolve()).toBeUndefined();
+    expect(createResolver("/work/app", null).resolve()?.project).toEqual(app);
+  });
+
+  it("should fall back to the repo match after clearing the selection", () => {
+    const app = ctx.projectRepo.create("App");
+    ctx.projectRepo.create("Docs");
+    ctx.configRepo.create(app.id, { github_repo: "acme/app" });
+    resolver.use("Docs");
+
+    expect(resolver.clear()).toBe(true);
+    expect(resolver.resolve()?.source).toBe("repo");
+  });
+
+  it("should keep an explicit projectId", () => {
+    ctx.projectRepo.create("App");
+
+    expect(resolver.requireId("proj-explicit")).toBe("proj-explicit");
+    expect(detector.root).not.toHaveBeenCalled();
+  });
+
+  it("should not select unknown projects", () => {
+    expect(resolver.use("missing")).toBeUndefined();
+    expect(workspaceRepo.getProjectId("/work/app")).toBeUndefined();
+  });
+
+  it("should look up the repo once", () => {
+    ctx.projectRepo.create("One");
+    ctx.projectRepo.create("Two");
+    resolver.resolve();
+    resolver.resolve();
+
+    expect(detector.repo).toHaveBeenCalledTimes(1);
+  });
+
+  it("should describe where the active project came from", () => {
+    const project = ctx.projectRepo.create("Solo");
+
+    expect(formatActiveProject(resolver.resolve()!, "/work/app")).toBe(
+      `Solo (${project.id}) - only project`
+    );
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Task Board Integration Tests
+ *
+ * Board columns and swimlanes, WIP limits from project_config and the check
+ * run before status moves.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Task } from "../../mcp/lib/projections.js";
+import {
+  buildBoard,
+  formatBoard,
+  checkWipLimit,
+  enforceWipLimit,
+  mergeWipLimits,
+  parseWipLimits,
+  wipPolicy,
+} from "../../mcp/lib/board.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  createTestTask,
+  type TestContext,
+  type TestTaskOptions,
+} from "../helpers/mcp-test-helper.js";
+
+describe("Task board", () => {
+  let ctx: TestContext;
+  let projectId: string;
+
+  const createTask = (title: string, options: TestTaskOptions = {}) =>
+    createTestTask(ctx, projectId, title, options);
+  const titles = (tasks: Task[]) => tasks.map((t) => t.title);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T09:00:00Z"));
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+    vi.useRealTimers();
+  });
+
+  describe("buildBoard", () => {
+    it("should put tasks in a column per status, leaving out cancelled ones", () => {
+      createTask("Login", { status: "in_progress" });
+      createTask("Search");
+      createTask("Old idea", { status: "cancelled" });
+
+      const board = buildBoard(ctx.taskRepo, projectId, undefined);
+
+      expect(board.columns.map((c) => [c.status, titles(c.tasks)])).toEqual([
+        ["todo", ["Search"]],
+        ["in_progress", ["Login"]],
+        ["in_review", []],
+        ["done", []],
+        ["blocked", []],
+      ]);
+      expect(board.lanes).toBeUndefined();
+    });
+
+    it("should split into swimlanes by assignee, unassigned last", () => {
+      createTask("Login", { assignee: "bob" });
+      createTask("Search", { assignee: "alice", status: "in_progress" });
+      createTask("Docs");
+
+      const board = buildBoard(ctx.taskRepo, projectId, undefined, { swimlane: "assignee" });
+
+      expect(board.lanes!.map((l) => [l.label, titles(l.columns.todo), titles(l.columns.in_progress)])).toEqual([
+        ["alice", [], ["Search"]],
+        ["bob", ["Login"], []],
+        ["(unassigned)", ["Docs"], []],
+      ]);
+    });
+
+    it("should split into swimlanes by outermost epic", () => {
+      const auth = createTask("Auth", { type: "epic" });
+      const story = createTask("Sign in", { type: "story", parentId: auth.id });
+      createTask("Login form", { parentId: story.id, status: "in_progress" });
+      createTask("Docs");
+
+      const board = buildBoard(ctx.taskRepo, projectId, undefined, { swimlane: "epic" });
+
+      expect(board.lanes!.map((l) => [l.label, titles(l.columns.todo), titles(l.columns.in_progress)])).toEqual([
+        ["#1 Auth", ["Auth", "Sign in"], ["Login form"]],
+        ["(no epic)", ["Docs"], []],
+      ]);
+    });
+
+    it("should count WIP across the project when showing one sprint", () => {
+      const sprint = ctx.sprintRepo.create(projectId, "Sprint 1", "2026-10-19", "2026-11-01");
+      const login = createTask("Login", { status: "in_progress" });
+      ctx.sprintRepo.addTasks(sprint.id, [login.id]);
+      createTask("Search", { status: "in_progress" });
+      const config = ctx.configRepo.create(projectId, { wip_limits: JSON.stringify({ in_progress: 1 }) });
+
+      const board = buildBoard(ctx.taskRepo, projectId, config, { sprintId: sprint.id });
+
+      expect(board.columns[1]).toMatchObject({ status: "in_progress", wip: 2, limit: 1 });
+      expect(titles(board.columns[1].tasks)).toEqual(["Login"]);
+    });
+  });
+
+  describe("WIP limits", () => {
+    it("should merge limit changes and validate them", () => {
+      const limits = mergeWipLimits({ in_progress: 3, in_review: 2 }, { in_progress: 4, in_review: 0 });
+
+      expect(limits).toEqual({ in_progress: 4 });
+      expect(mergeWipLimits(limits, { in_progress: null })).toEqual({});
+      expect(() => mergeWipLimits({}, { doing: 2 })).toThrow("Unknown board column: doing");
+      expect(() => mergeWipLimits({}, { todo: 1.5 })).toThrow("Invalid WIP limit for todo: 1.5");
+    });
+
+    it("should default to no limits and the warn policy", () => {
+      const config = ctx.configRepo.create(projectId, {});
+
+      expect(parseWipLimits(config)).toEqual({});
+      expect(wipPolicy(config)).toBe("warn");
+      expect(wipPolicy(ctx.configRepo.update(projectId, { wip_policy: "block" }))).toBe("block");
+    });
+
+    it("should report a move into a full column", () => {
+      createTask("Login", { status: "in_progress" });
+      createTask("Search", { status: "in_progress" });
+      const next = createTask("Docs");
+      const config = ctx.configRepo.create(projectId, {
+        wip_limits: JSON.stringify({ in_progress: 2 }),
+        wip_policy: "block",
+      });
+
+      expect(checkWipLimit(ctx.taskRepo, config, next, "in_progress")).toEqual({
+        status: "in_progress",
+        count: 3,
+        limit: 2,
+        policy: "block",
+      });
+      expect(checkWipLimit(ctx.taskRepo, config, next, "in_review")).toBeUndefined();
+    });
+
+    it("should not count the moved task or moves within a column", () => {
+      const login = createTask("Login", { status: "in_progress" });
+      const config = ctx.configRepo.create(projectId, { wip_limits: JSON.stringify({ in_progress: 1 }) });
+
+      expect(checkWipLimit(ctx.taskRepo, config, login, "in_progress")).toBeUndefined();
+      expect(checkWipLimit(ctx.taskRepo, config, { ...login, status: "todo" }, "in_progress")).toBeUndefined();
+    });
+
+    it("should refuse moves into a full column under the block policy unless forced", () => {
+      createTask("Login", { status: "in_progress" });
+      const next = createTask("Docs");
+      const config = ctx.configRepo.create(projectId, { wip_limits: JSON.stringify({ in_progress: 1 }) });
+
+      expect(enforceWipLimit(ctx.taskRepo, config, next, "in_progress")).toMatchObject({ policy: "warn" });
+
+      const blocking = ctx.configRepo.update(projectId, { wip_policy: "block" });
+      expect(() => enforceWipLimit(ctx.taskRepo, blocking, next, "in_progress")).toThrow(
+        "WIP limit exceeded in in_progress (2/1); finish or move a task first, or pass force: true"
+      );
+      expect(enforceWipLimit(ctx.taskRepo, blocking, next, "in_progress", true)).toMatchObject({ count: 2 });
+      expect(enforceWipLimit(ctx.taskRepo, blocking, next, "in_review")).toBeUndefined();
+    });
+
+    it("should count a move made concurrently when checked inside the append", () => {
+      const login = createTask("Login");
+      const docs = createTask("Docs");
+      const config = ctx.configRepo.create(projectId, {
+        wip_limits: JSON.stringify({ in_progress: 1 }),
+        wip_policy: "block",
+      });
+      const syncFromEvents = ctx.taskRepo.syncFromEvents.bind(ctx.taskRepo);
+      vi.spyOn(ctx.taskRepo, "syncFromEvents").mockImplementationOnce((id) => {
+        const read = syncFromEvents(id);
+        // Another move fills the column between our read and our append
+        ctx.taskRepo.update(login.id, { status: "in_progress" });
+        return read;
+      });
+
+      expect(() =>
+        ctx.taskRepo.appendEvents(docs.id, (current) => {
+          enforceWipLimit(ctx.taskRepo, config, current, "in_progress");
+          return [{ type: "TaskStatusChanged", payload: { from: current.status, to: "in_progress" } }];
+        })
+      ).toThrow("WIP limit exceeded in in_progress (2/1)");
+      expect(ctx.taskRepo.getById(docs.id)?.status).toBe("todo");
+    });
+  });
+
+  describe("formatBoard", () => {
+    it("should render columns side by side with WIP against the limit", () => {
+      createTask("Login", { status: "in_progress" });
+      createTask("Search", { status: "in_progress" });
+      createTask("Docs");
+      const config = ctx.configRepo.create(projectId, { wip_limits: JSON.stringify({ in_progress: 1 }) });
+
+      const lines = formatBoard(buildBoard(ctx.taskRepo, projectId, config)).split("\n");
+
+      expect(lines[0]).toMatch(/^TODO \(1\)\s+│ IN PROGRESS \(2\) 2\/1 ⚠️\s+│ IN REVIEW \(0\)/);
+      expect(lines[2]).toMatch(/^#3 Docs\s+│ #1 Login$/);
+      expect(lines[3]).toMatch(/^\s+│ #2 Search$/);
+      expect(lines.at(-1)).toBe("⚠️ WIP limit exceeded in in_progress (2/1)");
+    });
+
+    it("should show the latest done tasks and label swimlanes", () => {
+      for (let i = 1; i <= 12; i++) {
+        vi.setSystemTime(new Date(`2026-10-${String(i).padStart(2, "0")}T09:00:00Z`));
+        createTask(`Task ${i}`, { status: "done", assignee: "alice" });
+      }
+
+      const text = formatBoard(buildBoard(ctx.taskRepo, projectId, undefined, { swimlane: "assignee" }));
+
+      expect(text).toContain("── alice (12) ──");
+      expect(text).toContain("#12 Task 12");
+      expect(text).not.toContain("#2 Task 2");
+      expect(text).toContain("… +2 more");
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Commit Processor Integration Tests
+ *
+ * Magic words in commit messages applied to tasks through events.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "crypto";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import { DependencyRepository } from "../../mcp/lib/projections.js";
+import {
+  processCommit,
+  formatCommitResult,
+} from "../../mcp/lib/commit-processor.js";
+
+describe("processCommit", () => {
+  let ctx: TestContext;
+  let dependencyRepo: DependencyRepository;
+  let projectId: string;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    dependencyRepo = new DependencyRepository(ctx.dbManager, ctx.eventStore);
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  function createTask(title: string): string {
+    const taskId = randomUUID();
+    createTaskEvent(ctx.eventStore, "TaskCreated", taskId, { title, projectId });
+    ctx.taskRepo.syncFromEvents(taskId);
+    return taskId;
+  }
+
+  function process(message: string, sha = "abc1234def", preferGitHubIssues = false, branch = "1-feat-login") {
+    return processCommit(
+      { taskRepo: ctx.taskRepo, dependencyRepo },
+      { sha, message, branch },
+      { projectId, preferGitHubIssues }
+    );
+  }
+
+  it("should complete tasks referenced with fixes and link the commit", () => {
+    const taskId = createTask("Login form");
+
+    const result = process("feat: login form\n\nfixes #1");
+
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes[0]).toMatchObject({ ref: 1, linked: true, from: "todo", to: "done" });
+
+    const task = ctx.taskRepo.getById(taskId)!;
+    expect(task.status).toBe("done");
+    expect(task.completed_at).toBeDefined();
+    expect(JSON.parse(task.linked_commits!)).toEqual(["abc1234def"]);
+    expect(task.branch_name).toBe("1-feat-login");
+  });
+
+  it("should apply wip and review transitions", () => {
+    const first = createTask("First");
+    const second = createTask("Second");
+
+    process("chore: progress wip #1 review #2");
+
+    expect(ctx.taskRepo.getById(first)?.status).toBe("in_progress");
+    expect(ctx.taskRepo.getById(second)?.status).toBe("in_review");
+  });
+
+  it("should link without status change for refs", () => {
+    const taskId = createTask("Docs");
+
+    const result = process("docs: update readme refs #1");
+
+    expect(result.changes[0].to).toBeUndefined();
+    expect(ctx.taskRepo.getById(taskId)?.status).toBe("todo");
+    expect(ctx.eventStore.getEvents("task", taskId).map((e) => e.eventType)).toEqual([
+      "TaskCreated",
+      "TaskLinkedToCommit",
+    ]);
+  });
+
+  it("should be idempotent for the same commit", () => {
+    const taskId = createTask("Login form");
+
+    process("fix: login fixes #1");
+    const again = process("fix: login fixes #1");
+
+    expect(again.changes[0]).toMatchObject({ linked: false });
+    expect(again.changes[0].to).toBeUndefined();
+    expect(ctx.eventStore.getEvents("task", taskId)).toHaveLength(3);
+  });
+
+  it("should resolve GitHub issue numbers before seq when preferred", () => {
+    createTask("Seq one");
+    const linked = createTask("Issue 1 task");
+    ctx.taskRepo.update(linked, { github_issue_number: 1 });
+
+    process("fix: bug closes #1", "sha1", true);
+
+    const task = ctx.taskRepo.getById(linked)!;
+    expect(task.status).toBe("done");
+    expect(ctx.taskRepo.getBySeq(projectId, 1)?.status).toBe("todo");
+  });
+
+  it("should fall back to GitHub issue numbers when no seq matches", () => {
+    const taskId = createTask("Tracked upstream");
+    ctx.taskRepo.update(taskId, { github_issue_number: 87 });
+
+    process("fix: crash fixes #87");
+
+    expect(ctx.taskRepo.getById(taskId)?.status).toBe("done");
+  });
+
+  it("should report unresolved references", () => {
+    const result = process("fix: crash fixes #99");
+
+    expect(result.changes).toHaveLength(0);
+    expect(result.unresolved).toEqual([99]);
+    expect(formatCommitResult(result)).toContain("#99: no matching task");
+  });
+
+  it("should format applied changes", () => {
+    createTask("Login form");
+
+    const output = formatCommitResult(process("feat: login fixes #1"));
+
+    expect(output).toContain("Commit abc1234");
+    expect(output).toContain("#1 Login form: todo → done, commit linked");
+  });
+
+  describe("dependencies", () => {
+    it("should record depends #N as a dependency of the referenced tasks", () => {
+      const login = createTask("Login form");
+      const api = createTask("Auth API");
+
+      const result = process("feat: login form\n\nrefs #1 depends #2");
+
+      expect(dependencyRepo.getDependencies(login).map((t) => t.id)).toEqual([api]);
+      expect(result.dependencies).toHaveLength(1);
+      expect(result.dependencies[0]).toMatchObject({ added: true });
+      const last = ctx.eventStore.getEvents("task", login).at(-1)!;
+      expect(last.eventType).toBe("TaskDependencyAdded");
+      expect(last.metadata).toMatchObject({ source: "git-commit", correlationId: "abc1234def" });
+      expect(formatCommitResult(result)).toContain("✓ #1 depends on #2");
+    });
+
+    it("should record blocks #N as the reverse dependency", () => {
+      const login = createTask("Login form");
+      const profile = createTask("Profile page");
+
+      process("feat: login form wip #1 blocks #2");
+
+      expect(dependencyRepo.getDependencies(profile).map((t) => t.id)).toEqual([login]);
+      expect(dependencyRepo.getDependencies(login)).toEqual([]);
+    });
+
+    it("should fall back to the task recorded on the commit's branch", () => {
+      const login = createTask("Login form");
+      const api = createTask("Auth API");
+      ctx.taskRepo.update(login, { branch_name: "feat-login" });
+
+      process("feat: login form depends #2", "sha2", false, "feat-login");
+
+      expect(dependencyRepo.getDependencies(login).map((t) => t.id)).toEqual([api]);
+    });
+
+    it("should reject and report dependencies that would create a cycle", () => {
+      const login = createTask("Login form");
+      const api = createTask("Auth API");
+      dependencyRepo.add(api, login);
+
+      const result = process("feat: login form refs #1 depends #2");
+
+      expect(dependencyRepo.getDependencies(login)).toEqual([]);
+      expect(result.dependencies[0]).toMatchObject({ added: false, cycle: [1, 2, 1] });
+      expect(formatCommitResult(result)).toContain(
+        "❌ #1 depends on #2: rejected, would create a cycle (#1 → #2 → #1)"
+      );
+    });
+
+    it("should not record anything again when re-processed", () => {
+      createTask("Login form");
+      createTask("Auth API");
+
+      process("feat: login refs #1 depends #2");
+      const again = process("feat: login refs #1 depends #2");
+
+      expect(again.dependencies[0]).toMatchObject({ added: false });
+      expect(again.dependencies[0].cycle).toBeUndefined();
+      expect(formatCommitResult(again)).toContain("✓ #1 depends on #2 (already recorded)");
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Sync Conflict Resolution Integration Tests
+ *
+ * Stored conflicts resolved through task events and (mocked) GitHub pushes.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../../lib/github.js", () => ({
+  updateIssue: vi.fn(),
+  updateIssueState: vi.fn(),
+}));
+
+import { updateIssue, updateIssueState } from "../../lib/github.js";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import {
+  resolveConflict,
+  resolveFieldValue,
+  toLocalTask,
+  formatConflict,
+} from "../../mcp/lib/conflict-resolver.js";
+import type { SyncConflict } from "../../lib/sync-engine.js";
+import type { Task } from "../../mcp/lib/projections.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+const mockedUpdateIssue = vi.mocked(updateIssue);
+const mockedUpdateIssueState = vi.mocked(updateIssueState);
+
+describe("Sync conflict resolution", () => {
+  let ctx: TestContext;
+  let projectId: string;
+  let task: Task;
+
+  const conflictFor = (overrides: Partial<SyncConflict> = {}): SyncConflict => ({
+    taskId: task.id,
+    issueNumber: 42,
+    localStatus: "in_progress",
+    remoteStatus: "todo",
+    localUpdatedAt: "2025-01-03T00:00:00Z",
+    remoteUpdatedAt: "2025-01-02T00:00:00Z",
+    fields: [
+      { field: "status", local: "in_progress", remote: "todo" },
+      { field: "title", local: "Local title", remote: "Remote title" },
+      { field: "labels", local: ["frontend"], remote: ["backend"] },
+      { field: "assignee", local: "alice", remote: "bob" },
+    ],
+    ...overrides,
+  });
+
+  const store = () => ({
+    taskRepo: ctx.taskRepo,
+    conflictRepo: ctx.conflictRepo,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedUpdateIssue.mockReturnValue(true);
+    mockedUpdateIssueState.mockReturnValue(true);
+
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+
+    const id = "task-1";
+    createTaskEvent(ctx.eventStore, "TaskCreated", id, { projectId, title: "Local title" });
+    createTaskEvent(ctx.eventStore, "TaskStatusChanged", id, { from: "todo", to: "in_progress" });
+    createTaskEvent(ctx.eventStore, "TaskUpdated", id, { labels: ["frontend"] });
+    createTaskEvent(ctx.eventStore, "TaskAssigned", id, { assignee: "alice" });
+    ctx.taskRepo.syncFromEvents(id);
+    task = ctx.taskRepo.update(id, { github_issue_number: 42 })!;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  describe("SyncConflictRepository", () => {
+    it("should keep one open conflict per task", () => {
+      const first = ctx.conflictRepo.record(projectId, conflictFor());
+      const second = ctx.conflictRepo.record(
+        projectId,
+        conflictFor({ fields: [{ field: "title", local: "A", remote: "B" }] })
+      );
+
+      expect(second.id).toBe(first.id);
+      expect(ctx.conflictRepo.list(projectId, "open")).toHaveLength(1);
+      expect(ctx.conflictRepo.getById(first.id)?.fields).toEqual([
+        { field: "title", local: "A", remote: "B" },
+      ]);
+    });
+
+    it("should open a new conflict after the previous one is resolved", () => {
+      const first = ctx.conflictRepo.record(projectId, conflictFor());
+      ctx.conflictRepo.resolve(first.id, "local");
+
+      const second = ctx.conflictRepo.record(projectId, conflictFor());
+
+      expect(second.id).not.toBe(first.id);
+      expect(ctx.conflictRepo.list(projectId)).toHaveLength(2);
+    });
+  });
+
+  it("should take local: push every field to GitHub without local events", () => {
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+    const eventsBefore = ctx.eventStore.getEvents("task", task.id).length;
+
+    const result = resolveConflict(store(), conflict, { resolution: "local", repo: "org/repo" })!;
+
+    expect(result.appliedLocally).toEqual([]);
+    expect(result.pushed).toEqual(["status", "title", "labels", "assignee"]);
+    expect(ctx.eventStore.getEvents("task", task.id)).toHaveLength(eventsBefore);
+    expect(mockedUpdateIssueState).toHaveBeenCalledWith(42, "open", "org/repo");
+    expect(mockedUpdateIssue).toHaveBeenCalledWith(42, { title: "Local title" }, "org/repo");
+    expect(mockedUpdateIssue).toHaveBeenCalledWith(
+      42,
+      { addLabels: ["frontend"], removeLabels: ["backend"] },
+      "org/repo"
+    );
+    expect(mockedUpdateIssue).toHaveBeenCalledWith(
+      42,
+      { addAssignees: ["alice"], removeAssignees: ["bob"] },
+      "org/repo"
+    );
+    expect(result.conflict.status).toBe("resolved");
+    expect(result.conflict.resolution).toBe("local");
+  });
+
+  it("should take remote: apply events locally without pushing", () => {
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+
+    const result = resolveConflict(store(), conflict, { resolution: "remote" })!;
+
+    expect(result.pushed).toEqual([]);
+    expect(mockedUpdateIssue).not.toHaveBeenCalled();
+    expect(result.task.status).toBe("todo");
+    expect(result.task.title).toBe("Remote title");
+    expect(JSON.parse(result.task.labels!)).toEqual(["backend"]);
+    expect(result.task.assignee).toBe("bob");
+
+    const events = ctx.eventStore.getEvents("task", task.id).slice(-3);
+    expect(events.map((e) => e.eventType)).toEqual([
+      "TaskStatusChanged",
+      "TaskAssigned",
+      "TaskUpdated",
+    ]);
+    expect(events[0].metadata).toMatchObject({ source: "github-sync", correlationId: `conflict#${conflict.id}` });
+  });
+
+  it("should decide local events from the task's events, not a stale projection", () => {
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+    // Another writer moves the task; the projection has not caught up yet
+    createTaskEvent(ctx.eventStore, "TaskStatusChanged", task.id, { from: "in_progress", to: "in_review" });
+
+    const result = resolveConflict(store(), conflict, { resolution: "remote" })!;
+
+    expect(result.task.status).toBe("todo");
+    const changes = ctx.eventStore.getEvents("task", task.id).filter((e) => e.eventType === "TaskStatusChanged");
+    expect(changes.at(-1)?.payload).toMatchObject({ from: "in_review", to: "todo" });
+  });
+
+  it("should merge: union labels, honor per-field picks and update both sides", () => {
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+
+    const result = resolveConflict(store(), conflict, {
+      resolution: "merge",
+      fields: { title: "remote" },
+    })!;
+
+    expect(result.values).toEqual({
+      status: "in_progress",
+      title: "Remote title",
+      labels: ["backend", "frontend"],
+      assignee: "alice",
+    });
+    expect(result.appliedLocally).toEqual(["title", "labels"]);
+    expect(result.pushed).toEqual(["status", "labels", "assignee"]);
+    expect(result.task.title).toBe("Remote title");
+    expect(JSON.parse(result.task.labels!)).toEqual(["backend", "frontend"]);
+    expect(result.conflict.resolution).toBe("merge");
+  });
+
+  it("should clear a description when the remote body is empty", () => {
+    createTaskEvent(ctx.eventStore, "TaskUpdated", task.id, { description: "Local notes" });
+    ctx.taskRepo.syncFromEvents(task.id);
+    const conflict = ctx.conflictRepo.record(
+      projectId,
+      conflictFor({ fields: [{ field: "description", local: "Local notes", remote: null }] })
+    );
+
+    const result = resolveConflict(store(), conflict, { resolution: "remote" })!;
+
+    expect(result.task.description).toBeNull();
+  });
+
+  it("should leave the conflict open when a push fails", () => {
+    mockedUpdateIssue.mockReturnValue(false);
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+
+    const result = resolveConflict(store(), conflict, { resolution: "local" })!;
+
+    expect(result.errors).toContain("Failed to update title on #42");
+    expect(result.conflict.status).toBe("open");
+    expect(ctx.conflictRepo.getById(conflict.id)?.status).toBe("open");
+  });
+
+  it("should return undefined for a missing task", () => {
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+
+    expect(
+      resolveConflict(store(), { ...conflict, taskId: "missing" }, { resolution: "local" })
+    ).toBeUndefined();
+  });
+
+  it("should convert task rows for the sync engine", () => {
+    const local = toLocalTask(ctx.taskRepo.getById(task.id)!);
+
+    expect(local).toMatchObject({
+      id: task.id,
+      status: "in_progress",
+      issueNumber: 42,
+      labels: ["frontend"],
+      assignee: "alice",
+      description: "",
+    });
+    expect(local.updatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T.*Z$/);
+  });
+
+  it("should format conflicts with both values", () => {
+    const conflict = ctx.conflictRepo.record(projectId, conflictFor());
+
+    const text = formatConflict(conflict, task);
+
+    expect(text).toContain(`[${conflict.id}] #${task.seq} ↔ issue #42 (open)`);
+    expect(text).toContain('title: local "Local title" | remote "Remote title"');
+    expect(text).toContain("labels: local [frontend] | remote [backend]");
+  });
+
+  it("should pick remote values per field in merge mode", () => {
+    expect(
+      resolveFieldValue(
+        { field: "status", local: "done", remote: "todo" },
+        { resolution: "merge", fields: { status: "remote" } }
+      )
+    ).toBe("todo");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Estimation Integration Tests
+ *
+ * The estimation_accuracy projection, accuracy statistics and point suggestions.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EstimationRepository, type Task } from "../../mcp/lib/projections.js";
+import {
+  estimationReport,
+  suggestPoints,
+  snapToPointScale,
+  formatEstimationReport,
+  formatPointSuggestion,
+  type EstimationStore,
+} from "../../mcp/lib/estimation.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  createTestTask,
+  type TestContext,
+  type TestTaskOptions,
+} from "../helpers/mcp-test-helper.js";
+
+interface CompletedTask {
+  title: string;
+  type?: string;
+  assignee?: string;
+  points?: number;
+  hours?: number;
+  confidence?: number;
+  took: number; // hours in progress
+}
+
+describe("Estimation", () => {
+  let ctx: TestContext;
+  let estimationRepo: EstimationRepository;
+  let store: EstimationStore;
+  let projectId: string;
+  let clock: number;
+
+  const at = <T>(time: number, fn: () => T): T => {
+    vi.setSystemTime(new Date(time));
+    return fn();
+  };
+  const createTask = (title: string, options: TestTaskOptions = {}) =>
+    createTestTask(ctx, projectId, title, options);
+  const complete = (spec: CompletedTask): Task => {
+    const task = createTask(spec.title, { type: spec.type, assignee: spec.assignee });
+    ctx.taskRepo.update(task.id, {
+      estimate_points: spec.points,
+      estimate_hours: spec.hours,
+      estimate_confidence: spec.confidence,
+    });
+    at(clock, () => ctx.taskRepo.update(task.id, { status: "in_progress" }));
+    clock += spec.took * 3_600_000;
+    const done = at(clock, () => ctx.taskRepo.update(task.id, { status: "done" }))!;
+    clock += 3_600_000;
+    return done;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clock = Date.parse("2026-10-01T09:00:00Z");
+    vi.setSystemTime(new Date(clock));
+    ctx = createTestContext();
+    estimationRepo = new EstimationRepository(ctx.dbManager);
+    store = { taskRepo: ctx.taskRepo, estimationRepo };
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+    vi.useRealTimers();
+  });
+
+  describe("estimation_accuracy projection", () => {
+    it("should record done tasks and drop reopened ones", () => {
+      const task = complete({ title: "Login", assignee: "alice", points: 3, confidence: 0.6, took: 5 });
+
+      expect(estimationRepo.list({ projectId })).toEqual([
+        expect.objectContaining({
+          task_id: task.id,
+          seq: 1,
+          title: "Login",
+          type: "task",
+          assignee: "alice",
+          estimate_points: 3,
+          confidence: 0.6,
+          cycle_hours: 5,
+          logged_hours: 5,
+        }),
+      ]);
+
+      ctx.taskRepo.update(task.id, { status: "in_progress" });
+      expect(estimationRepo.list({ projectId })).toEqual([]);
+    });
+
+    it("should carry the other estimate values when one changes", () => {
+      const task = createTask("Login");
+      ctx.taskRepo.update(task.id, { estimate_points: 3, estimate_hours: 6 });
+
+      const updated = ctx.taskRepo.update(task.id, { estimate_confidence: 0.9 })!;
+
+      expect(updated).toMatchObject({ estimate_points: 3, estimate_hours: 6, estimate_confidence: 0.9 });
+      const last = ctx.eventStore.getEvents("task", task.id).at(-1)!;
+      expect(last.eventType).toBe("TaskEstimated");
+      expect(last.payload).toEqual({ points: 3, hours: 6, confidence: 0.9 });
+    });
+  });
+
+  describe("estimationReport", () => {
+    beforeEach(() => {
+      complete({ title: "Fix login crash", type: "bug", assignee: "alice", points: 2, confidence: 0.9, took: 4 });
+      complete({ title: "Fix typo", type: "bug", assignee: "alice", points: 1, confidence: 0.9, took: 2 });
+      complete({ title: "Search page", type: "story", assignee: "bob", points: 3, confidence: 0.4, took: 12 });
+      complete({ title: "Upgrade deps", assignee: "bob", hours: 2, took: 3 });
+      complete({ title: "Unestimated", took: 1 });
+    });
+
+    it("should compare estimates with actuals, calibrated in hours per point", () => {
+      const report = estimationReport(estimationRepo, { projectId });
+
+      expect(report.hoursPerPoint).toBe(2);
+      expect(report.unmeasured).toBe(1);
+      expect(report.overall).toMatchObject({
+        tasks: 4,
+        estimatedHours: 14,
+        actualHours: 21,
+        ratio: 1.5,
+        medianRatio: 1.25,
+        withinRange: 0.5,
+      });
+      expect(report.byType.map((s) => [s.key, s.tasks, s.ratio])).toEqual([
+        ["bug", 2, 1],
+        ["story", 1, 2],
+        ["task", 1, 1.5],
+      ]);
+      expect(report.byAssignee.map((s) => [s.key, s.ratio])).toEqual([
+        ["alice", 1],
+        ["bob", 15 / 8],
+      ]);
+      expect(report.byPoints.map((s) => [s.key, s.hoursPerPoint])).toEqual([
+        ["1", 2],
+        ["2", 2],
+        ["3", 4],
+      ]);
+      expect(report.byConfidence.map((s) => [s.key, s.tasks])).toEqual([
+        ["high (≥0.8)", 2],
+        ["low (<0.5)", 1],
+        ["unstated", 1],
+      ]);
+    });
+
+    it("should filter records but keep the project calibration", () => {
+      const report = estimationReport(estimationRepo, { projectId, assignee: "bob" });
+
+      expect(report.hoursPerPoint).toBe(2);
+      expect(report.overall).toMatchObject({ tasks: 2, estimatedHours: 8, actualHours: 15 });
+      expect(estimationReport(estimationRepo, { projectId, from: "2026-11-01" }).overall).toBeUndefined();
+    });
+
+    it("should format the report", () => {
+      const text = formatEstimationReport(estimationReport(estimationRepo, { projectId }));
+
+      expect(text).toContain("Estimation accuracy: 4 done tasks (1 without an estimate or an actual)");
+      expect(text).toContain("Actual/estimate: 1.50× overall, median 1.25×, 50% within ±25%");
+      expect(text).toContain("Calibration: 1 point ≈ 2.0h");
+      expect(text).toMatch(/story\s+1 tasks\s+6\.0h → 12\.0h\s+2\.00×/);
+    });
+  });
+
+  describe("suggestPoints", () => {
+    beforeEach(() => {
+      complete({ title: "Fix login crash", type: "bug", points: 2, took: 4 });
+      complete({ title: "Fix signup form", type: "bug", points: 1, took: 2 });
+      complete({ title: "Search page", type: "story", points: 3, took: 12 });
+    });
+
+    it("should suggest from similar completed tasks", () => {
+      const suggestion = suggestPoints(store, projectId, { title: "Login redirect loop", type: "bug" });
+
+      expect(suggestion.basis).toBe("similar");
+      expect(suggestion.similar.map((o) => o.record.title)).toEqual(["Fix login crash"]);
+      expect(suggestion).toMatchObject({ points: 2, estimatedPoints: 2, actualHours: 4, hoursPerPoint: 2 });
+      expect(formatPointSuggestion(suggestion)).toContain("Suggested estimate: 2 points");
+    });
+
+    it("should fall back to completed tasks of the same type", () => {
+      const suggestion = suggestPoints(store, projectId, { title: "Reports dashboard", type: "story" });
+
+      expect(suggestion.basis).toBe("type");
+      expect(suggestion.similar.map((o) => o.record.title)).toEqual(["Search page"]);
+      expect(suggestion.points).toBe(5); // 12h at 2h per point
+    });
+
+    it("should not suggest without history", () => {
+      const other = ctx.projectRepo.create("Other").id;
+
+      const suggestion = suggestPoints(store, other, { title: "Login redirect loop" });
+
+      expect(suggestion).toEqual({ basis: "none", similar: [], hoursPerPoint: undefined });
+      expect(formatPointSuggestion(suggestion)).toBe("No completed tasks with points to compare with yet");
+    });
+  });
+
+  it("should snap to the point scale by ratio", () => {
+    expect([0.4, 1.4, 4, 6, 7, 40].map(snapToPointScale)).toEqual([1, 1, 5, 5, 8, 21]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Flow Metrics Integration Tests
+ *
+ * Lead/cycle time, time in status, throughput and cumulative flow replayed
+ * from status events recorded at controlled times.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "crypto";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import {
+  getFlowMetrics,
+  formatFlowMetrics,
+  formatCumulativeFlow,
+  percentile,
+  weekStart,
+} from "../../mcp/lib/flow-metrics.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+describe("Flow metrics", () => {
+  let ctx: TestContext;
+  let projectId: string;
+
+  const at = (time: string, fn: () => void) => {
+    vi.setSystemTime(new Date(time));
+    fn();
+  };
+  /** Create a task and move it through statuses; times are October 2026 "DD HH:MM" */
+  const task = (created: string, moves: [string, string][], options: { type?: string; project?: string } = {}) => {
+    const id = randomUUID();
+    const time = (t: string) => `2026-10-${t.replace(" ", "T")}:00Z`;
+    at(time(created), () =>
+      createTaskEvent(ctx.eventStore, "TaskCreated", id, {
+        projectId: options.project ?? projectId,
+        title: `Task ${id.slice(0, 4)}`,
+        type: options.type ?? "task",
+      })
+    );
+    let from = "todo";
+    for (const [t, to] of moves) {
+      at(time(t), () => createTaskEvent(ctx.eventStore, "TaskStatusChanged", id, { from, to }));
+      from = to;
+    }
+    return id;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+
+    task("05 09:00", [["06 09:00", "in_progress"], ["07 09:00", "in_review"], ["08 09:00", "done"]]);
+    task("05 09:00", [["09 09:00", "in_progress"], ["13 09:00", "done"]]);
+    task("06 09:00", [["07 09:00", "done"]], { type: "bug" });
+    task("10 09:00", [["12 09:00", "in_progress"]]);
+    task("05 09:00", [["06 09:00", "done"]], { project: ctx.projectRepo.create("Other").id });
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+    vi.useRealTimers();
+  });
+
+  it("should compute lead and cycle time percentiles for tasks completed in range", () => {
+    const metrics = getFlowMetrics(ctx.eventStore, projectId, { from: "2026-10-05", to: "2026-10-18" });
+
+    expect(metrics.completed).toBe(3);
+    expect(metrics.leadTime).toEqual({ count: 3, mean: 4, p50: 3, p85: 8, p95: 8 });
+    expect(metrics.cycleTime).toEqual({ count: 2, mean: 3, p50: 2, p85: 4, p95: 4 });
+  });
+
+  it("should split lead time into time per status", () => {
+    const metrics = getFlowMetrics(ctx.eventStore, projectId, { from: "2026-10-05", to: "2026-10-18" });
+
+    expect(metrics.timeInStatus).toEqual([
+      { status: "todo", days: 2, share: 0.5 },
+      { status: "in_progress", days: 5 / 3, share: 5 / 12 },
+      { status: "in_review", days: 1 / 3, share: 1 / 12 },
+    ]);
+  });
+
+  it("should count weekly throughput and sample WIP per day", () => {
+    const metrics = getFlowMetrics(ctx.eventStore, projectId, { from: "2026-10-05", to: "2026-10-18" });
+
+    expect(metrics.throughput).toEqual([
+      { week: "2026-10-05", completed: 2 },
+      { week: "2026-10-12", completed: 1 },
+    ]);
+    expect(metrics.samples).toHaveLength(14);
+    expect(metrics.samples[2]).toEqual({
+      date: "2026-10-07",
+      counts: { done: 1, in_review: 1, in_progress: 0, blocked: 0, todo: 1 },
+      wip: 1,
+    });
+    expect(metrics.samples.map((s) => s.wip)).toEqual([0, 1, 1, 0, 1, 1, 1, 2, 1, 1, 1, 1, 1, 1]);
+  });
+
+  it("should sample weekly over longer ranges, ending on the last day", () => {
+    const metrics = getFlowMetrics(ctx.eventStore, projectId, { from: "2026-09-01", to: "2026-10-18" });
+
+    expect(metrics.samples.map((s) => s.date)).toEqual([
+      "2026-09-06",
+      "2026-09-13",
+      "2026-09-20",
+      "2026-09-27",
+      "2026-10-04",
+      "2026-10-11",
+      "2026-10-18",
+    ]);
+    expect(metrics.samples.at(-1)?.counts).toMatchObject({ done: 3, in_progress: 1 });
+  });
+
+  it("should filter by range and type", () => {
+    expect(getFlowMetrics(ctx.eventStore, projectId, { from: "2026-10-12", to: "2026-10-18" }).completed).toBe(1);
+
+    const bugs = getFlowMetrics(ctx.eventStore, projectId, { from: "2026-10-05", to: "2026-10-18", type: "bug" });
+    expect(bugs.completed).toBe(1);
+    expect(bugs.cycleTime).toBeUndefined();
+  });
+
+  it("should format the metrics with a cumulative flow diagram", () => {
+    const text = formatFlowMetrics(
+      getFlowMetrics(ctx.eventStore, projectId, { from: "2026-10-05", to: "2026-10-18" })
+    );
+
+    expect(text).toContain("Flow metrics: 2026-10-05 → 2026-10-18 (3 tasks completed)");
+    expect(text).toContain("Lead time (created → done): mean 4.0d, p50 3.0d, p85 8.0d, p95 8.0d (3 tasks)");
+    expect(text).toContain("Cycle time (in_progress → done): mean 3.0d, p50 2.0d, p85 4.0d, p95 4.0d (2 tasks)");
+    expect(text).toContain("WIP: avg 0.9, max 2");
+    expect(text).toContain(`10-18: ${"█".repeat(30)}${"▒".repeat(10)} 4 (WIP 1)`);
+  });
+
+  it("should stack bands to the bar length", () => {
+    const chart = formatCumulativeFlow([
+      { date: "2026-10-01", counts: { done: 1, in_review: 1, in_progress: 1, blocked: 0, todo: 0 }, wip: 2 },
+    ]);
+
+    expect(chart.split("\n")[1]).toBe(`10-01: ${"█".repeat(13)}${"▓".repeat(14)}${"▒".repeat(13)} 3 (WIP 2)`);
+    expect(formatCumulativeFlow([])).toBe("No tasks");
+  });
+
+  it("should use nearest-rank percentiles and Monday weeks", () => {
+    expect(percentile([5, 1, 4, 2, 3], 50)).toBe(3);
+    expect(percentile([5, 1, 4, 2, 3], 85)).toBe(5);
+    expect(weekStart("2026-10-18")).toBe("2026-10-12");
+    expect(weekStart("2026-10-12T23:00:00Z")).toBe("2026-10-12");
+  });
+});
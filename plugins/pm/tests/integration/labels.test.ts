@@ -0,0 +1,244 @@
+/**
+ * Label Integration Tests
+ *
+ * Label definitions, task label events and two-way label sync,
+ * using a mocked GitHub module.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../../lib/github.js", () => ({
+  listLabels: vi.fn(),
+  createLabel: vi.fn(() => true),
+  updateLabel: vi.fn(() => true),
+  deleteLabel: vi.fn(() => true),
+}));
+
+import {
+  listLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+  type GitHubLabel,
+} from "../../lib/github.js";
+import {
+  applyTaskLabels,
+  updateProjectLabel,
+  deleteProjectLabel,
+  syncGitHubLabels,
+  type LabelStore,
+} from "../../mcp/lib/labels.js";
+import { STATUS_LABEL_STYLES } from "../../lib/status-mapper.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  createTestTask,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+const mockedListLabels = vi.mocked(listLabels);
+const mockedCreateLabel = vi.mocked(createLabel);
+const mockedUpdateLabel = vi.mocked(updateLabel);
+const mockedDeleteLabel = vi.mocked(deleteLabel);
+
+const statusLabels: GitHubLabel[] = Object.entries(STATUS_LABEL_STYLES).map(([name, style]) => ({
+  id: `LA_${name}`,
+  name,
+  ...style,
+}));
+
+describe("Labels", () => {
+  let ctx: TestContext;
+  let store: LabelStore;
+  let projectId: string;
+
+  const createTask = (title: string) => createTestTask(ctx, projectId, title);
+  const labelsOf = (id: string): string[] => JSON.parse(ctx.taskRepo.getById(id)!.labels ?? "[]");
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    store = { labelRepo: ctx.labelRepo, taskRepo: ctx.taskRepo };
+    projectId = ctx.projectRepo.create("Test Project").id;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  describe("LabelRepository", () => {
+    it("should normalize colors and reject duplicates case-insensitively", () => {
+      const label = ctx.labelRepo.create(projectId, { name: "Backend", color: "#D73A4A" });
+
+      expect(label.color).toBe("d73a4a");
+      expect(ctx.labelRepo.get(projectId, "backend")?.id).toBe(label.id);
+      expect(() => ctx.labelRepo.create(projectId, { name: "BACKEND" })).toThrow("Label already exists");
+      expect(() => ctx.labelRepo.create(projectId, { name: "ui", color: "red" })).toThrow("Invalid label color");
+    });
+
+    it("should keep synced labels as tombstones until label sync", () => {
+      ctx.labelRepo.create(projectId, { name: "local" });
+      ctx.labelRepo.create(projectId, { name: "remote", github_id: "LA_1", synced_at: new Date().toISOString() });
+
+      ctx.labelRepo.remove(projectId, "local");
+      ctx.labelRepo.remove(projectId, "remote");
+
+      expect(ctx.labelRepo.list(projectId)).toEqual([]);
+      expect(ctx.labelRepo.list(projectId, { includeDeleted: true }).map((l) => l.name)).toEqual(["remote"]);
+    });
+  });
+
+  describe("task labels", () => {
+    it("should record label events and define missing labels", () => {
+      const task = createTask("Fix login");
+      ctx.labelRepo.create(projectId, { name: "Backend" });
+
+      const change = applyTaskLabels(store, task, { add: ["backend", "urgent", "Urgent"] });
+
+      expect(change.added).toEqual(["Backend", "urgent"]);
+      expect(labelsOf(task.id)).toEqual(["Backend", "urgent"]);
+      expect(ctx.labelRepo.get(projectId, "urgent")?.color).toBe("ededed");
+      expect(ctx.eventStore.getEvents("task", task.id).map((e) => e.eventType)).toEqual([
+        "TaskCreated",
+        "TaskLabelAdded",
+        "TaskLabelAdded",
+      ]);
+
+      const removal = applyTaskLabels(store, change.task, { remove: ["URGENT", "missing"] });
+      expect(removal.removed).toEqual(["urgent"]);
+      expect(labelsOf(task.id)).toEqual(["Backend"]);
+    });
+
+    it("should reject status labels", () => {
+      const task = createTask("Fix login");
+
+      expect(() => applyTaskLabels(store, task, { add: ["in-progress"] })).toThrow("pm_task_status");
+    });
+
+    it("should filter tasks by label", () => {
+      const tagged = createTask("Tagged");
+      createTask("Untagged");
+      applyTaskLabels(store, tagged, { add: ["backend"] });
+
+      expect(ctx.taskRepo.list({ projectId, label: "BACKEND" }).map((t) => t.title)).toEqual(["Tagged"]);
+    });
+
+    it("should carry renames and deletes over to tasks", () => {
+      const task = createTask("Fix login");
+      applyTaskLabels(store, task, { add: ["backend", "ui"] });
+
+      updateProjectLabel(store, projectId, "backend", { name: "api" });
+      expect(labelsOf(task.id)).toEqual(["ui", "api"]);
+
+      expect(deleteProjectLabel(store, projectId, "ui")).toBe(1);
+      expect(labelsOf(task.id)).toEqual(["api"]);
+      expect(ctx.labelRepo.listUsage(projectId).map((l) => [l.name, l.task_count])).toEqual([["api", 1]]);
+    });
+  });
+
+  describe("syncGitHubLabels", () => {
+    const synced = () => new Date(Date.now() - 60_000).toISOString();
+
+    it("should create missing status labels and local labels on GitHub", () => {
+      ctx.labelRepo.create(projectId, { name: "backend", color: "0052cc" });
+      mockedListLabels
+        .mockReturnValueOnce([])
+        .mockReturnValueOnce([...statusLabels, { id: "LA_b", name: "backend", color: "0052cc", description: "" }]);
+
+      const result = syncGitHubLabels(store, projectId, "org/repo");
+
+      expect(result.created).toEqual([...Object.keys(STATUS_LABEL_STYLES), "backend"]);
+      expect(mockedCreateLabel).toHaveBeenCalledWith(
+        { name: "blocked", color: "b60205", description: STATUS_LABEL_STYLES.blocked.description },
+        "org/repo"
+      );
+      expect(ctx.labelRepo.get(projectId, "backend")?.github_id).toBe("LA_b");
+    });
+
+    it("should import GitHub labels but not status labels", () => {
+      mockedListLabels.mockReturnValue([
+        ...statusLabels,
+        { id: "LA_1", name: "bug", color: "d73a4a", description: "Something isn't working" },
+      ]);
+
+      const result = syncGitHubLabels(store, projectId, "org/repo");
+
+      expect(result.imported).toEqual(["bug"]);
+      expect(ctx.labelRepo.list(projectId).map((l) => l.name)).toEqual(["bug"]);
+      expect(mockedCreateLabel).not.toHaveBeenCalled();
+    });
+
+    it("should push labels edited since the last sync", () => {
+      const task = createTask("Fix login");
+      ctx.labelRepo.create(projectId, { name: "backend", github_id: "LA_1", synced_at: synced() });
+      applyTaskLabels(store, task, { add: ["backend"] });
+      updateProjectLabel(store, projectId, "backend", { name: "api", color: "0052cc" });
+      mockedListLabels.mockReturnValue([
+        ...statusLabels,
+        { id: "LA_1", name: "backend", color: "ededed", description: "" },
+      ]);
+
+      const result = syncGitHubLabels(store, projectId, "org/repo");
+
+      expect(result.updated).toEqual(["api"]);
+      expect(mockedUpdateLabel).toHaveBeenCalledWith(
+        "backend",
+        { name: "api", color: "0052cc", description: "" },
+        "org/repo"
+      );
+      expect(labelsOf(task.id)).toEqual(["api"]);
+    });
+
+    it("should pull GitHub changes to unchanged labels and retag tasks", () => {
+      const task = createTask("Fix login");
+      ctx.labelRepo.create(projectId, { name: "backend", github_id: "LA_1", synced_at: synced() });
+      applyTaskLabels(store, task, { add: ["backend"] });
+      mockedListLabels.mockReturnValue([
+        ...statusLabels,
+        { id: "LA_1", name: "server", color: "5319e7", description: "Server side" },
+      ]);
+
+      const result = syncGitHubLabels(store, projectId, "org/repo");
+
+      expect(result.pulled).toEqual(["server"]);
+      expect(mockedUpdateLabel).not.toHaveBeenCalled();
+      expect(ctx.labelRepo.get(projectId, "server")).toMatchObject({ color: "5319e7", description: "Server side" });
+      expect(labelsOf(task.id)).toEqual(["server"]);
+    });
+
+    it("should propagate deletions both ways", () => {
+      const task = createTask("Fix login");
+      ctx.labelRepo.create(projectId, { name: "obsolete", github_id: "LA_1", synced_at: synced() });
+      ctx.labelRepo.create(projectId, { name: "gone", github_id: "LA_2", synced_at: synced() });
+      applyTaskLabels(store, task, { add: ["gone"] });
+      deleteProjectLabel(store, projectId, "obsolete");
+      mockedListLabels.mockReturnValue([
+        ...statusLabels,
+        { id: "LA_1", name: "obsolete", color: "ededed", description: "" },
+      ]);
+
+      const result = syncGitHubLabels(store, projectId, "org/repo");
+
+      expect(result.deleted).toEqual(["obsolete"]);
+      expect(result.removed).toEqual(["gone"]);
+      expect(mockedDeleteLabel).toHaveBeenCalledWith("obsolete", "org/repo");
+      expect(ctx.labelRepo.list(projectId, { includeDeleted: true })).toEqual([]);
+      expect(labelsOf(task.id)).toEqual([]);
+    });
+
+    it("should keep tombstones when GitHub rejects the delete", () => {
+      ctx.labelRepo.create(projectId, { name: "obsolete", github_id: "LA_1", synced_at: synced() });
+      ctx.labelRepo.remove(projectId, "obsolete");
+      mockedListLabels.mockReturnValue([
+        ...statusLabels,
+        { id: "LA_1", name: "obsolete", color: "ededed", description: "" },
+      ]);
+      mockedDeleteLabel.mockReturnValueOnce(false);
+
+      const result = syncGitHubLabels(store, projectId, "org/repo");
+
+      expect(result.errors).toEqual(["Could not delete obsolete on GitHub"]);
+      expect(ctx.labelRepo.list(projectId, { includeDeleted: true })).toHaveLength(1);
+    });
+  });
+});
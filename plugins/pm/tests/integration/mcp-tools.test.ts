@@ -5,7 +5,7 @@
  * These tests simulate the actual tool invocations.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { randomUUID } from "crypto";
 import {
   createTestContext,
@@ -13,6 +13,7 @@ import {
   type TestContext,
 } from "../helpers/mcp-test-helper.js";
 import { createTaskEvent } from "../../storage/lib/events.js";
+import { TaskRepository } from "../../mcp/lib/projections.js";
 
 describe("MCP Tools Integration", () => {
   let ctx: TestContext;
@@ -22,6 +23,7 @@ describe("MCP Tools Integration", () => {
   });
 
   afterEach(() => {
+    vi.restoreAllMocks();
     cleanupTestContext(ctx);
   });
 
@@ -179,11 +181,12 @@ describe("MCP Tools Integration", () => {
       });
 
       it("should support pagination", () => {
-        const page1 = ctx.taskRepo.list({ projectId, limit: 2, offset: 0 });
-        const page2 = ctx.taskRepo.list({ projectId, limit: 2, offset: 2 });
+        const page1 = ctx.taskRepo.listPage({ projectId, limit: 2 });
+        const page2 = ctx.taskRepo.listPage({ projectId, limit: 2, cursor: page1.nextCursor });
 
-        expect(page1).toHaveLength(2);
-        expect(page2).toHaveLength(2);
+        expect(page1.tasks).toHaveLength(2);
+        expect(page2.tasks).toHaveLength(2);
+        expect(page2.tasks.map((t) => t.id)).not.toContain(page1.tasks[0].id);
       });
     });
 
@@ -240,7 +243,7 @@ describe("MCP Tools Integration", () => {
         });
         ctx.taskRepo.syncFromEvents(taskId);
 
-        createTaskEvent(ctx.eventStore, "TaskUpdated", taskId, {
+        createTaskEvent(ctx.eventStore, "TaskAssigned", taskId, {
           assignee: "developer",
         });
         const updated = ctx.taskRepo.syncFromEvents(taskId);
@@ -465,6 +468,59 @@ describe("MCP Tools Integration", () => {
 
         expect(status?.tasks).toHaveLength(3);
       });
+
+      it("should skip tasks already in the sprint", () => {
+        const sprint = ctx.sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
+        const taskId = randomUUID();
+        createTaskEvent(ctx.eventStore, "TaskCreated", taskId, { title: "Task", projectId });
+        ctx.taskRepo.syncFromEvents(taskId);
+
+        expect(ctx.sprintRepo.addTasks(sprint.id, [taskId, taskId])).toEqual([taskId]);
+        expect(ctx.sprintRepo.addTasks(sprint.id, [taskId])).toEqual([]);
+        expect(
+          ctx.eventStore.getEvents("task", taskId).filter((e) => e.eventType === "TaskAddedToSprint")
+        ).toHaveLength(1);
+      });
+
+      it("should append with the version it read, retrying after a concurrent write", () => {
+        const sprint = ctx.sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
+        const taskId = randomUUID();
+        createTaskEvent(ctx.eventStore, "TaskCreated", taskId, { title: "Task", projectId });
+        ctx.taskRepo.syncFromEvents(taskId);
+        const syncFromEvents = TaskRepository.prototype.syncFromEvents;
+        vi.spyOn(TaskRepository.prototype, "syncFromEvents").mockImplementationOnce(function (
+          this: TaskRepository,
+          id: string
+        ) {
+          const read = syncFromEvents.call(this, id);
+          // Another writer appends between our read and our append
+          createTaskEvent(ctx.eventStore, "TaskAssigned", id, { assignee: "alice" });
+          return read;
+        });
+
+        ctx.sprintRepo.addTasks(sprint.id, [taskId]);
+
+        expect(ctx.eventStore.getEvents("task", taskId).map((e) => [e.eventType, e.version])).toEqual([
+          ["TaskCreated", 1],
+          ["TaskAssigned", 2],
+          ["TaskAddedToSprint", 3],
+        ]);
+        expect(ctx.taskRepo.getById(taskId)?.sprint_id).toBe(sprint.id);
+      });
+
+      it("should reject tasks from another project without adding any", () => {
+        const sprint = ctx.sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
+        const otherProjectId = ctx.projectRepo.create("Other").id;
+        const [ours, theirs] = [projectId, otherProjectId].map((pid) => {
+          const taskId = randomUUID();
+          createTaskEvent(ctx.eventStore, "TaskCreated", taskId, { title: "Task", projectId: pid });
+          ctx.taskRepo.syncFromEvents(taskId);
+          return taskId;
+        });
+
+        expect(() => ctx.sprintRepo.addTasks(sprint.id, [ours, theirs])).toThrow("belongs to another project");
+        expect(ctx.sprintRepo.getStatus(sprint.id)?.tasks).toHaveLength(0);
+      });
     });
 
     describe("pm_sprint_status", () => {
@@ -530,7 +586,7 @@ describe("MCP Tools Integration", () => {
 
     describe("pm_velocity_calculate", () => {
       it("should calculate velocity from completed sprints", () => {
-        // Create and complete sprints with velocity records
+        // Create and complete sprints with one finished task each
         const sprintData = [
           { name: "Sprint 1", velocity: 20 },
           { name: "Sprint 2", velocity: 25 },
@@ -544,13 +600,23 @@ describe("MCP Tools Integration", () => {
             "2025-01-01",
             "2025-01-14"
           );
+          ctx.sprintRepo.start(sprint.id);
 
-          // Manually insert velocity history record
-          ctx.dbManager.execute(
-            `INSERT INTO velocity_history (project_id, sprint_id, committed_points, completed_points, completion_rate)
-             VALUES (?, ?, ?, ?, ?)`,
-            [projectId, sprint.id, velocity, velocity, 1.0]
-          );
+          const taskId = randomUUID();
+          createTaskEvent(ctx.eventStore, "TaskCreated", taskId, {
+            title: `${name} work`,
+            projectId,
+            estimatePoints: velocity,
+          });
+          ctx.taskRepo.syncFromEvents(taskId);
+          ctx.sprintRepo.addTasks(sprint.id, [taskId]);
+          createTaskEvent(ctx.eventStore, "TaskStatusChanged", taskId, {
+            from: "todo",
+            to: "done",
+          });
+          ctx.taskRepo.syncFromEvents(taskId);
+
+          ctx.sprintRepo.complete(sprint.id);
         });
 
         const result = ctx.analyticsRepo.calculateVelocity(projectId, 3);
@@ -0,0 +1,188 @@
+/**
+ * Projection Rebuild Integration Tests
+ *
+ * Truncate-and-replay of the projection tables and drift detection
+ * against rows written outside the event store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import { DependencyRepository, type Task } from "../../mcp/lib/projections.js";
+import {
+  rebuildProjections,
+  verifyProjections,
+  formatDriftReport,
+} from "../../mcp/lib/projection-rebuilder.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+describe("Projection rebuild", () => {
+  let ctx: TestContext;
+  let projectId: string;
+  let first: Task;
+  let second: Task;
+
+  const store = () => ({ dbManager: ctx.dbManager, eventStore: ctx.eventStore });
+
+  const createTask = (id: string, title: string): Task => {
+    createTaskEvent(ctx.eventStore, "TaskCreated", id, { projectId, title });
+    return ctx.taskRepo.syncFromEvents(id)!;
+  };
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project", "Rebuild me").id;
+    const sprint = ctx.sprintRepo.create(projectId, "Sprint 1", "2025-01-06", "2025-01-19");
+
+    first = createTask("task-1", "First");
+    second = createTask("task-2", "Second");
+    createTaskEvent(ctx.eventStore, "TaskStatusChanged", first.id, { from: "todo", to: "in_progress" });
+    ctx.taskRepo.syncFromEvents(first.id);
+    ctx.sprintRepo.addTasks(sprint.id, [first.id]);
+    new DependencyRepository(ctx.dbManager, ctx.eventStore).add(second.id, first.id);
+    createTaskEvent(ctx.eventStore, "TaskTimeLogged", second.id, { minutes: 30 });
+    createTaskEvent(ctx.eventStore, "TaskEstimated", second.id, { points: 2 });
+    createTaskEvent(ctx.eventStore, "TaskStatusChanged", second.id, { from: "todo", to: "done" });
+    ctx.taskRepo.syncFromEvents(second.id);
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  describe("verifyProjections", () => {
+    it("should report no drift when tables match the events", () => {
+      const report = verifyProjections(store());
+
+      expect(report.fields).toEqual([]);
+      expect(report.missing).toEqual([]);
+      expect(report.extra).toEqual([]);
+      expect(report.checked).toEqual({ projects: 1, sprints: 1, tasks: 2, task_dependencies: 1, task_worklog: 1, estimation_accuracy: 1 });
+      expect(formatDriftReport(report)).toBe(
+        "✓ Projections match events (1 projects, 1 sprints, 2 tasks, 1 task_dependencies, 1 task_worklog, 1 estimation_accuracy)"
+      );
+    });
+
+    it("should report fields written without events and leave the tables alone", () => {
+      ctx.dbManager.execute("UPDATE tasks SET title = 'Edited directly', priority = 'high' WHERE id = ?", [first.id]);
+
+      const report = verifyProjections(store());
+
+      expect(report.fields).toEqual([
+        { table: "tasks", id: first.id, ref: "#1", field: "title", current: "Edited directly", replayed: "First" },
+        { table: "tasks", id: first.id, ref: "#1", field: "priority", current: "high", replayed: "medium" },
+      ]);
+      expect(ctx.taskRepo.getById(first.id)?.title).toBe("Edited directly");
+      expect(formatDriftReport(report)).toContain('tasks #1 title: table "Edited directly" | events "First"');
+    });
+
+    it("should not report GitHub links made before TaskGitHubLinked existed", () => {
+      ctx.dbManager.execute("UPDATE tasks SET github_issue_number = 42 WHERE id = ?", [first.id]);
+
+      expect(verifyProjections(store()).fields).toEqual([]);
+    });
+
+    it("should report missing and extra rows", () => {
+      ctx.dbManager.execute("DELETE FROM task_dependencies");
+      ctx.dbManager.execute(
+        "INSERT INTO tasks (id, seq, project_id, title) VALUES ('orphan', 9, ?, 'No events')",
+        [projectId]
+      );
+
+      const report = verifyProjections(store());
+
+      expect(report.missing).toEqual([
+        { table: "task_dependencies", id: `${second.id}→${first.id}`, ref: `${second.id}→${first.id}` },
+      ]);
+      expect(report.extra).toEqual([{ table: "tasks", id: "orphan", ref: "#9" }]);
+      expect(ctx.taskRepo.getById("orphan")).toBeDefined();
+    });
+
+    it("should ignore stale snapshots", () => {
+      ctx.eventStore.saveSnapshot("task", first.id, 2, { title: "Stale" });
+
+      expect(verifyProjections(store()).fields).toEqual([]);
+      expect(ctx.eventStore.snapshotInterval).toBeGreaterThan(0);
+    });
+  });
+
+  describe("rebuildProjections", () => {
+    it("should replace drifted rows with replayed state", () => {
+      ctx.dbManager.execute("UPDATE tasks SET title = 'Edited directly' WHERE id = ?", [first.id]);
+      ctx.dbManager.execute("UPDATE projects SET name = 'Renamed' WHERE id = ?", [projectId]);
+
+      const result = rebuildProjections(store());
+
+      expect(result.counts).toEqual({ projects: 1, sprints: 1, tasks: 2, task_dependencies: 1, task_worklog: 1, estimation_accuracy: 1 });
+      expect(ctx.taskRepo.getById(first.id)?.title).toBe("First");
+      expect(ctx.projectRepo.getById(projectId)?.name).toBe("Test Project");
+      expect(verifyProjections(store()).fields).toEqual([]);
+    });
+
+    it("should keep seq, sprint, dependencies and GitHub links", () => {
+      ctx.taskRepo.update(first.id, { github_issue_number: 7 });
+      ctx.dbManager.execute(
+        "UPDATE tasks SET github_issue_number = 42, github_project_item_id = 'PVTI_42' WHERE id = ?",
+        [second.id]
+      );
+      const before = ctx.taskRepo.getById(first.id)!;
+
+      rebuildProjections(store());
+
+      const rebuilt = ctx.taskRepo.getById(first.id)!;
+      expect(rebuilt.seq).toBe(1);
+      expect(rebuilt.status).toBe("in_progress");
+      expect(rebuilt.sprint_id).toBe(before.sprint_id);
+      expect(rebuilt.created_at).toBe(before.created_at);
+      expect(rebuilt.github_issue_number).toBe(7);
+      expect(ctx.taskRepo.getById(second.id)).toMatchObject({
+        seq: 2,
+        github_issue_number: 42,
+        github_project_item_id: "PVTI_42",
+      });
+      expect(ctx.dbManager.query("SELECT * FROM task_dependencies")).toHaveLength(1);
+    });
+
+    it("should number recreated tasks after the existing ones", () => {
+      ctx.dbManager.execute("DELETE FROM task_dependencies");
+      ctx.dbManager.execute("DELETE FROM tasks WHERE id = ?", [first.id]);
+
+      rebuildProjections(store());
+
+      expect(ctx.taskRepo.getById(second.id)?.seq).toBe(2);
+      expect(ctx.taskRepo.getById(first.id)?.seq).toBe(3);
+    });
+
+    it("should drop rows without events and clear snapshots", () => {
+      ctx.dbManager.execute("INSERT INTO tasks (id, seq, project_id, title) VALUES ('orphan', 9, ?, 'x')", [projectId]);
+      ctx.eventStore.saveSnapshot("task", first.id, 1, { title: "Stale" });
+
+      const result = rebuildProjections(store());
+
+      expect(result.snapshotsCleared).toBe(1);
+      expect(ctx.taskRepo.getById("orphan")).toBeUndefined();
+      expect(ctx.taskRepo.getById(first.id)?.title).toBe("First");
+    });
+
+    it("should roll back when a row without events is still referenced", () => {
+      ctx.dbManager.execute("INSERT INTO tasks (id, seq, project_id, title) VALUES ('orphan', 9, ?, 'x')", [projectId]);
+      ctx.conflictRepo.record(projectId, {
+        taskId: "orphan",
+        issueNumber: 1,
+        localStatus: "todo",
+        remoteStatus: "done",
+        localUpdatedAt: "2025-01-01T00:00:00Z",
+        remoteUpdatedAt: "2025-01-02T00:00:00Z",
+        fields: [],
+      });
+      ctx.dbManager.execute("UPDATE tasks SET title = 'Edited directly' WHERE id = ?", [first.id]);
+
+      expect(() => rebuildProjections(store())).toThrow("Rebuild would orphan rows in sync_conflicts");
+      expect(ctx.taskRepo.getById("orphan")).toBeDefined();
+      expect(ctx.taskRepo.getById(first.id)?.title).toBe("Edited directly");
+    });
+  });
+});
@@ -4,13 +4,15 @@
  * Tests for CQRS repositories with actual database.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { DatabaseManager } from "../../mcp/lib/db.js";
-import { EventStore } from "../../storage/lib/events.js";
+import { randomUUID } from "crypto";
+import { EventStore, createTaskEvent, createSprintEvent, createProjectEvent } from "../../storage/lib/events.js";
 import {
   ProjectRepository,
   SprintRepository,
   TaskRepository,
+  DependencyRepository,
   AnalyticsRepository,
 } from "../../mcp/lib/projections.js";
 
@@ -37,11 +39,14 @@ CREATE TABLE IF NOT EXISTS sprints (
   velocity_committed INTEGER DEFAULT 0,
   velocity_completed INTEGER DEFAULT 0,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
-  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  started_at TEXT,
+  completed_at TEXT
 );
 
 CREATE TABLE IF NOT EXISTS tasks (
   id TEXT PRIMARY KEY,
+  seq INTEGER,
   project_id TEXT NOT NULL REFERENCES projects(id),
   sprint_id TEXT REFERENCES sprints(id),
   parent_id TEXT REFERENCES tasks(id),
@@ -52,6 +57,7 @@ CREATE TABLE IF NOT EXISTS tasks (
   type TEXT DEFAULT 'task',
   estimate_points INTEGER,
   estimate_hours REAL,
+  estimate_confidence REAL,
   actual_hours REAL,
   assignee TEXT,
   labels TEXT,
@@ -60,10 +66,46 @@ CREATE TABLE IF NOT EXISTS tasks (
   branch_name TEXT,
   linked_commits TEXT,
   linked_prs TEXT,
+  github_issue_number INTEGER,
+  github_issue_url TEXT,
+  github_project_item_id TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now')),
   started_at TEXT,
-  completed_at TEXT
+  completed_at TEXT,
+  timer_started_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id TEXT NOT NULL REFERENCES tasks(id),
+  depends_on_id TEXT NOT NULL REFERENCES tasks(id),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (task_id, depends_on_id)
+);
+
+CREATE TABLE IF NOT EXISTS task_worklog (
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  started_at TEXT NOT NULL,
+  ended_at TEXT NOT NULL,
+  minutes REAL NOT NULL,
+  source TEXT NOT NULL,
+  author TEXT,
+  note TEXT,
+  PRIMARY KEY (task_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS estimation_accuracy (
+  task_id TEXT PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+  project_id TEXT NOT NULL REFERENCES projects(id),
+  type TEXT NOT NULL,
+  assignee TEXT,
+  estimate_points INTEGER,
+  estimate_hours REAL,
+  confidence REAL,
+  cycle_hours REAL,
+  logged_hours REAL,
+  completed_at TEXT NOT NULL
 );
 
 CREATE TABLE IF NOT EXISTS velocity_history (
@@ -85,7 +127,17 @@ CREATE TABLE IF NOT EXISTS events (
   payload TEXT NOT NULL,
   metadata TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
-  version INTEGER NOT NULL DEFAULT 1
+  version INTEGER NOT NULL DEFAULT 1,
+  schema_version INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS snapshots (
+  aggregate_type TEXT NOT NULL,
+  aggregate_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  state TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (aggregate_type, aggregate_id)
 );
 `;
 
@@ -186,6 +238,102 @@ describe("ProjectRepository", () => {
 
       expect(updated?.status).toBe("archived");
     });
+
+    it("should record only changed fields as events", () => {
+      const project = projectRepo.create("Project", "Same");
+
+      projectRepo.update(project.id, { name: "Renamed", description: "Same", status: "completed" });
+      projectRepo.update(project.id, { name: "Renamed" });
+
+      const events = eventStore.getEvents("project", project.id);
+      expect(events.map((e) => e.eventType)).toEqual(["ProjectCreated", "ProjectUpdated"]);
+      expect(events[1].payload).toEqual({ name: "Renamed", status: "completed" });
+    });
+
+    it("should merge settings and remove keys set to null", () => {
+      const project = projectRepo.create("Project", undefined, { unit: "points", wip: 3 });
+
+      const updated = projectRepo.update(project.id, { settings: { wip: null, lang: "ko" } });
+
+      expect(updated?.settings).toEqual({ unit: "points", lang: "ko" });
+      expect(eventStore.getEvents("project", project.id)[1].eventType).toBe("ProjectSettingsChanged");
+    });
+
+    it("should unarchive before applying other status changes", () => {
+      const project = projectRepo.create("Project");
+      projectRepo.archive(project.id);
+
+      const updated = projectRepo.update(project.id, { status: "completed" });
+
+      expect(updated?.status).toBe("completed");
+      expect(eventStore.getEvents("project", project.id).map((e) => e.eventType)).toEqual([
+        "ProjectCreated",
+        "ProjectArchived",
+        "ProjectUnarchived",
+        "ProjectUpdated",
+      ]);
+    });
+
+    it("should reject unknown statuses", () => {
+      const project = projectRepo.create("Project");
+
+      expect(() => projectRepo.update(project.id, { status: "paused" })).toThrow(
+        "Invalid project status: paused"
+      );
+    });
+
+    it("should return undefined for non-existent project", () => {
+      expect(projectRepo.update("missing", { name: "x" })).toBeUndefined();
+    });
+  });
+
+  describe("archive", () => {
+    it("should archive and restore a project", () => {
+      const project = projectRepo.create("Project");
+
+      expect(projectRepo.archive(project.id, "Done with it")?.status).toBe("archived");
+      expect(projectRepo.unarchive(project.id)?.status).toBe("active");
+      expect(eventStore.getEvents("project", project.id)[1].payload).toEqual({ reason: "Done with it" });
+    });
+
+    it("should not record events when already archived or active", () => {
+      const project = projectRepo.create("Project");
+      projectRepo.unarchive(project.id);
+      projectRepo.archive(project.id);
+      projectRepo.archive(project.id);
+
+      expect(eventStore.getEvents("project", project.id)).toHaveLength(2);
+    });
+
+    it("should decide from a fresh read after a concurrent write", () => {
+      const project = projectRepo.create("Project");
+      const syncFromEvents = projectRepo.syncFromEvents.bind(projectRepo);
+      vi.spyOn(projectRepo, "syncFromEvents").mockImplementationOnce((id) => {
+        const read = syncFromEvents(id);
+        // Another writer archives between our read and our append
+        createProjectEvent(eventStore, "ProjectArchived", id, { reason: "Elsewhere" });
+        return read;
+      });
+
+      expect(projectRepo.archive(project.id, "Here")?.status).toBe("archived");
+      expect(eventStore.getEvents("project", project.id).map((e) => [e.eventType, e.payload])).toEqual([
+        ["ProjectCreated", expect.anything()],
+        ["ProjectArchived", { reason: "Elsewhere" }],
+      ]);
+    });
+
+    it("should hide archived projects from the default listing", () => {
+      const kept = projectRepo.create("Kept");
+      const archived = projectRepo.create("Archived");
+      const done = projectRepo.create("Done");
+      projectRepo.archive(archived.id);
+      projectRepo.update(done.id, { status: "completed" });
+
+      expect(projectRepo.list().map((p) => p.id).sort()).toEqual([kept.id, done.id].sort());
+      expect(projectRepo.list({ includeArchived: true })).toHaveLength(3);
+      expect(projectRepo.list({ status: "archived" }).map((p) => p.id)).toEqual([archived.id]);
+      expect(projectRepo.list({ status: "completed" }).map((p) => p.id)).toEqual([done.id]);
+    });
   });
 });
 
@@ -261,6 +409,23 @@ describe("SprintRepository", () => {
 
       expect(started?.status).toBe("active");
     });
+
+    it("should append with the version it read, retrying after a concurrent write", () => {
+      const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
+      const syncFromEvents = sprintRepo.syncFromEvents.bind(sprintRepo);
+      vi.spyOn(sprintRepo, "syncFromEvents").mockImplementationOnce((id) => {
+        const read = syncFromEvents(id);
+        // Another writer appends between our read and our append
+        createSprintEvent(eventStore, "SprintStarted", id, {});
+        return read;
+      });
+
+      const getVersion = vi.spyOn(eventStore, "getVersion");
+
+      expect(sprintRepo.start(sprint.id)?.status).toBe("active");
+      expect(getVersion).toHaveBeenCalledTimes(2);
+      expect(eventStore.getEvents("sprint", sprint.id).map((e) => e.version)).toEqual([1, 2, 3]);
+    });
   });
 
   describe("getActive", () => {
@@ -330,6 +495,28 @@ describe("SprintRepository", () => {
       const history = db.query("SELECT * FROM velocity_history WHERE sprint_id = ?", [sprint.id]);
       expect(history).toHaveLength(1);
     });
+
+    it("should retry from a fresh read after a concurrent write", () => {
+      const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
+      const getStatus = sprintRepo.getStatus.bind(sprintRepo);
+      const spy = vi.spyOn(sprintRepo, "getStatus").mockImplementationOnce((id) => {
+        // Another writer starts the sprint between our read and our append
+        createSprintEvent(eventStore, "SprintStarted", id, {});
+        return getStatus(id);
+      });
+
+      const completed = sprintRepo.complete(sprint.id);
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(completed?.status).toBe("completed");
+      expect(eventStore.getEvents("sprint", sprint.id).map((e) => e.eventType)).toEqual([
+        "SprintCreated",
+        "SprintStarted",
+        "SprintCompleted",
+        "SprintVelocityRecorded",
+      ]);
+      expect(db.query("SELECT * FROM velocity_history WHERE sprint_id = ?", [sprint.id])).toHaveLength(1);
+    });
   });
 });
 
@@ -434,20 +621,86 @@ describe("TaskRepository", () => {
       expect(tasks[0].priority).toBe("high");
     });
 
-    it("should support limit and offset", () => {
-      const tasks = taskRepo.list({ projectId, limit: 2, offset: 1 });
+    it("should support limit and cursor", () => {
+      const first = taskRepo.listPage({ projectId, limit: 1 });
+      const tasks = taskRepo.list({ projectId, limit: 2, cursor: first.nextCursor });
 
       expect(tasks).toHaveLength(2);
+      expect(tasks.map((t) => t.id)).not.toContain(first.tasks[0].id);
     });
   });
 
-  describe("update", () => {
-    beforeEach(() => {
+  describe("list with query", () => {
+    const insert = (id: string, fields: Record<string, unknown>) => {
+      const row = { project_id: projectId, title: id, status: "todo", priority: "medium", ...fields };
       db.execute(
-        `INSERT INTO tasks (id, project_id, title, status, priority, type)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        ["t1", projectId, "Original", "todo", "medium", "task"]
+        `INSERT INTO tasks (id, ${Object.keys(row).join(", ")}) VALUES (?, ${Object.keys(row).map(() => "?").join(", ")})`,
+        [id, ...Object.values(row)]
       );
+    };
+    const ids = (tasks: { id: string }[]) => tasks.map((t) => t.id);
+
+    beforeEach(() => {
+      insert("login", {
+        status: "in_progress", priority: "high", assignee: "alice",
+        labels: JSON.stringify(["backend", "auth"]), due_date: "2026-10-25", description: "Fix the login flow",
+      });
+      insert("review", {
+        status: "in_review", priority: "critical", assignee: "bob",
+        labels: JSON.stringify(["Backend"]), due_date: "2026-11-05",
+      });
+      insert("docs", { priority: "low", labels: JSON.stringify(["docs"]), due_date: "2026-10-20" });
+      insert("cache", { status: "in_progress", priority: "medium", assignee: "alice", labels: JSON.stringify(["backend"]) });
+    });
+
+    it("should combine terms", () => {
+      const tasks = taskRepo.list({
+        projectId,
+        query: 'status:in_progress,in_review priority:>=high label:backend due:<2026-11-01 -assignee:bob text:"login"',
+      });
+
+      expect(ids(tasks)).toEqual(["login"]);
+    });
+
+    it("should keep unassigned tasks when negating an assignee", () => {
+      const tasks = taskRepo.list({ projectId, query: "-assignee:me", me: () => "alice", sort: "title" });
+
+      expect(ids(tasks)).toEqual(["docs", "review"]);
+    });
+
+    it("should treat query values as data, not SQL", () => {
+      expect(taskRepo.list({ projectId, query: "label:\"x') OR 1=1 --\"" })).toEqual([]);
+      expect(taskRepo.list({ projectId })).toHaveLength(4);
+    });
+
+    it("should sort by several keys", () => {
+      expect(ids(taskRepo.list({ projectId, sort: "-priority" }))).toEqual(["review", "login", "cache", "docs"]);
+      expect(ids(taskRepo.list({ projectId, query: "sort:due,title" }))).toEqual(["docs", "login", "review", "cache"]);
+    });
+
+    it("should page with cursors until the last page", () => {
+      const first = taskRepo.listPage({ projectId, sort: "due", limit: 3 });
+      const second = taskRepo.listPage({ projectId, sort: "due", limit: 3, cursor: first.nextCursor });
+
+      expect(ids(first.tasks)).toEqual(["docs", "login", "review"]);
+      expect(ids(second.tasks)).toEqual(["cache"]);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it("should not shift pages when tasks are added before the cursor", () => {
+      const first = taskRepo.listPage({ projectId, sort: "due", limit: 2 });
+      insert("early", { due_date: "2026-01-01" });
+
+      const second = taskRepo.listPage({ projectId, sort: "due", limit: 2, cursor: first.nextCursor });
+
+      expect(ids(second.tasks)).toEqual(["review", "cache"]);
+    });
+  });
+
+  describe("update", () => {
+    beforeEach(() => {
+      createTaskEvent(eventStore, "TaskCreated", "t1", { projectId, title: "Original" });
+      taskRepo.syncFromEvents("t1");
     });
 
     it("should update task title", () => {
@@ -479,6 +732,69 @@ describe("TaskRepository", () => {
 
       expect(updated?.assignee).toBe("john");
     });
+
+    it("should record each change as an event", () => {
+      taskRepo.update(
+        "t1",
+        {
+          title: "Updated",
+          assignee: "john",
+          estimate_hours: 3,
+          linked_prs: "[12]",
+          github_issue_number: 42,
+        },
+        { source: "test" }
+      );
+
+      const events = eventStore.getEvents("task", "t1").slice(1);
+      expect(events.map((e) => [e.eventType, e.payload])).toEqual([
+        ["TaskUpdated", { title: "Updated" }],
+        ["TaskAssigned", { assignee: "john" }],
+        ["TaskEstimated", { hours: 3 }],
+        ["TaskLinkedToPR", { prNumber: 12 }],
+        ["TaskGitHubLinked", { issueNumber: 42 }],
+      ]);
+      expect(events[0].metadata).toEqual({ source: "test" });
+      expect(taskRepo.getById("t1")).toMatchObject({
+        estimate_hours: 3,
+        linked_prs: "[12]",
+        github_issue_number: 42,
+      });
+    });
+
+    it("should keep the other estimate and clear fields", () => {
+      taskRepo.update("t1", { estimate_points: 5, description: "Notes" });
+
+      const updated = taskRepo.update("t1", { estimate_hours: 2, description: "" });
+
+      expect(updated?.estimate_points).toBe(5);
+      expect(updated?.estimate_hours).toBe(2);
+      expect(updated?.description).toBeNull();
+    });
+
+    it("should retry from a fresh read after a concurrent write", () => {
+      const seen: string[] = [];
+
+      const updated = taskRepo.appendEvents("t1", (task) => {
+        seen.push(task.title);
+        if (seen.length === 1) {
+          // Another writer appends between our read and our append
+          createTaskEvent(eventStore, "TaskUpdated", "t1", { title: "Concurrent" });
+        }
+        return [{ type: "TaskUpdated", payload: { description: `after ${task.title}` } }];
+      });
+
+      expect(seen).toEqual(["Original", "Concurrent"]);
+      expect(updated?.title).toBe("Concurrent");
+      expect(updated?.description).toBe("after Concurrent");
+      expect(eventStore.getEvents("task", "t1")).toHaveLength(3);
+    });
+
+    it("should not record unchanged fields", () => {
+      taskRepo.update("t1", { title: "Original", status: "todo", labels: undefined });
+
+      expect(eventStore.getEvents("task", "t1")).toHaveLength(1);
+    });
   });
 
   describe("getByStatus", () => {
@@ -511,21 +827,175 @@ describe("TaskRepository", () => {
   });
 });
 
+describe("DependencyRepository", () => {
+  let db: DatabaseManager;
+  let eventStore: EventStore;
+  let taskRepo: TaskRepository;
+  let dependencyRepo: DependencyRepository;
+  let projectId: string;
+
+  beforeEach(() => {
+    db = new DatabaseManager(":memory:");
+    db.getDb().exec(TEST_SCHEMA);
+    eventStore = new EventStore(":memory:", true);
+    taskRepo = new TaskRepository(db, eventStore);
+    dependencyRepo = new DependencyRepository(db, eventStore);
+
+    projectId = new ProjectRepository(db, eventStore).create("Test Project").id;
+  });
+
+  afterEach(() => {
+    db.close();
+    eventStore.close();
+  });
+
+  function createTask(title: string, estimatePoints?: number): string {
+    const taskId = randomUUID();
+    createTaskEvent(eventStore, "TaskCreated", taskId, { title, projectId, estimatePoints });
+    taskRepo.syncFromEvents(taskId);
+    return taskId;
+  }
+
+  describe("add", () => {
+    it("should record a dependency from events", () => {
+      const a = createTask("A");
+      const b = createTask("B");
+
+      const dep = dependencyRepo.add(a, b);
+
+      expect(dep?.depends_on_id).toBe(b);
+      expect(dependencyRepo.getDependencies(a).map((t) => t.id)).toEqual([b]);
+      expect(dependencyRepo.getDependents(b).map((t) => t.id)).toEqual([a]);
+      expect(eventStore.getEvents("task", a).map((e) => e.eventType)).toContain(
+        "TaskDependencyAdded"
+      );
+    });
+
+    it("should not duplicate an existing dependency", () => {
+      const a = createTask("A");
+      const b = createTask("B");
+
+      dependencyRepo.add(a, b);
+      dependencyRepo.add(a, b);
+
+      expect(dependencyRepo.getDependencies(a)).toHaveLength(1);
+      expect(eventStore.getEvents("task", a)).toHaveLength(2);
+    });
+
+    it("should reject self dependencies", () => {
+      const a = createTask("A");
+
+      expect(dependencyRepo.add(a, a)).toBeUndefined();
+      expect(dependencyRepo.findCycle(a, a)).toEqual([a, a]);
+    });
+
+    it("should reject edges that close a cycle", () => {
+      const a = createTask("A");
+      const b = createTask("B");
+      const c = createTask("C");
+      dependencyRepo.add(a, b);
+      dependencyRepo.add(b, c);
+
+      expect(dependencyRepo.findCycle(c, a)).toEqual([c, a, b, c]);
+      expect(dependencyRepo.add(c, a)).toBeUndefined();
+      expect(dependencyRepo.getDependencies(c)).toHaveLength(0);
+      expect(eventStore.getEvents("task", c)).toHaveLength(1);
+    });
+  });
+
+  it("should retry when the task changed after it was read", () => {
+    const a = createTask("A");
+    const b = createTask("B");
+    // A stale read: the version is behind the task's stream
+    vi.spyOn(eventStore, "getVersion").mockReturnValueOnce(0);
+
+    expect(dependencyRepo.add(a, b)?.depends_on_id).toBe(b);
+    expect(eventStore.getEvents("task", a).map((e) => [e.eventType, e.version])).toEqual([
+      ["TaskCreated", 1],
+      ["TaskDependencyAdded", 2],
+    ]);
+  });
+
+  describe("remove", () => {
+    it("should remove a dependency", () => {
+      const a = createTask("A");
+      const b = createTask("B");
+      dependencyRepo.add(a, b);
+
+      expect(dependencyRepo.remove(a, b)).toBe(true);
+      expect(dependencyRepo.getDependencies(a)).toHaveLength(0);
+    });
+
+    it("should return false when the dependency does not exist", () => {
+      expect(dependencyRepo.remove(createTask("A"), createTask("B"))).toBe(false);
+    });
+  });
+
+  describe("getBlockingChain", () => {
+    it("should return open blockers transitively with depth", () => {
+      const target = createTask("Target");
+      const direct = createTask("Direct");
+      const indirect = createTask("Indirect");
+      dependencyRepo.add(target, direct);
+      dependencyRepo.add(direct, indirect);
+
+      const chain = dependencyRepo.getBlockingChain(target);
+
+      expect(chain.map((t) => [t.id, t.depth])).toEqual([
+        [direct, 1],
+        [indirect, 2],
+      ]);
+    });
+
+    it("should not traverse through finished blockers", () => {
+      const target = createTask("Target");
+      const done = createTask("Done");
+      const behindDone = createTask("Behind done");
+      dependencyRepo.add(target, done);
+      dependencyRepo.add(done, behindDone);
+
+      createTaskEvent(eventStore, "TaskStatusChanged", done, { from: "todo", to: "done" });
+      taskRepo.syncFromEvents(done);
+
+      expect(dependencyRepo.getBlockingChain(target)).toHaveLength(0);
+    });
+  });
+
+  describe("getCriticalPath", () => {
+    it("should follow the heaviest chain of open blockers", () => {
+      const release = createTask("Release", 1);
+      const api = createTask("API", 3);
+      const schema = createTask("Schema", 8);
+      const docs = createTask("Docs", 2);
+      dependencyRepo.add(release, api);
+      dependencyRepo.add(release, docs);
+      dependencyRepo.add(api, schema);
+
+      const path = dependencyRepo.getCriticalPath(release);
+
+      expect(path.map((t) => t.title)).toEqual(["Schema", "API", "Release"]);
+    });
+  });
+});
+
 describe("AnalyticsRepository", () => {
   let db: DatabaseManager;
   let eventStore: EventStore;
   let projectRepo: ProjectRepository;
   let sprintRepo: SprintRepository;
+  let taskRepo: TaskRepository;
   let analyticsRepo: AnalyticsRepository;
   let projectId: string;
 
   beforeEach(() => {
     db = new DatabaseManager(":memory:");
     db.getDb().exec(TEST_SCHEMA);
-    eventStore = new EventStore(":memory:", true);
+    // Share the connection so tests can backdate events
+    eventStore = new EventStore(db.getDb());
     projectRepo = new ProjectRepository(db, eventStore);
     sprintRepo = new SprintRepository(db, eventStore);
-    analyticsRepo = new AnalyticsRepository(db);
+    taskRepo = new TaskRepository(db, eventStore);
+    analyticsRepo = new AnalyticsRepository(db, eventStore);
 
     const project = projectRepo.create("Test Project");
     projectId = project.id;
@@ -533,9 +1003,49 @@ describe("AnalyticsRepository", () => {
 
   afterEach(() => {
     db.close();
-    eventStore.close();
   });
 
+  function createTask(points: number, sprintId: string, at?: string): string {
+    const taskId = randomUUID();
+    createTaskEvent(eventStore, "TaskCreated", taskId, {
+      title: `Task ${points}`,
+      projectId,
+      estimatePoints: points,
+    });
+    createTaskEvent(eventStore, "TaskAddedToSprint", taskId, { sprintId });
+    if (at) backdate(taskId, at);
+    taskRepo.syncFromEvents(taskId);
+    return taskId;
+  }
+
+  function setStatus(taskId: string, to: string, at?: string): void {
+    const event = createTaskEvent(eventStore, "TaskStatusChanged", taskId, {
+      from: "todo",
+      to,
+    });
+    if (at) backdate(taskId, at, event.eventId);
+    taskRepo.syncFromEvents(taskId);
+  }
+
+  function backdate(taskId: string, at: string, eventId?: string): void {
+    db.execute(
+      `UPDATE events SET created_at = ? WHERE aggregate_id = ?${eventId ? " AND event_id = ?" : ""}`,
+      eventId ? [at, taskId, eventId] : [at, taskId]
+    );
+  }
+
+  function completeSprint(name: string, done: number[], open: number[] = []) {
+    const sprint = sprintRepo.create(projectId, name, "2025-01-01", "2025-01-14");
+    sprintRepo.start(sprint.id);
+    for (const points of done) {
+      setStatus(createTask(points, sprint.id), "done");
+    }
+    for (const points of open) {
+      createTask(points, sprint.id);
+    }
+    return sprintRepo.complete(sprint.id)!;
+  }
+
   describe("calculateVelocity", () => {
     it("should return zero for no history", () => {
       const velocity = analyticsRepo.calculateVelocity(projectId);
@@ -546,20 +1056,8 @@ describe("AnalyticsRepository", () => {
     });
 
     it("should calculate average velocity", () => {
-      // Create sprints with velocity history
-      const sprint1 = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
-      const sprint2 = sprintRepo.create(projectId, "Sprint 2", "2025-01-15", "2025-01-28");
-
-      db.execute(
-        `INSERT INTO velocity_history (project_id, sprint_id, committed_points, completed_points, completion_rate)
-         VALUES (?, ?, ?, ?, ?)`,
-        [projectId, sprint1.id, 20, 15, 0.75]
-      );
-      db.execute(
-        `INSERT INTO velocity_history (project_id, sprint_id, committed_points, completed_points, completion_rate)
-         VALUES (?, ?, ?, ?, ?)`,
-        [projectId, sprint2.id, 20, 20, 1.0]
-      );
+      completeSprint("Sprint 1", [5, 10], [5]);
+      completeSprint("Sprint 2", [20]);
 
       const velocity = analyticsRepo.calculateVelocity(projectId, 2);
 
@@ -568,31 +1066,62 @@ describe("AnalyticsRepository", () => {
     });
 
     it("should calculate standard deviation", () => {
-      const sprint1 = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
-      const sprint2 = sprintRepo.create(projectId, "Sprint 2", "2025-01-15", "2025-01-28");
-      const sprint3 = sprintRepo.create(projectId, "Sprint 3", "2025-01-29", "2025-02-11");
-
-      // Consistent velocity
-      db.execute(
-        `INSERT INTO velocity_history (project_id, sprint_id, committed_points, completed_points, completion_rate)
-         VALUES (?, ?, ?, ?, ?)`,
-        [projectId, sprint1.id, 20, 20, 1.0]
-      );
-      db.execute(
-        `INSERT INTO velocity_history (project_id, sprint_id, committed_points, completed_points, completion_rate)
-         VALUES (?, ?, ?, ?, ?)`,
-        [projectId, sprint2.id, 20, 20, 1.0]
-      );
-      db.execute(
-        `INSERT INTO velocity_history (project_id, sprint_id, committed_points, completed_points, completion_rate)
-         VALUES (?, ?, ?, ?, ?)`,
-        [projectId, sprint3.id, 20, 20, 1.0]
-      );
+      completeSprint("Sprint 1", [20]);
+      completeSprint("Sprint 2", [20]);
+      completeSprint("Sprint 3", [20]);
 
       const velocity = analyticsRepo.calculateVelocity(projectId, 3);
 
       expect(velocity.stdDev).toBe(0);
     });
+
+    it("should ignore sprints that are not completed", () => {
+      completeSprint("Sprint 1", [8]);
+      const active = sprintRepo.create(projectId, "Sprint 2", "2025-01-15", "2025-01-28");
+      sprintRepo.start(active.id);
+      setStatus(createTask(13, active.id), "done");
+
+      const velocity = analyticsRepo.calculateVelocity(projectId);
+
+      expect(velocity.trend).toHaveLength(1);
+      expect(velocity.average).toBe(8);
+    });
+
+    it("should not count work finished after the sprint was completed", () => {
+      const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-14");
+      sprintRepo.start(sprint.id);
+      const late = createTask(5, sprint.id);
+      setStatus(createTask(3, sprint.id), "done");
+      sprintRepo.complete(sprint.id);
+
+      setStatus(late, "done", new Date(Date.now() + 60_000).toISOString());
+
+      const [data] = analyticsRepo.calculateVelocity(projectId).trend;
+      expect(data.committed_points).toBe(8);
+      expect(data.completed_points).toBe(3);
+      expect(data.completion_rate).toBeCloseTo(0.375);
+    });
+
+    it("should read the project's task events once for all sprints", () => {
+      completeSprint("Sprint 1", [5]);
+      completeSprint("Sprint 2", [8]);
+      completeSprint("Sprint 3", [13]);
+      const other = projectRepo.create("Other Project");
+      createTaskEvent(eventStore, "TaskCreated", "elsewhere", { title: "Elsewhere", projectId: other.id });
+      const read = vi.spyOn(eventStore, "getProjectTaskEvents");
+
+      const velocity = analyticsRepo.calculateVelocity(projectId);
+
+      expect(velocity.trend.map((v) => [v.sprint_name, v.completed_points]).sort()).toEqual([
+        ["Sprint 1", 5],
+        ["Sprint 2", 8],
+        ["Sprint 3", 13],
+      ]);
+      expect(read).toHaveBeenCalledTimes(1);
+      expect(read.mock.results[0].value.some((e: { aggregateId: string }) => e.aggregateId === "elsewhere")).toBe(
+        false
+      );
+    });
   });
 
   describe("getBurndownData", () => {
@@ -604,39 +1133,23 @@ describe("AnalyticsRepository", () => {
 
     it("should generate burndown points for sprint", () => {
       const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-07");
-
-      // Add tasks
-      db.execute(
-        `INSERT INTO tasks (id, project_id, sprint_id, title, status, estimate_points)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        ["t1", projectId, sprint.id, "Task 1", "todo", 5]
-      );
-      db.execute(
-        `INSERT INTO tasks (id, project_id, sprint_id, title, status, estimate_points)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        ["t2", projectId, sprint.id, "Task 2", "todo", 3]
-      );
+      createTask(5, sprint.id, "2025-01-01T09:00:00.000Z");
+      createTask(3, sprint.id, "2025-01-01T09:00:00.000Z");
 
       const burndown = analyticsRepo.getBurndownData(sprint.id);
 
-      expect(burndown.length).toBeGreaterThan(0);
+      expect(burndown).toHaveLength(7);
+      expect(burndown[0].date).toBe("2025-01-01");
       expect(burndown[0].remaining_points).toBe(8);
       expect(burndown[0].ideal_points).toBe(8);
+      expect(burndown[6].ideal_points).toBe(0);
     });
 
     it("should track completion progress", () => {
       const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-07");
-
-      db.execute(
-        `INSERT INTO tasks (id, project_id, sprint_id, title, status, estimate_points, completed_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        ["t1", projectId, sprint.id, "Task 1", "done", 5, "2025-01-02T10:00:00Z"]
-      );
-      db.execute(
-        `INSERT INTO tasks (id, project_id, sprint_id, title, status, estimate_points)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        ["t2", projectId, sprint.id, "Task 2", "todo", 3]
-      );
+      const t1 = createTask(5, sprint.id, "2025-01-01T09:00:00.000Z");
+      createTask(3, sprint.id, "2025-01-01T09:00:00.000Z");
+      setStatus(t1, "done", "2025-01-02T10:00:00.000Z");
 
       const burndown = analyticsRepo.getBurndownData(sprint.id);
 
@@ -644,6 +1157,35 @@ describe("AnalyticsRepository", () => {
       expect(burndown[0].remaining_points).toBe(8);
       // Day 1 (after completion): 3 points remaining
       expect(burndown[1].remaining_points).toBe(3);
+      expect(burndown[6].remaining_points).toBe(3);
+    });
+
+    it("should reflect scope added mid-sprint and re-estimates", () => {
+      const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-07");
+      const t1 = createTask(5, sprint.id, "2025-01-01T09:00:00.000Z");
+      createTask(2, sprint.id, "2025-01-03T09:00:00.000Z");
+
+      const estimate = createTaskEvent(eventStore, "TaskEstimated", t1, { points: 8 });
+      backdate(t1, "2025-01-04T09:00:00.000Z", estimate.eventId);
+
+      const burndown = analyticsRepo.getBurndownData(sprint.id);
+
+      expect(burndown.map((p) => p.remaining_points)).toEqual([5, 5, 7, 10, 10, 10, 10]);
+      // Ideal line stays anchored to the scope at sprint start
+      expect(burndown[0].ideal_points).toBe(5);
+    });
+
+    it("should produce the same result when replayed again later", () => {
+      const sprint = sprintRepo.create(projectId, "Sprint 1", "2025-01-01", "2025-01-07");
+      const t1 = createTask(5, sprint.id, "2025-01-01T09:00:00.000Z");
+      setStatus(t1, "done", "2025-01-02T10:00:00.000Z");
+
+      const before = analyticsRepo.getBurndownData(sprint.id);
+
+      // Reopening the task today does not rewrite the historical sprint
+      setStatus(t1, "todo");
+
+      expect(analyticsRepo.getBurndownData(sprint.id)).toEqual(before);
     });
   });
 });
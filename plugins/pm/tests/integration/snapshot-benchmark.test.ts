@@ -0,0 +1,83 @@
+/**
+ * Snapshot Replay Benchmark
+ *
+ * TaskRepository.syncFromEvents on a long-lived task: with snapshots the
+ * number of replayed events stays flat as history grows. Counts events read
+ * rather than timing syncs, so results do not depend on machine load.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createTaskEvent, DEFAULT_SNAPSHOT_INTERVAL } from "../../storage/lib/events.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+const TASK_ID = "epic-1";
+
+describe("Snapshot replay benchmark", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    const projectId = ctx.projectRepo.create("Bench").id;
+    createTaskEvent(ctx.eventStore, "TaskCreated", TASK_ID, { projectId, title: "Long-lived epic" });
+    ctx.taskRepo.syncFromEvents(TASK_ID);
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  /** Link commits, syncing the projection after each write like the tools do */
+  const growHistory = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      createTaskEvent(ctx.eventStore, "TaskLinkedToCommit", TASK_ID, { commitSha: `sha-${Math.random()}` });
+      ctx.taskRepo.syncFromEvents(TASK_ID);
+    }
+  };
+
+  /** Events read from the store by one sync */
+  const replayedPerSync = (): number => {
+    const spy = vi.spyOn(ctx.eventStore, "getEvents");
+    ctx.taskRepo.syncFromEvents(TASK_ID);
+    const count = (spy.mock.results[0].value as unknown[]).length;
+    spy.mockRestore();
+    return count;
+  };
+
+  it("should replay a bounded tail regardless of history length", () => {
+    const tails: number[] = [];
+    for (let step = 0; step < 6; step++) {
+      growHistory(100);
+      tails.push(replayedPerSync());
+    }
+
+    expect(ctx.eventStore.getEvents("task", TASK_ID)).toHaveLength(601);
+    for (const tail of tails) {
+      expect(tail).toBeLessThan(DEFAULT_SNAPSHOT_INTERVAL);
+    }
+    expect(ctx.taskRepo.getById(TASK_ID)?.linked_commits).toBeDefined();
+    expect(JSON.parse(ctx.taskRepo.getById(TASK_ID)!.linked_commits!)).toHaveLength(600);
+  });
+
+  it("should replay the full history when snapshots are disabled", () => {
+    ctx.eventStore.snapshotInterval = 0;
+    growHistory(300);
+
+    expect(replayedPerSync()).toBe(301);
+  });
+
+  it("should not read more events per sync as history grows 10x", () => {
+    growHistory(100);
+    const small = replayedPerSync();
+
+    growHistory(900);
+    const large = replayedPerSync();
+
+    // Full replay would read 101 and 1001 events
+    expect(small).toBeLessThan(DEFAULT_SNAPSHOT_INTERVAL);
+    expect(large).toBeLessThan(DEFAULT_SNAPSHOT_INTERVAL);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * syncPull Integration Tests
+ *
+ * GitHub issues imported into the task store with a mocked GitHub module.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../../lib/github.js", () => ({
+  getRepoInfo: vi.fn(),
+  getIssue: vi.fn(),
+  listIssues: vi.fn(),
+  updateIssueState: vi.fn(),
+  addIssueComment: vi.fn(),
+}));
+
+import { listIssues, type GitHubIssue } from "../../lib/github.js";
+import { syncPull, type SyncConfig } from "../../lib/sync.js";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+const mockedListIssues = vi.mocked(listIssues);
+
+function issue(number: number, overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return {
+    number,
+    url: `https://github.com/org/repo/issues/${number}`,
+    title: `Issue ${number}`,
+    body: "",
+    state: "open",
+    labels: [],
+    assignees: [],
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: `2025-01-01T00:00:${String(number % 60).padStart(2, "0")}Z`,
+    ...overrides,
+  };
+}
+
+describe("syncPull", () => {
+  let ctx: TestContext;
+  let projectId: string;
+  let config: SyncConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+    ctx.configRepo.create(projectId, { github_enabled: true, github_repo: "org/repo" });
+    config = { githubEnabled: true, syncMode: "read_only", projectId };
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  const pull = () =>
+    syncPull(config, {
+      eventStore: ctx.eventStore,
+      taskRepo: ctx.taskRepo,
+      projectRepo: ctx.projectRepo,
+      configRepo: ctx.configRepo,
+    });
+
+  it("should do nothing when GitHub is disabled", () => {
+    const result = syncPull(
+      { ...config, githubEnabled: false },
+      {
+        eventStore: ctx.eventStore,
+        taskRepo: ctx.taskRepo,
+        projectRepo: ctx.projectRepo,
+        configRepo: ctx.configRepo,
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockedListIssues).not.toHaveBeenCalled();
+  });
+
+  it("should fail when no repo is configured", () => {
+    ctx.configRepo.update(projectId, { github_repo: "" });
+
+    const result = pull();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("not configured");
+  });
+
+  it("should refuse to pull into an archived project", () => {
+    ctx.projectRepo.archive(projectId);
+
+    const result = pull();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("Project is archived");
+    expect(mockedListIssues).not.toHaveBeenCalled();
+    expect(ctx.taskRepo.list({ projectId })).toHaveLength(0);
+  });
+
+  it("should create tasks for unknown issues", () => {
+    mockedListIssues.mockReturnValueOnce([
+      issue(7, { title: "Login broken", body: "Steps...", labels: ["bug", "in-progress"] }),
+      issue(8, { state: "closed" }),
+    ]);
+
+    const result = pull();
+
+    expect(result.pulled).toMatchObject({ issues: 2, created: 2, updated: 0 });
+
+    const task = ctx.taskRepo.getByGitHubIssue(projectId, 7)!;
+    expect(task.title).toBe("Login broken");
+    expect(task.description).toBe("Steps...");
+    expect(task.type).toBe("bug");
+    expect(task.status).toBe("in_progress");
+    expect(JSON.parse(task.labels!)).toEqual(["bug"]);
+    expect(task.github_issue_url).toBe("https://github.com/org/repo/issues/7");
+
+    expect(ctx.taskRepo.getByGitHubIssue(projectId, 8)?.status).toBe("done");
+    expect(ctx.taskRepo.list({ projectId })).toHaveLength(2);
+  });
+
+  it("should update title, labels and status of known issues with events", () => {
+    mockedListIssues.mockReturnValueOnce([issue(7)]);
+    pull();
+    const taskId = ctx.taskRepo.getByGitHubIssue(projectId, 7)!.id;
+
+    mockedListIssues.mockReturnValueOnce([
+      issue(7, { title: "Renamed", labels: ["backend"], state: "closed" }),
+    ]);
+    const result = pull();
+
+    expect(result.pulled).toMatchObject({ created: 0, updated: 1 });
+    const task = ctx.taskRepo.getById(taskId)!;
+    expect(task.title).toBe("Renamed");
+    expect(JSON.parse(task.labels!)).toEqual(["backend"]);
+    expect(task.status).toBe("done");
+
+    const types = ctx.eventStore.getEvents("task", taskId).map((e) => e.eventType);
+    expect(types).toEqual(["TaskCreated", "TaskGitHubLinked", "TaskUpdated", "TaskStatusChanged"]);
+  });
+
+  it("should decide changes from the task's events, not a stale projection", () => {
+    mockedListIssues.mockReturnValueOnce([issue(7)]);
+    pull();
+    const taskId = ctx.taskRepo.getByGitHubIssue(projectId, 7)!.id;
+    // A local move the projection has not caught up with yet
+    createTaskEvent(ctx.eventStore, "TaskStatusChanged", taskId, { from: "todo", to: "in_progress" });
+
+    mockedListIssues.mockReturnValueOnce([issue(7, { state: "closed" })]);
+    pull();
+
+    const changes = ctx.eventStore.getEvents("task", taskId).filter((e) => e.eventType === "TaskStatusChanged");
+    expect(changes.at(-1)?.payload).toMatchObject({ from: "in_progress", to: "done" });
+    expect(ctx.taskRepo.getById(taskId)?.status).toBe("done");
+  });
+
+  it("should not emit events for unchanged issues", () => {
+    mockedListIssues.mockReturnValue([issue(7)]);
+    pull();
+    const taskId = ctx.taskRepo.getByGitHubIssue(projectId, 7)!.id;
+
+    const result = pull();
+
+    expect(result.pulled).toMatchObject({ issues: 1, created: 0, updated: 0 });
+    expect(ctx.eventStore.getEvents("task", taskId)).toHaveLength(2);
+  });
+
+  it("should page through issues by updatedAt", () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) =>
+      issue(i + 1, { updatedAt: `2025-01-01T00:${String(Math.floor(i / 60)).padStart(2, "0")}:${String(i % 60).padStart(2, "0")}Z` })
+    );
+    mockedListIssues
+      .mockReturnValueOnce(firstPage)
+      .mockReturnValueOnce([firstPage[99], issue(101, { updatedAt: "2025-01-02T00:00:00Z" })]);
+
+    const result = pull();
+
+    expect(mockedListIssues).toHaveBeenCalledTimes(2);
+    expect(mockedListIssues.mock.calls[0][0]).toMatchObject({
+      repo: "org/repo",
+      state: "all",
+      search: "sort:updated-asc",
+    });
+    expect(mockedListIssues.mock.calls[1][0]?.search).toBe(
+      "sort:updated-asc updated:>=2025-01-01T00:01:39Z"
+    );
+    expect(result.pulled.created).toBe(101);
+  });
+
+  it("should record last_sync_at and use it for the next pull", () => {
+    mockedListIssues.mockReturnValue([]);
+
+    pull();
+    const lastSyncAt = ctx.configRepo.getByProjectId(projectId)!.last_sync_at!;
+    expect(lastSyncAt).toBeDefined();
+
+    pull();
+    expect(mockedListIssues.mock.calls[1][0]?.search).toContain(
+      `updated:>=${lastSyncAt.replace(/\.\d{3}Z$/, "Z")}`
+    );
+  });
+
+  describe("last_sync_at on incomplete pulls", () => {
+    const lastSyncAt = () => ctx.configRepo.getByProjectId(projectId)!.last_sync_at;
+
+    beforeEach(() => {
+      ctx.configRepo.update(projectId, { last_sync_at: "2025-01-01T00:00:00.000Z" });
+    });
+
+    it("should report a gh failure and keep last_sync_at", () => {
+      mockedListIssues.mockImplementationOnce(() => {
+        throw new Error("gh: HTTP 502");
+      });
+
+      const result = pull();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(["Listing issues failed: gh: HTTP 502"]);
+      expect(lastSyncAt()).toBe("2025-01-01T00:00:00.000Z");
+    });
+
+    it("should resume from the last issue applied before a failure", () => {
+      mockedListIssues.mockReturnValueOnce([
+        issue(7, { updatedAt: "2025-01-01T00:00:07Z" }),
+        issue(8, { updatedAt: "2025-01-01T00:00:08Z", title: undefined as unknown as string }),
+        issue(9, { updatedAt: "2025-01-01T00:00:09Z" }),
+      ]);
+
+      const result = pull();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toMatch(/^#8: /);
+      expect(result.pulled.created).toBe(2);
+      expect(lastSyncAt()).toBe("2025-01-01T00:00:07Z");
+    });
+
+    it("should resume from a page of issues with one timestamp", () => {
+      const page = Array.from({ length: 100 }, (_, i) => issue(i + 1, { updatedAt: "2025-01-01T00:00:05Z" }));
+      mockedListIssues.mockReturnValueOnce(page);
+      ctx.configRepo.update(projectId, { last_sync_at: "2025-01-01T00:00:05Z" });
+
+      const result = pull();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        "More than 100 issues updated at 2025-01-01T00:00:05Z; the rest were not pulled",
+      ]);
+      expect(lastSyncAt()).toBe("2025-01-01T00:00:05Z");
+    });
+  });
+});
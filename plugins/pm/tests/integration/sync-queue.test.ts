@@ -0,0 +1,296 @@
+/**
+ * Sync Queue Integration Tests
+ *
+ * Persistent queue with exponential backoff and dead-lettering,
+ * using a mocked GitHub module.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../../lib/github.js", () => ({
+  getRepoInfo: vi.fn(),
+  getIssue: vi.fn(),
+  listIssues: vi.fn(),
+  updateIssue: vi.fn(),
+  updateIssueState: vi.fn(),
+  addIssueComment: vi.fn(),
+  getProject: vi.fn(),
+  getIssueNodeId: vi.fn(),
+  addProjectItem: vi.fn(),
+  updateProjectItemField: vi.fn(),
+}));
+
+import {
+  getIssue,
+  updateIssue,
+  updateIssueState,
+  getProject,
+  getIssueNodeId,
+  addProjectItem,
+  type GitHubIssue,
+} from "../../lib/github.js";
+import {
+  MAX_SYNC_RETRIES,
+  getRetryDelay,
+  createSyncQueueItem,
+  processSyncQueue,
+  flushSyncQueue,
+  type SyncConfig,
+} from "../../lib/sync.js";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+const mockedGetIssue = vi.mocked(getIssue);
+const mockedUpdateIssue = vi.mocked(updateIssue);
+const mockedUpdateIssueState = vi.mocked(updateIssueState);
+
+const openIssue: GitHubIssue = {
+  number: 7,
+  title: "Issue 7",
+  body: "",
+  state: "open",
+  labels: [],
+  assignees: [],
+  createdAt: "2025-01-01T00:00:00Z",
+  updatedAt: "2025-01-01T00:00:00Z",
+};
+
+const config: SyncConfig = {
+  githubEnabled: true,
+  syncMode: "bidirectional",
+  projectId: "p1",
+};
+
+describe("getRetryDelay", () => {
+  it("should double the delay per retry", () => {
+    expect(getRetryDelay(1)).toBe(30_000);
+    expect(getRetryDelay(2)).toBe(60_000);
+    expect(getRetryDelay(3)).toBe(120_000);
+  });
+
+  it("should cap the delay at one hour", () => {
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe("processSyncQueue", () => {
+  const now = new Date("2025-06-01T12:00:00Z");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should complete items that sync successfully", () => {
+    mockedGetIssue.mockReturnValue(openIssue);
+    mockedUpdateIssueState.mockReturnValue(true);
+    const item = createSyncQueueItem("update_status", "issue", "7", { status: "done", repo: "org/repo" });
+
+    const result = processSyncQueue([item], config, now);
+
+    expect(result).toEqual({ processed: 1, failed: 0 });
+    expect(item.status).toBe("completed");
+    expect(mockedGetIssue).toHaveBeenCalledWith(7, "org/repo");
+    expect(mockedUpdateIssueState).toHaveBeenCalledWith(7, "closed", "org/repo");
+  });
+
+  it("should schedule a retry with backoff on failure", () => {
+    mockedGetIssue.mockReturnValue(null);
+    const item = createSyncQueueItem("update_status", "issue", "7", { status: "done" });
+
+    const result = processSyncQueue([item], config, now);
+
+    expect(result).toEqual({ processed: 0, failed: 1 });
+    expect(item.status).toBe("failed");
+    expect(item.retryCount).toBe(1);
+    expect(item.errorMessage).toBe("Failed to sync status");
+    expect(item.nextAttemptAt).toBe(new Date(now.getTime() + 30_000).toISOString());
+  });
+
+  it("should skip failed items until their backoff has elapsed", () => {
+    mockedGetIssue.mockReturnValue(null);
+    const item = createSyncQueueItem("update_status", "issue", "7", { status: "done" });
+    processSyncQueue([item], config, now);
+
+    processSyncQueue([item], config, new Date(now.getTime() + 10_000));
+    expect(item.retryCount).toBe(1);
+
+    processSyncQueue([item], config, new Date(now.getTime() + 30_000));
+    expect(item.retryCount).toBe(2);
+    expect(item.nextAttemptAt).toBe(new Date(now.getTime() + 90_000).toISOString());
+  });
+
+  it("should dead-letter items after max retries", () => {
+    mockedGetIssue.mockReturnValue(null);
+    const item = createSyncQueueItem("update_status", "issue", "7", { status: "done" });
+    item.status = "failed";
+    item.retryCount = MAX_SYNC_RETRIES - 1;
+
+    processSyncQueue([item], config, now);
+
+    expect(item.status).toBe("dead");
+    expect(item.retryCount).toBe(MAX_SYNC_RETRIES);
+    expect(item.nextAttemptAt).toBeUndefined();
+
+    processSyncQueue([item], config, new Date(now.getTime() + 24 * 60 * 60 * 1000));
+    expect(mockedGetIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it("should push label changes to the issue", () => {
+    mockedUpdateIssue.mockReturnValue(true);
+    const item = createSyncQueueItem("update_labels", "issue", "7", {
+      add: ["backend"],
+      remove: ["ui"],
+      repo: "org/repo",
+    });
+
+    const result = processSyncQueue([item], config, now);
+
+    expect(result).toEqual({ processed: 1, failed: 0 });
+    expect(mockedUpdateIssue).toHaveBeenCalledWith(
+      7,
+      { addLabels: ["backend"], removeLabels: ["ui"] },
+      "org/repo"
+    );
+  });
+
+  it("should dead-letter unknown actions immediately", () => {
+    const item = createSyncQueueItem("explode", "issue", "7", {});
+
+    const result = processSyncQueue([item], config, now);
+
+    expect(result.failed).toBe(1);
+    expect(item.status).toBe("dead");
+    expect(item.errorMessage).toBe("Unknown action: explode");
+  });
+});
+
+describe("SyncQueueRepository", () => {
+  let ctx: TestContext;
+  let projectId: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  const flush = () =>
+    flushSyncQueue({ queueRepo: ctx.queueRepo, configRepo: ctx.configRepo, taskRepo: ctx.taskRepo });
+
+  it("should enqueue items as pending", () => {
+    const item = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "7", { status: "done" });
+
+    expect(item.id).toBeDefined();
+    expect(item.projectId).toBe(projectId);
+    expect(item.status).toBe("pending");
+    expect(item.retryCount).toBe(0);
+    expect(JSON.parse(item.payload)).toEqual({ status: "done" });
+  });
+
+  it("should only return due items", () => {
+    const pending = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "1", {});
+    const waiting = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "2", {});
+    const ready = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "3", {});
+    const dead = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "4", {});
+
+    const now = new Date("2025-06-01T12:00:00Z");
+    ctx.queueRepo.save({ ...waiting, status: "failed", retryCount: 1, nextAttemptAt: "2025-06-01T12:05:00.000Z" });
+    ctx.queueRepo.save({ ...ready, status: "failed", retryCount: 1, nextAttemptAt: "2025-06-01T11:59:00.000Z" });
+    ctx.queueRepo.save({ ...dead, status: "dead", retryCount: MAX_SYNC_RETRIES });
+
+    const due = ctx.queueRepo.getDue(now).map((i) => i.id);
+    expect(due).toEqual([pending.id, ready.id]);
+  });
+
+  it("should reset failed and dead items on retry", () => {
+    const item = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "7", {});
+    ctx.queueRepo.save({ ...item, status: "dead", retryCount: MAX_SYNC_RETRIES, errorMessage: "boom" });
+
+    const retried = ctx.queueRepo.retry(item.id!);
+
+    expect(retried?.status).toBe("pending");
+    expect(retried?.retryCount).toBe(0);
+    expect(retried?.errorMessage).toBeUndefined();
+  });
+
+  it("should leave completed items alone on retry", () => {
+    const item = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "7", {});
+    ctx.queueRepo.save({ ...item, status: "completed" });
+
+    expect(ctx.queueRepo.retry(item.id!)?.status).toBe("completed");
+    expect(ctx.queueRepo.retry(999)).toBeUndefined();
+  });
+
+  it("should bulk retry dead items", () => {
+    const a = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "1", {});
+    const b = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "2", {});
+    ctx.queueRepo.save({ ...a, status: "dead", retryCount: MAX_SYNC_RETRIES });
+    ctx.queueRepo.save({ ...b, status: "completed" });
+
+    expect(ctx.queueRepo.retryDead()).toBe(1);
+    expect(ctx.queueRepo.countByStatus(projectId)).toEqual({ pending: 1, completed: 1 });
+  });
+
+  describe("flushSyncQueue", () => {
+    it("should process due items with project settings and persist the outcome", () => {
+      ctx.configRepo.create(projectId, {
+        github_enabled: true,
+        github_repo: "org/repo",
+        sync_mode: "auto",
+      });
+      mockedGetIssue.mockReturnValueOnce(openIssue).mockReturnValueOnce(null);
+      mockedUpdateIssueState.mockReturnValue(true);
+
+      const ok = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "7", { status: "done", repo: "org/repo" });
+      const bad = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "8", { status: "done", repo: "org/repo" });
+
+      const result = flush();
+
+      expect(result).toEqual({ processed: 1, failed: 1 });
+      expect(ctx.queueRepo.getById(ok.id!)?.status).toBe("completed");
+      const failed = ctx.queueRepo.getById(bad.id!);
+      expect(failed?.status).toBe("failed");
+      expect(failed?.retryCount).toBe(1);
+      expect(failed?.nextAttemptAt).toBeDefined();
+    });
+
+    it("should link the project board item added by a push to its task", () => {
+      ctx.configRepo.create(projectId, { github_enabled: true, github_repo: "org/repo", sync_mode: "auto" });
+      createTaskEvent(ctx.eventStore, "TaskCreated", "t1", { projectId, title: "Linked" });
+      createTaskEvent(ctx.eventStore, "TaskGitHubLinked", "t1", { issueNumber: 7 });
+      ctx.taskRepo.syncFromEvents("t1");
+      vi.mocked(getProject).mockReturnValue({ id: "PVT_1", number: 3, title: "Roadmap", fields: [] });
+      vi.mocked(getIssueNodeId).mockReturnValue("I_7");
+      vi.mocked(addProjectItem).mockReturnValue("PVTI_7");
+
+      const input = { repo: "org/repo", projectNumber: 3, issueNumber: 7, status: "in_progress" };
+      ctx.queueRepo.enqueue(projectId, "update_project", "issue", "7", input);
+      flush();
+      ctx.queueRepo.enqueue(projectId, "update_project", "issue", "7", { ...input, itemId: "PVTI_7" });
+      flush();
+
+      expect(ctx.taskRepo.getById("t1")?.github_project_item_id).toBe("PVTI_7");
+      expect(addProjectItem).toHaveBeenCalledTimes(1);
+      const linked = ctx.eventStore.getEvents("task", "t1").filter((e) => e.eventType === "TaskGitHubLinked");
+      expect(linked.map((e) => e.payload)).toEqual([{ issueNumber: 7 }, { projectItemId: "PVTI_7" }]);
+    });
+
+    it("should leave items pending for projects in manual sync mode", () => {
+      ctx.configRepo.create(projectId, { github_enabled: true, github_repo: "org/repo" });
+      const item = ctx.queueRepo.enqueue(projectId, "update_status", "issue", "7", { status: "done" });
+
+      flush();
+
+      expect(mockedGetIssue).not.toHaveBeenCalled();
+      expect(ctx.queueRepo.getById(item.id!)?.status).toBe("pending");
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Task History Integration Tests
+ *
+ * Change log diffs and point-in-time replay of task events.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createTaskEvent } from "../../storage/lib/events.js";
+import {
+  getTaskHistory,
+  getTaskAt,
+  formatTaskHistory,
+} from "../../mcp/lib/task-history.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+const TASK_ID = "task-1";
+
+describe("Task history", () => {
+  let ctx: TestContext;
+
+  const at = (time: string, fn: () => void) => {
+    vi.setSystemTime(new Date(time));
+    fn();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ctx = createTestContext();
+    const projectId = ctx.projectRepo.create("Test Project").id;
+
+    at("2025-01-01T09:00:00Z", () =>
+      createTaskEvent(ctx.eventStore, "TaskCreated", TASK_ID, { projectId, title: "Login" })
+    );
+    at("2025-01-02T09:00:00Z", () =>
+      createTaskEvent(ctx.eventStore, "TaskStatusChanged", TASK_ID, { from: "todo", to: "in_progress" })
+    );
+    at("2025-01-03T09:00:00Z", () =>
+      createTaskEvent(
+        ctx.eventStore,
+        "TaskUpdated",
+        TASK_ID,
+        { title: "Login with SSO", labels: ["auth"] },
+        { userId: "alice", source: "mcp" }
+      )
+    );
+    at("2025-01-04T09:00:00Z", () =>
+      createTaskEvent(ctx.eventStore, "TaskAssigned", TASK_ID, { assignee: "alice" })
+    );
+    ctx.taskRepo.syncFromEvents(TASK_ID);
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+    vi.useRealTimers();
+  });
+
+  describe("getTaskHistory", () => {
+    it("should list events with the fields each one changed", () => {
+      const history = getTaskHistory(ctx.eventStore, TASK_ID);
+
+      expect(history.map((e) => [e.version, e.eventType])).toEqual([
+        [1, "TaskCreated"],
+        [2, "TaskStatusChanged"],
+        [3, "TaskUpdated"],
+        [4, "TaskAssigned"],
+      ]);
+      expect(history[1].changes).toEqual([
+        { field: "status", from: "todo", to: "in_progress" },
+        { field: "startedAt", from: null, to: "2025-01-02T09:00:00.000Z" },
+      ]);
+      expect(history[2].changes).toEqual([
+        { field: "title", from: "Login", to: "Login with SSO" },
+        { field: "labels", from: null, to: ["auth"] },
+      ]);
+      expect(history[2].metadata).toEqual({ userId: "alice", source: "mcp" });
+    });
+
+    it("should list the initial fields of the created task", () => {
+      const created = getTaskHistory(ctx.eventStore, TASK_ID)[0];
+
+      expect(created.changes).toContainEqual({ field: "title", from: null, to: "Login" });
+      expect(created.changes).toContainEqual({ field: "status", from: null, to: "todo" });
+      expect(created.changes.map((c) => c.field)).not.toContain("updatedAt");
+    });
+
+    it("should return no entries for unknown tasks", () => {
+      expect(getTaskHistory(ctx.eventStore, "missing")).toEqual([]);
+    });
+
+    it("should format entries with diffs and authors", () => {
+      const text = formatTaskHistory(getTaskHistory(ctx.eventStore, TASK_ID), "History of #1 - Login with SSO");
+
+      expect(text).toContain("History of #1 - Login with SSO (4 events)");
+      expect(text).toContain("v3 2025-01-03T09:00:00.000Z TaskUpdated [alice, mcp]");
+      expect(text).toContain('  title: "Login" → "Login with SSO"');
+      expect(text).toContain('  assignee: (none) → "alice"');
+    });
+  });
+
+  describe("getTaskAt", () => {
+    it("should replay up to a version", () => {
+      const result = getTaskAt(ctx.eventStore, TASK_ID, { version: 2 })!;
+
+      expect(result.version).toBe(2);
+      expect(result.state.status).toBe("in_progress");
+      expect(result.state.title).toBe("Login");
+    });
+
+    it("should replay up to a timestamp", () => {
+      const result = getTaskAt(ctx.eventStore, TASK_ID, { at: "2025-01-03T12:00:00Z" })!;
+
+      expect(result.version).toBe(3);
+      expect(result.createdAt).toBe("2025-01-03T09:00:00.000Z");
+      expect(result.state.title).toBe("Login with SSO");
+      expect(result.state.assignee).toBeUndefined();
+    });
+
+    it("should read a bare date as the end of that day (UTC)", () => {
+      const result = getTaskAt(ctx.eventStore, TASK_ID, { at: "2025-01-03" })!;
+
+      expect(result.version).toBe(3);
+      expect(result.state.title).toBe("Login with SSO");
+    });
+
+    it("should match the projection at the latest version", () => {
+      const result = getTaskAt(ctx.eventStore, TASK_ID, { at: "2030-01-01" })!;
+
+      expect(result.state.assignee).toBe(ctx.taskRepo.getById(TASK_ID)?.assignee);
+      expect(result.version).toBe(4);
+    });
+
+    it("should return undefined before the task existed", () => {
+      expect(getTaskAt(ctx.eventStore, TASK_ID, { at: "2024-12-31" })).toBeUndefined();
+      expect(getTaskAt(ctx.eventStore, TASK_ID, { version: 0 })).toBeUndefined();
+    });
+
+    it("should reject invalid timestamps", () => {
+      expect(() => getTaskAt(ctx.eventStore, TASK_ID, { at: "yesterday" })).toThrow(
+        "Invalid timestamp: yesterday"
+      );
+    });
+  });
+});
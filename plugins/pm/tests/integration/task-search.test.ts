@@ -0,0 +1,98 @@
+/**
+ * Task Search Integration Tests
+ *
+ * Full-text search over tasks_fts, kept in sync with tasks by triggers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { processCommit } from "../../mcp/lib/commit-processor.js";
+import { DependencyRepository } from "../../mcp/lib/projections.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  createTestTask,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+describe("TaskRepository.search", () => {
+  let ctx: TestContext;
+  let projectId: string;
+
+  const createTask = (title: string, description?: string, project = projectId): string =>
+    createTestTask(ctx, project, title, { description }).id;
+  const titles = (query: string, projectId?: string) =>
+    ctx.taskRepo.search(query, { projectId }).map((r) => r.task.title);
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  it("should rank title matches above description matches", () => {
+    createTask("Update docs", "Mention the login redirect");
+    createTask("Login redirect loop", "Users bounce between pages");
+
+    const results = ctx.taskRepo.search("login");
+
+    expect(results.map((r) => r.task.title)).toEqual(["Login redirect loop", "Update docs"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[1].matchedIn).toEqual(["description"]);
+    expect(results[1].snippet).toContain("[login]");
+  });
+
+  it("should match word prefixes, phrases and alternatives", () => {
+    createTask("Authentication tokens expire early");
+    createTask("Cache invalidation", "token cache grows without bound");
+
+    expect(titles("authent")).toEqual(["Authentication tokens expire early"]);
+    expect(titles('"cache grows"')).toEqual(["Cache invalidation"]);
+    expect(titles("expire OR invalidation").sort()).toEqual([
+      "Authentication tokens expire early",
+      "Cache invalidation",
+    ]);
+    expect(titles('token "expire')).toEqual(["Authentication tokens expire early"]);
+  });
+
+  it("should follow title changes and row deletions", () => {
+    const id = createTask("Draft title");
+
+    ctx.taskRepo.update(id, { title: "Payment webhook retries" });
+    expect(titles("draft")).toEqual([]);
+    expect(titles("webhook")).toEqual(["Payment webhook retries"]);
+
+    // Projection rebuilds clear the tasks table
+    ctx.dbManager.execute("DELETE FROM tasks WHERE id = ?", [id]);
+    expect(titles("webhook")).toEqual([]);
+  });
+
+  it("should search linked commit messages", () => {
+    const id = createTask("Checkout flow");
+
+    processCommit(
+      { taskRepo: ctx.taskRepo, dependencyRepo: new DependencyRepository(ctx.dbManager, ctx.eventStore) },
+      { sha: "abc1234def", message: "fix: debounce the coupon validator\n\nrefs #1" },
+      { projectId }
+    );
+
+    const [result] = ctx.taskRepo.search("coupon");
+    expect(result.task.id).toBe(id);
+    expect(result.matchedIn).toEqual(["commits"]);
+  });
+
+  it("should limit results to a project", () => {
+    const other = ctx.projectRepo.create("Other").id;
+    createTask("Export report");
+    createTask("Export invoices", undefined, other);
+
+    expect(titles("export", projectId)).toEqual(["Export report"]);
+    expect(titles("export")).toHaveLength(2);
+  });
+
+  it("should reject an empty query", () => {
+    expect(() => ctx.taskRepo.search('  "" ')).toThrow("Search query is empty");
+  });
+});
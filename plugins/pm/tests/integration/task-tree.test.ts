@@ -0,0 +1,170 @@
+/**
+ * Task Hierarchy Integration Tests
+ *
+ * Parent validation, type changes and roll-ups of the epic → subtask tree.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Task } from "../../mcp/lib/projections.js";
+import {
+  checkParent,
+  checkTypeChange,
+  buildTaskTree,
+  buildProjectTree,
+  formatTaskTree,
+} from "../../mcp/lib/task-tree.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  createTestTask,
+  type TestContext,
+} from "../helpers/mcp-test-helper.js";
+
+describe("Task hierarchy", () => {
+  let ctx: TestContext;
+  let projectId: string;
+
+  const createTask = (
+    title: string,
+    type: string,
+    options: { parent?: Task; points?: number; status?: string } = {}
+  ): Task =>
+    createTestTask(ctx, projectId, title, {
+      type,
+      parentId: options.parent?.id,
+      estimatePoints: options.points,
+      status: options.status,
+    });
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+  });
+
+  describe("checkParent", () => {
+    it("should allow parents higher in the hierarchy", () => {
+      const epic = createTask("Epic", "epic");
+      const story = createTask("Story", "story");
+
+      expect(checkParent(ctx.taskRepo, story, epic)).toBeUndefined();
+      expect(checkParent(ctx.taskRepo, { type: "subtask", project_id: projectId }, epic)).toBeUndefined();
+    });
+
+    it("should reject type inversions", () => {
+      const epic = createTask("Epic", "epic");
+      const subtask = createTask("Subtask", "subtask");
+      const task = createTask("Task", "task");
+
+      expect(checkParent(ctx.taskRepo, epic, subtask)).toContain("#2 (subtask) cannot parent type epic");
+      expect(checkParent(ctx.taskRepo, { type: "bug", project_id: projectId }, task)).toContain(
+        "cannot parent type bug"
+      );
+    });
+
+    it("should reject the task itself and other projects", () => {
+      const story = createTask("Story", "story");
+      const otherProject = ctx.projectRepo.create("Other").id;
+
+      expect(checkParent(ctx.taskRepo, story, story)).toBe("A task cannot be its own parent");
+      expect(checkParent(ctx.taskRepo, { type: "task", project_id: otherProject }, story)).toBe(
+        "Parent #1 belongs to another project"
+      );
+    });
+
+    it("should reject cycles", () => {
+      // Legacy data can hold inverted types, so cycles are checked on their own
+      const a = createTask("A", "epic");
+      const b = createTask("B", "story", { parent: a });
+      const c = createTask("C", "task", { parent: b });
+
+      expect(checkParent(ctx.taskRepo, { ...a, type: "subtask" }, c)).toBe(
+        "Parent would create a cycle: #1 → #3 → #2 → #1"
+      );
+    });
+  });
+
+  describe("checkTypeChange", () => {
+    it("should keep types between the parent and the children", () => {
+      const epic = createTask("Epic", "epic");
+      const story = createTask("Story", "story", { parent: epic });
+      createTask("Task", "task", { parent: story });
+
+      expect(checkTypeChange(ctx.taskRepo, story, "epic")).toBe("#2 cannot become type epic under #1 (epic)");
+      expect(checkTypeChange(ctx.taskRepo, story, "subtask")).toBe(
+        "#2 cannot become type subtask while it parents #3 (task)"
+      );
+      expect(checkTypeChange(ctx.taskRepo, { ...story, parent_id: undefined }, "epic")).toBeUndefined();
+    });
+  });
+
+  describe("parent assignment", () => {
+    it("should set and clear the parent through TaskUpdated", () => {
+      const epic = createTask("Epic", "epic");
+      const story = createTask("Story", "story");
+
+      expect(ctx.taskRepo.update(story.id, { parent_id: epic.id })?.parent_id).toBe(epic.id);
+      expect(ctx.taskRepo.getChildren(epic.id).map((t) => t.id)).toEqual([story.id]);
+      expect(ctx.taskRepo.update(story.id, { parent_id: "" })?.parent_id).toBeNull();
+      expect(ctx.eventStore.getEvents("task", story.id).map((e) => e.eventType)).toEqual([
+        "TaskCreated",
+        "TaskUpdated",
+        "TaskUpdated",
+      ]);
+    });
+  });
+
+  describe("roll-ups", () => {
+    let epic: Task;
+
+    beforeEach(() => {
+      epic = createTask("Epic", "epic", { points: 40 });
+      const login = createTask("Login", "story", { parent: epic });
+      createTask("Form", "task", { parent: login, points: 3, status: "done" });
+      createTask("API", "task", { parent: login, points: 5 });
+      createTask("Dropped", "task", { parent: login, points: 8, status: "cancelled" });
+      createTask("Docs", "story", { parent: epic, points: 2, status: "done" });
+    });
+
+    it("should sum leaf points and ignore parents' own estimates", () => {
+      const tree = buildTaskTree(ctx.taskRepo, epic);
+
+      expect(tree.rollup).toEqual({
+        points: 10,
+        completedPoints: 5,
+        tasks: 3,
+        doneTasks: 2,
+        percentComplete: 50,
+      });
+      expect(tree.children.map((c) => c.rollup.percentComplete)).toEqual([38, 100]);
+    });
+
+    it("should fall back to task counts when nothing is estimated", () => {
+      const story = createTask("Unestimated", "story");
+      createTask("One", "task", { parent: story, status: "done" });
+      createTask("Two", "task", { parent: story });
+      createTask("Three", "task", { parent: story });
+
+      expect(buildTaskTree(ctx.taskRepo, story).rollup.percentComplete).toBe(33);
+    });
+
+    it("should render the project's top-level trees", () => {
+      createTask("Loose", "bug");
+
+      const text = formatTaskTree(buildProjectTree(ctx.taskRepo, projectId));
+
+      expect(text.split("\n")).toEqual([
+        "#1 [epic] Epic (todo) - 5/10pt, 50%",
+        "  #2 [story] Login (todo) - 3/8pt, 38%",
+        "    #3 [task] Form (done) - 3/3pt, 100%",
+        "    #4 [task] API (todo) - 0/5pt, 0%",
+        "    #5 [task] Dropped (cancelled) - 0/0 done, 0%",
+        "  #6 [story] Docs (done) - 2/2pt, 100%",
+        "#7 [bug] Loose (todo) - 0/1 done, 0%",
+      ]);
+    });
+  });
+});
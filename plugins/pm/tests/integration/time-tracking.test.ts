@@ -0,0 +1,242 @@
+/**
+ * Time Tracking Integration Tests
+ *
+ * Timers driven by status changes, branch switches and manual start/stop,
+ * logged time, and the worklog report.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { WorklogRepository, type Task } from "../../mcp/lib/projections.js";
+import {
+  startTimer,
+  stopTimer,
+  logTime,
+  switchBranch,
+  compareEstimates,
+  formatMinutes,
+  formatTimeReport,
+} from "../../mcp/lib/time-tracking.js";
+import {
+  createTestContext,
+  cleanupTestContext,
+  createTestTask,
+  type TestContext,
+  type TestTaskOptions,
+} from "../helpers/mcp-test-helper.js";
+
+describe("Time tracking", () => {
+  let ctx: TestContext;
+  let worklogRepo: WorklogRepository;
+  let projectId: string;
+
+  const at = <T>(time: string, fn: () => T): T => {
+    vi.setSystemTime(new Date(time));
+    return fn();
+  };
+  const createTask = (title: string, options: TestTaskOptions = {}) =>
+    createTestTask(ctx, projectId, title, options);
+  const setStatus = (task: Task, status: string) => ctx.taskRepo.update(task.id, { status })!;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T08:00:00Z"));
+    ctx = createTestContext();
+    worklogRepo = new WorklogRepository(ctx.dbManager);
+    projectId = ctx.projectRepo.create("Test Project").id;
+  });
+
+  afterEach(() => {
+    cleanupTestContext(ctx);
+    vi.useRealTimers();
+  });
+
+  describe("status timers", () => {
+    it("should run the timer while the task is in progress", () => {
+      const task = createTask("Login", { assignee: "alice" });
+
+      const started = at("2026-10-19T09:00:00Z", () => setStatus(task, "in_progress"));
+      expect(started.timer_started_at).toBe("2026-10-19T09:00:00.000Z");
+
+      const reviewed = at("2026-10-19T10:30:00Z", () => setStatus(task, "in_review"));
+      expect(reviewed.timer_started_at).toBeNull();
+      expect(reviewed.actual_hours).toBe(1.5);
+      expect(worklogRepo.getByTask(task.id)).toEqual([
+        expect.objectContaining({
+          started_at: "2026-10-19T09:00:00.000Z",
+          ended_at: "2026-10-19T10:30:00.000Z",
+          minutes: 90,
+          source: "status",
+          author: "alice",
+        }),
+      ]);
+
+      at("2026-10-19T11:00:00Z", () => setStatus(task, "in_progress"));
+      const done = at("2026-10-19T11:30:00Z", () => setStatus(task, "done"));
+      expect(done.actual_hours).toBe(2);
+      expect(worklogRepo.getByTask(task.id)).toHaveLength(2);
+    });
+
+    it("should not restart a timer that is already running", () => {
+      const task = createTask("Login");
+      at("2026-10-19T09:00:00Z", () => startTimer(ctx.taskRepo, task.id, "manual"));
+
+      const updated = at("2026-10-19T09:30:00Z", () => setStatus(task, "in_progress"));
+
+      expect(updated.timer_started_at).toBe("2026-10-19T09:00:00.000Z");
+      const starts = ctx.eventStore.getEvents("task", task.id).filter((e) => e.eventType === "TaskTimerStarted");
+      expect(starts).toHaveLength(1);
+    });
+  });
+
+  describe("manual timers and logged time", () => {
+    it("should start and stop timers idempotently", () => {
+      const task = createTask("Login");
+
+      expect(at("2026-10-19T09:00:00Z", () => startTimer(ctx.taskRepo, task.id, "manual"))?.changed).toBe(true);
+      expect(at("2026-10-19T09:10:00Z", () => startTimer(ctx.taskRepo, task.id, "manual"))?.changed).toBe(false);
+
+      const stopped = at("2026-10-19T09:45:00Z", () => stopTimer(ctx.taskRepo, task.id, "manual"))!;
+      expect(stopped.changed).toBe(true);
+      expect(stopped.task.actual_hours).toBe(0.75);
+      expect(stopTimer(ctx.taskRepo, task.id, "manual")?.changed).toBe(false);
+    });
+
+    it("should log time with a start, note and author", () => {
+      const task = createTask("Login", { assignee: "alice" });
+
+      const updated = logTime(ctx.taskRepo, task.id, {
+        minutes: 45,
+        startedAt: "2026-10-15",
+        note: "Pairing",
+        author: "bob",
+      })!;
+
+      expect(updated.actual_hours).toBe(0.75);
+      expect(worklogRepo.getByTask(task.id)).toEqual([
+        {
+          task_id: task.id,
+          version: 3,
+          started_at: "2026-10-15T00:00:00.000Z",
+          ended_at: "2026-10-15T00:45:00.000Z",
+          minutes: 45,
+          source: "log",
+          author: "bob",
+          note: "Pairing",
+        },
+      ]);
+    });
+
+    it("should reject invalid durations and start times", () => {
+      const task = createTask("Login");
+
+      expect(() => logTime(ctx.taskRepo, task.id, { minutes: 0 })).toThrow("must be positive");
+      expect(() => logTime(ctx.taskRepo, task.id, { minutes: 5, startedAt: "yesterday" })).toThrow(
+        "Invalid start time"
+      );
+    });
+  });
+
+  describe("switchBranch", () => {
+    it("should stop the left branch's timer and resume the branch's task", () => {
+      const login = createTask("Login");
+      const search = createTask("Search");
+      at("2026-10-19T09:00:00Z", () => {
+        setStatus(login, "in_progress");
+        setStatus(search, "in_progress");
+      });
+
+      const toSearch = at("2026-10-19T10:00:00Z", () =>
+        switchBranch(ctx.taskRepo, projectId, "2-feat-search", { from: "1-feat-login" })
+      );
+      expect(toSearch.task?.id).toBe(search.id);
+      expect(toSearch.stopped.map((t) => t.title)).toEqual(["Login"]);
+      expect(toSearch.started).toBeUndefined();
+
+      const toLogin = at("2026-10-19T11:00:00Z", () =>
+        switchBranch(ctx.taskRepo, projectId, "1-feat-login", { from: "2-feat-search" })
+      );
+      expect(toLogin.stopped.map((t) => t.title)).toEqual(["Search"]);
+      expect(toLogin.started?.title).toBe("Login");
+      expect(worklogRepo.getByTask(search.id).map((e) => e.minutes)).toEqual([120]);
+      expect(ctx.taskRepo.getById(login.id)?.timer_started_at).toBe("2026-10-19T11:00:00.000Z");
+    });
+
+    it("should find tasks by recorded branch and UUID prefix", () => {
+      const recorded = createTask("Recorded");
+      ctx.taskRepo.update(recorded.id, { branch_name: "feature/oauth", status: "in_progress" });
+      const generated = createTask("Generated");
+      ctx.taskRepo.update(generated.id, { status: "in_progress" });
+
+      expect(switchBranch(ctx.taskRepo, projectId, "feature/oauth").task?.id).toBe(recorded.id);
+      expect(
+        switchBranch(ctx.taskRepo, projectId, `${generated.id.slice(0, 8)}-feat-generated`).task?.id
+      ).toBe(generated.id);
+      expect(switchBranch(ctx.taskRepo, projectId, "main", { from: "feature/oauth" }).task).toBeUndefined();
+      expect(ctx.taskRepo.listRunningTimers(projectId).map((t) => t.id)).toEqual([generated.id]);
+    });
+
+    it("should leave timers of tasks on other branches running", () => {
+      const login = createTask("Login");
+      const teammate = createTask("Teammate's work", { assignee: "bob" });
+      setStatus(login, "in_progress");
+      setStatus(teammate, "in_progress");
+
+      const result = switchBranch(ctx.taskRepo, projectId, "main", { from: "1-feat-login" });
+      expect(result.stopped.map((t) => t.title)).toEqual(["Login"]);
+      expect(ctx.taskRepo.listRunningTimers(projectId).map((t) => t.title)).toEqual(["Teammate's work"]);
+
+      expect(switchBranch(ctx.taskRepo, projectId, "main").stopped).toEqual([]);
+    });
+  });
+
+  describe("report", () => {
+    beforeEach(() => {
+      const login = createTask("Login", { assignee: "alice" });
+      const search = createTask("Search", { assignee: "bob" });
+      logTime(ctx.taskRepo, login.id, { minutes: 120, startedAt: "2026-10-13T09:00:00Z" });
+      logTime(ctx.taskRepo, login.id, { minutes: 60, startedAt: "2026-10-19T09:00:00Z" });
+      logTime(ctx.taskRepo, search.id, { minutes: 30, startedAt: "2026-10-20T09:00:00Z" });
+      ctx.taskRepo.update(login.id, { estimate_hours: 2 });
+    });
+
+    it("should group logged time by task, assignee and week", () => {
+      const row = (r: { label: string; minutes: number }) => [r.label, r.minutes];
+
+      expect(worklogRepo.report({ projectId }).map(row)).toEqual([
+        ["#1 Login", 180],
+        ["#2 Search", 30],
+      ]);
+      expect(worklogRepo.report({ projectId, groupBy: "assignee" }).map(row)).toEqual([
+        ["alice", 180],
+        ["bob", 30],
+      ]);
+      expect(worklogRepo.report({ projectId, groupBy: "week" }).map(row)).toEqual([
+        ["Week of 2026-10-12", 120],
+        ["Week of 2026-10-19", 90],
+      ]);
+      expect(worklogRepo.report({ projectId, from: "2026-10-19", to: "2026-10-19" }).map(row)).toEqual([
+        ["#1 Login", 60],
+      ]);
+    });
+
+    it("should compare estimates with actual hours", () => {
+      const tasks = ctx.taskRepo.list({ projectId });
+      const estimates = compareEstimates(tasks);
+
+      expect(estimates.tasks.map((c) => [c.task.title, c.estimateHours, c.actualHours])).toEqual([
+        ["Login", 2, 3],
+      ]);
+      expect(estimates.variance).toBe(0.5);
+
+      const report = formatTimeReport(worklogRepo.report({ projectId }), estimates, []);
+      expect(report).toContain("Time logged: 3h 30m");
+      expect(report).toContain("Estimate vs actual: 2.0h → 3.0h (+50%)");
+    });
+  });
+
+  it("should format minutes as hours and minutes", () => {
+    expect(formatMinutes(45)).toBe("45m");
+    expect(formatMinutes(120)).toBe("2h");
+    expect(formatMinutes(95.4)).toBe("1h 35m");
+  });
+});
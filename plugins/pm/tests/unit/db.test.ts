@@ -5,7 +5,15 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { DatabaseManager, getDatabase, closeDatabase } from "../../mcp/lib/db.js";
+import { readFileSync } from "fs";
+import {
+  DatabaseManager,
+  getDatabase,
+  closeDatabase,
+  loadMigrations,
+  splitStatements,
+} from "../../mcp/lib/db.js";
+import { EventStore, ConcurrencyError } from "../../storage/lib/events.js";
 
 describe("DatabaseManager", () => {
   let db: DatabaseManager;
@@ -319,6 +327,168 @@ describe("DatabaseManager initSchema", () => {
   });
 });
 
+describe("DatabaseManager migrations", () => {
+  let db: DatabaseManager;
+
+  const columns = (table: string) =>
+    (db.getDb().pragma(`table_info(${table})`) as { name: string }[]).map((c) => c.name);
+
+  beforeEach(() => {
+    db = new DatabaseManager(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should load migrations in version order", () => {
+    const versions = loadMigrations().map((m) => m.version);
+
+    expect(versions.length).toBeGreaterThan(0);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+  });
+
+  it("should record all migrations on a new database", () => {
+    db.initSchema();
+
+    expect(db.getSchemaVersions()).toEqual(loadMigrations().map((m) => m.version));
+    expect(columns("tasks")).toContain("github_issue_number");
+  });
+
+  it("should upgrade a database created from the previous schema", () => {
+    const legacy = readFileSync(new URL("../../storage/schema.sql.backup", import.meta.url), "utf-8");
+    db.getDb().exec(legacy);
+    db.getDb().exec(`
+      INSERT INTO projects (id, name) VALUES ('proj-1', 'Legacy');
+      INSERT INTO tasks (id, project_id, seq, title) VALUES ('task-1', 'proj-1', 1, 'First');
+      INSERT INTO tasks (id, project_id, seq, title) VALUES ('task-2', 'proj-1', 2, 'Second');
+      INSERT INTO task_dependencies (task_id, depends_on_id) VALUES ('task-2', 'task-1');
+      INSERT INTO events (event_id, event_type, aggregate_type, aggregate_id, payload, version)
+        VALUES ('evt-1', 'TaskCreated', 'task', 'task-1', '{"projectId":"proj-1","title":"First"}', 1);
+    `);
+
+    db.initSchema();
+
+    expect(db.getSchemaVersions()).toEqual(loadMigrations().map((m) => m.version));
+    expect(columns("events")).toContain("schema_version");
+    expect(columns("tasks")).toEqual(
+      expect.arrayContaining(["github_issue_number", "github_issue_url", "github_project_item_id"])
+    );
+    expect(columns("sprints")).toEqual(expect.arrayContaining(["started_at", "completed_at"]));
+    expect(columns("project_config")).toContain("github_repo");
+    expect(columns("sync_queue")).toEqual(expect.arrayContaining(["project_id", "next_attempt_at"]));
+    expect(columns("task_dependencies")).not.toContain("dependency_type");
+    expect(db.query("SELECT task_id, depends_on_id FROM task_dependencies")).toEqual([
+      { task_id: "task-2", depends_on_id: "task-1" },
+    ]);
+    expect(db.query("SELECT name FROM sqlite_master WHERE name = 'sync_conflicts'")).toHaveLength(1);
+    expect(db.query("SELECT task_id FROM tasks_fts WHERE tasks_fts MATCH 'second'")).toEqual([
+      { task_id: "task-2" },
+    ]);
+
+    // Dependencies now go with their tasks
+    db.execute("DELETE FROM tasks WHERE id = 'task-1'");
+    expect(db.query("SELECT * FROM task_dependencies")).toEqual([]);
+
+    const eventStore = new EventStore(db.getDb());
+    expect(eventStore.getEvents("task", "task-1")[0].schemaVersion).toBe(1);
+    expect(() =>
+      eventStore.append("TaskUpdated", "task", "task-1", { title: "Stale" }, undefined, 0)
+    ).toThrow(ConcurrencyError);
+  });
+
+  it("should renumber duplicate event versions before adding the unique index", () => {
+    const legacy = readFileSync(new URL("../../storage/schema.sql.backup", import.meta.url), "utf-8");
+    db.getDb().exec(legacy);
+    const insert = db.getDb().prepare(
+      "INSERT INTO events (event_id, event_type, aggregate_type, aggregate_id, payload, version) VALUES (?, ?, 'task', ?, '{}', ?)"
+    );
+    insert.run("evt-1", "TaskCreated", "task-1", 1);
+    insert.run("evt-2", "TaskCreated", "task-2", 1);
+    insert.run("evt-3", "TaskUpdated", "task-1", 2);
+    insert.run("evt-4", "TaskUpdated", "task-1", 2); // Lost the race, same version
+    insert.run("evt-5", "TaskUpdated", "task-1", 3);
+    insert.run("evt-6", "TaskUpdated", "task-2", 2);
+    // Snapshots came before the index, so they may point at duplicate versions
+    db.getDb().exec(`
+      CREATE TABLE snapshots (aggregate_type TEXT, aggregate_id TEXT, version INTEGER, state TEXT, created_at TEXT,
+        PRIMARY KEY (aggregate_type, aggregate_id));
+      INSERT INTO snapshots VALUES ('task', 'task-1', 3, '{}', ''), ('task', 'task-2', 2, '{}', '');
+    `);
+
+    expect(() => db.initSchema()).not.toThrow();
+
+    const versions = (aggregateId: string) =>
+      db
+        .query<{ event_id: string; version: number }>(
+          "SELECT event_id, version FROM events WHERE aggregate_id = ? ORDER BY id",
+          [aggregateId]
+        )
+        .map((e) => [e.event_id, e.version]);
+    expect(versions("task-1")).toEqual([
+      ["evt-1", 1],
+      ["evt-3", 2],
+      ["evt-4", 3],
+      ["evt-5", 4],
+    ]);
+    expect(versions("task-2")).toEqual([
+      ["evt-2", 1],
+      ["evt-6", 2],
+    ]);
+    expect(db.query("SELECT aggregate_id FROM snapshots")).toEqual([{ aggregate_id: "task-2" }]);
+    expect(db.query("SELECT name FROM sqlite_master WHERE name = 'idx_events_aggregate_version'")).toHaveLength(1);
+  });
+
+  it("should not re-add columns to databases created from the current schema", () => {
+    db.getDb().exec(readFileSync(new URL("../../storage/schema.sql", import.meta.url), "utf-8"));
+
+    expect(() => db.initSchema()).not.toThrow();
+    expect(db.getSchemaVersions()).toEqual(loadMigrations().map((m) => m.version));
+  });
+
+  it("should apply only pending migrations", () => {
+    db.initSchema([{ version: 1, name: "first", sql: "CREATE TABLE first (id INTEGER);" }]);
+
+    const applied = db.migrate([
+      { version: 1, name: "first", sql: "CREATE TABLE first (id INTEGER);" },
+      { version: 2, name: "second", sql: "ALTER TABLE first ADD COLUMN name TEXT;" },
+    ]);
+
+    expect(applied.map((m) => m.version)).toEqual([2]);
+    expect(columns("first")).toEqual(["id", "name"]);
+  });
+
+  it("should keep trigger bodies in one statement", () => {
+    expect(
+      splitStatements(`
+        CREATE TABLE log (id TEXT); -- audit
+        CREATE TRIGGER tr_log AFTER INSERT ON log
+        BEGIN
+            DELETE FROM log WHERE id = NEW.id;
+            INSERT INTO log VALUES ('x');
+        END;
+        DROP TABLE IF EXISTS old;
+      `).map((statement) => statement.split(/\s+/).slice(0, 2).join(" "))
+    ).toEqual(["CREATE TABLE", "CREATE TRIGGER", "DROP TABLE"]);
+  });
+
+  it("should roll back a failing migration", () => {
+    db.initSchema([]);
+
+    expect(() =>
+      db.migrate([
+        {
+          version: 1,
+          name: "broken",
+          sql: "CREATE TABLE partial (id INTEGER); INSERT INTO missing VALUES (1);",
+        },
+      ])
+    ).toThrow("no such table: missing");
+    expect(db.query("SELECT name FROM sqlite_master WHERE name = 'partial'")).toEqual([]);
+    expect(db.getSchemaVersions()).toEqual([]);
+  });
+});
+
 describe("getDatabase singleton", () => {
   afterEach(() => {
     // Clean up singleton
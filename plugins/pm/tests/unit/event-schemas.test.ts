@@ -0,0 +1,114 @@
+/**
+ * Event Schema Unit Tests
+ *
+ * Tests for payload validation on append and upcasting of old payloads.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { EventStore, taskReducer } from "../../storage/lib/events.js";
+import {
+  EventValidationError,
+  validateEventPayload,
+  currentSchemaVersion,
+  registerUpcaster,
+  upcastEvent,
+} from "../../storage/lib/event-schemas.js";
+
+describe("validateEventPayload", () => {
+  it("should accept a valid payload", () => {
+    expect(validateEventPayload("TaskCreated", { projectId: "proj-1", title: "Task" })).toEqual([]);
+  });
+
+  it("should report missing required fields", () => {
+    expect(validateEventPayload("TaskCreated", { title: "Task" })).toEqual(["projectId is required"]);
+  });
+
+  it("should report unknown fields and wrong types", () => {
+    expect(validateEventPayload("TaskUpdated", { assignee: "alice", labels: "auth" })).toEqual([
+      "unknown field assignee",
+      "labels must be string[]",
+    ]);
+  });
+
+  it("should allow null to clear optional fields and ignore undefined", () => {
+    expect(validateEventPayload("TaskUpdated", { dueDate: null, description: undefined })).toEqual([]);
+  });
+});
+
+describe("EventStore schema versions", () => {
+  let db: Database.Database;
+  let eventStore: EventStore;
+
+  const insertRaw = (eventType: string, payload: object, version: number, schemaVersion: number) => {
+    db.prepare(`
+      INSERT INTO events (
+        event_id, event_type, aggregate_type, aggregate_id, payload, created_at, version, schema_version
+      )
+      VALUES (?, ?, 'task', 'task-1', ?, ?, ?, ?)
+    `).run(`evt-${version}`, eventType, JSON.stringify(payload), new Date().toISOString(), version, schemaVersion);
+  };
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    eventStore = new EventStore(db, true);
+  });
+
+  afterEach(() => {
+    eventStore.close();
+  });
+
+  it("should reject invalid payloads without storing them", () => {
+    expect(() =>
+      eventStore.append("TaskStatusChanged", "task", "task-1", { status: "done" })
+    ).toThrow(EventValidationError);
+    expect(eventStore.getVersion("task", "task-1")).toBe(0);
+  });
+
+  it("should stamp appended events with the current schema version", () => {
+    const event = eventStore.append("TaskStatusChanged", "task", "task-1", { from: "todo", to: "done" });
+    const row = db.prepare("SELECT schema_version FROM events WHERE event_id = ?").get(event.eventId) as {
+      schema_version: number;
+    };
+
+    expect(event.schemaVersion).toBe(currentSchemaVersion("TaskStatusChanged"));
+    expect(row.schema_version).toBe(2);
+  });
+
+  it("should upcast v1 status changes when read", () => {
+    insertRaw("TaskCreated", { projectId: "proj-1", title: "Task" }, 1, 1);
+    insertRaw("TaskStatusChanged", { status: "in_progress", previousStatus: "todo", reason: "Started" }, 2, 1);
+
+    const [, changed] = eventStore.getEvents("task", "task-1");
+
+    expect(changed.payload).toEqual({ from: "todo", to: "in_progress", reason: "Started" });
+    expect(changed.schemaVersion).toBe(2);
+    expect(eventStore.replay("task", "task-1", taskReducer)?.status).toBe("in_progress");
+  });
+
+  it("should leave v1 status changes that already use from/to unchanged", () => {
+    insertRaw("TaskStatusChanged", { from: "todo", to: "done" }, 1, 1);
+
+    expect(eventStore.getEvents("task", "task-1")[0].payload).toEqual({ from: "todo", to: "done" });
+  });
+});
+
+describe("upcastEvent", () => {
+  it("should chain registered upcasters up to the current version", () => {
+    registerUpcaster("TaskStatusChanged", 0, (payload) => ({ ...payload, reason: "legacy" }));
+
+    const event = upcastEvent({
+      eventId: "evt-1",
+      eventType: "TaskStatusChanged",
+      aggregateType: "task",
+      aggregateId: "task-1",
+      payload: { status: "done", previousStatus: "todo" },
+      createdAt: "2025-01-01T00:00:00.000Z",
+      version: 1,
+      schemaVersion: 0,
+    });
+
+    expect(event.payload).toEqual({ from: "todo", to: "done", reason: "legacy" });
+    expect(event.schemaVersion).toBe(2);
+  });
+});
@@ -4,9 +4,11 @@
  * Tests for EventStore and event reducers.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   EventStore,
+  ConcurrencyError,
+  withConcurrencyRetry,
   taskReducer,
   createTaskEvent,
   createSprintEvent,
@@ -189,6 +191,164 @@ describe("EventStore", () => {
       expect(projection!.estimatePoints).toBe(5);
     });
   });
+
+  describe("snapshots", () => {
+    const linkCommits = (count: number, from = 0) => {
+      for (let i = from; i < from + count; i++) {
+        eventStore.append("TaskLinkedToCommit", "task", "task-1", { commitSha: `sha${i}` });
+      }
+    };
+
+    beforeEach(() => {
+      eventStore.snapshotInterval = 10;
+      eventStore.append("TaskCreated", "task", "task-1", { title: "Epic", projectId: "proj-1" });
+    });
+
+    it("should not snapshot short histories", () => {
+      linkCommits(5);
+
+      eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+
+      expect(eventStore.getSnapshot("task", "task-1")).toBeUndefined();
+    });
+
+    it("should snapshot once the tail reaches the interval", () => {
+      linkCommits(12);
+
+      eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+      const snapshot = eventStore.getSnapshot<TaskProjection>("task", "task-1");
+
+      expect(snapshot?.version).toBe(13);
+      expect(snapshot?.state.linkedCommits).toHaveLength(12);
+    });
+
+    it("should replay only events after the snapshot", () => {
+      linkCommits(12);
+      eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+      linkCommits(3, 12);
+
+      const seen: number[] = [];
+      const projection = eventStore.replay<TaskProjection>("task", "task-1", (state, event) => {
+        seen.push(event.version);
+        return taskReducer(state, event);
+      });
+
+      expect(seen).toEqual([14, 15, 16]);
+      expect(projection!.title).toBe("Epic");
+      expect(projection!.linkedCommits).toHaveLength(15);
+    });
+
+    it("should match a full replay", () => {
+      linkCommits(35);
+      eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+      linkCommits(4, 35);
+
+      const fromSnapshot = eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+      const full = eventStore.getEvents("task", "task-1").reduce(taskReducer, null);
+
+      expect(fromSnapshot).toEqual(full);
+    });
+
+    it("should skip snapshots when an initial state is given or disabled", () => {
+      linkCommits(12);
+      eventStore.snapshotInterval = 0;
+      eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+      expect(eventStore.getSnapshot("task", "task-1")).toBeUndefined();
+
+      eventStore.snapshotInterval = 10;
+      const initial = { title: "Seed" } as TaskProjection;
+      eventStore.replay<TaskProjection>("task", "task-1", (state, event) =>
+        event.eventType === "TaskCreated" ? state! : taskReducer(state, event), initial);
+      expect(eventStore.getSnapshot("task", "task-1")).toBeUndefined();
+    });
+
+    it("should delete snapshots", () => {
+      linkCommits(12);
+      eventStore.replay<TaskProjection>("task", "task-1", taskReducer);
+
+      expect(eventStore.deleteSnapshots("task")).toBe(1);
+      expect(eventStore.getSnapshot("task", "task-1")).toBeUndefined();
+    });
+  });
+
+  describe("optimistic concurrency", () => {
+    beforeEach(() => {
+      eventStore.append("TaskCreated", "task", "task-1", { projectId: "proj-1", title: "Test" });
+    });
+
+    it("should append when the expected version matches", () => {
+      const event = eventStore.append("TaskUpdated", "task", "task-1", { title: "A" }, undefined, 1);
+
+      expect(event.version).toBe(2);
+      expect(eventStore.getVersion("task", "task-1")).toBe(2);
+      expect(eventStore.getVersion("task", "missing")).toBe(0);
+    });
+
+    it("should reject a stale expected version", () => {
+      eventStore.append("TaskUpdated", "task", "task-1", { title: "A" });
+
+      let error: unknown;
+      try {
+        eventStore.append("TaskUpdated", "task", "task-1", { title: "B" }, undefined, 1);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ConcurrencyError);
+      expect(error).toMatchObject({ aggregateId: "task-1", expectedVersion: 1, actualVersion: 2 });
+      expect(eventStore.getEvents("task", "task-1")).toHaveLength(2);
+    });
+
+    it("should turn a duplicate version from another writer into a ConcurrencyError", () => {
+      // The version read happened before another connection appended version 2
+      vi.spyOn(eventStore as any, "getNextVersion").mockReturnValueOnce(1);
+
+      expect(() => eventStore.append("TaskUpdated", "task", "task-1", {})).toThrow(ConcurrencyError);
+      expect(eventStore.getEvents("task", "task-1")).toHaveLength(1);
+    });
+
+    it("should roll back every append of a failed transaction", () => {
+      expect(() =>
+        eventStore.transaction(() => {
+          eventStore.append("TaskUpdated", "task", "task-1", { title: "A" }, undefined, 1);
+          eventStore.append("TaskAssigned", "task", "task-1", { assignee: "x" }, undefined, 1);
+        })
+      ).toThrow(ConcurrencyError);
+
+      expect(eventStore.getEvents("task", "task-1")).toHaveLength(1);
+    });
+  });
+});
+
+describe("withConcurrencyRetry", () => {
+  const conflict = () => new ConcurrencyError("task", "task-1", 1, 2);
+
+  it("should re-run the step after a concurrent write", () => {
+    const step = vi.fn().mockImplementationOnce(() => {
+      throw conflict();
+    }).mockReturnValue("ok");
+
+    expect(withConcurrencyRetry(step)).toBe("ok");
+    expect(step).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up after the given attempts", () => {
+    const step = vi.fn(() => {
+      throw conflict();
+    });
+
+    expect(() => withConcurrencyRetry(step, 2)).toThrow(ConcurrencyError);
+    expect(step).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry other errors", () => {
+    const step = vi.fn(() => {
+      throw new Error("boom");
+    });
+
+    expect(() => withConcurrencyRetry(step)).toThrow("boom");
+    expect(step).toHaveBeenCalledTimes(1);
+  });
 });
 
 describe("taskReducer", () => {
@@ -457,6 +617,88 @@ describe("taskReducer", () => {
     });
   });
 
+  describe("TaskDependencyAdded/Removed", () => {
+    it("should track dependencies without duplicates", () => {
+      const initialState: TaskProjection = {
+        id: "task-1",
+        projectId: "proj-1",
+        title: "Test Task",
+        status: "todo",
+        priority: "medium",
+        type: "task",
+        createdAt: "2025-01-01T00:00:00Z",
+        updatedAt: "2025-01-01T00:00:00Z",
+      };
+
+      const event = (eventType: BaseEvent["eventType"], version: number): BaseEvent => ({
+        eventId: `evt-${version}`,
+        eventType,
+        aggregateType: "task",
+        aggregateId: "task-1",
+        payload: { dependsOnId: "task-2" },
+        createdAt: "2025-01-02T00:00:00Z",
+        version,
+      });
+
+      const added = [event("TaskDependencyAdded", 2), event("TaskDependencyAdded", 3)]
+        .reduce(taskReducer, initialState);
+      expect(added.dependsOn).toEqual(["task-2"]);
+
+      const removed = taskReducer(added, event("TaskDependencyRemoved", 4));
+      expect(removed.dependsOn).toEqual([]);
+    });
+  });
+
+  describe("TaskLinkedToPR / TaskGitHubLinked", () => {
+    const initialState: TaskProjection = {
+      id: "task-1",
+      projectId: "proj-1",
+      title: "Test Task",
+      status: "todo",
+      priority: "medium",
+      type: "task",
+      linkedPRs: [],
+      createdAt: "2025-01-01T00:00:00Z",
+      updatedAt: "2025-01-01T00:00:00Z",
+    };
+
+    const event = (
+      eventType: BaseEvent["eventType"],
+      payload: Record<string, unknown>,
+      version: number
+    ): BaseEvent => ({
+      eventId: `evt-${version}`,
+      eventType,
+      aggregateType: "task",
+      aggregateId: "task-1",
+      payload,
+      createdAt: "2025-01-02T00:00:00Z",
+      version,
+    });
+
+    it("should add linked PRs without duplicates", () => {
+      const state = [
+        event("TaskLinkedToPR", { prNumber: 12 }, 2),
+        event("TaskLinkedToPR", { prNumber: 12 }, 3),
+        event("TaskLinkedToPR", { prNumber: 15 }, 4),
+      ].reduce(taskReducer, initialState);
+
+      expect(state.linkedPRs).toEqual([12, 15]);
+      expect(state.updatedAt).toBe("2025-01-02T00:00:00Z");
+    });
+
+    it("should merge GitHub link fields present in the payload", () => {
+      const state = [
+        event("TaskGitHubLinked", { issueNumber: 42, issueUrl: "https://github.com/o/r/issues/42" }, 2),
+        event("TaskGitHubLinked", { projectItemId: "PVTI_42" }, 3),
+      ].reduce(taskReducer, initialState);
+
+      expect(state.githubIssueNumber).toBe(42);
+      expect(state.githubIssueUrl).toBe("https://github.com/o/r/issues/42");
+      expect(state.githubProjectItemId).toBe("PVTI_42");
+    });
+  });
+
   describe("TaskBlocked", () => {
     it("should set blocked status and reason", () => {
       const initialState: TaskProjection = {
@@ -583,7 +825,7 @@ describe("Event Helper Functions", () => {
         eventStore,
         "SprintCreated",
         "sprint-1",
-        { name: "Sprint 1", projectId: "proj-1" }
+        { name: "Sprint 1", projectId: "proj-1", startDate: "2025-01-01", endDate: "2025-01-14" }
       );
 
       expect(event.aggregateType).toBe("sprint");
@@ -20,11 +20,16 @@ import {
   listIssues,
   createIssue,
   updateIssueState,
+  updateIssue,
   addIssueComment,
   getPR,
   createPR,
   listPRs,
   getProjectItems,
+  getProject,
+  getIssueNodeId,
+  addProjectItem,
+  updateProjectItemField,
   createRelease,
   generateReleaseNotes,
 } from "../../lib/github.js";
@@ -180,14 +185,46 @@ describe("listIssues", () => {
     expect(call).toContain("--limit 10");
   });
 
-  it("should return empty array on error", () => {
+  it("should pass repo and search qualifiers", () => {
+    mockedExecSync.mockReturnValue("[]");
+
+    listIssues({ repo: "org/repo", state: "all", search: "sort:updated-asc" });
+
+    const call = mockedExecSync.mock.calls[0][0] as string;
+    expect(call).toContain("--repo org/repo");
+    expect(call).toContain('--search "sort:updated-asc"');
+    expect(call).toContain("--json number,url,");
+  });
+
+  it("should normalize gh state casing", () => {
+    mockedExecSync.mockReturnValue(
+      JSON.stringify([
+        {
+          number: 3,
+          url: "https://github.com/org/repo/issues/3",
+          title: "Closed",
+          body: "",
+          state: "CLOSED",
+          labels: [],
+          assignees: [],
+          createdAt: "2025-01-01T00:00:00Z",
+          updatedAt: "2025-01-01T00:00:00Z",
+        },
+      ])
+    );
+
+    const [issue] = listIssues();
+
+    expect(issue.state).toBe("closed");
+    expect(issue.url).toBe("https://github.com/org/repo/issues/3");
+  });
+
+  it("should throw on error", () => {
     mockedExecSync.mockImplementation(() => {
       throw new Error("Error");
     });
 
-    const result = listIssues();
-
-    expect(result).toEqual([]);
+    expect(() => listIssues()).toThrow();
   });
 });
 
@@ -269,6 +306,52 @@ describe("updateIssueState", () => {
   });
 });
 
+describe("updateIssue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should edit title, labels and assignees", () => {
+    mockedExecSync.mockReturnValue("");
+
+    const result = updateIssue(
+      42,
+      { title: "New title", addLabels: ["a", "b"], removeLabels: ["c"], addAssignees: ["bob"] },
+      "org/repo"
+    );
+
+    expect(result).toBe(true);
+    expect(mockedExecSync).toHaveBeenCalledWith(
+      'gh issue edit 42 --repo org/repo --title "New title" --add-label "a,b" --remove-label "c" --add-assignee "bob"',
+      expect.any(Object)
+    );
+  });
+
+  it("should escape shell characters in free text", () => {
+    mockedExecSync.mockReturnValue("");
+
+    updateIssue(42, { body: 'Use "$HOME" and `ls`' });
+
+    expect(mockedExecSync).toHaveBeenCalledWith(
+      'gh issue edit 42 --body "Use \\"\\$HOME\\" and \\`ls\\`"',
+      expect.any(Object)
+    );
+  });
+
+  it("should skip the call when nothing changes", () => {
+    expect(updateIssue(42, { addLabels: [] }, "org/repo")).toBe(true);
+    expect(mockedExecSync).not.toHaveBeenCalled();
+  });
+
+  it("should return false on error", () => {
+    mockedExecSync.mockImplementation(() => {
+      throw new Error("Error");
+    });
+
+    expect(updateIssue(42, { title: "x" })).toBe(false);
+  });
+});
+
 describe("addIssueComment", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -528,51 +611,85 @@ describe("getProjectItems", () => {
     vi.clearAllMocks();
   });
 
-  it("should return project items for an issue", () => {
+  const response = (typename: string, number: number, items: unknown[]) =>
+    JSON.stringify({
+      data: {
+        repository: {
+          issueOrPullRequest: {
+            __typename: typename,
+            number,
+            projectItems: { nodes: items },
+          },
+        },
+      },
+    });
+
+  it("should return project items with all field value types", () => {
     mockedExecSync.mockReturnValue(
-      JSON.stringify({
-        projectItems: {
-          nodes: [
-            {
-              id: "proj-item-1",
-              project: { number: 1 },
-              content: { number: 42, type: "Issue" },
-              fieldValues: {
-                nodes: [
-                  { field: { name: "Status" }, text: "In Progress" },
-                  { field: { name: "Priority" }, text: "High" },
-                  { field: { name: "Empty" } }, // No text field
-                ],
-              },
-            },
-          ],
+      response("Issue", 42, [
+        {
+          id: "proj-item-1",
+          project: { id: "PVT_1", number: 1 },
+          fieldValues: {
+            nodes: [
+              { field: { name: "Status" }, name: "In Progress" },
+              { field: { name: "Priority" }, name: "High" },
+              { field: { name: "Estimate" }, number: 5 },
+              { field: { name: "Iteration" }, title: "Sprint 3" },
+              { field: { name: "Notes" }, text: "hello" },
+              {}, // Unsupported value type
+            ],
+          },
         },
-      })
+      ])
     );
 
-    const result = getProjectItems(42);
+    const result = getProjectItems(42, "org/repo");
 
     expect(result).toHaveLength(1);
     expect(result[0].id).toBe("proj-item-1");
+    expect(result[0].projectId).toBe("PVT_1");
+    expect(result[0].projectNumber).toBe(1);
     expect(result[0].contentId).toBe(42);
     expect(result[0].contentType).toBe("Issue");
-    expect(result[0].fields.Status).toBe("In Progress");
-    expect(result[0].fields.Priority).toBe("High");
-    expect(result[0].fields.Empty).toBeUndefined();
+    expect(result[0].status).toBe("In Progress");
+    expect(result[0].fields).toEqual({
+      Status: "In Progress",
+      Priority: "High",
+      Estimate: 5,
+      Iteration: "Sprint 3",
+      Notes: "hello",
+    });
   });
 
-  it("should return empty array when no project items", () => {
-    mockedExecSync.mockReturnValue(
-      JSON.stringify({
-        projectItems: {
-          nodes: [],
-        },
-      })
+  it("should send a GraphQL query with repo variables on stdin", () => {
+    mockedExecSync.mockReturnValue(response("Issue", 42, []));
+
+    getProjectItems(42, "org/repo");
+
+    expect(mockedExecSync).toHaveBeenCalledWith(
+      "gh api graphql --input -",
+      expect.objectContaining({ input: expect.any(String) })
     );
+    const options = mockedExecSync.mock.calls[0][1] as { input: string };
+    expect(JSON.parse(options.input).variables).toEqual({ owner: "org", name: "repo", number: 42 });
+  });
 
-    const result = getProjectItems(42);
+  it("should fall back to the current repository", () => {
+    mockedExecSync
+      .mockReturnValueOnce(JSON.stringify({ owner: { login: "me" }, name: "here" }))
+      .mockReturnValueOnce(response("Issue", 42, []));
 
-    expect(result).toEqual([]);
+    getProjectItems(42);
+
+    const options = mockedExecSync.mock.calls[1][1] as { input: string };
+    expect(JSON.parse(options.input).variables).toMatchObject({ owner: "me", name: "here" });
+  });
+
+  it("should return empty array when no project items", () => {
+    mockedExecSync.mockReturnValue(response("Issue", 42, []));
+
+    expect(getProjectItems(42, "org/repo")).toEqual([]);
   });
 
   it("should return empty array on error", () => {
@@ -580,32 +697,155 @@ describe("getProjectItems", () => {
       throw new Error("Error");
     });
 
-    const result = getProjectItems(42);
+    expect(getProjectItems(42, "org/repo")).toEqual([]);
+  });
 
-    expect(result).toEqual([]);
+  it("should return empty array on GraphQL errors", () => {
+    mockedExecSync.mockReturnValue(JSON.stringify({ errors: [{ message: "Bad" }] }));
+
+    expect(getProjectItems(42, "org/repo")).toEqual([]);
   });
 
   it("should handle PullRequest content type", () => {
+    mockedExecSync.mockReturnValue(
+      response("PullRequest", 10, [
+        {
+          id: "proj-item-2",
+          project: { id: "PVT_1", number: 1 },
+          fieldValues: { nodes: [{ field: { name: "Status" }, name: "Review" }] },
+        },
+      ])
+    );
+
+    const result = getProjectItems(10, "org/repo");
+
+    expect(result[0].contentType).toBe("PullRequest");
+    expect(result[0].status).toBe("Review");
+  });
+});
+
+describe("getProject", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should resolve project fields, options and iterations", () => {
     mockedExecSync.mockReturnValue(
       JSON.stringify({
-        projectItems: {
-          nodes: [
-            {
-              id: "proj-item-2",
-              project: { number: 1 },
-              content: { number: 10, type: "PullRequest" },
-              fieldValues: {
-                nodes: [{ field: { name: "Status" }, text: "Review" }],
+        data: {
+          repositoryOwner: {
+            projectV2: {
+              id: "PVT_1",
+              number: 3,
+              title: "Roadmap",
+              fields: {
+                nodes: [
+                  { id: "F_title", name: "Title", dataType: "TITLE" },
+                  {
+                    id: "F_status",
+                    name: "Status",
+                    dataType: "SINGLE_SELECT",
+                    options: [{ id: "o1", name: "Todo" }],
+                  },
+                  {
+                    id: "F_iter",
+                    name: "Iteration",
+                    dataType: "ITERATION",
+                    configuration: {
+                      iterations: [{ id: "i1", title: "Sprint 1", startDate: "2025-01-06", duration: 14 }],
+                    },
+                  },
+                  {},
+                ],
               },
             },
-          ],
+          },
         },
       })
     );
 
-    const result = getProjectItems(10);
+    const project = getProject("org", 3);
 
-    expect(result[0].contentType).toBe("PullRequest");
+    expect(project?.id).toBe("PVT_1");
+    expect(project?.fields).toHaveLength(3);
+    expect(project?.fields[1].options).toEqual([{ id: "o1", name: "Todo" }]);
+    expect(project?.fields[2].iterations?.[0].title).toBe("Sprint 1");
+  });
+
+  it("should return null when the project does not exist", () => {
+    mockedExecSync.mockReturnValue(JSON.stringify({ data: { repositoryOwner: { projectV2: null } } }));
+
+    expect(getProject("org", 99)).toBeNull();
+  });
+});
+
+describe("getIssueNodeId", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return the issue node id", () => {
+    mockedExecSync.mockReturnValue(JSON.stringify({ id: "I_kw123" }));
+
+    expect(getIssueNodeId(42, "org/repo")).toBe("I_kw123");
+    expect(mockedExecSync).toHaveBeenCalledWith(
+      "gh issue view 42 --repo org/repo --json id",
+      expect.any(Object)
+    );
+  });
+
+  it("should return null on error", () => {
+    mockedExecSync.mockImplementation(() => {
+      throw new Error("Not found");
+    });
+
+    expect(getIssueNodeId(42)).toBeNull();
+  });
+});
+
+describe("addProjectItem", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return the new item id", () => {
+    mockedExecSync.mockReturnValue(
+      JSON.stringify({ data: { addProjectV2ItemById: { item: { id: "PVTI_1" } } } })
+    );
+
+    expect(addProjectItem("PVT_1", "I_kw123")).toBe("PVTI_1");
+    const options = mockedExecSync.mock.calls[0][1] as { input: string };
+    expect(JSON.parse(options.input).variables).toEqual({ projectId: "PVT_1", contentId: "I_kw123" });
+  });
+
+  it("should return null on error", () => {
+    mockedExecSync.mockReturnValue(JSON.stringify({ errors: [{ message: "Forbidden" }] }));
+
+    expect(addProjectItem("PVT_1", "I_kw123")).toBeNull();
+  });
+});
+
+describe("updateProjectItemField", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should send the field value", () => {
+    mockedExecSync.mockReturnValue(
+      JSON.stringify({ data: { updateProjectV2ItemFieldValue: { projectV2Item: { id: "PVTI_1" } } } })
+    );
+
+    expect(updateProjectItemField("PVT_1", "PVTI_1", "F_status", { singleSelectOptionId: "o1" })).toBe(true);
+    const options = mockedExecSync.mock.calls[0][1] as { input: string };
+    expect(JSON.parse(options.input).variables.value).toEqual({ singleSelectOptionId: "o1" });
+  });
+
+  it("should return false on error", () => {
+    mockedExecSync.mockImplementation(() => {
+      throw new Error("Error");
+    });
+
+    expect(updateProjectItemField("PVT_1", "PVTI_1", "F_est", { number: 3 })).toBe(false);
   });
 });
 
@@ -0,0 +1,245 @@
+/**
+ * GitHub Projects v2 Sync Unit Tests
+ *
+ * Field resolution and item sync with a mocked GitHub module.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../lib/github.js", () => ({
+  getRepoInfo: vi.fn(),
+  getIssue: vi.fn(),
+  listIssues: vi.fn(),
+  updateIssueState: vi.fn(),
+  addIssueComment: vi.fn(),
+  getProject: vi.fn(),
+  getIssueNodeId: vi.fn(),
+  addProjectItem: vi.fn(),
+  updateProjectItemField: vi.fn(),
+}));
+
+import {
+  getProject,
+  getIssueNodeId,
+  addProjectItem,
+  updateProjectItemField,
+  type GitHubProject,
+} from "../../lib/github.js";
+import {
+  resolveProjectFieldUpdates,
+  syncIssueToProject,
+  toProjectItemSyncInput,
+  processSyncQueue,
+  createSyncQueueItem,
+  type ProjectItemSyncInput,
+} from "../../lib/sync.js";
+import type { Task, ProjectConfig } from "../../mcp/lib/projections.js";
+
+const mockedGetProject = vi.mocked(getProject);
+const mockedGetIssueNodeId = vi.mocked(getIssueNodeId);
+const mockedAddProjectItem = vi.mocked(addProjectItem);
+const mockedUpdateProjectItemField = vi.mocked(updateProjectItemField);
+
+const board: GitHubProject = {
+  id: "PVT_1",
+  number: 3,
+  title: "Roadmap",
+  fields: [
+    {
+      id: "F_status",
+      name: "Status",
+      dataType: "SINGLE_SELECT",
+      options: [
+        { id: "s_todo", name: "Todo" },
+        { id: "s_prog", name: "In Progress" },
+        { id: "s_review", name: "Review" },
+        { id: "s_done", name: "Done" },
+      ],
+    },
+    {
+      id: "F_priority",
+      name: "Priority",
+      dataType: "SINGLE_SELECT",
+      options: [
+        { id: "p_high", name: "high" },
+        { id: "p_p0", name: "P0" },
+      ],
+    },
+    { id: "F_estimate", name: "Estimate", dataType: "NUMBER" },
+    {
+      id: "F_iter",
+      name: "Iteration",
+      dataType: "ITERATION",
+      iterations: [
+        { id: "i1", title: "Iteration 1", startDate: "2025-01-06", duration: 14 },
+        { id: "i2", title: "Iteration 2", startDate: "2025-01-20", duration: 14 },
+      ],
+    },
+  ],
+};
+
+const input: ProjectItemSyncInput = {
+  repo: "org/repo",
+  projectNumber: 3,
+  issueNumber: 42,
+  status: "in_progress",
+  priority: "high",
+  estimatePoints: 5,
+  iteration: { title: "Iteration 2" },
+};
+
+describe("resolveProjectFieldUpdates", () => {
+  it("should map status, priority, estimate and iteration", () => {
+    const { updates, skipped } = resolveProjectFieldUpdates(board, input);
+
+    expect(skipped).toEqual([]);
+    expect(updates.map((u) => [u.field, u.value])).toEqual([
+      ["Status", { singleSelectOptionId: "s_prog" }],
+      ["Priority", { singleSelectOptionId: "p_high" }],
+      ["Estimate", { number: 5 }],
+      ["Iteration", { iterationId: "i2" }],
+    ]);
+  });
+
+  it("should report statuses without a matching option", () => {
+    const { updates, skipped } = resolveProjectFieldUpdates(board, { ...input, status: "in_review" });
+
+    expect(updates.find((u) => u.field === "Status")).toBeUndefined();
+    expect(skipped).toContain('Status: no option "In Review"');
+  });
+
+  it("should apply configured option overrides", () => {
+    const { updates } = resolveProjectFieldUpdates(board, {
+      ...input,
+      status: "in_review",
+      priority: "critical",
+      fieldMappings: JSON.stringify({
+        statusValues: { in_review: "Review" },
+        priorityValues: { critical: "P0" },
+      }),
+    });
+
+    expect(updates.find((u) => u.field === "Status")?.value).toEqual({ singleSelectOptionId: "s_review" });
+    expect(updates.find((u) => u.field === "Priority")?.value).toEqual({ singleSelectOptionId: "p_p0" });
+  });
+
+  it("should match an iteration by sprint start date", () => {
+    const { updates } = resolveProjectFieldUpdates(board, {
+      ...input,
+      iteration: { title: "Sprint 7", startDate: "2025-01-10" },
+    });
+
+    expect(updates.find((u) => u.field === "Iteration")?.value).toEqual({ iterationId: "i1" });
+  });
+
+  it("should skip fields disabled in the mappings", () => {
+    const { updates } = resolveProjectFieldUpdates(board, {
+      ...input,
+      fieldMappings: JSON.stringify({ estimate: null, iteration: null }),
+    });
+
+    expect(updates.map((u) => u.field)).toEqual(["Status", "Priority"]);
+  });
+});
+
+describe("syncIssueToProject", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should add the issue to the project and set fields", () => {
+    mockedGetProject.mockReturnValue(board);
+    mockedGetIssueNodeId.mockReturnValue("I_42");
+    mockedAddProjectItem.mockReturnValue("PVTI_42");
+    mockedUpdateProjectItemField.mockReturnValue(true);
+
+    const result = syncIssueToProject(input);
+
+    expect(mockedGetProject).toHaveBeenCalledWith("org", 3);
+    expect(mockedAddProjectItem).toHaveBeenCalledWith("PVT_1", "I_42");
+    expect(mockedUpdateProjectItemField).toHaveBeenCalledWith(
+      "PVT_1",
+      "PVTI_42",
+      "F_status",
+      { singleSelectOptionId: "s_prog" }
+    );
+    expect(result).toEqual({
+      projectId: "PVT_1",
+      itemId: "PVTI_42",
+      updated: ["Status=In Progress", "Priority=high", "Estimate=5", "Iteration=Iteration 2"],
+      skipped: [],
+    });
+  });
+
+  it("should reuse a known item id", () => {
+    mockedUpdateProjectItemField.mockReturnValue(true);
+
+    syncIssueToProject({ ...input, itemId: "PVTI_known" }, board);
+
+    expect(mockedGetProject).not.toHaveBeenCalled();
+    expect(mockedAddProjectItem).not.toHaveBeenCalled();
+    expect(mockedUpdateProjectItemField.mock.calls[0][1]).toBe("PVTI_known");
+  });
+
+  it("should throw when the project cannot be resolved", () => {
+    mockedGetProject.mockReturnValue(null);
+
+    expect(() => syncIssueToProject(input)).toThrow("GitHub project not found: org/3");
+  });
+
+  it("should throw when a field update fails", () => {
+    mockedUpdateProjectItemField.mockReturnValue(false);
+
+    expect(() => syncIssueToProject({ ...input, itemId: "PVTI_1" }, board)).toThrow(
+      "Failed to set Status on #42"
+    );
+  });
+
+  it("should be retried through the sync queue", () => {
+    mockedGetProject.mockReturnValue(null);
+    const item = createSyncQueueItem("update_project", "issue", "42", input);
+
+    processSyncQueue([item], { githubEnabled: true, syncMode: "bidirectional", projectId: "p1" });
+
+    expect(item.status).toBe("failed");
+    expect(item.errorMessage).toBe("GitHub project not found: org/3");
+  });
+});
+
+describe("toProjectItemSyncInput", () => {
+  const config = {
+    project_id: "p1",
+    github_repo: "org/repo",
+    github_project_number: 3,
+    field_mappings: '{"estimate":"Points"}',
+  } as ProjectConfig;
+
+  it("should build input from a linked task and its sprint", () => {
+    const task = {
+      status: "done",
+      priority: "low",
+      estimate_points: 8,
+      github_issue_number: 42,
+      github_project_item_id: "PVTI_42",
+    } as Task;
+
+    expect(toProjectItemSyncInput(task, config, { name: "Sprint 1", start_date: "2025-01-06" })).toEqual({
+      repo: "org/repo",
+      projectNumber: 3,
+      issueNumber: 42,
+      itemId: "PVTI_42",
+      status: "done",
+      priority: "low",
+      estimatePoints: 8,
+      iteration: { title: "Sprint 1", startDate: "2025-01-06" },
+      fieldMappings: '{"estimate":"Points"}',
+    });
+  });
+
+  it("should return undefined for unlinked tasks or missing project config", () => {
+    expect(toProjectItemSyncInput({ status: "todo" } as Task, config)).toBeUndefined();
+    expect(
+      toProjectItemSyncInput({ github_issue_number: 1 } as Task, { ...config, github_project_number: undefined })
+    ).toBeUndefined();
+  });
+});
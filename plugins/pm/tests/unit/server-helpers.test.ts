@@ -22,6 +22,7 @@ import {
   getGitStatus,
   getGitStats,
   getGitHotspots,
+  getCommitMessage,
   formatBurndownChart,
   getSprintPlanningPrompt,
   getRetrospectivePrompt,
@@ -33,6 +34,7 @@ import {
   VELOCITY_METHOD_TEXT,
   PM_CONVENTIONS_MD,
   TOOL_SCHEMAS,
+  ToolArgs,
 } from "../../mcp/lib/server-helpers.js";
 
 const mockedExecSync = vi.mocked(execSync);
@@ -463,6 +465,39 @@ describe("getGitHotspots", () => {
   });
 });
 
+describe("getCommitMessage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return full sha and message", () => {
+    mockedExecFileSync.mockReturnValue(
+      "abc123def456\nfix(auth): handle expired tokens\n\nfixes #12\n\n"
+    );
+
+    const result = getCommitMessage("HEAD");
+
+    expect(result).toEqual({
+      sha: "abc123def456",
+      message: "fix(auth): handle expired tokens\n\nfixes #12",
+    });
+    expect(mockedExecFileSync.mock.calls[0][1]).toEqual([
+      "show",
+      "-s",
+      "--format=%H%n%B",
+      "HEAD",
+    ]);
+  });
+
+  it("should return null for unknown commit", () => {
+    mockedExecFileSync.mockImplementation(() => {
+      throw new Error("bad revision");
+    });
+
+    expect(getCommitMessage("deadbeef")).toBeNull();
+  });
+});
+
 describe("formatBurndownChart", () => {
   it("should format burndown data", () => {
     const burndown = [
@@ -689,3 +724,45 @@ describe("TOOL_SCHEMAS", () => {
     expect(tool.inputSchema.required).toContain("projectId");
   });
 });
+
+describe("ToolArgs", () => {
+  const args = new ToolArgs({
+    taskId: "#3",
+    limit: 5,
+    force: true,
+    labels: ["bug"],
+    fields: { title: "remote" },
+    swimlane: "epic",
+    goal: null,
+  });
+
+  it("should read present values and leave missing ones undefined", () => {
+    expect(args.string("taskId")).toBe("#3");
+    expect(args.number("limit")).toBe(5);
+    expect(args.boolean("force")).toBe(true);
+    expect(args.strings("labels")).toEqual(["bug"]);
+    expect(args.record("fields")).toEqual({ title: "remote" });
+    expect(args.oneOf("swimlane", ["assignee", "epic"])).toBe("epic");
+    expect(args.string("goal")).toBeUndefined();
+    expect(args.number("missing")).toBeUndefined();
+    expect(new ToolArgs().string("taskId")).toBeUndefined();
+  });
+
+  it("should reject values of the wrong type", () => {
+    expect(() => args.string("limit")).toThrow("Invalid argument limit: expected a string");
+    expect(() => args.number("taskId")).toThrow("Invalid argument taskId: expected a number");
+    expect(() => args.strings("taskId")).toThrow("Invalid argument taskId: expected an array of strings");
+    expect(() => new ToolArgs({ taskIds: ["a", 1] }).strings("taskIds")).toThrow("expected an array of strings");
+    expect(() => args.record("labels")).toThrow("Invalid argument labels: expected an object");
+    expect(() => args.oneOf("taskId", ["assignee", "epic"])).toThrow(
+      "Invalid argument taskId: expected one of assignee, epic"
+    );
+  });
+
+  it("should require arguments", () => {
+    expect(args.requireString("taskId")).toBe("#3");
+    expect(() => args.requireString("sprintId")).toThrow("Missing argument: sprintId");
+    expect(() => args.requireNumber("conflictId")).toThrow("Missing argument: conflictId");
+    expect(() => args.requireOneOf("resolution", ["local", "remote"])).toThrow("Missing argument: resolution");
+  });
+});
@@ -11,6 +11,9 @@ import {
   pmToLabels,
   issueToPMStatus,
   projectStatusToPM,
+  parseFieldMappings,
+  pmToProjectOption,
+  DEFAULT_FIELD_MAPPINGS,
   magicWordToStatus,
   parseStatusChangesFromMessage,
   branchTypeToTaskType,
@@ -184,6 +187,38 @@ describe("projectStatusToPM", () => {
   });
 });
 
+describe("parseFieldMappings", () => {
+  it("should return defaults when unset or invalid", () => {
+    expect(parseFieldMappings(undefined)).toEqual(DEFAULT_FIELD_MAPPINGS);
+    expect(parseFieldMappings("not json")).toEqual(DEFAULT_FIELD_MAPPINGS);
+  });
+
+  it("should merge overrides over defaults", () => {
+    const mappings = parseFieldMappings(
+      JSON.stringify({ estimate: "Points", iteration: null, priorityValues: { critical: "P0" } })
+    );
+
+    expect(mappings.status).toBe("Status");
+    expect(mappings.estimate).toBe("Points");
+    expect(mappings.iteration).toBeNull();
+    expect(mappings.priorityValues.critical).toBe("P0");
+    expect(mappings.priorityValues.high).toBe("High");
+  });
+});
+
+describe("pmToProjectOption", () => {
+  it("should default to pmToProjectStatus", () => {
+    expect(pmToProjectOption("in_review")).toBe("In Review");
+  });
+
+  it("should honor statusValues overrides", () => {
+    const mappings = parseFieldMappings(JSON.stringify({ statusValues: { in_review: "Review" } }));
+
+    expect(pmToProjectOption("in_review", mappings)).toBe("Review");
+    expect(pmToProjectOption("done", mappings)).toBe("Done");
+  });
+});
+
 describe("magicWordToStatus", () => {
   it("should map fixes to done", () => {
     expect(magicWordToStatus("fixes")).toBe("done");
@@ -29,7 +29,14 @@ import {
 } from "../../lib/github.js";
 
 // Import after mocking
-import { SyncEngine, createSyncEngine, type LocalTask } from "../../lib/sync-engine.js";
+import {
+  SyncEngine,
+  createSyncEngine,
+  diffTaskAndIssue,
+  type LocalTask,
+  type SyncConflict,
+} from "../../lib/sync-engine.js";
+import type { GitHubIssue } from "../../lib/github.js";
 
 const mockedGetRepoInfo = vi.mocked(getRepoInfo);
 const mockedIsAuthenticated = vi.mocked(isAuthenticated);
@@ -174,6 +181,47 @@ describe("SyncEngine", () => {
       expect(result.conflicts[0].remoteStatus).toBe("done");
     });
 
+    it("should record field-level conflicts in the conflict store", async () => {
+      mockedListIssues.mockReturnValue([
+        {
+          number: 1,
+          title: "Remote title",
+          body: "Remote body",
+          state: "open",
+          labels: ["backend", "in-progress"],
+          assignees: ["bob"],
+          createdAt: "2025-01-01T00:00:00Z",
+          updatedAt: "2025-01-02T00:00:00Z",
+        },
+      ]);
+
+      const recorded: SyncConflict[] = [];
+      const engine = new SyncEngine(
+        { enabled: true, conflictResolution: "manual" },
+        { record: (c) => recorded.push(c) }
+      );
+      const result = await engine.pullFromGitHub([
+        {
+          id: "t1",
+          title: "Local title",
+          description: "Remote body",
+          status: "in_progress",
+          issueNumber: 1,
+          updatedAt: "2025-01-03T00:00:00Z",
+          labels: ["frontend"],
+          assignee: "alice",
+        },
+      ]);
+
+      expect(mockedListIssues).toHaveBeenCalledWith({ repo: "myorg/myrepo", state: "all", limit: 100 });
+      expect(recorded).toEqual(result.conflicts);
+      expect(recorded[0].fields).toEqual([
+        { field: "title", local: "Local title", remote: "Remote title" },
+        { field: "labels", local: ["frontend"], remote: ["backend"] },
+        { field: "assignee", local: "alice", remote: "bob" },
+      ]);
+    });
+
     it("should update local when github wins", async () => {
       mockedListIssues.mockReturnValue([
         {
@@ -498,3 +546,53 @@ describe("createSyncEngine", () => {
     expect(engine.canSync()).toBe(true);
   });
 });
+
+describe("diffTaskAndIssue", () => {
+  const issue: GitHubIssue = {
+    number: 1,
+    title: "Title",
+    body: "",
+    state: "open",
+    labels: ["blocked", "api"],
+    assignees: [],
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-01T00:00:00Z",
+  };
+
+  const task: LocalTask = {
+    id: "t1",
+    title: "Title",
+    status: "blocked",
+    updatedAt: "2025-01-01T00:00:00Z",
+  };
+
+  it("should ignore fields the local task does not track", () => {
+    expect(diffTaskAndIssue(task, issue)).toEqual([]);
+  });
+
+  it("should ignore status labels and label order", () => {
+    expect(diffTaskAndIssue({ ...task, labels: ["api"] }, issue)).toEqual([]);
+  });
+
+  it("should treat empty description and missing body as equal", () => {
+    expect(diffTaskAndIssue({ ...task, description: "" }, issue)).toEqual([]);
+  });
+
+  it("should report description and unassigned differences", () => {
+    const diffs = diffTaskAndIssue(
+      { ...task, description: "Details", assignee: null },
+      { ...issue, assignees: ["bob"] }
+    );
+
+    expect(diffs).toEqual([
+      { field: "description", local: "Details", remote: null },
+      { field: "assignee", local: null, remote: "bob" },
+    ]);
+  });
+
+  it("should report status differences", () => {
+    expect(diffTaskAndIssue({ ...task, status: "done" }, issue)).toEqual([
+      { field: "status", local: "done", remote: "blocked" },
+    ]);
+  });
+});
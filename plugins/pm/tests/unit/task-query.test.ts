@@ -0,0 +1,104 @@
+/**
+ * Task Query Unit Tests
+ *
+ * Tests for parsing the pm_task_list query language and building SQL from it.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseTaskQuery,
+  parseTaskSort,
+  taskQueryConditions,
+  taskCursorCondition,
+  encodeTaskCursor,
+  toFtsQuery,
+  TaskQueryError,
+} from "../../mcp/lib/task-query.js";
+
+describe("parseTaskQuery", () => {
+  it("should parse fields, lists, operators, negation and quotes", () => {
+    const query = parseTaskQuery(
+      'status:in_progress,in_review priority:>=high -assignee:me text:"login page" flaky'
+    );
+
+    expect(query.terms).toEqual([
+      { field: "status", operator: "=", values: ["in_progress", "in_review"], negated: false },
+      { field: "priority", operator: ">=", values: ["high"], negated: false },
+      { field: "assignee", operator: "=", values: ["me"], negated: true },
+      { field: "text", operator: "=", values: ["login page"], negated: false },
+      { field: "text", operator: "=", values: ["flaky"], negated: false },
+    ]);
+    expect(query.sort).toEqual([]);
+  });
+
+  it("should read sort keys from the query", () => {
+    expect(parseTaskQuery("sort:due,-priority").sort).toEqual([
+      { field: "due", descending: false },
+      { field: "priority", descending: true },
+    ]);
+  });
+
+  it("should reject unknown fields and unsupported operators", () => {
+    expect(() => parseTaskQuery("owner:alice")).toThrow("Unknown field owner");
+    expect(() => parseTaskQuery("status:>todo")).toThrow("status does not support >");
+    expect(() => parseTaskQuery("due:<2026-01-01,2026-02-01")).toThrow("takes a single value");
+    expect(() => parseTaskQuery('text:"open')).toThrow(TaskQueryError);
+    expect(() => parseTaskSort("-owner")).toThrow("Cannot sort by owner");
+  });
+});
+
+describe("taskQueryConditions", () => {
+  it("should bind values as parameters", () => {
+    const [label, text] = taskQueryConditions(parseTaskQuery("label:backend text:100%"));
+
+    expect(label.sql).not.toContain("backend");
+    expect(label.params).toEqual(["backend"]);
+    expect(text.params).toEqual(["%100\\%%", "%100\\%%"]);
+  });
+
+  it("should rank priorities for comparisons", () => {
+    const [condition] = taskQueryConditions(parseTaskQuery("priority:>=high"));
+
+    expect(condition.sql).toMatch(/^CASE priority .* >= \?$/);
+    expect(condition.params).toEqual([3]);
+  });
+
+  it("should resolve me and relative dates", () => {
+    const [assignee, due] = taskQueryConditions(parseTaskQuery("assignee:me,none due:<+7d"), {
+      me: () => "alice",
+      now: new Date("2026-10-19T12:00:00Z"),
+    });
+
+    expect(assignee.sql).toBe("(assignee IS NULL OR (assignee IS NOT NULL AND assignee = ?))");
+    expect(assignee.params).toEqual(["alice"]);
+    expect(due.params).toEqual(["2026-10-26"]);
+  });
+
+  it("should reject values it cannot interpret", () => {
+    expect(() => taskQueryConditions(parseTaskQuery("assignee:me"))).toThrow("Cannot resolve assignee:me");
+    expect(() => taskQueryConditions(parseTaskQuery("priority:urgent"))).toThrow("Unknown priority urgent");
+    expect(() => taskQueryConditions(parseTaskQuery("due:<soon"))).toThrow("Invalid date for due");
+  });
+});
+
+describe("taskCursorCondition", () => {
+  it("should reject cursors from another sort order", () => {
+    const cursor = encodeTaskCursor(parseTaskSort("due"), ["2026-11-01", "task-1"]);
+
+    expect(taskCursorCondition(cursor, parseTaskSort("due")).params).toEqual([
+      "2026-11-01",
+      "2026-11-01",
+      "task-1",
+    ]);
+    expect(() => taskCursorCondition(cursor, parseTaskSort("-due"))).toThrow("different sort order");
+    expect(() => taskCursorCondition("not-a-cursor", parseTaskSort("due"))).toThrow("Invalid cursor");
+  });
+});
+
+describe("toFtsQuery", () => {
+  it("should quote terms so input cannot break the FTS syntax", () => {
+    expect(toFtsQuery('login "redirect loop" OR oauth')).toBe('"login"* "redirect loop" OR "oauth"*');
+    expect(toFtsQuery("title:foo AND bar*")).toBe('"title:foo"* "AND"* "bar*"*');
+    expect(toFtsQuery("OR cache OR")).toBe('"cache"*');
+  });
+});